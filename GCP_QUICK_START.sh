@@ -265,7 +265,7 @@ step_configure_env() {
     REDIS_CONNECTION=$(cat .gcp_redis_connection)
     
     # Ask for sensitive values
-    read -p "Enter JWT_SECRET: " JWT_SECRET
+    read -p "Enter the Secret Manager secret holding the JWT key manifest: " JWT_KEYS_SECRET
     read -p "Enter TWILIO_ACCOUNT_SID: " TWILIO_SID
     read -sp "Enter TWILIO_AUTH_TOKEN: " TWILIO_TOKEN
     echo
@@ -275,6 +275,7 @@ step_configure_env() {
     
     gcloud run services update $SERVICE_NAME \
         --region=$REGION \
+        --set-secrets=/secrets/jwt/jwt-keys.json=$JWT_KEYS_SECRET:latest \
         --set-env-vars="\
 NODE_ENV=production,\
 PORT=3000,\
@@ -285,8 +286,8 @@ DATABASE_USER=wisereels_app,\
 DATABASE_PASSWORD=$APP_PASSWORD,\
 REDIS_HOST=$REDIS_HOST,\
 REDIS_PORT=$REDIS_PORT,\
-JWT_SECRET=$JWT_SECRET,\
-JWT_EXPIRE=7d,\
+JWT_KEYS_FILE=/secrets/jwt/jwt-keys.json,\
+JWT_EXPIRY=15m,\
 TWILIO_ACCOUNT_SID=$TWILIO_SID,\
 TWILIO_AUTH_TOKEN=$TWILIO_TOKEN,\
 TWILIO_PHONE_NUMBER=$TWILIO_PHONE,\
@@ -18,6 +18,7 @@ CREATE TABLE IF NOT EXISTS users (
   first_name VARCHAR(50),
   last_name VARCHAR(50),
   email VARCHAR(255),
+  email_verified_at TIMESTAMP,
   bio TEXT,
   avatar_url TEXT,
   follower_count INTEGER DEFAULT 0,
@@ -29,8 +30,11 @@ CREATE TABLE IF NOT EXISTS users (
   last_login_ip VARCHAR(50),
   settings JSONB DEFAULT '{}',
   account_status VARCHAR(20) DEFAULT 'ACTIVE',
+  -- Issued in access tokens at login and refresh; promote an admin by setting it here
+  role VARCHAR(10) NOT NULL DEFAULT 'USER' CHECK (role IN ('USER', 'CREATOR', 'ADMIN')),
   account_created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at TIMESTAMP,
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -49,6 +53,25 @@ CREATE TABLE IF NOT EXISTS blocks (
   PRIMARY KEY (blocker_id, blocked_id)
 );
 
+-- Creator profiles; total_views and total_earnings (points) are kept in step by the revenue share subsystem
+CREATE TABLE IF NOT EXISTS creators (
+  id UUID PRIMARY KEY,
+  user_id UUID UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credential_type VARCHAR(20) NOT NULL DEFAULT 'NONE' CHECK (credential_type IN ('CA', 'DOCTOR', 'TRAINER', 'NONE')),
+  credential_id VARCHAR(100),
+  issuing_body VARCHAR(255),
+  expiry_date DATE,
+  verification_status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (verification_status IN ('PENDING', 'VERIFIED', 'REJECTED', 'EXPIRED')),
+  verified_at TIMESTAMP,
+  verified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  can_post_restricted_content BOOLEAN NOT NULL DEFAULT FALSE,
+  subscriber_count INTEGER NOT NULL DEFAULT 0,
+  total_views BIGINT NOT NULL DEFAULT 0,
+  total_earnings BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- Videos & Metadata
 CREATE TABLE IF NOT EXISTS videos (
   id UUID PRIMARY KEY,
@@ -58,6 +81,7 @@ CREATE TABLE IF NOT EXISTS videos (
   title VARCHAR(255) NOT NULL,
   description TEXT,
   category VARCHAR(20) NOT NULL,
+  duration_seconds INTEGER,
   tier VARCHAR(10) DEFAULT 'Bronze' CHECK (tier IN ('Gold', 'Silver', 'Bronze')),
   is_published BOOLEAN DEFAULT TRUE,
   is_deleted BOOLEAN DEFAULT FALSE,
@@ -112,61 +136,432 @@ CREATE TABLE IF NOT EXISTS expert_applications (
 -- WATCH & REWARDS TABLES
 -- ============================================================================
 
+-- Versioned, immutable reward policies; the latest effective_from in the past is active
+CREATE TABLE IF NOT EXISTS reward_policies (
+  id UUID PRIMARY KEY,
+  version INTEGER UNIQUE NOT NULL,
+  effective_from TIMESTAMP NOT NULL,
+  category_rates JSONB NOT NULL,
+  tier_multipliers JSONB NOT NULL,
+  daily_user_cap INTEGER NOT NULL CHECK (daily_user_cap >= 0),
+  daily_video_cap INTEGER NOT NULL CHECK (daily_video_cap >= 0),
+  category_daily_caps JSONB NOT NULL DEFAULT '{}',
+  rewatch_decay DECIMAL(4,3) NOT NULL DEFAULT 0.5 CHECK (rewatch_decay > 0 AND rewatch_decay <= 1),
+  min_rewatch_factor DECIMAL(4,3) NOT NULL DEFAULT 0.1 CHECK (min_rewatch_factor >= 0 AND min_rewatch_factor <= 1),
+  creator_revenue_share DECIMAL(4,3) NOT NULL DEFAULT 0.1 CHECK (creator_revenue_share >= 0 AND creator_revenue_share <= 1),
+  creator_holding_days INTEGER NOT NULL DEFAULT 45 CHECK (creator_holding_days >= 0),
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Version 1 carries the original hard-coded rates and tier multipliers
+INSERT INTO reward_policies (
+  id, version, effective_from, category_rates, tier_multipliers,
+  daily_user_cap, daily_video_cap, category_daily_caps, rewatch_decay, min_rewatch_factor, notes
+) VALUES (
+  gen_random_uuid(), 1, '2025-01-01',
+  '{"FINANCE": 500, "HEALTH": 400, "FITNESS": 300, "EDUCATION": 200, "ENTERTAINMENT": 100, "DEFAULT": 100}',
+  '{"verified": 5, "pending": 3, "none": 1}',
+  2000, 500, '{}', 0.5, 0.1, 'Initial policy'
+) ON CONFLICT (version) DO NOTHING;
+
+-- Daily points budget per category; DEFAULT covers categories without a row of their own
+CREATE TABLE IF NOT EXISTS reward_budgets (
+  category VARCHAR(20) PRIMARY KEY,
+  daily_points BIGINT NOT NULL CHECK (daily_points >= 0),
+  throttle_at_percent INTEGER NOT NULL DEFAULT 80 CHECK (throttle_at_percent BETWEEN 1 AND 100),
+  throttle_factor DECIMAL(4,3) NOT NULL DEFAULT 0.5 CHECK (throttle_factor > 0 AND throttle_factor <= 1),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Points minted against each budget per day (viewer earnings plus creator shares)
+CREATE TABLE IF NOT EXISTS reward_budget_usage (
+  category VARCHAR(20) NOT NULL,
+  day DATE NOT NULL,
+  minted_points BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (category, day)
+);
+
+-- Server-issued watch sessions; heartbeats are only accepted against an active session
+CREATE TABLE IF NOT EXISTS watch_sessions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  creator_id UUID,
+  category VARCHAR(20) NOT NULL,
+  video_duration_seconds INTEGER NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'CLOSED')),
+  device_id VARCHAR(255),
+  ip_address VARCHAR(50),
+  last_sequence INTEGER NOT NULL DEFAULT 0,
+  seconds_watched INTEGER NOT NULL DEFAULT 0,
+  points_earned BIGINT NOT NULL DEFAULT 0,
+  started_at TIMESTAMP NOT NULL,
+  last_heartbeat_at TIMESTAMP,
+  closed_at TIMESTAMP
+);
+
 CREATE TABLE IF NOT EXISTS video_heartbeats (
   id UUID PRIMARY KEY,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
   video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES watch_sessions(id) ON DELETE CASCADE,
+  sequence INTEGER,
   seconds_watched INTEGER NOT NULL,
-  created_at TIMESTAMP NOT NULL
+  created_at TIMESTAMP NOT NULL,
+  UNIQUE (session_id, sequence)
 );
 
 -- ============================================================================
 -- WALLET & FINANCIAL TABLES
 -- ============================================================================
 
+-- Projection of ledger_entries; rebuilt from the ledger by reconciliation
 CREATE TABLE IF NOT EXISTS wallet (
   user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
-  pending_balance BIGINT DEFAULT 0,
-  available_balance BIGINT DEFAULT 0,
+  pending_points BIGINT NOT NULL DEFAULT 0 CHECK (pending_points >= 0),
+  available_points BIGINT NOT NULL DEFAULT 0 CHECK (available_points >= 0),
+  total_earned BIGINT NOT NULL DEFAULT 0,
+  total_redeemed BIGINT NOT NULL DEFAULT 0,
   points_released_date TIMESTAMP,
   tier_multiplier DECIMAL(3,1) DEFAULT 1.0,
+  -- Set by an admin; a frozen wallet cannot redeem, tip or earn
+  frozen_at TIMESTAMP,
+  frozen_reason TEXT,
+  frozen_by UUID REFERENCES users(id),
   updated_at TIMESTAMP NOT NULL
 );
 
-CREATE TABLE IF NOT EXISTS transactions (
+-- Double-entry points ledger: one row per movement of points
+CREATE TABLE IF NOT EXISTS ledger_transactions (
   id UUID PRIMARY KEY,
-  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  type VARCHAR(20) NOT NULL CHECK (type IN ('earn', 'redeem', 'transfer')),
-  amount BIGINT NOT NULL,
-  video_id UUID REFERENCES videos(id),
-  description VARCHAR(255),
+  user_id UUID NOT NULL REFERENCES users(id),
+  video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+  creator_id UUID,
+  transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('EARN', 'PENDING', 'AVAILABLE', 'REDEEMED', 'REVERSED', 'EXPIRED', 'BONUS', 'REVENUE_SHARE', 'TIP', 'TAX_WITHHELD', 'ADJUSTMENT')),
+  points BIGINT NOT NULL CHECK (points > 0),
+  debit_account VARCHAR(20) NOT NULL,
+  credit_account VARCHAR(20) NOT NULL,
   category VARCHAR(50),
-  points_per_30_sec BIGINT,
-  watch_duration_sec INTEGER,
-  created_at TIMESTAMP NOT NULL,
-  metadata JSONB
+  watch_duration_seconds INTEGER,
+  rate_per_10m INTEGER,
+  policy_version INTEGER REFERENCES reward_policies(version),
+  status VARCHAR(20) NOT NULL DEFAULT 'POSTED' CHECK (status IN ('POSTED', 'PENDING_30D', 'AVAILABLE', 'EXPIRED', 'REDEEMED', 'REVERSED')),
+  reference_id UUID,
+  reason VARCHAR(255),
+  metadata JSONB,
+  posted_at TIMESTAMP NOT NULL,
+  available_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  -- Same account on both sides only for transfers between users (TIP)
+  CHECK (debit_account <> credit_account OR transaction_type = 'TIP')
+);
+
+-- Append-only debit/credit lines; every transaction's entries sum to zero
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  account VARCHAR(20) NOT NULL CHECK (account IN ('USER_PENDING', 'USER_AVAILABLE', 'REDEEMED', 'EXPIRED', 'REWARD_POOL', 'TAX_WITHHELD')),
+  amount BIGINT NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION prevent_ledger_entry_mutation() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER trg_ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_entry_mutation();
+
+-- Every admin action, append-only. No foreign keys so user deletion never rewrites history
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY,
+  admin_id UUID NOT NULL,
+  action VARCHAR(50) NOT NULL,
+  target_user_id UUID,
+  reason TEXT,
+  details JSONB,
+  ip_address VARCHAR(50),
+  user_agent VARCHAR(500),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_mutation() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER trg_admin_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_mutation();
+
+-- Fraud review queue; pending earnings of a flagged user are held until review
+CREATE TABLE IF NOT EXISTS fraud_flags (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  score INTEGER NOT NULL,
+  signals JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CONFIRMED', 'DISMISSED')),
+  points_held BIGINT NOT NULL DEFAULT 0,
+  points_reversed BIGINT NOT NULL DEFAULT 0,
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS fraud_flag_transactions (
+  flag_id UUID NOT NULL REFERENCES fraud_flags(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id),
+  PRIMARY KEY (flag_id, transaction_id)
+);
+
+-- Redemption options shown in the wallet; amounts are in rupees
+CREATE TABLE IF NOT EXISTS payout_catalog_items (
+  id UUID PRIMARY KEY,
+  slug VARCHAR(50) UNIQUE NOT NULL,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('UPI', 'RECHARGE', 'GIFT_CARD')),
+  name VARCHAR(100) NOT NULL,
+  provider VARCHAR(50),
+  points_per_rupee DECIMAL(10,4) NOT NULL CHECK (points_per_rupee > 0),
+  denominations INTEGER[] NOT NULL DEFAULT '{}',
+  min_amount INTEGER NOT NULL CHECK (min_amount > 0),
+  max_amount INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Seed the options previously hard-coded in getWalletOptions (10 points = ₹1)
+INSERT INTO payout_catalog_items (id, slug, method, name, provider, points_per_rupee, denominations, min_amount, max_amount, display_order) VALUES
+  (gen_random_uuid(), 'upi', 'UPI', 'UPI (Google Pay, PhonePe, Paytm)', NULL, 10, '{}', 10, 10000, 1),
+  (gen_random_uuid(), 'recharge', 'RECHARGE', 'Mobile Recharge', NULL, 10, '{}', 10, 2000, 2),
+  (gen_random_uuid(), 'amazon', 'GIFT_CARD', 'Amazon Pay', 'Amazon', 10, '{100,250,500,1000,2000,5000}', 100, NULL, 10),
+  (gen_random_uuid(), 'flipkart', 'GIFT_CARD', 'Flipkart', 'Flipkart', 10, '{100,250,500,1000,2000}', 100, NULL, 11),
+  (gen_random_uuid(), 'netflix', 'GIFT_CARD', 'Netflix', 'Netflix', 10, '{149,399,649,799}', 149, NULL, 12),
+  (gen_random_uuid(), 'spotify', 'GIFT_CARD', 'Spotify', 'Spotify', 10, '{99,249,499,999}', 99, NULL, 13)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Pre-purchased gift card codes; the code (and PIN) is AES-GCM encrypted, code_hash de-duplicates uploads
+CREATE TABLE IF NOT EXISTS gift_card_codes (
+  id UUID PRIMARY KEY,
+  catalog_item_id UUID NOT NULL REFERENCES payout_catalog_items(id),
+  denomination INTEGER NOT NULL,
+  secret_encrypted TEXT NOT NULL,
+  code_hash VARCHAR(64) UNIQUE NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'AVAILABLE' CHECK (status IN ('AVAILABLE', 'RESERVED', 'DELIVERED')),
+  redemption_id UUID,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  reserved_at TIMESTAMP,
+  delivered_at TIMESTAMP
 );
 
 CREATE TABLE IF NOT EXISTS redemption_requests (
   id UUID PRIMARY KEY,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  amount BIGINT NOT NULL,
-  method VARCHAR(20) NOT NULL CHECK (method IN ('UPI', 'RECHARGE')),
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  amount_rupees INTEGER NOT NULL,
+  catalog_item_id UUID REFERENCES payout_catalog_items(id),
+  method VARCHAR(20) NOT NULL CHECK (method IN ('UPI', 'RECHARGE', 'GIFT_CARD')),
+  details JSONB NOT NULL DEFAULT '{}',
   status VARCHAR(10) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'success', 'failed')),
+  provider VARCHAR(30),
+  provider_reference VARCHAR(100),
   provider_response JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP,
+  last_error TEXT,
+  refund_transaction_id UUID REFERENCES ledger_transactions(id),
   created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
   completed_at TIMESTAMP
 );
 
-CREATE TABLE IF NOT EXISTS points_ledger (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+-- Expiry reminders already sent per available-points lot
+CREATE TABLE IF NOT EXISTS points_expiry_reminders (
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+  days_before INTEGER NOT NULL,
+  sent_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (transaction_id, days_before)
+);
+
+-- Items delivered to a user's wallet (gift card codes); payload is encrypted at rest
+CREATE TABLE IF NOT EXISTS wallet_inbox (
+  id UUID PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('watch', 'like', 'follow', 'redemption', 'referral')),
-  points BIGINT NOT NULL,
-  video_id UUID REFERENCES videos(id),
-  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'available', 'redeemed')),
-  released_date TIMESTAMP,
-  expires_at TIMESTAMP DEFAULT (NOW() + INTERVAL '30 days'),
+  redemption_id UUID REFERENCES redemption_requests(id),
+  item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('GIFT_CARD_CODE')),
+  title VARCHAR(255) NOT NULL,
+  payload_encrypted TEXT NOT NULL,
+  opened_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Payout identity per user. Level 1 = UPI ID verified by penny drop, level 2 = UPI ID + PAN verified.
+-- UPI ID and PAN are encrypted at rest; the hashes find duplicates across accounts
+CREATE TABLE IF NOT EXISTS kyc_profiles (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  level SMALLINT NOT NULL DEFAULT 0 CHECK (level IN (0, 1, 2)),
+  upi_id_encrypted TEXT,
+  upi_id_hash VARCHAR(64),
+  upi_name_at_bank VARCHAR(150),
+  upi_status VARCHAR(20) NOT NULL DEFAULT 'NONE' CHECK (upi_status IN ('NONE', 'VERIFIED', 'FAILED', 'MANUAL_REVIEW')),
+  upi_provider VARCHAR(30),
+  upi_provider_reference VARCHAR(100),
+  upi_verified_at TIMESTAMP,
+  pan_encrypted TEXT,
+  pan_hash VARCHAR(64),
+  pan_name VARCHAR(100),
+  pan_status VARCHAR(20) NOT NULL DEFAULT 'NONE' CHECK (pan_status IN ('NONE', 'PENDING_REVIEW', 'VERIFIED', 'REJECTED')),
+  pan_verified_at TIMESTAMP,
+  reviewed_by UUID REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  review_notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Every penny drop, PAN submission and admin review decision; also caps daily UPI attempts
+CREATE TABLE IF NOT EXISTS kyc_verification_attempts (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('UPI', 'PAN', 'REVIEW')),
+  status VARCHAR(30) NOT NULL,
+  provider VARCHAR(30),
+  reference VARCHAR(100),
+  response JSONB,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- TDS withheld on redemptions (section 194R), collected in points as a TAX_WITHHELD ledger line
+CREATE TABLE IF NOT EXISTS tax_withholdings (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  redemption_id UUID UNIQUE NOT NULL REFERENCES redemption_requests(id),
+  financial_year CHAR(7) NOT NULL,
+  section VARCHAR(10) NOT NULL,
+  gross_rupees INTEGER NOT NULL,
+  cumulative_rupees INTEGER NOT NULL,
+  rate DECIMAL(4,3) NOT NULL,
+  pan_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  tds_rupees INTEGER NOT NULL CHECK (tds_rupees > 0),
+  tds_points BIGINT NOT NULL CHECK (tds_points > 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'WITHHELD' CHECK (status IN ('WITHHELD', 'REVERSED')),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id),
+  reversal_transaction_id UUID REFERENCES ledger_transactions(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Bonus rules evaluated against heartbeat watch time; STREAK pays per completed run of streak_days,
+-- MILESTONE and CAMPAIGN pay once when threshold_seconds is reached inside the rule window
+CREATE TABLE IF NOT EXISTS bonus_rules (
+  id UUID PRIMARY KEY,
+  slug VARCHAR(50) UNIQUE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('STREAK', 'MILESTONE', 'CAMPAIGN')),
+  points INTEGER NOT NULL CHECK (points > 0),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  min_daily_seconds INTEGER CHECK (min_daily_seconds > 0),
+  streak_days INTEGER CHECK (streak_days > 0),
+  threshold_seconds INTEGER CHECK (threshold_seconds > 0),
+  max_awards_per_user INTEGER CHECK (max_awards_per_user > 0),
+  starts_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CHECK (rule_type <> 'STREAK' OR (min_daily_seconds IS NOT NULL AND streak_days IS NOT NULL)),
+  CHECK (rule_type = 'STREAK' OR threshold_seconds IS NOT NULL),
+  CHECK (rule_type <> 'CAMPAIGN' OR (starts_at IS NOT NULL AND ends_at IS NOT NULL))
+);
+
+INSERT INTO bonus_rules (id, slug, name, description, rule_type, points, categories, min_daily_seconds, streak_days, threshold_seconds) VALUES
+  (gen_random_uuid(), 'learning-streak-7', '7-day learning streak', 'Watch 10 minutes of educational content a day for 7 days in a row',
+   'STREAK', 100, '{EDUCATION,FINANCE,HEALTH}', 600, 7, NULL),
+  (gen_random_uuid(), 'first-learning-hour', 'First hour of learning', 'Your first hour of educational content',
+   'MILESTONE', 50, '{EDUCATION,FINANCE,HEALTH}', NULL, NULL, 3600)
+ON CONFLICT (slug) DO NOTHING;
+
+-- One row per bonus paid; award_key (streak run, or 'once') makes evaluation idempotent
+CREATE TABLE IF NOT EXISTS bonus_awards (
+  id UUID PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES bonus_rules(id),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  award_key VARCHAR(50) NOT NULL,
+  points INTEGER NOT NULL,
+  transaction_id UUID REFERENCES ledger_transactions(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (rule_id, user_id, award_key)
+);
+
+-- Peer-to-peer tips; the points move USER_AVAILABLE -> USER_AVAILABLE in ledger transaction_id
+CREATE TABLE IF NOT EXISTS tips (
+  id UUID PRIMARY KEY,
+  tipper_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+  conversation_id UUID,
+  points INTEGER NOT NULL CHECK (points > 0),
+  message VARCHAR(200),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CHECK (tipper_id <> recipient_id)
+);
+
+-- Monthly revenue share report per creator, snapshotted on the 1st for the previous month
+CREATE TABLE IF NOT EXISTS creator_payout_reports (
+  id UUID PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  month CHAR(7) NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  watch_seconds BIGINT NOT NULL DEFAULT 0,
+  share_points BIGINT NOT NULL DEFAULT 0,
+  reversed_points BIGINT NOT NULL DEFAULT 0,
+  released_points BIGINT NOT NULL DEFAULT 0,
+  pending_points BIGINT NOT NULL DEFAULT 0,
+  videos JSONB NOT NULL DEFAULT '[]',
+  notified_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (creator_id, month)
+);
+
+-- One shareable referral code per user
+CREATE TABLE IF NOT EXISTS referral_codes (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  code VARCHAR(16) UNIQUE NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Attributed signups; both sides are paid a BONUS once the referee reaches the watch-time threshold
+CREATE TABLE IF NOT EXISTS referrals (
+  id UUID PRIMARY KEY,
+  referrer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  referee_id UUID UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code VARCHAR(16) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'REWARDED', 'REJECTED', 'EXPIRED')),
+  rejection_reason VARCHAR(50),
+  referee_device_id VARCHAR(255),
+  referee_ip VARCHAR(50),
+  rewarded_at TIMESTAMP,
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -182,6 +577,8 @@ CREATE TABLE IF NOT EXISTS pending_registrations (
   first_name VARCHAR(50),
   last_name VARCHAR(50),
   email VARCHAR(255),
+  referral_code VARCHAR(16),
+  device_id VARCHAR(255),
   created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -196,13 +593,155 @@ CREATE TABLE IF NOT EXISTS otps (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- One row per provider attempt; failover to the next provider adds another row.
+-- Message bodies are not stored since they may carry OTPs.
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id UUID PRIMARY KEY,
+  phone_number VARCHAR(20) NOT NULL,
+  template VARCHAR(30) NOT NULL,
+  locale VARCHAR(10) NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  provider_message_id VARCHAR(100),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status VARCHAR(15) NOT NULL CHECK (status IN ('QUEUED', 'SENT', 'DELIVERED', 'UNDELIVERED', 'FAILED')),
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMP
+);
+
+-- Delivery-status callbacks as received, including ones that match no message
+CREATE TABLE IF NOT EXISTS sms_delivery_events (
+  id UUID PRIMARY KEY,
+  sms_message_id UUID REFERENCES sms_messages(id) ON DELETE SET NULL,
+  provider VARCHAR(20) NOT NULL,
+  provider_message_id VARCHAR(100) NOT NULL,
+  status VARCHAR(15) NOT NULL,
+  error_code VARCHAR(50),
+  payload JSONB NOT NULL DEFAULT '{}',
+  received_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Refresh tokens are single use: each refresh revokes the token and issues its replacement
+-- in the same family (one family per session). Presenting a rotated token revokes the family.
 CREATE TABLE IF NOT EXISTS refresh_tokens (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  token_hash VARCHAR(255) NOT NULL,
+  family_id UUID NOT NULL,
+  token_hash VARCHAR(255) NOT NULL UNIQUE,
+  role VARCHAR(10) NOT NULL DEFAULT 'USER',
+  device_name VARCHAR(100),
+  device_id VARCHAR(255),
+  ip_address VARCHAR(50),
+  user_agent TEXT,
   is_revoked BOOLEAN DEFAULT FALSE,
   revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('ROTATED', 'REUSE_DETECTED', 'LOGOUT', 'REVOKED', 'ACCOUNT_DELETED', 'ACCOUNT_RECOVERED')),
+  replaced_by UUID,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- TOTP second factor; the secret is AES-GCM encrypted and enabled_at stays NULL until the first code
+-- is confirmed. last_used_counter is the last accepted time step, so a code cannot be replayed.
+CREATE TABLE IF NOT EXISTS user_totp (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  enabled_at TIMESTAMP,
+  last_used_counter BIGINT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Single-use recovery codes, stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS user_backup_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Short-lived grants from POST /api/auth/2fa/step-up, sent as X-Step-Up-Token on sensitive actions;
+-- each is for one action and is deleted when used
+CREATE TABLE IF NOT EXISTS two_factor_step_ups (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  action VARCHAR(30) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Phone number changes. OTP: confirmed with codes sent to both numbers. EMAIL_RECOVERY: confirmed with a
+-- code sent to the verified email and an OTP to the new number, then COOLING_OFF until effective_at so
+-- the current number can cancel it. Redemptions and payouts are held until hold_until.
+CREATE TABLE IF NOT EXISTS phone_changes (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_phone_number VARCHAR(20) NOT NULL,
+  new_phone_number VARCHAR(20) NOT NULL,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('OTP', 'EMAIL_RECOVERY')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('PENDING', 'COOLING_OFF', 'COMPLETED', 'CANCELLED', 'EXPIRED')),
+  expires_at TIMESTAMP NOT NULL,
+  effective_at TIMESTAMP,
+  hold_until TIMESTAMP,
+  completed_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Emailed one-time codes (email verification and account recovery), stored hashed
+CREATE TABLE IF NOT EXISTS email_codes (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('VERIFY_EMAIL', 'RECOVERY')),
+  code_hash VARCHAR(64) NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
   expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Deletion requests wait out a grace period (ACCOUNT_DELETION_GRACE_DAYS, default 30); logging in
+-- cancels one, otherwise the finalise-account-deletions job anonymises the account
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('SCHEDULED', 'CANCELLED', 'COMPLETED')),
+  scheduled_for TIMESTAMP NOT NULL,
+  cancelled_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS account_enforcements (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('SUSPENSION', 'BAN', 'READ_ONLY', 'EARNING_BAN')),
+  reason TEXT NOT NULL,
+  applied_by UUID NOT NULL REFERENCES users(id),
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP,
+  lifted_at TIMESTAMP,
+  lifted_by UUID REFERENCES users(id),
+  lift_reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CHECK (type <> 'SUSPENSION' OR expires_at IS NOT NULL),
+  CHECK (type <> 'BAN' OR expires_at IS NULL)
+);
+
+CREATE TABLE IF NOT EXISTS enforcement_appeals (
+  id UUID PRIMARY KEY,
+  enforcement_id UUID NOT NULL UNIQUE REFERENCES account_enforcements(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'UPHELD', 'OVERTURNED')),
+  reviewed_by UUID REFERENCES users(id),
+  review_note TEXT,
+  reviewed_at TIMESTAMP,
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -320,6 +859,7 @@ CREATE TABLE IF NOT EXISTS direct_messages (
   content TEXT,
   media_url TEXT,
   media_type VARCHAR(20) CHECK (media_type IN ('image', 'video', 'audio', 'document')),
+  tip_id UUID REFERENCES tips(id),
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
   is_deleted BOOLEAN DEFAULT FALSE,
@@ -341,16 +881,16 @@ CREATE TABLE IF NOT EXISTS message_reads (
 CREATE TABLE IF NOT EXISTS notifications (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES users(id) ON DELETE SET NULL,
   type VARCHAR(50) NOT NULL CHECK (type IN ('like', 'comment', 'follow', 'expert_alert', 'points_update', 'mention', 'message', 'story_reply')),
-  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
-  subject_id UUID,
-  subject_type VARCHAR(50) CHECK (subject_type IN ('video', 'comment', 'user', 'wallet', 'story', 'message')),
-  title VARCHAR(255),
-  message TEXT,
-  action_url TEXT,
+  related_id UUID,
+  related_type VARCHAR(50) CHECK (related_type IN ('video', 'comment', 'user', 'wallet', 'story', 'message')),
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  icon_url TEXT,
   is_read BOOLEAN DEFAULT FALSE,
-  read_at TIMESTAMP,
-  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
 -- ============================================================================
@@ -371,6 +911,139 @@ CREATE TABLE IF NOT EXISTS user_settings (
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- ============================================================================
+-- UPGRADES FOR DATABASES CREATED FROM AN EARLIER SCHEMA
+-- ============================================================================
+-- CREATE TABLE IF NOT EXISTS leaves existing tables alone, so columns added or renamed
+-- since are applied here. Every statement is a no-op on a database created from this file.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(10) NOT NULL DEFAULT 'USER' CHECK (role IN ('USER', 'CREATOR', 'ADMIN'));
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS duration_seconds INTEGER;
+
+ALTER TABLE video_heartbeats ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES watch_sessions(id) ON DELETE CASCADE;
+ALTER TABLE video_heartbeats ADD COLUMN IF NOT EXISTS sequence INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS video_heartbeats_session_id_sequence_key ON video_heartbeats(session_id, sequence);
+
+-- Wallet balances were pending_balance/available_balance with no ledger behind them; the
+-- balances carried over are posted as opening ADJUSTMENT lines so reconciliation keeps them
+DO $$
+DECLARE
+  w RECORD;
+  tx_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'wallet' AND column_name = 'pending_balance') THEN
+    ALTER TABLE wallet RENAME COLUMN pending_balance TO pending_points;
+    ALTER TABLE wallet RENAME COLUMN available_balance TO available_points;
+    UPDATE wallet SET pending_points = COALESCE(pending_points, 0), available_points = COALESCE(available_points, 0);
+    ALTER TABLE wallet ADD COLUMN IF NOT EXISTS total_earned BIGINT NOT NULL DEFAULT 0;
+    ALTER TABLE wallet ADD COLUMN IF NOT EXISTS total_redeemed BIGINT NOT NULL DEFAULT 0;
+
+    FOR w IN
+      SELECT user_id, pending_points, available_points, points_released_date FROM wallet
+      WHERE (pending_points > 0 OR available_points > 0)
+        AND NOT EXISTS (SELECT 1 FROM ledger_entries le WHERE le.user_id = wallet.user_id)
+    LOOP
+      IF w.pending_points > 0 THEN
+        tx_id := gen_random_uuid();
+        INSERT INTO ledger_transactions (id, user_id, transaction_type, points, debit_account, credit_account, status, reason, posted_at, available_at)
+        VALUES (tx_id, w.user_id, 'ADJUSTMENT', w.pending_points, 'REWARD_POOL', 'USER_PENDING', 'POSTED', 'Opening balance', NOW(), COALESCE(w.points_released_date, NOW()));
+        INSERT INTO ledger_entries (id, transaction_id, user_id, account, amount)
+        VALUES (gen_random_uuid(), tx_id, w.user_id, 'REWARD_POOL', -w.pending_points),
+               (gen_random_uuid(), tx_id, w.user_id, 'USER_PENDING', w.pending_points);
+      END IF;
+      IF w.available_points > 0 THEN
+        tx_id := gen_random_uuid();
+        INSERT INTO ledger_transactions (id, user_id, transaction_type, points, debit_account, credit_account, status, reason, posted_at)
+        VALUES (tx_id, w.user_id, 'ADJUSTMENT', w.available_points, 'REWARD_POOL', 'USER_AVAILABLE', 'AVAILABLE', 'Opening balance', NOW());
+        INSERT INTO ledger_entries (id, transaction_id, user_id, account, amount)
+        VALUES (gen_random_uuid(), tx_id, w.user_id, 'REWARD_POOL', -w.available_points),
+               (gen_random_uuid(), tx_id, w.user_id, 'USER_AVAILABLE', w.available_points);
+      END IF;
+      UPDATE wallet SET total_earned = w.pending_points + w.available_points WHERE user_id = w.user_id;
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'wallet_pending_points_check') THEN
+    ALTER TABLE wallet ADD CONSTRAINT wallet_pending_points_check CHECK (pending_points >= 0);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'wallet_available_points_check') THEN
+    ALTER TABLE wallet ADD CONSTRAINT wallet_available_points_check CHECK (available_points >= 0);
+  END IF;
+END $$;
+
+ALTER TABLE wallet ALTER COLUMN pending_points SET DEFAULT 0;
+ALTER TABLE wallet ALTER COLUMN pending_points SET NOT NULL;
+ALTER TABLE wallet ALTER COLUMN available_points SET DEFAULT 0;
+ALTER TABLE wallet ALTER COLUMN available_points SET NOT NULL;
+ALTER TABLE wallet ADD COLUMN IF NOT EXISTS total_earned BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE wallet ADD COLUMN IF NOT EXISTS total_redeemed BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE wallet ADD COLUMN IF NOT EXISTS frozen_at TIMESTAMP;
+ALTER TABLE wallet ADD COLUMN IF NOT EXISTS frozen_reason TEXT;
+ALTER TABLE wallet ADD COLUMN IF NOT EXISTS frozen_by UUID REFERENCES users(id);
+
+-- Requests made before the catalog used the fixed rate of 10 points = ₹1
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS amount_rupees INTEGER;
+UPDATE redemption_requests SET amount_rupees = amount / 10 WHERE amount_rupees IS NULL;
+ALTER TABLE redemption_requests ALTER COLUMN amount_rupees SET NOT NULL;
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS catalog_item_id UUID REFERENCES payout_catalog_items(id);
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS provider VARCHAR(30);
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS provider_reference VARCHAR(100);
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP;
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS refund_transaction_id UUID REFERENCES ledger_transactions(id);
+ALTER TABLE redemption_requests ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE redemption_requests DROP CONSTRAINT IF EXISTS redemption_requests_method_check;
+ALTER TABLE redemption_requests ADD CONSTRAINT redemption_requests_method_check CHECK (method IN ('UPI', 'RECHARGE', 'GIFT_CARD'));
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'redemption_requests_amount_check') THEN
+    ALTER TABLE redemption_requests ADD CONSTRAINT redemption_requests_amount_check CHECK (amount > 0);
+  END IF;
+END $$;
+
+ALTER TABLE pending_registrations ADD COLUMN IF NOT EXISTS referral_code VARCHAR(16);
+ALTER TABLE pending_registrations ADD COLUMN IF NOT EXISTS device_id VARCHAR(255);
+
+-- Each existing token starts its own session (family)
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS family_id UUID;
+UPDATE refresh_tokens SET family_id = id WHERE family_id IS NULL;
+ALTER TABLE refresh_tokens ALTER COLUMN family_id SET NOT NULL;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS role VARCHAR(10) NOT NULL DEFAULT 'USER';
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS device_name VARCHAR(100);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS device_id VARCHAR(255);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS ip_address VARCHAR(50);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('ROTATED', 'REUSE_DETECTED', 'LOGOUT', 'REVOKED', 'ACCOUNT_DELETED', 'ACCOUNT_RECOVERED'));
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS replaced_by UUID;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP NOT NULL DEFAULT NOW();
+CREATE UNIQUE INDEX IF NOT EXISTS refresh_tokens_token_hash_key ON refresh_tokens(token_hash);
+
+ALTER TABLE direct_messages ADD COLUMN IF NOT EXISTS tip_id UUID REFERENCES tips(id);
+
+-- Grants issued before step-ups were tied to an action match none
+ALTER TABLE two_factor_step_ups ADD COLUMN IF NOT EXISTS action VARCHAR(30) NOT NULL DEFAULT '';
+ALTER TABLE two_factor_step_ups ALTER COLUMN action DROP DEFAULT;
+
+-- actor/subject/message became sender/related/description; title is now required
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'notifications' AND column_name = 'actor_id') THEN
+    ALTER TABLE notifications RENAME COLUMN actor_id TO sender_id;
+    ALTER TABLE notifications RENAME COLUMN subject_id TO related_id;
+    ALTER TABLE notifications RENAME COLUMN subject_type TO related_type;
+    ALTER TABLE notifications RENAME COLUMN message TO description;
+  END IF;
+END $$;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS icon_url TEXT;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+UPDATE notifications SET title = '' WHERE title IS NULL;
+ALTER TABLE notifications ALTER COLUMN title SET NOT NULL;
+
 -- ============================================================================
 -- VIEWS FOR ANALYTICS & STATS
 -- ============================================================================
@@ -446,15 +1119,67 @@ CREATE INDEX IF NOT EXISTS idx_notifications_is_read ON notifications(is_read);
 CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at);
 CREATE INDEX IF NOT EXISTS idx_notifications_type ON notifications(type);
 
+-- Watch sessions & heartbeats
+CREATE INDEX IF NOT EXISTS idx_watch_sessions_user_status ON watch_sessions(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_video_heartbeats_user_created ON video_heartbeats(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_video_heartbeats_video_id ON video_heartbeats(video_id);
+CREATE INDEX IF NOT EXISTS idx_watch_sessions_device_id ON watch_sessions(device_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_watch_sessions_ip_address ON watch_sessions(ip_address, started_at);
+CREATE INDEX IF NOT EXISTS idx_watch_sessions_creator_started ON watch_sessions(creator_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_video_heartbeats_created_at ON video_heartbeats(created_at);
+
 -- Wallet & Financial
-CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
-CREATE INDEX IF NOT EXISTS idx_points_ledger_user_id ON points_ledger(user_id);
-CREATE INDEX IF NOT EXISTS idx_points_ledger_status ON points_ledger(status);
-CREATE INDEX IF NOT EXISTS idx_points_ledger_released_date ON points_ledger(released_date);
-CREATE INDEX IF NOT EXISTS idx_points_ledger_expires_at ON points_ledger(expires_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_user_id ON ledger_transactions(user_id, posted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_status_available ON ledger_transactions(status, available_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_reference_id ON ledger_transactions(reference_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_status_expires ON ledger_transactions(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_user_earn_day ON ledger_transactions(user_id, transaction_type, posted_at);
+CREATE INDEX IF NOT EXISTS idx_reward_policies_effective_from ON reward_policies(effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_reward_budget_usage_day ON reward_budget_usage(day DESC);
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_user_id ON redemption_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_due ON redemption_requests(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_gift_card_codes_stock ON gift_card_codes(catalog_item_id, denomination, status);
+CREATE INDEX IF NOT EXISTS idx_gift_card_codes_redemption_id ON gift_card_codes(redemption_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_inbox_user_id ON wallet_inbox(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kyc_profiles_upi_hash ON kyc_profiles(upi_id_hash) WHERE upi_status IN ('VERIFIED', 'MANUAL_REVIEW');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kyc_profiles_pan_hash ON kyc_profiles(pan_hash) WHERE pan_status IN ('PENDING_REVIEW', 'VERIFIED');
+CREATE INDEX IF NOT EXISTS idx_kyc_profiles_review ON kyc_profiles(updated_at) WHERE upi_status = 'MANUAL_REVIEW' OR pan_status = 'PENDING_REVIEW';
+CREATE INDEX IF NOT EXISTS idx_kyc_verification_attempts_user ON kyc_verification_attempts(user_id, kind, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tax_withholdings_user_fy ON tax_withholdings(user_id, financial_year);
+CREATE INDEX IF NOT EXISTS idx_tax_withholdings_created_at ON tax_withholdings(created_at) WHERE status = 'WITHHELD';
+CREATE INDEX IF NOT EXISTS idx_tips_tipper_created ON tips(tipper_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tips_video_id ON tips(video_id) WHERE video_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tips_recipient_created ON tips(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_payout_reports_user_id ON creator_payout_reports(user_id, month DESC);
+CREATE INDEX IF NOT EXISTS idx_bonus_awards_user_id ON bonus_awards(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id ON referrals(referrer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_status ON referrals(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_referrals_referee_device_id ON referrals(referee_device_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_account ON ledger_entries(user_id, account);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_created ON ledger_entries(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin ON admin_audit_log(admin_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fraud_flags_open_user ON fraud_flags(user_id) WHERE status = 'OPEN';
+CREATE INDEX IF NOT EXISTS idx_fraud_flags_status ON fraud_flags(status, score DESC);
 
 -- Authentication
 CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_provider_message ON sms_messages(provider, provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_phone ON sms_messages(phone_number, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_delivery_events_message ON sms_delivery_events(sms_message_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id) WHERE is_revoked = false;
+CREATE INDEX IF NOT EXISTS idx_user_backup_codes_user ON user_backup_codes(user_id) WHERE used_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_two_factor_step_ups_user ON two_factor_step_ups(user_id, expires_at);
+-- At most one unfinished phone change per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_phone_changes_active ON phone_changes(user_id) WHERE status IN ('PENDING', 'COOLING_OFF');
+CREATE INDEX IF NOT EXISTS idx_phone_changes_hold ON phone_changes(user_id, hold_until) WHERE hold_until IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_codes_user ON email_codes(user_id, purpose, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletion_requests_scheduled ON account_deletion_requests(user_id) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_due ON account_deletion_requests(scheduled_for) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_account_enforcements_active ON account_enforcements(user_id) WHERE lifted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_account_enforcements_expiry ON account_enforcements(expires_at) WHERE lifted_at IS NULL AND expires_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_enforcement_appeals_status ON enforcement_appeals(status, created_at);
 CREATE INDEX IF NOT EXISTS idx_expert_applications_user_status ON expert_applications(user_id, status);
 
 -- ============================================================================
@@ -464,7 +1189,7 @@ CREATE INDEX IF NOT EXISTS idx_expert_applications_user_status ON expert_applica
 -- 2. Soft deletes implemented where appropriate (is_deleted, is_active flags)
 -- 3. 24-hour expiry for stories managed via expires_at + is_active flag
 -- 4. Conversations use normalized format (participant_a_id < participant_b_id) to avoid duplicates
--- 5. Points ledger tracks 30-day pending→available transition
+-- 5. Points live in a double-entry ledger (ledger_transactions + ledger_entries); wallet is a reconciled projection
 -- 6. Materialized view for user_stats can be refreshed periodically for performance
 -- 7. All FK relationships include ON DELETE CASCADE for data integrity
 -- 8. Indexes cover common query patterns for optimal performance
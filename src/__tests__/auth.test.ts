@@ -0,0 +1,128 @@
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../config/database', () => ({ db: { query: jest.fn(), queryOne: jest.fn(), transaction: jest.fn() } }));
+jest.mock('../config/jwt', () => ({
+  jwtService: { generateToken: jest.fn(async ({ userId, role }) => `access:${userId}:${role}`) },
+}));
+
+import { db } from '../config/database';
+import { authService } from '../services/auth.service';
+import { AppError } from '../middleware/errorHandler';
+import { generateHash } from '../utils/helpers';
+
+const mockedDb = db as jest.Mocked<typeof db>;
+
+const tokenRow = (overrides: Record<string, any> = {}) => ({
+  id: 'token-1',
+  user_id: 'user-1',
+  family_id: 'family-1',
+  token_hash: generateHash('refresh-1'),
+  role: 'USER',
+  device_name: 'Pixel',
+  device_id: 'device-1',
+  ip_address: '10.0.0.1',
+  user_agent: 'app',
+  is_revoked: false,
+  replaced_by: null,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  created_at: new Date('2026-01-01'),
+  ...overrides,
+});
+
+/**
+ * Run db.transaction callbacks against a client that answers the refresh token lookup
+ * with `token` and the users lookup with `user`
+ */
+const withRefreshState = (token: Record<string, any> | null, user: Record<string, any> | null = null) => {
+  const query = jest.fn(async (text: string, _params: any[]) => {
+    if (text.includes('SELECT * FROM refresh_tokens')) {
+      return { rows: token ? [token] : [] };
+    }
+    if (text.includes('FROM users')) {
+      return { rows: user ? [user] : [] };
+    }
+    return { rows: [] };
+  });
+  mockedDb.transaction.mockImplementation(async (callback: any) => callback({ query }));
+  return query;
+};
+
+const statements = (query: jest.Mock) => query.mock.calls.map(([text]) => String(text).replace(/\s+/g, ' '));
+
+describe('Auth Service', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('refreshAccessToken', () => {
+    it('should rotate a valid token and revoke the one presented', async () => {
+      const query = withRefreshState(tokenRow(), { account_status: 'ACTIVE', role: 'USER' });
+
+      const pair = await authService.refreshAccessToken('refresh-1');
+
+      expect(pair.accessToken).toBe('access:user-1:USER');
+      expect(pair.refreshToken).not.toBe('refresh-1');
+      expect(pair.sessionId).toBe('family-1');
+
+      const insert = query.mock.calls.find(([text]) => String(text).includes('INSERT INTO refresh_tokens'))!;
+      const insertParams = insert[1];
+      // Same family, hash of the new token
+      expect(insertParams[2]).toBe('family-1');
+      expect(insertParams[3]).toBe(generateHash(pair.refreshToken));
+      expect(statements(query).some((s) => s.includes("revoked_reason = 'ROTATED'"))).toBe(true);
+    });
+
+    it('should revoke the whole family when a rotated token is presented again', async () => {
+      const query = withRefreshState(tokenRow({ is_revoked: true, replaced_by: 'token-2' }));
+
+      await expect(authService.refreshAccessToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Refresh token has already been used; please sign in again',
+      });
+
+      const revoke = query.mock.calls.find(([text]) => String(text).includes("revoked_reason = 'REUSE_DETECTED'"))!;
+      expect(revoke[1]).toEqual(['family-1']);
+      expect(statements(query).some((s) => s.includes('INSERT INTO refresh_tokens'))).toBe(false);
+    });
+
+    it('should not revoke the family for a token revoked by logout', async () => {
+      const query = withRefreshState(tokenRow({ is_revoked: true, replaced_by: null }));
+
+      await expect(authService.refreshAccessToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid or expired refresh token',
+      });
+      expect(statements(query).some((s) => s.includes('REUSE_DETECTED'))).toBe(false);
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+      withRefreshState(null);
+      await expect(authService.refreshAccessToken('unknown')).rejects.toBeInstanceOf(AppError);
+
+      withRefreshState(tokenRow({ expires_at: new Date(Date.now() - 1000) }));
+      await expect(authService.refreshAccessToken('refresh-1')).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject deleted accounts', async () => {
+      withRefreshState(tokenRow(), { account_status: 'DELETED', role: 'USER' });
+      await expect(authService.refreshAccessToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Account is not active',
+      });
+    });
+
+    it('should keep suspended accounts signed in', async () => {
+      withRefreshState(tokenRow(), { account_status: 'SUSPENDED', role: 'USER' });
+      await expect(authService.refreshAccessToken('refresh-1')).resolves.toMatchObject({ sessionId: 'family-1' });
+    });
+
+    it('should issue the role stored on the user, not the one on the token', async () => {
+      const query = withRefreshState(tokenRow({ role: 'USER' }), { account_status: 'ACTIVE', role: 'ADMIN' });
+
+      const pair = await authService.refreshAccessToken('refresh-1');
+
+      expect(pair.accessToken).toBe('access:user-1:ADMIN');
+      const insert = query.mock.calls.find(([text]) => String(text).includes('INSERT INTO refresh_tokens'))!;
+      expect(insert[1][4]).toBe('ADMIN');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { PoolClient } from 'pg';
+
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../config/database', () => ({ db: { query: jest.fn(), queryOne: jest.fn(), transaction: jest.fn() } }));
+
+import { ledgerService } from '../services/ledger.service';
+
+/**
+ * A PoolClient whose wallet UPDATEs return the given balances (per user), and which
+ * records every statement it receives
+ */
+const mockClient = (balances: Record<string, { pending_points: number; available_points: number } | null>) => {
+  const query = jest.fn(async (text: string, params: any[] = []) => {
+    if (text.includes('INSERT INTO ledger_transactions')) {
+      return { rows: [{ id: params[0], points: params[5], status: params[12] }] };
+    }
+    if (text.includes('UPDATE wallet')) {
+      const userId = params[params.length - 1];
+      const wallet = balances[userId];
+      return { rows: wallet ? [wallet] : [] };
+    }
+    return { rows: [] };
+  });
+  return { client: { query } as unknown as PoolClient, query };
+};
+
+const walletUpdates = (query: jest.Mock) =>
+  query.mock.calls.filter(([text]) => text.includes('UPDATE wallet')).map(([text, params]) => ({ text, params: params as any[] }));
+
+describe('Ledger Service', () => {
+  describe('post', () => {
+    it('should write a transaction and two entries that sum to zero', async () => {
+      const { client, query } = mockClient({ u1: { pending_points: 50, available_points: 0 } });
+
+      await ledgerService.post(client, {
+        userId: 'u1',
+        type: 'EARN',
+        points: 50,
+        debit: 'REWARD_POOL',
+        credit: 'USER_PENDING',
+      });
+
+      const entryParams = query.mock.calls.find(([text]) => text.includes('INSERT INTO ledger_entries'))![1] as any[];
+      // ($1 id, $2 transaction, $3 user, $4 account, $5 amount, ...)
+      expect(entryParams[3]).toBe('REWARD_POOL');
+      expect(entryParams[4]).toBe(-50);
+      expect(entryParams[8]).toBe('USER_PENDING');
+      expect(entryParams[9]).toBe(50);
+      expect(entryParams[4] + entryParams[9]).toBe(0);
+    });
+
+    it('should apply both sides of a same-user posting to the wallet in one update', async () => {
+      const { client, query } = mockClient({ u1: { pending_points: 0, available_points: 30 } });
+
+      await ledgerService.post(client, {
+        userId: 'u1',
+        type: 'AVAILABLE',
+        points: 30,
+        debit: 'USER_PENDING',
+        credit: 'USER_AVAILABLE',
+      });
+
+      const updates = walletUpdates(query);
+      expect(updates).toHaveLength(1);
+      expect(updates[0].text).toContain('pending_points = pending_points + $1');
+      expect(updates[0].text).toContain('available_points = available_points + $2');
+      expect(updates[0].params.slice(0, 2)).toEqual([-30, 30]);
+    });
+
+    it('should count minted points as earned and redemptions as redeemed', async () => {
+      const { client, query } = mockClient({ u1: { pending_points: 10, available_points: 10 } });
+
+      await ledgerService.post(client, { userId: 'u1', type: 'EARN', points: 10, debit: 'REWARD_POOL', credit: 'USER_PENDING' });
+      await ledgerService.post(client, { userId: 'u1', type: 'REDEEMED', points: 5, debit: 'USER_AVAILABLE', credit: 'REDEEMED' });
+
+      const [earn, redeem] = walletUpdates(query);
+      expect(earn.text).toContain('total_earned = total_earned +');
+      expect(earn.params).toContain(10);
+      expect(redeem.text).toContain('total_redeemed = total_redeemed +');
+      expect(redeem.params.slice(0, 2)).toEqual([-5, 5]);
+    });
+
+    it('should update both wallets for a transfer between users', async () => {
+      const { client, query } = mockClient({
+        tipper: { pending_points: 0, available_points: 80 },
+        creator: { pending_points: 0, available_points: 20 },
+      });
+
+      await ledgerService.post(client, {
+        userId: 'tipper',
+        creditUserId: 'creator',
+        type: 'TIP',
+        points: 20,
+        debit: 'USER_AVAILABLE',
+        credit: 'USER_AVAILABLE',
+      });
+
+      const updates = walletUpdates(query);
+      expect(updates.map((u) => u.params[u.params.length - 1])).toEqual(['tipper', 'creator']);
+      expect(updates[0].params[0]).toBe(-20);
+      expect(updates[1].params[0]).toBe(20);
+    });
+
+    it('should reject points that are not a positive integer', async () => {
+      const { client, query } = mockClient({});
+      for (const points of [0, -5, 1.5]) {
+        await expect(
+          ledgerService.post(client, { userId: 'u1', type: 'EARN', points, debit: 'REWARD_POOL', credit: 'USER_PENDING' })
+        ).rejects.toThrow('Ledger points must be a positive integer');
+      }
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should reject the same account on both sides for one user', async () => {
+      const { client } = mockClient({});
+      await expect(
+        ledgerService.post(client, { userId: 'u1', type: 'TIP', points: 5, debit: 'USER_AVAILABLE', credit: 'USER_AVAILABLE' })
+      ).rejects.toThrow('Ledger debit and credit accounts must differ');
+    });
+
+    it('should fail when a balance would go negative', async () => {
+      const { client } = mockClient({ u1: { pending_points: 0, available_points: -1 } });
+      await expect(
+        ledgerService.post(client, { userId: 'u1', type: 'REDEEMED', points: 5, debit: 'USER_AVAILABLE', credit: 'REDEEMED' })
+      ).rejects.toThrow('Insufficient points');
+    });
+
+    it('should fail when the user has no wallet', async () => {
+      const { client } = mockClient({ u1: null });
+      await expect(
+        ledgerService.post(client, { userId: 'u1', type: 'EARN', points: 5, debit: 'REWARD_POOL', credit: 'USER_PENDING' })
+      ).rejects.toThrow('Wallet not found');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { Response } from 'express';
+
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../config/redis', () => ({ redis: { isReady: () => false } }));
+
+import { rateLimit, RateLimitPolicy } from '../middleware/rateLimit';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+
+const WINDOW_SECONDS = 60;
+// Start of a fixed window, so tests can move through it precisely
+const WINDOW_START = Math.ceil(Date.now() / (WINDOW_SECONDS * 1000)) * WINDOW_SECONDS * 1000;
+
+let policyCount = 0;
+// A fresh counter namespace per test
+const policy = (overrides: Partial<RateLimitPolicy> = {}): RateLimitPolicy => ({
+  name: `test-${++policyCount}`,
+  limit: 3,
+  windowSeconds: WINDOW_SECONDS,
+  keyBy: ['ip'],
+  ...overrides,
+});
+
+const request = (overrides: Record<string, any> = {}) =>
+  ({ ip: '203.0.113.7', method: 'POST', baseUrl: '/api/auth', path: '/otp', body: {}, ...overrides }) as AuthRequest;
+
+const response = () => {
+  const headers: Record<string, any> = {};
+  const res = { setHeader: jest.fn((name: string, value: any) => (headers[name] = value)) } as unknown as Response;
+  return { res, headers };
+};
+
+// Run the middleware once; resolves with the error passed to next, if any
+const run = async (middleware: ReturnType<typeof rateLimit>, req: AuthRequest = request()) => {
+  const { res, headers } = response();
+  let error: any;
+  await middleware(req, res, (err?: any) => {
+    error = err;
+  });
+  return { error, headers };
+};
+
+describe('Rate Limit Middleware', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = WINDOW_START + 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow requests up to the limit and reject the next with 429', async () => {
+    const limiter = rateLimit(policy());
+
+    for (let i = 0; i < 3; i++) {
+      expect((await run(limiter)).error).toBeUndefined();
+    }
+    const { error, headers } = await run(limiter);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(429);
+    expect(headers['Retry-After']).toBe(59);
+  });
+
+  it('should report the remaining allowance in RateLimit headers', async () => {
+    const limiter = rateLimit(policy());
+
+    const { headers } = await run(limiter);
+
+    expect(headers['RateLimit-Limit']).toBe(3);
+    expect(headers['RateLimit-Remaining']).toBe(2);
+    expect(headers['RateLimit-Reset']).toBe(59);
+    expect(headers['RateLimit-Policy']).toBe('3;w=60');
+  });
+
+  it('should count each IP separately', async () => {
+    const limiter = rateLimit(policy({ limit: 1 }));
+
+    expect((await run(limiter, request({ ip: '198.51.100.1' }))).error).toBeUndefined();
+    expect((await run(limiter, request({ ip: '198.51.100.2' }))).error).toBeUndefined();
+    expect((await run(limiter, request({ ip: '198.51.100.1' }))).error?.statusCode).toBe(429);
+  });
+
+  it('should key by user when signed in and fall back to the IP otherwise', async () => {
+    const limiter = rateLimit(policy({ limit: 1, keyBy: ['user'] }));
+
+    expect((await run(limiter, request({ user: { userId: 'u1', role: 'USER' } }))).error).toBeUndefined();
+    // Same IP, different user
+    expect((await run(limiter, request({ user: { userId: 'u2', role: 'USER' } }))).error).toBeUndefined();
+    expect((await run(limiter, request())).error).toBeUndefined();
+    expect((await run(limiter, request())).error?.statusCode).toBe(429);
+  });
+
+  it('should skip phone policies when the request has no phone number', async () => {
+    const limiter = rateLimit(policy({ limit: 1, keyBy: ['phone'] }));
+
+    await run(limiter);
+    const { error, headers } = await run(limiter);
+
+    expect(error).toBeUndefined();
+    expect(headers['RateLimit-Limit']).toBeUndefined();
+  });
+
+  it('should weight the previous window by how much of it the sliding window still covers', async () => {
+    const limiter = rateLimit(policy({ limit: 4 }));
+    for (let i = 0; i < 4; i++) {
+      await run(limiter);
+    }
+
+    // Halfway into the next window, half of the previous 4 still count
+    now = WINDOW_START + WINDOW_SECONDS * 1000 * 1.5;
+    expect((await run(limiter)).headers['RateLimit-Remaining']).toBe(1);
+    expect((await run(limiter)).error).toBeUndefined();
+    expect((await run(limiter)).error?.statusCode).toBe(429);
+  });
+
+  it('should forget requests older than two windows', async () => {
+    const limiter = rateLimit(policy({ limit: 1 }));
+    await run(limiter);
+
+    now = WINDOW_START + WINDOW_SECONDS * 1000 * 2 + 1000;
+    expect((await run(limiter)).error).toBeUndefined();
+  });
+
+  it('should report the tightest of several policies', async () => {
+    const limiter = rateLimit(policy({ limit: 10 }), policy({ limit: 2, keyBy: ['route'] }));
+
+    const { headers } = await run(limiter);
+
+    expect(headers['RateLimit-Limit']).toBe(2);
+    expect(headers['RateLimit-Remaining']).toBe(1);
+    expect(headers['RateLimit-Policy']).toBe('10;w=60, 2;w=60');
+  });
+});
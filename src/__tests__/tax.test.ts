@@ -0,0 +1,73 @@
+import { PoolClient } from 'pg';
+
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../config/database', () => ({ db: { query: jest.fn(), queryOne: jest.fn(), transaction: jest.fn() } }));
+
+import { taxService, TDS_RULES } from '../services/tax.service';
+
+// A client whose totals query reports what the user redeemed and had withheld this financial year
+const clientWith = (totals: { redeemed: number; withheld: number; panVerified: boolean }) =>
+  ({
+    query: jest.fn(async () => ({
+      rows: [{ redeemed: String(totals.redeemed), withheld: String(totals.withheld), pan_verified: totals.panVerified }],
+    })),
+  }) as unknown as PoolClient;
+
+describe('Tax Service', () => {
+  describe('calculateWithholding', () => {
+    it('should withhold nothing up to the threshold', async () => {
+      const client = clientWith({ redeemed: 19000, withheld: 0, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 1000);
+
+      expect(result.cumulativeRupees).toBe(TDS_RULES.thresholdRupees);
+      expect(result.tdsRupees).toBe(0);
+    });
+
+    it('should withhold on the whole year once the threshold is crossed', async () => {
+      const client = clientWith({ redeemed: 19000, withheld: 0, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 2000);
+
+      expect(result.cumulativeRupees).toBe(21000);
+      expect(result.rate).toBe(0.1);
+      expect(result.tdsRupees).toBe(2100);
+    });
+
+    it('should only withhold what has not been withheld yet', async () => {
+      const client = clientWith({ redeemed: 21000, withheld: 2100, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 1000);
+
+      expect(result.tdsRupees).toBe(100);
+    });
+
+    it('should apply the higher rate without a verified PAN', async () => {
+      const client = clientWith({ redeemed: 20000, withheld: 0, panVerified: false });
+      const result = await taxService.calculateWithholding(client, 'u1', 500);
+
+      expect(result.panVerified).toBe(false);
+      expect(result.rate).toBe(0.2);
+      expect(result.tdsRupees).toBe(4100);
+    });
+
+    it('should round to the nearest rupee', async () => {
+      const client = clientWith({ redeemed: 20000, withheld: 0, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 5);
+
+      // 10% of ₹20,005 is ₹2,000.50
+      expect(result.tdsRupees).toBe(2001);
+    });
+
+    it('should never return a negative amount when more was withheld earlier', async () => {
+      const client = clientWith({ redeemed: 25000, withheld: 5000, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 100);
+
+      expect(result.tdsRupees).toBe(0);
+    });
+
+    it('should report the current financial year', async () => {
+      const client = clientWith({ redeemed: 0, withheld: 0, panVerified: true });
+      const result = await taxService.calculateWithholding(client, 'u1', 100);
+
+      expect(result.financialYear).toMatch(/^\d{4}-\d{2}$/);
+    });
+  });
+});
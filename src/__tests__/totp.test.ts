@@ -0,0 +1,72 @@
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotpSecret, totpCode, verifyTotp } from '../utils/totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP utils', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 254, 255, 128, 64, 7, 99]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore padding, whitespace and case', () => {
+      expect(base32Decode('gezd gnbv====').toString()).toBe('12345');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('totpCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(totpCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+      expect(totpCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(totpCode(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+    const counter = Math.floor(1234567890 / 30);
+
+    it('should return the counter of the matching step', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, now)).toBe(counter);
+    });
+
+    it('should accept codes one step either side for clock drift', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter - 1), 1, now)).toBe(counter - 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter + 1), 1, now)).toBe(counter + 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter - 2), 1, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should carry the secret, issuer and code parameters', () => {
+      const uri = buildOtpauthUri(RFC_SECRET, 'alice', 'WiseReels');
+      expect(uri.startsWith('otpauth://totp/WiseReels%3Aalice?')).toBe(true);
+      const params = new URL(uri).searchParams;
+      expect(params.get('secret')).toBe(RFC_SECRET);
+      expect(params.get('issuer')).toBe('WiseReels');
+      expect(params.get('digits')).toBe('6');
+      expect(params.get('period')).toBe('30');
+    });
+  });
+});
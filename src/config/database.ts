@@ -48,6 +48,24 @@ class Database {
     return this.pool.connect();
   }
 
+  /**
+   * Run a callback inside BEGIN/COMMIT on a dedicated client, rolling back on error
+   */
+  async transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
     logger.info('Database connection closed');
@@ -1,4 +1,8 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
 
 export interface JWTPayload {
   userId: string;
@@ -8,23 +12,179 @@ export interface JWTPayload {
   exp?: number;
 }
 
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * One entry of the JWT_KEYS_FILE manifest. A key signs from activeFrom until retireAt;
+ * it keeps verifying (and stays in the JWKS) for as long as it is listed.
+ * The PEM is either inline (privateKey) or in a file relative to the manifest.
+ */
+interface KeyManifestEntry {
+  kid: string;
+  privateKey?: string;
+  privateKeyFile?: string;
+  alg?: SigningAlgorithm;
+  activeFrom?: string;
+  retireAt?: string;
+}
+
+interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  activeFrom: Date;
+  retireAt?: Date;
+}
+
+export interface Jwk {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+  [param: string]: unknown;
+}
+
 class JWTService {
-  private secret = process.env.JWT_SECRET || 'your-secret-key';
-  private expiry = process.env.JWT_EXPIRY || '7d';
+  private expiry = process.env.JWT_EXPIRY || '15m';
+  private issuer = process.env.JWT_ISSUER || 'wisereels';
+  private keys: SigningKey[] | null = null;
+
+  /**
+   * Load signing keys from the JWT_KEYS_FILE manifest. Called at startup so missing or
+   * broken key material fails the boot; outside production an ephemeral key is generated.
+   */
+  loadKeys(): void {
+    this.expiry = process.env.JWT_EXPIRY || '15m';
+    this.issuer = process.env.JWT_ISSUER || 'wisereels';
+
+    const manifestPath = process.env.JWT_KEYS_FILE;
+    if (!manifestPath) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT_KEYS_FILE must be set in production');
+      }
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      this.keys = [{ kid: `dev-${crypto.randomBytes(4).toString('hex')}`, alg: 'RS256', privateKey, publicKey, activeFrom: new Date(0) }];
+      logger.warn('JWT_KEYS_FILE not set; signing with an ephemeral key (tokens will not survive a restart)');
+      return;
+    }
+
+    const entries = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as KeyManifestEntry[];
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`No JWT signing keys listed in ${manifestPath}`);
+    }
+
+    const keys = entries.map((entry) => this.loadKey(entry, path.dirname(manifestPath)));
+    const kids = new Set(keys.map((key) => key.kid));
+    if (kids.size !== keys.length) {
+      throw new Error('JWT key ids must be unique');
+    }
+
+    this.keys = keys;
+    if (!this.currentKey(false)) {
+      throw new Error('No JWT signing key is active now');
+    }
+
+    logger.info('JWT signing keys loaded', {
+      kids: keys.map((key) => key.kid),
+      signingKid: this.currentKey().kid,
+    });
+  }
 
   generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload, this.secret, {
+    const key = this.currentKey();
+    return jwt.sign(payload, key.privateKey, {
+      algorithm: key.alg,
+      keyid: key.kid,
+      issuer: this.issuer,
       expiresIn: this.expiry,
-    } as any);
+    } as jwt.SignOptions);
   }
 
   verifyToken(token: string): JWTPayload {
-    return jwt.verify(token, this.secret) as JWTPayload;
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded && this.loadedKeys().find((candidate) => candidate.kid === decoded.header.kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('Unknown signing key');
+    }
+
+    return jwt.verify(token, key.publicKey, { algorithms: [key.alg], issuer: this.issuer }) as JWTPayload;
   }
 
   decodeToken(token: string): JWTPayload | null {
     return jwt.decode(token) as JWTPayload | null;
   }
+
+  /**
+   * Public keys for GET /.well-known/jwks.json, including keys scheduled to start signing
+   * so verifiers can cache them before the rotation
+   */
+  getJwks(): { keys: Jwk[] } {
+    return {
+      keys: this.loadedKeys().map((key) => ({
+        ...(key.publicKey.export({ format: 'jwk' }) as Record<string, unknown>),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private loadedKeys(): SigningKey[] {
+    if (!this.keys) {
+      this.loadKeys();
+    }
+    return this.keys!;
+  }
+
+  /**
+   * The most recently activated key that is not retired signs new tokens
+   */
+  private currentKey(): SigningKey;
+  private currentKey(required: false): SigningKey | undefined;
+  private currentKey(required: boolean = true): SigningKey | undefined {
+    const now = Date.now();
+    const key = this.loadedKeys()
+      .filter((candidate) => candidate.activeFrom.getTime() <= now && (!candidate.retireAt || candidate.retireAt.getTime() > now))
+      .sort((a, b) => b.activeFrom.getTime() - a.activeFrom.getTime())[0];
+
+    if (!key && required) {
+      throw new Error('No JWT signing key is active');
+    }
+    return key;
+  }
+
+  private loadKey(entry: KeyManifestEntry, baseDir: string): SigningKey {
+    if (!entry.kid || (!entry.privateKey && !entry.privateKeyFile)) {
+      throw new Error('Each JWT key needs a kid and a privateKey or privateKeyFile');
+    }
+
+    const privateKey = crypto.createPrivateKey(
+      entry.privateKey || fs.readFileSync(path.resolve(baseDir, entry.privateKeyFile!))
+    );
+    const alg = this.algorithmFor(privateKey, entry.kid);
+    if (entry.alg && entry.alg !== alg) {
+      throw new Error(`JWT key ${entry.kid} is not a ${entry.alg} key`);
+    }
+
+    const activeFrom = entry.activeFrom ? new Date(entry.activeFrom) : new Date(0);
+    const retireAt = entry.retireAt ? new Date(entry.retireAt) : undefined;
+    if (isNaN(activeFrom.getTime()) || (retireAt && isNaN(retireAt.getTime()))) {
+      throw new Error(`JWT key ${entry.kid} has an invalid activeFrom or retireAt`);
+    }
+
+    return { kid: entry.kid, alg, privateKey, publicKey: crypto.createPublicKey(privateKey), activeFrom, retireAt };
+  }
+
+  private algorithmFor(privateKey: KeyObject, kid: string): SigningAlgorithm {
+    const details = privateKey.asymmetricKeyDetails;
+    if (privateKey.asymmetricKeyType === 'rsa' && (details?.modulusLength || 0) >= 2048) {
+      return 'RS256';
+    }
+    if (privateKey.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1') {
+      return 'ES256';
+    }
+    throw new Error(`JWT key ${kid} must be an RSA key of at least 2048 bits or a P-256 EC key`);
+  }
 }
 
 export const jwtService = new JWTService();
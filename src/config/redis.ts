@@ -6,22 +6,38 @@ class RedisClient {
 
   async connect(): Promise<void> {
     try {
-      this.client = createClient({
-        socket: {
-          host: process.env.REDIS_HOST || 'localhost',
-          port: parseInt(process.env.REDIS_PORT || '6379'),
-        },
-        password: process.env.REDIS_PASSWORD || undefined,
-      }) as any;
+      const socket = {
+        // Give up after a few attempts; callers fall back to in-process state
+        reconnectStrategy: (retries: number) => (retries > 5 ? new Error('Redis unavailable') : Math.min(retries * 200, 2000)),
+      };
+      this.client = (process.env.REDIS_URL
+        ? createClient({ url: process.env.REDIS_URL, socket })
+        : createClient({
+            socket: {
+              ...socket,
+              host: process.env.REDIS_HOST || 'localhost',
+              port: parseInt(process.env.REDIS_PORT || '6379'),
+            },
+            password: process.env.REDIS_PASSWORD || undefined,
+          })) as any;
+
+      (this.client as any).on('error', (err: Error) => {
+        logger.warn('Redis client error', { error: err.message });
+      });
 
       await (this.client as any).connect();
       logger.info('Redis connected successfully');
     } catch (error) {
       logger.error('Redis connection failed', error);
+      this.client = null;
       throw error;
     }
   }
 
+  isReady(): boolean {
+    return !!this.client && (this.client as any).isReady;
+  }
+
   async get(key: string): Promise<string | null> {
     if (!this.client) throw new Error('Redis not connected');
     return await (this.client as any).get(key);
@@ -46,6 +62,11 @@ class RedisClient {
     return await (this.client as any).incr(key);
   }
 
+  async expire(key: string, seconds: number): Promise<void> {
+    if (!this.client) throw new Error('Redis not connected');
+    await (this.client as any).expire(key, seconds);
+  }
+
   async close(): Promise<void> {
     if (this.client) {
       await (this.client as any).quit();
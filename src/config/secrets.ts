@@ -0,0 +1,37 @@
+import { logger } from '../utils/logger';
+
+// Development fallbacks; production must set every one of these
+const DEV_SECRETS = {
+  WATCH_SESSION_SECRET: 'wisereels-dev-watch-session-secret',
+  DATA_ENCRYPTION_KEY: 'wisereels-data-encryption-key',
+  KYC_HASH_KEY: 'wisereels-dev-kyc-hash-key',
+};
+
+export type SecretName = keyof typeof DEV_SECRETS;
+
+/**
+ * Read a server-side secret from the environment. Outside production a missing
+ * secret falls back to a fixed development value.
+ */
+export const getSecret = (name: SecretName): string => {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${name} must be set in production`);
+  }
+  return DEV_SECRETS[name];
+};
+
+/**
+ * Check every secret at boot so a misconfigured deploy fails fast instead of on first use
+ */
+export const loadSecrets = (): void => {
+  for (const name of Object.keys(DEV_SECRETS) as SecretName[]) {
+    getSecret(name);
+    if (!process.env[name]) {
+      logger.warn(`${name} not set; using the development fallback`);
+    }
+  }
+};
@@ -0,0 +1,166 @@
+import { Response } from 'express';
+import { accountRecoveryService } from '../services/accountRecovery.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const locale = (req: AuthRequest): string | undefined => req.body.locale || req.headers['accept-language'];
+
+/**
+ * Email a verification code to the profile email
+ * POST /api/auth/email/verify-request
+ */
+export const requestEmailVerification = async (req: AuthRequest, res: Response) => {
+  try {
+    await accountRecoveryService.sendEmailVerification(req.user!.userId);
+    res.json({ success: true, message: 'Verification code sent to your email' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error sending email verification', error);
+      res.status(500).json({ success: false, error: 'Failed to send verification email' });
+    }
+  }
+};
+
+/**
+ * Verify the profile email
+ * POST /api/auth/email/verify
+ */
+export const verifyEmail = async (req: AuthRequest, res: Response) => {
+  try {
+    await accountRecoveryService.verifyEmail(req.user!.userId, req.body.code);
+    res.json({ success: true, message: 'Email verified' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error verifying email', error);
+      res.status(500).json({ success: false, error: 'Failed to verify email' });
+    }
+  }
+};
+
+/**
+ * Get the phone change in progress or on hold
+ * GET /api/auth/phone-change
+ */
+export const getPhoneChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const change = await accountRecoveryService.getActivePhoneChange(req.user!.userId);
+    res.json({ success: true, data: change });
+  } catch (error) {
+    logger.error('Error fetching phone change', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch phone change' });
+  }
+};
+
+/**
+ * Start a phone number change (OTPs to both numbers)
+ * POST /api/auth/phone-change
+ */
+export const startPhoneChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await accountRecoveryService.startPhoneChange(req.user!.userId, req.body.newPhoneNumber, locale(req));
+    res.status(201).json({
+      success: true,
+      message: 'OTPs sent to your current and new phone numbers',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error starting phone change', error);
+      res.status(500).json({ success: false, error: 'Failed to start phone change' });
+    }
+  }
+};
+
+/**
+ * Confirm a phone number change
+ * POST /api/auth/phone-change/verify
+ */
+export const confirmPhoneChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const { oldOtp, newOtp } = req.body;
+    const result = await accountRecoveryService.confirmPhoneChange(req.user!.userId, oldOtp, newOtp, locale(req));
+    res.json({
+      success: true,
+      message: 'Phone number changed. Redemptions are paused for a short while as a precaution.',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error confirming phone change', error);
+      res.status(500).json({ success: false, error: 'Failed to change phone number' });
+    }
+  }
+};
+
+/**
+ * Cancel a phone change or an account recovery in progress
+ * DELETE /api/auth/phone-change
+ */
+export const cancelPhoneChange = async (req: AuthRequest, res: Response) => {
+  try {
+    await accountRecoveryService.cancelPhoneChange(req.user!.userId);
+    res.json({ success: true, message: 'Phone change cancelled' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error cancelling phone change', error);
+      res.status(500).json({ success: false, error: 'Failed to cancel phone change' });
+    }
+  }
+};
+
+/**
+ * Start account recovery through the verified email
+ * POST /api/auth/recovery
+ */
+export const startRecovery = async (req: AuthRequest, res: Response) => {
+  try {
+    const { email, phoneNumber } = req.body;
+    await accountRecoveryService.startRecovery(email, phoneNumber, locale(req));
+    // Same answer whether or not the email belongs to an account
+    res.json({
+      success: true,
+      message: 'If this email is verified on an account, a recovery code has been sent to it and an OTP to the new number',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error starting account recovery', error);
+      res.status(500).json({ success: false, error: 'Failed to start account recovery' });
+    }
+  }
+};
+
+/**
+ * Verify account recovery; the new number takes over after the cooling-off period
+ * POST /api/auth/recovery/verify
+ */
+export const confirmRecovery = async (req: AuthRequest, res: Response) => {
+  try {
+    const { email, phoneNumber, emailCode, otp } = req.body;
+    const result = await accountRecoveryService.confirmRecovery(email, phoneNumber, emailCode, otp, locale(req));
+    res.json({
+      success: true,
+      message: 'Recovery verified. You can log in with the new number once the cooling-off period ends.',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error verifying account recovery', error);
+      res.status(500).json({ success: false, error: 'Failed to verify account recovery' });
+    }
+  }
+};
@@ -6,10 +6,22 @@ import { AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import { otpService } from '../services/otp.service';
+import { referralService } from '../services/referral.service';
+import { SessionContext } from '../services/auth.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { dataExportService } from '../services/dataExport.service';
+
+// Device details recorded on the session so users can recognise it in GET /api/auth/sessions
+const sessionContext = (req: AuthRequest): SessionContext => ({
+  deviceName: req.body.deviceName || req.headers['x-device-name'],
+  deviceId: req.headers['x-device-id'],
+  ipAddress: req.ip,
+  userAgent: req.headers['user-agent'],
+});
 
 export const registerUser = async (req: AuthRequest, res: Response) => {
   try {
-    const { phoneNumber, username, displayName, firstName, lastName, email } = req.body;
+    const { phoneNumber, username, displayName, firstName, lastName, email, referralCode } = req.body;
     if (!phoneNumber || !username || !displayName) {
       throw new AppError(400, 'Phone number, username, and display name are required');
     }
@@ -23,22 +35,31 @@ export const registerUser = async (req: AuthRequest, res: Response) => {
     if (existingUsername) {
       throw new AppError(409, 'Username already taken');
     }
+    // Reject unknown referral codes up front so the user can correct them
+    if (referralCode && !(await referralService.resolveCode(referralCode))) {
+      throw new AppError(400, 'Invalid referral code');
+    }
     // Store in pending_registrations
     await authService.savePendingRegistration({
-      phoneNumber, username, displayName, firstName, lastName, email
+      phoneNumber, username, displayName, firstName, lastName, email,
+      referralCode, deviceId: req.header('x-device-id'),
     });
     // Send OTP
-    await otpService.generateAndSendOtp(phoneNumber);
+    await otpService.generateAndSendOtp(phoneNumber, req.body.locale || req.headers['accept-language']);
     res.status(200).json({
       success: true,
       message: 'Registration info received. OTP sent to phone number.'
     });
   } catch (error) {
-    logger.error('Registration error', error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message || 'Registration failed',
-    });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Registration error', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message || 'Registration failed',
+      });
+    }
   }
 };
 
@@ -60,18 +81,19 @@ export const verifyOtpAndRegister = async (req: AuthRequest, res: Response) => {
       pending.display_name,
       pending.first_name,
       pending.last_name,
-      pending.email
+      pending.email,
+      { code: pending.referral_code, deviceId: pending.device_id, ipAddress: req.ip }
     );
     // Remove from pending_registrations
     await authService.deletePendingRegistration(phoneNumber);
     // Initialize creator profile
     await creatorService.initializeCreator(user.id);
-    // Generate token
-    const token = await authService.generateAuthToken(user.id, 'USER');
+    // Start the user's first session
+    const session = await authService.createSession(user.id, user.role, sessionContext(req));
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      data: { user, token },
+      data: { user, token: session.accessToken, ...session },
     });
   } catch (error) {
     logger.error('OTP verification/registration error', error);
@@ -95,14 +117,63 @@ export const loginUser = async (req: AuthRequest, res: Response) => {
       throw new AppError(404, 'User not found');
     }
 
-    const token = await authService.generateAuthToken(user.id, 'USER');
+    // Tokens are only issued once the OTP is verified (POST /api/auth/login/verify)
+    await otpService.generateAndSendOtp(phoneNumber, req.body.locale || req.headers['accept-language']);
+
+    res.json({
+      success: true,
+      message: 'OTP sent to phone number',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Login error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Login failed',
+      });
+    }
+  }
+};
+
+/**
+ * Verify the login OTP and start a session
+ * POST /api/auth/login/verify
+ */
+export const verifyLogin = async (req: AuthRequest, res: Response) => {
+  try {
+    const { phoneNumber, otp } = req.body;
+
+    try {
+      await otpService.verifyOtp(phoneNumber, otp);
+    } catch (error) {
+      throw new AppError(401, (error as Error).message);
+    }
+
+    const user = await authService.getUserByPhone(phoneNumber);
+    if (!user) {
+      throw new AppError(404, 'User not found');
+    }
+
+    // Logging in during the grace period undoes a requested deletion
+    const deletionCancelled = await authService.cancelAccountDeletion(user.id);
+    const session = await authService.createSession(user.id, user.role, sessionContext(req));
+    // Lets the app prompt enrolment before the user hits a step-up guarded action
+    const twoFactor = await twoFactorService.getStatus(user.id);
 
     res.json({
       success: true,
-      message: 'Login successful',
+      message: deletionCancelled ? 'Login successful. Your account deletion has been cancelled.' : 'Login successful',
       data: {
         user,
-        token,
+        token: session.accessToken,
+        ...session,
+        twoFactor,
+        deletionCancelled,
       },
     });
   } catch (error) {
@@ -112,7 +183,7 @@ export const loginUser = async (req: AuthRequest, res: Response) => {
         error: error.message,
       });
     } else {
-      logger.error('Login error', error);
+      logger.error('Login verification error', error);
       res.status(500).json({
         success: false,
         error: 'Login failed',
@@ -158,7 +229,7 @@ export const sendOtp = async (req: AuthRequest, res: Response) => {
   try {
     const { phoneNumber } = req.body;
     if (!phoneNumber) throw new AppError(400, 'Phone number is required');
-    await otpService.generateAndSendOtp(phoneNumber);
+    await otpService.generateAndSendOtp(phoneNumber, req.body.locale || req.headers['accept-language']);
     res.json({ success: true, message: 'OTP sent successfully' });
   } catch (error) {
     logger.error('Send OTP error', error);
@@ -166,39 +237,37 @@ export const sendOtp = async (req: AuthRequest, res: Response) => {
   }
 };
 /**
- * Refresh access token
+ * Exchange a refresh token for a new access and refresh token pair
  * POST /api/auth/refresh
  */
 export const refreshToken = async (req: AuthRequest, res: Response) => {
   try {
     const { refreshToken } = req.body;
-    const userId = req.user?.userId;
-
-    if (!userId) {
-      throw new AppError(401, 'Authentication required');
-    }
 
     if (!refreshToken) {
       throw new AppError(400, 'Refresh token is required');
     }
 
-    const newAccessToken = await authService.refreshAccessToken(refreshToken, userId);
+    const session = await authService.refreshAccessToken(refreshToken, sessionContext(req));
 
     res.status(200).json({
       success: true,
       message: 'Token refreshed successfully',
-      data: {
-        accessToken: newAccessToken,
-      },
+      data: session,
     });
-
-    logger.info('Token refreshed', { userId });
   } catch (error) {
-    logger.error('Token refresh error', error);
-    res.status(401).json({
-      success: false,
-      error: (error as Error).message || 'Token refresh failed',
-    });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Token refresh error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Token refresh failed',
+      });
+    }
   }
 };
 
@@ -286,51 +355,71 @@ export const revokeSession = async (req: AuthRequest, res: Response) => {
 
     logger.info('Session revoked', { userId, sessionId });
   } catch (error) {
-    logger.error('Error revoking session', error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message || 'Failed to revoke session',
-    });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Error revoking session', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message || 'Failed to revoke session',
+      });
+    }
   }
 };
 
 /**
- * Delete user account
+ * Schedule account deletion after the grace period
  * DELETE /api/auth/account
  */
 export const deleteAccount = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { password } = req.body;
 
     if (!userId) {
       throw new AppError(401, 'Authentication required');
     }
 
-    if (!password) {
-      throw new AppError(400, 'Password is required to delete account');
-    }
-
-    // Optionally verify password before deletion (implement if needed)
-    // const user = await authService.getUserById(userId);
-    // const isPasswordValid = await bcrypt.compare(password, user.password);
-    // if (!isPasswordValid) {
-    //   throw new AppError(401, 'Invalid password');
-    // }
-
-    await authService.deleteAccount(userId);
+    const { scheduledFor } = await authService.scheduleAccountDeletion(userId, req.body.reason);
 
     res.status(200).json({
       success: true,
-      message: 'Account deleted successfully. Your data will be permanently deleted within 30 days.',
+      message: 'Account scheduled for deletion. Log in again before then to cancel.',
+      data: { scheduledFor },
     });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Account deletion error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Account deletion failed',
+      });
+    }
+  }
+};
+
+/**
+ * Download a zip archive of the user's personal data
+ * GET /api/auth/account/export
+ */
+export const exportAccountData = async (req: AuthRequest, res: Response) => {
+  try {
+    const { filename, archive } = await dataExportService.buildExport(req.user!.userId);
 
-    logger.warn('User account deletion requested', { userId });
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(archive);
   } catch (error) {
-    logger.error('Account deletion error', error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message || 'Account deletion failed',
-    });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Account export error', error);
+      res.status(500).json({ success: false, error: 'Failed to export account data' });
+    }
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,151 @@
+import { Response } from 'express';
+import { bonusRulesService } from '../services/bonusRules.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * List every bonus rule, including inactive ones
+ * GET /api/bonus-rules
+ */
+export const getBonusRules = async (req: AuthRequest, res: Response) => {
+  try {
+    const rules = await bonusRulesService.listRules();
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        count: rules.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get bonus rules error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch bonus rules',
+      });
+    }
+  }
+};
+
+/**
+ * Get a bonus rule
+ * GET /api/bonus-rules/:ruleId
+ */
+export const getBonusRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const rule = await bonusRulesService.getRule(req.params.ruleId);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get bonus rule error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch bonus rule',
+      });
+    }
+  }
+};
+
+/**
+ * Create a streak, milestone or campaign rule
+ * POST /api/bonus-rules
+ */
+export const createBonusRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const rule = await bonusRulesService.createRule(req.body, req.adminAudit!);
+
+    res.status(201).json({
+      success: true,
+      message: 'Bonus rule created',
+      data: rule,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Create bonus rule error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create bonus rule',
+      });
+    }
+  }
+};
+
+/**
+ * Update a bonus rule (points, thresholds, window, active flag)
+ * PUT /api/bonus-rules/:ruleId
+ */
+export const updateBonusRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const rule = await bonusRulesService.updateRule(req.params.ruleId, req.body, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: 'Bonus rule updated',
+      data: rule,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Update bonus rule error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update bonus rule',
+      });
+    }
+  }
+};
+
+/**
+ * Deactivate a bonus rule; awards already paid stay in the ledger
+ * DELETE /api/bonus-rules/:ruleId
+ */
+export const deleteBonusRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const rule = await bonusRulesService.updateRule(req.params.ruleId, { is_active: false }, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: 'Bonus rule deactivated',
+      data: rule,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Deactivate bonus rule error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate bonus rule',
+      });
+    }
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import ChatService from '../services/chat.service';
+import { tipService } from '../services/tip.service';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 
@@ -132,6 +133,43 @@ export const sendMessage = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
+/**
+ * Tip the other participant with available points; the tip is posted into the conversation
+ * POST /api/chat/:conversationId/tip
+ */
+export const sendTip = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const conversationId = req.params.conversationId;
+    const userId = req.userId;
+    const { points, message } = req.body;
+
+    if (!userId) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const tip = await tipService.tipInConversation(userId, conversationId, points, message);
+    const chatMessage = await ChatService.sendMessage(
+      conversationId,
+      userId,
+      message || `Sent a tip of ${tip.points} points`,
+      undefined,
+      undefined,
+      tip.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Tipped ${tip.points} points`,
+      data: { tip, message: chatMessage },
+    });
+
+    logger.info('Chat tip sent', { conversationId, userId, tipId: tip.id });
+  } catch (error) {
+    logger.error('Error in sendTip', { error });
+    throw error;
+  }
+};
+
 /**
  * Delete message
  * DELETE /api/chat/messages/:messageId
@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import { creatorService } from '../services/creator.service';
+import { creatorRevenueService } from '../services/creatorRevenue.service';
 import { AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
@@ -93,7 +94,7 @@ export const verifyCreatorCredentials = async (req: AuthRequest, res: Response)
       throw new AppError(400, 'Status must be VERIFIED or REJECTED');
     }
 
-    const creator = await creatorService.verifyCreator(userId, status, req.user.userId);
+    const creator = await creatorService.verifyCreator(userId, status, req.user.userId, req.adminAudit!);
 
     res.json({
       success: true,
@@ -170,3 +171,116 @@ export const getCreatorById = async (req: AuthRequest, res: Response) => {
     res.status(400).json({ success: false, error: (error as Error).message });
   }
 };
+
+/**
+ * Revenue share summary: views, lifetime earnings, pending and released points
+ * GET /api/creators/earnings
+ */
+export const getCreatorEarnings = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const summary = await creatorRevenueService.getSummary(req.user.userId);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get creator earnings error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch creator earnings',
+      });
+    }
+  }
+};
+
+/**
+ * Monthly payout report snapshots, newest first
+ * GET /api/creators/earnings/reports
+ */
+export const getCreatorReports = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const reports = await creatorRevenueService.listReports(req.user.userId);
+
+    res.json({
+      success: true,
+      data: {
+        reports,
+        count: reports.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get creator reports error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch creator reports',
+      });
+    }
+  }
+};
+
+/**
+ * Revenue share for a month, per video; ?format=csv downloads it
+ * GET /api/creators/earnings/reports/:month?format=json|csv
+ */
+export const getCreatorMonthlyReport = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const format = ((req.query.format as string) || 'json').toLowerCase();
+    if (format !== 'json' && format !== 'csv') {
+      throw new AppError(400, 'Format must be json or csv');
+    }
+
+    if (format === 'csv') {
+      const file = await creatorRevenueService.exportMonthlyReport(req.user.userId, req.params.month);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(file.body);
+      return;
+    }
+
+    const report = await creatorRevenueService.getMonthlyReport(req.user.userId, req.params.month);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get creator monthly report error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch creator report',
+      });
+    }
+  }
+};
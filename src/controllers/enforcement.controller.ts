@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import { enforcementService, AppealStatus } from '../services/enforcement.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the caller's restrictions and what they mean
+ * GET /api/enforcement/status
+ */
+export const getEnforcementStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    // authMiddleware already looked the status up for this request
+    const status = req.enforcement || (await enforcementService.getStatus(req.user!.userId));
+    res.json({
+      success: true,
+      data: {
+        restricted: status.enforcements.length > 0,
+        ...status,
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching enforcement status', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch account status' });
+  }
+};
+
+/**
+ * Appeal one of the caller's active enforcements
+ * POST /api/enforcement/appeals
+ */
+export const submitAppeal = async (req: AuthRequest, res: Response) => {
+  try {
+    const appeal = await enforcementService.submitAppeal(req.user!.userId, req.body.enforcementId, req.body.message);
+    res.status(201).json({
+      success: true,
+      message: 'Appeal submitted. A moderator will review it.',
+      data: appeal,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error submitting appeal', error);
+      res.status(500).json({ success: false, error: 'Failed to submit appeal' });
+    }
+  }
+};
+
+/**
+ * Get a user's enforcement history
+ * GET /api/enforcement/users/:userId
+ */
+export const getUserEnforcements = async (req: AuthRequest, res: Response) => {
+  try {
+    const enforcements = await enforcementService.getUserHistory(req.params.userId);
+    res.json({ success: true, data: enforcements });
+  } catch (error) {
+    logger.error('Error fetching user enforcements', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch enforcements' });
+  }
+};
+
+/**
+ * Suspend, ban or restrict a user
+ * POST /api/enforcement/users/:userId
+ */
+export const applyEnforcement = async (req: AuthRequest, res: Response) => {
+  try {
+    const { type, reason, durationHours } = req.body;
+    const enforcement = await enforcementService.apply(
+      req.params.userId,
+      { type, reason, durationHours },
+      req.user!.userId,
+      req.adminAudit!
+    );
+    res.status(201).json({ success: true, data: enforcement });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error applying enforcement', error);
+      res.status(500).json({ success: false, error: 'Failed to apply enforcement' });
+    }
+  }
+};
+
+/**
+ * Lift an enforcement early
+ * POST /api/enforcement/:enforcementId/lift
+ */
+export const liftEnforcement = async (req: AuthRequest, res: Response) => {
+  try {
+    const enforcement = await enforcementService.lift(req.params.enforcementId, req.user!.userId, req.body.reason, req.adminAudit!);
+    res.json({ success: true, data: enforcement });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error lifting enforcement', error);
+      res.status(500).json({ success: false, error: 'Failed to lift enforcement' });
+    }
+  }
+};
+
+/**
+ * Get the appeal review queue
+ * GET /api/enforcement/appeals?status=PENDING
+ */
+export const getAppeals = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = ((req.query.status as string) || 'PENDING').toUpperCase() as AppealStatus;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (!['PENDING', 'UPHELD', 'OVERTURNED'].includes(status)) {
+      throw new AppError(400, 'Invalid appeal status');
+    }
+
+    const appeals = await enforcementService.getAppeals(status, limit, offset);
+    res.json({ success: true, data: { appeals, count: appeals.length } });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error fetching appeals', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch appeals' });
+    }
+  }
+};
+
+/**
+ * Uphold or overturn an appeal
+ * POST /api/enforcement/appeals/:appealId/review
+ */
+export const reviewAppeal = async (req: AuthRequest, res: Response) => {
+  try {
+    const appeal = await enforcementService.reviewAppeal(
+      req.params.appealId,
+      req.body.decision,
+      req.user!.userId,
+      req.adminAudit!,
+      req.body.note
+    );
+    res.json({ success: true, data: appeal });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error reviewing appeal', error);
+      res.status(500).json({ success: false, error: 'Failed to review appeal' });
+    }
+  }
+};
@@ -0,0 +1,167 @@
+import { Response } from 'express';
+import { fraudService, FraudFlag } from '../services/fraud.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Run a fraud scan over recent heartbeats and wallet earnings
+ * POST /api/fraud/scan
+ */
+export const runFraudScan = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await fraudService.runScan();
+
+    res.json({
+      success: true,
+      message: 'Fraud scan completed',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Fraud scan error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Fraud scan failed',
+      });
+    }
+  }
+};
+
+/**
+ * Get the fraud review queue
+ * GET /api/fraud/flags?status=OPEN
+ */
+export const getFraudFlags = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = ((req.query.status as string) || 'OPEN').toUpperCase() as FraudFlag['status'];
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (!['OPEN', 'CONFIRMED', 'DISMISSED'].includes(status)) {
+      throw new AppError(400, 'Invalid flag status');
+    }
+
+    const flags = await fraudService.getFlags(status, limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        flags,
+        count: flags.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get fraud flags error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch fraud flags',
+      });
+    }
+  }
+};
+
+/**
+ * Get a fraud flag with its held earnings
+ * GET /api/fraud/flags/:flagId
+ */
+export const getFraudFlag = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await fraudService.getFlag(req.params.flagId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get fraud flag error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch fraud flag',
+      });
+    }
+  }
+};
+
+/**
+ * Confirm fraud and reverse the held earnings
+ * POST /api/fraud/flags/:flagId/confirm
+ */
+export const confirmFraudFlag = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const flag = await fraudService.confirmFlag(req.params.flagId, req.user.userId, req.adminAudit!, req.body.notes);
+
+    res.json({
+      success: true,
+      message: 'Fraud confirmed and earnings reversed',
+      data: flag,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Confirm fraud flag error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to confirm fraud flag',
+      });
+    }
+  }
+};
+
+/**
+ * Dismiss a fraud flag and release the held earnings
+ * POST /api/fraud/flags/:flagId/dismiss
+ */
+export const dismissFraudFlag = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const flag = await fraudService.dismissFlag(req.params.flagId, req.user.userId, req.adminAudit!, req.body.notes);
+
+    res.json({
+      success: true,
+      message: 'Fraud flag dismissed',
+      data: flag,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Dismiss fraud flag error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dismiss fraud flag',
+      });
+    }
+  }
+};
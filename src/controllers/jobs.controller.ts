@@ -0,0 +1,153 @@
+import { Response } from 'express';
+import { jobScheduler } from '../jobs/scheduler';
+import { JOB_DEFINITIONS } from '../jobs/definitions';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Queue counts, cron schedules and the list of known jobs
+ * GET /api/jobs
+ */
+export const getJobsOverview = async (req: AuthRequest, res: Response) => {
+  try {
+    const queues = await jobScheduler.getOverview();
+
+    res.json({
+      success: true,
+      data: {
+        queues,
+        definitions: JOB_DEFINITIONS.map(({ queue, name, description, cron }) => ({ queue, name, description, cron })),
+      },
+    });
+  } catch (error) {
+    logger.error('Get jobs overview error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch job queues',
+    });
+  }
+};
+
+/**
+ * List jobs in a queue by status (default failed)
+ * GET /api/jobs/:queue?status=failed
+ */
+export const getQueueJobs = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'failed';
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const jobs = await jobScheduler.listJobs(req.params.queue, status, limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        jobs,
+        count: jobs.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get queue jobs error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch jobs',
+      });
+    }
+  }
+};
+
+/**
+ * Inspect a job: data, attempts, failure reason and stack trace
+ * GET /api/jobs/:queue/:jobId
+ */
+export const getJob = async (req: AuthRequest, res: Response) => {
+  try {
+    const job = await jobScheduler.getJob(req.params.queue, req.params.jobId);
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get job error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch job',
+      });
+    }
+  }
+};
+
+/**
+ * Run a job again (retry in place, or re-enqueue from the dead-letter queue)
+ * POST /api/jobs/:queue/:jobId/retry
+ */
+export const retriggerJob = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await jobScheduler.retriggerJob(req.params.queue, req.params.jobId);
+    logger.info('Job retriggered by admin', { ...result, adminId: req.user?.userId });
+
+    res.json({
+      success: true,
+      message: 'Job re-enqueued',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Retrigger job error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrigger job',
+      });
+    }
+  }
+};
+
+/**
+ * Enqueue a defined job to run now
+ * POST /api/jobs/:queue/run/:jobName
+ */
+export const runJob = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await jobScheduler.runNow(req.params.queue, req.params.jobName);
+    logger.info('Job run requested by admin', { ...result, adminId: req.user?.userId });
+
+    res.status(202).json({
+      success: true,
+      message: 'Job enqueued',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Run job error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to enqueue job',
+      });
+    }
+  }
+};
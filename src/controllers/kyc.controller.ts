@@ -0,0 +1,207 @@
+import { Response } from 'express';
+import { kycService } from '../services/kyc.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the user's KYC level, verified identities and redemption limits
+ * GET /api/kyc
+ */
+export const getKycStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const status = await kycService.getStatus(req.user.userId);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get KYC status error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch KYC status',
+      });
+    }
+  }
+};
+
+/**
+ * Verify a UPI ID with a penny drop
+ * POST /api/kyc/upi
+ */
+export const submitUpi = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const status = await kycService.submitUpi(req.user.userId, req.body.upiId);
+
+    res.json({
+      success: true,
+      message: status.upi.status === 'VERIFIED' ? 'UPI ID verified' : 'UPI ID submitted for manual review',
+      data: status,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Submit UPI error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify UPI ID',
+      });
+    }
+  }
+};
+
+/**
+ * Submit a PAN for review to unlock higher redemption limits
+ * POST /api/kyc/pan
+ */
+export const submitPan = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const status = await kycService.submitPan(req.user.userId, req.body.pan, req.body.name);
+
+    res.json({
+      success: true,
+      message: 'PAN submitted for review',
+      data: status,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Submit PAN error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to submit PAN',
+      });
+    }
+  }
+};
+
+/**
+ * List KYC profiles waiting for manual review
+ * GET /api/kyc/reviews
+ */
+export const getKycReviews = async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const reviews = await kycService.listReviews(limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        reviews,
+        count: reviews.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get KYC reviews error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch KYC reviews',
+      });
+    }
+  }
+};
+
+/**
+ * Get a user's full KYC details for review
+ * GET /api/kyc/reviews/:userId
+ */
+export const getKycReview = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const review = await kycService.getReview(req.params.userId, req.user.userId);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get KYC review error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch KYC review',
+      });
+    }
+  }
+};
+
+/**
+ * Approve or reject a UPI ID or PAN under review
+ * POST /api/kyc/reviews/:userId
+ */
+export const reviewKyc = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const status = await kycService.review(
+      req.params.userId,
+      { kind: req.body.kind, decision: req.body.decision, notes: req.body.notes },
+      req.user.userId,
+      req.adminAudit!
+    );
+
+    res.json({
+      success: true,
+      message: `${req.body.kind} ${req.body.decision === 'APPROVE' ? 'approved' : 'rejected'}`,
+      data: status,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Review KYC error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to review KYC',
+      });
+    }
+  }
+};
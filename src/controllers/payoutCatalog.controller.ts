@@ -0,0 +1,218 @@
+import { Response } from 'express';
+import { payoutCatalogService } from '../services/payoutCatalog.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * List every catalog item, including inactive ones
+ * GET /api/payout-catalog
+ */
+export const getCatalogItems = async (req: AuthRequest, res: Response) => {
+  try {
+    const items = await payoutCatalogService.listItems();
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        count: items.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get payout catalog error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch payout catalog',
+      });
+    }
+  }
+};
+
+/**
+ * Get a catalog item with its gift card stock
+ * GET /api/payout-catalog/:itemId
+ */
+export const getCatalogItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await payoutCatalogService.getItem(req.params.itemId);
+    const stock = await payoutCatalogService.getStock(item.id);
+
+    res.json({
+      success: true,
+      data: { item, stock },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get payout catalog item error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch catalog item',
+      });
+    }
+  }
+};
+
+/**
+ * Create a catalog item
+ * POST /api/payout-catalog
+ */
+export const createCatalogItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await payoutCatalogService.createItem(req.body, req.adminAudit!);
+
+    res.status(201).json({
+      success: true,
+      message: 'Catalog item created',
+      data: item,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Create payout catalog item error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create catalog item',
+      });
+    }
+  }
+};
+
+/**
+ * Update a catalog item (rate, denominations, limits, active flag)
+ * PUT /api/payout-catalog/:itemId
+ */
+export const updateCatalogItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await payoutCatalogService.updateItem(req.params.itemId, req.body, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: 'Catalog item updated',
+      data: item,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Update payout catalog item error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update catalog item',
+      });
+    }
+  }
+};
+
+/**
+ * Deactivate a catalog item
+ * DELETE /api/payout-catalog/:itemId
+ */
+export const deleteCatalogItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await payoutCatalogService.deactivateItem(req.params.itemId, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: 'Catalog item deactivated',
+      data: item,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Deactivate payout catalog item error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate catalog item',
+      });
+    }
+  }
+};
+
+/**
+ * Upload pre-purchased gift card codes for a denomination
+ * POST /api/payout-catalog/:itemId/codes
+ */
+export const addGiftCardCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const { denomination, codes, expiresAt } = req.body;
+    const result = await payoutCatalogService.addCodes(
+      req.params.itemId,
+      denomination,
+      codes,
+      req.adminAudit!,
+      expiresAt ? new Date(expiresAt) : undefined
+    );
+
+    logger.info('Gift card codes uploaded', { itemId: req.params.itemId, adminId: req.user?.userId, ...result });
+
+    res.status(201).json({
+      success: true,
+      message: `${result.added} codes added`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Add gift card codes error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add gift card codes',
+      });
+    }
+  }
+};
+
+/**
+ * Gift card stock per item and denomination
+ * GET /api/payout-catalog/stock
+ */
+export const getGiftCardStock = async (req: AuthRequest, res: Response) => {
+  try {
+    const stock = await payoutCatalogService.getStock();
+
+    res.json({
+      success: true,
+      data: stock,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get gift card stock error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch gift card stock',
+      });
+    }
+  }
+};
@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import { redemptionService, RedemptionRequest } from '../services/redemption.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * List redemption requests, optionally filtered by status
+ * GET /api/redemptions?status=failed
+ */
+export const getRedemptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = req.query.status ? ((req.query.status as string).toLowerCase() as RedemptionRequest['status']) : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (status && !['pending', 'processing', 'success', 'failed'].includes(status)) {
+      throw new AppError(400, 'Invalid redemption status');
+    }
+
+    const redemptions = await redemptionService.getRedemptions(status, limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+        count: redemptions.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get redemptions error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch redemptions',
+      });
+    }
+  }
+};
+
+/**
+ * List redemption requests stuck in processing or overdue for retry
+ * GET /api/redemptions/stuck
+ */
+export const getStuckRedemptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const redemptions = await redemptionService.getStuckRedemptions();
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+        count: redemptions.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Get stuck redemptions error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch stuck redemptions',
+    });
+  }
+};
+
+/**
+ * Get a redemption request with its provider response
+ * GET /api/redemptions/:redemptionId
+ */
+export const getRedemption = async (req: AuthRequest, res: Response) => {
+  try {
+    const redemption = await redemptionService.getRedemption(req.params.redemptionId);
+
+    res.json({
+      success: true,
+      data: redemption,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get redemption error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch redemption',
+      });
+    }
+  }
+};
+
+/**
+ * Retry the payout for a stuck or pending redemption now
+ * POST /api/redemptions/:redemptionId/retry
+ */
+export const retryRedemption = async (req: AuthRequest, res: Response) => {
+  try {
+    const redemption = await redemptionService.retryRedemption(req.params.redemptionId, req.user!.userId, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: `Redemption is ${redemption.status}`,
+      data: redemption,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Retry redemption error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retry redemption',
+      });
+    }
+  }
+};
+
+/**
+ * Attempt every pending redemption whose retry time has come
+ * POST /api/redemptions/process
+ */
+export const processRedemptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await redemptionService.processDueRedemptions();
+
+    res.json({
+      success: true,
+      message: 'Due redemptions processed',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Process redemptions error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process redemptions',
+    });
+  }
+};
@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import { referralService } from '../services/referral.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the user's referral code, referral stats and referee progress
+ * GET /api/referrals/me
+ */
+export const getReferralDashboard = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Unauthorized');
+    }
+
+    const dashboard = await referralService.getDashboard(req.user.userId);
+
+    res.json({
+      success: true,
+      data: dashboard,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get referral dashboard error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch referral dashboard',
+      });
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import { Response } from 'express';
+import { rewardBudgetService } from '../services/rewardBudget.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * List daily reward budgets, including inactive ones
+ * GET /api/reward-budgets
+ */
+export const getRewardBudgets = async (req: AuthRequest, res: Response) => {
+  try {
+    const budgets = await rewardBudgetService.getBudgets();
+
+    res.json({
+      success: true,
+      data: {
+        budgets,
+        count: budgets.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get reward budgets error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch reward budgets',
+      });
+    }
+  }
+};
+
+/**
+ * Today's budget usage, burn rate and forecast per category
+ * GET /api/reward-budgets/dashboard
+ */
+export const getRewardBudgetDashboard = async (req: AuthRequest, res: Response) => {
+  try {
+    const dashboard = await rewardBudgetService.getDashboard();
+
+    res.json({
+      success: true,
+      data: dashboard,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get reward budget dashboard error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch reward budget dashboard',
+      });
+    }
+  }
+};
+
+/**
+ * Set the daily reward budget for a category
+ * PUT /api/reward-budgets/:category
+ */
+export const setRewardBudget = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const budget = await rewardBudgetService.setBudget(req.params.category, req.body, req.user.userId, req.adminAudit!);
+
+    res.json({
+      success: true,
+      message: 'Reward budget updated',
+      data: budget,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Set reward budget error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update reward budget',
+      });
+    }
+  }
+};
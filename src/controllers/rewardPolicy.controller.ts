@@ -0,0 +1,124 @@
+import { Response } from 'express';
+import { rewardPolicyService } from '../services/rewardPolicy.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the reward policy currently in force
+ * GET /api/reward-policies/active
+ */
+export const getActiveRewardPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const policy = await rewardPolicyService.getActivePolicy();
+
+    res.json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    logger.error('Get active reward policy error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch active reward policy',
+    });
+  }
+};
+
+/**
+ * List every reward policy version, newest first
+ * GET /api/reward-policies
+ */
+export const getRewardPolicies = async (req: AuthRequest, res: Response) => {
+  try {
+    const policies = await rewardPolicyService.listPolicies();
+
+    res.json({
+      success: true,
+      data: {
+        policies,
+        count: policies.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Get reward policies error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reward policies',
+    });
+  }
+};
+
+/**
+ * Get a reward policy by version
+ * GET /api/reward-policies/:version
+ */
+export const getRewardPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const version = parseInt(req.params.version, 10);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new AppError(400, 'Invalid policy version');
+    }
+
+    const policy = await rewardPolicyService.getPolicyByVersion(version);
+    if (!policy) {
+      throw new AppError(404, 'Reward policy not found');
+    }
+
+    res.json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get reward policy error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch reward policy',
+      });
+    }
+  }
+};
+
+/**
+ * Publish a new reward policy version
+ * POST /api/reward-policies
+ */
+export const createRewardPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+      });
+    }
+
+    const policy = await rewardPolicyService.createPolicy(req.body, adminId, req.adminAudit!);
+
+    res.status(201).json({
+      success: true,
+      message: `Reward policy v${policy.version} published`,
+      data: policy,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Create reward policy error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create reward policy',
+      });
+    }
+  }
+};
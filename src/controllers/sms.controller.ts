@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { smsService } from '../services/sms.service';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Delivery-status callback from an SMS provider
+ * POST /api/sms/callbacks/:provider
+ */
+export const receiveSmsStatusCallback = async (req: Request, res: Response) => {
+  try {
+    // Signed callbacks are checked against the public URL the provider was given
+    const baseUrl = process.env.SMS_CALLBACK_BASE_URL || `${req.protocol}://${req.get('host')}`;
+    const matched = await smsService.recordStatusCallback(req.params.provider, {
+      url: `${baseUrl}${req.originalUrl}`,
+      headers: req.headers,
+      query: req.query,
+      body: req.body,
+    });
+
+    res.json({
+      success: true,
+      data: { matched },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('SMS status callback error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record SMS status',
+      });
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import { Response } from 'express';
+import { taxService } from '../services/tax.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the user's redemptions and TDS for a financial year
+ * GET /api/tax/statement?fy=2026-27
+ */
+export const getTaxStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const statement = await taxService.getAnnualStatement(req.user.userId, req.query.fy as string | undefined);
+
+    res.json({
+      success: true,
+      data: statement,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get tax statement error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch tax statement',
+      });
+    }
+  }
+};
+
+/**
+ * Download the annual tax statement as CSV or PDF
+ * GET /api/tax/statement/export?fy=2026-27&format=csv|pdf
+ */
+export const exportTaxStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const financialYear = req.query.fy as string;
+    const format = ((req.query.format as string) || 'pdf').toLowerCase();
+
+    if (!financialYear) {
+      throw new AppError(400, 'Financial year is required (YYYY-YY)');
+    }
+    if (format !== 'csv' && format !== 'pdf') {
+      throw new AppError(400, 'Format must be csv or pdf');
+    }
+
+    const file = await taxService.exportAnnualStatement(req.user.userId, financialYear, format);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(file.body);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Export tax statement error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export tax statement',
+      });
+    }
+  }
+};
+
+/**
+ * Export all TDS withheld in a financial year or quarter for filing
+ * GET /api/tax/filing/export?fy=2026-27&quarter=Q1
+ */
+export const exportTdsFiling = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const financialYear = req.query.fy as string;
+    const quarter = (req.query.quarter as string | undefined)?.toUpperCase();
+
+    if (!financialYear) {
+      throw new AppError(400, 'Financial year is required (YYYY-YY)');
+    }
+
+    const file = await taxService.exportWithholdings(financialYear, quarter, req.user.userId);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(file.body);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Export TDS filing error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export TDS filing',
+      });
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import { Response } from 'express';
+import { twoFactorService } from '../services/twoFactor.service';
+import { AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Get 2FA status
+ * GET /api/auth/2fa
+ */
+export const getTwoFactorStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = await twoFactorService.getStatus(req.user!.userId);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error fetching 2FA status', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch two-factor status' });
+    }
+  }
+};
+
+/**
+ * Start TOTP enrolment
+ * POST /api/auth/2fa/enrol
+ */
+export const startTwoFactorEnrolment = async (req: AuthRequest, res: Response) => {
+  try {
+    const enrolment = await twoFactorService.startEnrolment(req.user!.userId);
+    res.json({ success: true, data: enrolment });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error starting 2FA enrolment', error);
+      res.status(500).json({ success: false, error: 'Failed to start two-factor enrolment' });
+    }
+  }
+};
+
+/**
+ * Confirm TOTP enrolment
+ * POST /api/auth/2fa/enrol/verify
+ */
+export const confirmTwoFactorEnrolment = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await twoFactorService.confirmEnrolment(req.user!.userId, req.body.code);
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store these backup codes safely; they are shown once.',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error confirming 2FA enrolment', error);
+      res.status(500).json({ success: false, error: 'Failed to enable two-factor authentication' });
+    }
+  }
+};
+
+/**
+ * Exchange a TOTP or backup code for a step-up token
+ * POST /api/auth/2fa/step-up
+ */
+export const createStepUp = async (req: AuthRequest, res: Response) => {
+  try {
+    const { action, code, backupCode } = req.body;
+    const result = await twoFactorService.stepUp(req.user!.userId, action, { code, backupCode });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error verifying 2FA step-up', error);
+      res.status(500).json({ success: false, error: 'Failed to verify two-factor code' });
+    }
+  }
+};
+
+/**
+ * Replace backup codes
+ * POST /api/auth/2fa/backup-codes
+ */
+export const regenerateBackupCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await twoFactorService.regenerateBackupCodes(req.user!.userId, req.body.code);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error regenerating backup codes', error);
+      res.status(500).json({ success: false, error: 'Failed to regenerate backup codes' });
+    }
+  }
+};
+
+/**
+ * Disable 2FA
+ * DELETE /api/auth/2fa
+ */
+export const disableTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    await twoFactorService.disable(req.user!.userId, req.body.code);
+    res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+    } else {
+      logger.error('Error disabling 2FA', error);
+      res.status(500).json({ success: false, error: 'Failed to disable two-factor authentication' });
+    }
+  }
+};
@@ -1,7 +1,7 @@
 import { Response } from 'express';
 import { videoService } from '../services/video.service';
 import { creatorService } from '../services/creator.service';
-import { walletService } from '../services/wallet.service';
+import { tipService } from '../services/tip.service';
 import { AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
@@ -110,21 +110,8 @@ export const getVideo = async (req: AuthRequest, res: Response) => {
       throw new AppError(404, 'Video not found');
     }
 
-    // Record watch event if user is authenticated
+    // Points are earned only through watch sessions (POST /api/wallet/sessions + heartbeats)
     if (req.user) {
-      const creator = await creatorService.getCreatorByUserId(req.user.userId);
-      if (creator && video.creator_id !== creator.id) {
-        // Only record if user is not the creator
-        await walletService.recordWatchEvent(
-          req.user.userId,
-          videoId,
-          video.creator_id,
-          10, // Default 10 seconds for API call
-          video.category
-        );
-      }
-
-      // Increment view count
       await videoService.incrementViewCount(videoId);
     }
 
@@ -210,3 +197,58 @@ export const commentOnVideo = async (req: AuthRequest, res: Response) => {
     res.status(400).json({ success: false, error: (error as Error).message });
   }
 };
+
+/**
+ * Tip the video's creator with available points
+ * POST /api/videos/:videoId/tip
+ */
+export const tipVideo = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { points, message } = req.body;
+    const tip = await tipService.tipVideo(req.user.userId, req.params.videoId, points, message);
+
+    res.status(201).json({
+      success: true,
+      message: `Tipped ${tip.points} points`,
+      data: tip,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Tip video error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send tip',
+      });
+    }
+  }
+};
+
+/**
+ * Top tippers of a video
+ * GET /api/videos/:videoId/tips/leaderboard
+ */
+export const getVideoTipLeaderboard = async (req: AuthRequest, res: Response) => {
+  try {
+    const leaderboard = await tipService.getVideoLeaderboard(req.params.videoId);
+
+    res.json({
+      success: true,
+      data: leaderboard,
+    });
+  } catch (error) {
+    logger.error('Get tip leaderboard error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tip leaderboard',
+    });
+  }
+};
@@ -1,5 +1,12 @@
 import { Response } from 'express';
 import { walletService } from '../services/wallet.service';
+import { watchSessionService } from '../services/watchSession.service';
+import { redemptionService } from '../services/redemption.service';
+import { walletInboxService } from '../services/walletInbox.service';
+import { pointsExpiryService } from '../services/pointsExpiry.service';
+import { bonusRulesService } from '../services/bonusRules.service';
+import { statementService, STATEMENT_TYPES, StatementFilters } from '../services/statement.service';
+import { adminAuditService } from '../services/adminAudit.service';
 import { AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
@@ -36,32 +43,74 @@ export const getWallet = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const recordWatchEvent = async (req: AuthRequest, res: Response) => {
+export const redeemPoints = async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       throw new AppError(401, 'Authentication required');
     }
 
-    const { videoId, creatorId, watchDurationSeconds, category } = req.body;
+    const { catalogItemId, amountRupees, upiId, phoneNumber, operator, circle } = req.body;
+
+    const { redemptionId, pointsRedeemed, method, taxWithheld } = await walletService.redeemPoints(req.user.userId, {
+      catalogItemId,
+      amountRupees,
+      details: { upiId, phoneNumber, operator, circle },
+    });
 
-    if (!videoId || !creatorId || !watchDurationSeconds || !category) {
-      throw new AppError(400, 'All watch event fields are required');
+    // First payout attempt runs in the background; failures are retried by the redemption processor
+    redemptionService.processRedemption(redemptionId).catch((error) => {
+      logger.error('Initial redemption payout attempt failed', { error, redemptionId });
+    });
+
+    res.json({
+      success: true,
+      message: 'Redemption request created',
+      data: {
+        redemptionId,
+        pointsRedeemed,
+        amountRupees,
+        method,
+        taxWithheld,
+        status: 'pending',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Redemption error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Redemption failed',
+      });
     }
+  }
+};
 
-    await walletService.recordWatchEvent(
-      req.user.userId,
-      videoId,
-      creatorId,
-      watchDurationSeconds,
-      category
-    );
+/**
+ * List the authenticated user's redemption requests and their payout status
+ * GET /api/wallet/redemptions
+ */
+export const getMyRedemptions = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
 
-    const wallet = await walletService.getWallet(req.user.userId);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const redemptions = await redemptionService.getUserRedemptions(req.user.userId, limit, offset);
 
     res.json({
       success: true,
-      message: 'Watch event recorded',
-      data: wallet,
+      data: {
+        redemptions,
+        count: redemptions.length,
+      },
     });
   } catch (error) {
     if (error instanceof AppError) {
@@ -70,40 +119,205 @@ export const recordWatchEvent = async (req: AuthRequest, res: Response) => {
         error: error.message,
       });
     } else {
-      logger.error('Record watch event error', error);
+      logger.error('Get redemptions error', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to record watch event',
+        error: 'Failed to fetch redemptions',
       });
     }
   }
 };
 
-export const redeemPoints = async (req: AuthRequest, res: Response) => {
+/**
+ * List the authenticated user's wallet inbox (delivered gift cards)
+ * GET /api/wallet/inbox
+ */
+export const getInbox = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const items = await walletInboxService.getInbox(req.user.userId, limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        count: items.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get wallet inbox error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch wallet inbox',
+      });
+    }
+  }
+};
+
+/**
+ * Reveal a wallet inbox item to its owner
+ * GET /api/wallet/inbox/:itemId
+ */
+export const openInboxItem = async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       throw new AppError(401, 'Authentication required');
     }
 
-    const { pointsToRedeem, redemptionType, details } = req.body;
+    const item = await walletInboxService.openItem(req.user.userId, req.params.itemId);
 
-    if (!pointsToRedeem || !redemptionType) {
-      throw new AppError(400, 'Points to redeem and redemption type are required');
+    // Gift card codes must not linger in shared or proxy caches
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      data: item,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Open wallet inbox item error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to open inbox item',
+      });
     }
+  }
+};
 
-    if (pointsToRedeem < 100) {
-      throw new AppError(400, 'Minimum redemption is 100 points');
+/**
+ * Upcoming expiries of the user's available points
+ * GET /api/wallet/expiring
+ */
+export const getExpiringPoints = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
     }
 
-    const redemptionId = await walletService.redeemPoints(req.user.userId, pointsToRedeem);
+    const breakdown = await pointsExpiryService.getExpiryBreakdown(req.user.userId);
+
+    res.json({
+      success: true,
+      data: breakdown,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get expiring points error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch expiring points',
+      });
+    }
+  }
+};
+
+/**
+ * Current watch streaks and recently earned bonuses
+ * GET /api/wallet/streak
+ */
+export const getStreak = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const streak = await bonusRulesService.getStreaks(req.user.userId);
+
+    res.json({
+      success: true,
+      data: streak,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get streak error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch streak',
+      });
+    }
+  }
+};
+
+/**
+ * Paginated points statement over the ledger
+ * GET /api/wallet/statement?from=&to=&type=EARN,BONUS&videoId=&creatorId=&limit=&offset=
+ */
+export const getStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const filters: StatementFilters = {};
+
+    for (const key of ['from', 'to'] as const) {
+      if (req.query[key]) {
+        const date = new Date(req.query[key] as string);
+        if (isNaN(date.getTime())) {
+          throw new AppError(400, `Invalid ${key} date`);
+        }
+        filters[key] = date;
+      }
+    }
+
+    if (req.query.type) {
+      const types = (req.query.type as string).toUpperCase().split(',');
+      if (types.some((type) => !STATEMENT_TYPES.includes(type as any))) {
+        throw new AppError(400, `Type must be one of ${STATEMENT_TYPES.join(', ')}`);
+      }
+      filters.types = types as StatementFilters['types'];
+    }
+
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    for (const key of ['videoId', 'creatorId'] as const) {
+      if (req.query[key]) {
+        if (!uuidPattern.test(req.query[key] as string)) {
+          throw new AppError(400, `Invalid ${key}`);
+        }
+        filters[key] = req.query[key] as string;
+      }
+    }
+
+    const { lines, total } = await statementService.getStatement(req.user.userId, filters, limit, offset);
 
     res.json({
       success: true,
-      message: 'Redemption request created',
       data: {
-        redemptionId,
-        pointsRedeemed: pointsToRedeem,
-        status: 'PENDING',
+        transactions: lines,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + lines.length < total,
+        },
       },
     });
   } catch (error) {
@@ -113,10 +327,52 @@ export const redeemPoints = async (req: AuthRequest, res: Response) => {
         error: error.message,
       });
     } else {
-      logger.error('Redemption error', error);
+      logger.error('Get statement error', error);
       res.status(500).json({
         success: false,
-        error: 'Redemption failed',
+        error: 'Failed to fetch statement',
+      });
+    }
+  }
+};
+
+/**
+ * Download a monthly statement as CSV or PDF
+ * GET /api/wallet/statement/export?month=2026-09&format=pdf
+ */
+export const exportStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const month = req.query.month as string;
+    const format = ((req.query.format as string) || 'csv').toLowerCase();
+
+    if (!month) {
+      throw new AppError(400, 'Month is required (YYYY-MM)');
+    }
+    if (format !== 'csv' && format !== 'pdf') {
+      throw new AppError(400, 'Format must be csv or pdf');
+    }
+
+    const file = await statementService.exportMonthlyStatement(req.user.userId, month, format);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(file.body);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Export statement error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export statement',
       });
     }
   }
@@ -151,7 +407,48 @@ export const processPendingPoints = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * Wallet Heartbeat: 30-second watch progress update with tier multipliers
+ * Start a server-issued watch session for a video
+ */
+export const startWatchSession = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { videoId } = req.body;
+
+    if (!videoId) {
+      throw new AppError(400, 'Video ID is required');
+    }
+
+    const session = await watchSessionService.startSession(req.user.userId, videoId, {
+      deviceId: req.headers['x-device-id'],
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Watch session started',
+      data: session,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Start watch session error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start watch session',
+      });
+    }
+  }
+};
+
+/**
+ * Wallet Heartbeat: sequenced 30-second watch progress update for a watch session
  */
 export const walletHeartbeat = async (req: AuthRequest, res: Response) => {
   try {
@@ -159,9 +456,9 @@ export const walletHeartbeat = async (req: AuthRequest, res: Response) => {
       throw new AppError(401, 'Authentication required');
     }
 
-    const { videoId, creatorId, watchDurationSeconds, category } = req.body;
+    const { sessionToken, sequence, watchDurationSeconds } = req.body;
 
-    if (!videoId || !creatorId || watchDurationSeconds === undefined || !category) {
+    if (!sessionToken || sequence === undefined || watchDurationSeconds === undefined) {
       throw new AppError(400, 'All heartbeat fields are required');
     }
 
@@ -169,28 +466,23 @@ export const walletHeartbeat = async (req: AuthRequest, res: Response) => {
       throw new AppError(400, 'Watch duration must be a positive number');
     }
 
-    const result = await walletService.recordWatchHeartbeat(
+    const result = await watchSessionService.recordHeartbeat(
       req.user.userId,
-      videoId,
-      creatorId,
-      Math.floor(watchDurationSeconds),
-      category
+      sessionToken,
+      sequence,
+      Math.floor(watchDurationSeconds)
     );
 
     res.json({
       success: true,
       message: 'Heartbeat recorded',
-      data: {
-        pointsEarned: result.pointsEarned,
-        multiplier: result.multiplier,
-        pendingPoints: result.pendingPoints,
-        availablePoints: result.availablePoints,
-      },
+      data: result,
     });
 
     logger.info('Heartbeat processed', {
       userId: req.user.userId,
-      videoId,
+      sessionId: result.sessionId,
+      sequence,
       pointsEarned: result.pointsEarned,
     });
   } catch (error) {
@@ -209,6 +501,48 @@ export const walletHeartbeat = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * Close a watch session
+ */
+export const closeWatchSession = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { sessionToken } = req.body;
+
+    if (!sessionToken) {
+      throw new AppError(400, 'Session token is required');
+    }
+
+    const session = await watchSessionService.closeSession(req.user.userId, sessionToken);
+
+    res.json({
+      success: true,
+      message: 'Watch session closed',
+      data: {
+        sessionId: session.id,
+        secondsWatched: session.seconds_watched,
+        pointsEarned: session.points_earned,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Close watch session error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to close watch session',
+      });
+    }
+  }
+};
+
 /**
  * Get wallet redemption options (payment methods and gift cards)
  */
@@ -229,3 +563,222 @@ export const getWalletOptions = async (req: AuthRequest, res: Response) => {
     });
   }
 };
+
+/**
+ * Expire points past their expiry date and send upcoming-expiry reminders (admin only)
+ * POST /api/wallet/process-expiry
+ */
+export const processPointsExpiry = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user || req.user.role !== 'ADMIN') {
+      throw new AppError(403, 'Only admins can process points expiry');
+    }
+
+    const expiry = await pointsExpiryService.expirePoints();
+    const reminders = await pointsExpiryService.sendExpiryReminders();
+
+    res.json({
+      success: true,
+      message: 'Points expiry processed successfully',
+      data: { ...expiry, ...reminders },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Process points expiry error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process points expiry',
+      });
+    }
+  }
+};
+
+/**
+ * Reconcile a user's wallet balances against the points ledger (admin only)
+ */
+export const reconcileWallet = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user || req.user.role !== 'ADMIN') {
+      throw new AppError(403, 'Only admins can reconcile wallets');
+    }
+
+    const { userId } = req.params;
+
+    if (!userId) {
+      throw new AppError(400, 'User ID is required');
+    }
+
+    const result = await walletService.reconcileWallet(userId);
+
+    res.json({
+      success: true,
+      message: result.inSync ? 'Wallet matches ledger' : 'Wallet rebuilt from ledger',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Reconcile wallet error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reconcile wallet',
+      });
+    }
+  }
+};
+
+/**
+ * Post a manual points adjustment to a user's wallet
+ * POST /api/wallet/adjust/:userId
+ */
+export const adjustWallet = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { action, points, balance, transactionId, reason } = req.body;
+    const result = await walletService.adjustPoints(
+      req.params.userId,
+      { action, points, balance, transactionId, reason },
+      { adminId: req.user.userId, ipAddress: req.ip, userAgent: req.headers['user-agent'] }
+    );
+
+    res.json({
+      success: true,
+      message: 'Wallet adjusted',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Adjust wallet error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to adjust wallet',
+      });
+    }
+  }
+};
+
+/**
+ * Freeze a user's wallet
+ * POST /api/wallet/freeze/:userId
+ */
+export const freezeWallet = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const wallet = await walletService.freezeWallet(req.params.userId, req.body.reason, {
+      adminId: req.user.userId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({
+      success: true,
+      message: 'Wallet frozen',
+      data: wallet,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Freeze wallet error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to freeze wallet',
+      });
+    }
+  }
+};
+
+/**
+ * Unfreeze a user's wallet
+ * POST /api/wallet/unfreeze/:userId
+ */
+export const unfreezeWallet = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const wallet = await walletService.unfreezeWallet(req.params.userId, req.body.reason, {
+      adminId: req.user.userId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+
+    res.json({
+      success: true,
+      message: 'Wallet unfrozen',
+      data: wallet,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Unfreeze wallet error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unfreeze wallet',
+      });
+    }
+  }
+};
+
+/**
+ * Get the admin audit trail for a user
+ * GET /api/wallet/audit/:userId?action=WALLET_CREDIT
+ */
+export const getAuditTrail = async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const action = (req.query.action as string | undefined)?.toUpperCase();
+
+    const entries = await adminAuditService.getUserTrail(req.params.userId, { action, limit, offset });
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        count: entries.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    } else {
+      logger.error('Get audit trail error', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit trail',
+      });
+    }
+  }
+};
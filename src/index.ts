@@ -13,16 +13,53 @@ import notificationsRouter from './routes/notifications.routes';
 import mediaRouter from './routes/media.routes';
 import feedRouter from './routes/feed.routes';
 import expertRouter from './routes/expert.routes';
+import fraudRouter from './routes/fraud.routes';
+import rewardPolicyRouter from './routes/rewardPolicy.routes';
+import redemptionRouter from './routes/redemption.routes';
+import payoutCatalogRouter from './routes/payoutCatalog.routes';
+import jobsRouter from './routes/jobs.routes';
+import referralRouter from './routes/referral.routes';
+import bonusRulesRouter from './routes/bonusRules.routes';
+import kycRouter from './routes/kyc.routes';
+import taxRouter from './routes/tax.routes';
+import rewardBudgetRouter from './routes/rewardBudget.routes';
+import smsRouter from './routes/sms.routes';
+import enforcementRouter from './routes/enforcement.routes';
 import { errorHandler } from './middleware/errorHandler';
 import { authMiddleware } from './middleware/auth';
 import { responseWrapper } from './middleware/responseWrapper';
 import { setupSwaggerDocs } from './utils/swagger';
+import { jwtService } from './config/jwt';
+import { loadSecrets } from './config/secrets';
+import { SmsProviderRegistry } from './sms/SmsProviderRegistry';
+import { redis } from './config/redis';
 
 dotenv.config();
 
+// Fails the boot when signing keys, production secrets or SMS providers are missing or invalid
+jwtService.loadKeys();
+loadSecrets();
+SmsProviderRegistry.validateChain();
+
+// Rate limit counters use Redis when configured and fall back to memory otherwise
+if (process.env.REDIS_URL || process.env.REDIS_HOST) {
+  redis.connect().catch(() => logger.warn('Rate limiting with in-memory counters'));
+}
+
 const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
+// req.ip (and so per-IP rate limits) is the client address only when the proxies in front
+// of the app are trusted: Cloud Run adds one hop. Direct connections keep the default of 0.
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '0', 10));
+
+// Public keys for verifying access tokens (RS256/ES256, selected by kid).
+// Registered ahead of responseWrapper so the body stays a plain JWK Set.
+app.get('/.well-known/jwks.json', (req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(jwtService.getJwks());
+});
+
 // Middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ limit: '10mb', extended: true }));
@@ -38,6 +75,7 @@ app.get('/health', (req: Request, res: Response) => {
 
 // Public Routes (Auth)
 app.use('/api/auth', authRouter);
+app.use('/api/sms', smsRouter);
 
 // Protected Routes
 app.use('/api/creators', authMiddleware, creatorRouter);
@@ -51,6 +89,17 @@ app.use('/api/notifications', authMiddleware, notificationsRouter);
 app.use('/api/media', authMiddleware, mediaRouter);
 app.use('/api/feed', authMiddleware, feedRouter);
 app.use('/api/experts', expertRouter);
+app.use('/api/fraud', authMiddleware, fraudRouter);
+app.use('/api/reward-policies', authMiddleware, rewardPolicyRouter);
+app.use('/api/redemptions', authMiddleware, redemptionRouter);
+app.use('/api/payout-catalog', authMiddleware, payoutCatalogRouter);
+app.use('/api/jobs', authMiddleware, jobsRouter);
+app.use('/api/referrals', authMiddleware, referralRouter);
+app.use('/api/bonus-rules', authMiddleware, bonusRulesRouter);
+app.use('/api/kyc', authMiddleware, kycRouter);
+app.use('/api/tax', authMiddleware, taxRouter);
+app.use('/api/reward-budgets', authMiddleware, rewardBudgetRouter);
+app.use('/api/enforcement', authMiddleware, enforcementRouter);
 
 // Error Handler (must be last)
 app.use(errorHandler);
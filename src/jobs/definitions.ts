@@ -0,0 +1,118 @@
+import { Job } from 'bull';
+import { walletService } from '../services/wallet.service';
+import { pointsExpiryService } from '../services/pointsExpiry.service';
+import { redemptionService } from '../services/redemption.service';
+import { fraudService } from '../services/fraud.service';
+import { referralService } from '../services/referral.service';
+import { bonusRulesService } from '../services/bonusRules.service';
+import { creatorRevenueService } from '../services/creatorRevenue.service';
+import StoriesService from '../services/stories.service';
+import { accountRecoveryService } from '../services/accountRecovery.service';
+import { authService } from '../services/auth.service';
+import { enforcementService } from '../services/enforcement.service';
+import { QueueName } from './queues';
+
+export interface JobDefinition {
+  queue: QueueName;
+  name: string;
+  description: string;
+  // Cron pattern (server time zone) for repeatable jobs
+  cron?: string;
+  attempts?: number;
+  handler: (job: Job) => Promise<any>;
+}
+
+/**
+ * Every background job the worker knows how to run
+ */
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    queue: 'wallet',
+    name: 'process-pending-to-available',
+    description: 'Release earnings whose 30-day pending period has elapsed',
+    cron: '0 * * * *',
+    handler: () => walletService.processPendingToAvailable(),
+  },
+  {
+    queue: 'wallet',
+    name: 'expire-points',
+    description: 'Expire available points past their expiry date',
+    cron: '15 0 * * *',
+    handler: () => pointsExpiryService.expirePoints(),
+  },
+  {
+    queue: 'wallet',
+    name: 'points-expiry-reminders',
+    description: 'Notify users 7 days and 1 day before points expire',
+    cron: '0 10 * * *',
+    handler: () => pointsExpiryService.sendExpiryReminders(),
+  },
+  {
+    queue: 'wallet',
+    name: 'process-referrals',
+    description: 'Reward referrals whose referee reached the watch-time threshold and expire stale ones',
+    cron: '*/10 * * * *',
+    handler: () => referralService.processReferrals(),
+  },
+  {
+    queue: 'wallet',
+    name: 'evaluate-bonus-rules',
+    description: 'Evaluate streak, milestone and campaign bonuses for recently active users',
+    cron: '5 * * * *',
+    handler: () => bonusRulesService.evaluateRecentUsers(),
+  },
+  {
+    queue: 'wallet',
+    name: 'creator-monthly-reports',
+    description: "Snapshot last month's revenue share report for each creator and notify them",
+    cron: '0 6 1 * *',
+    handler: () => creatorRevenueService.generateMonthlyReports(),
+  },
+  {
+    queue: 'redemptions',
+    name: 'process-due-redemptions',
+    description: 'Attempt payouts for pending redemptions that are due',
+    cron: '* * * * *',
+    attempts: 1, // the redemption pipeline has its own per-request retries
+    handler: () => redemptionService.processDueRedemptions(),
+  },
+  {
+    queue: 'fraud',
+    name: 'fraud-scan',
+    description: 'Score recent watch activity and flag suspicious users',
+    cron: '30 * * * *',
+    handler: () => fraudService.runScan(),
+  },
+  {
+    queue: 'stories',
+    name: 'cleanup-expired-stories',
+    description: 'Deactivate stories past their 24-hour window',
+    cron: '*/15 * * * *',
+    handler: () => StoriesService.cleanupExpiredStories(),
+  },
+  {
+    queue: 'accounts',
+    name: 'process-account-recoveries',
+    description: 'Apply email account recoveries past their cooling-off period and expire abandoned phone changes',
+    cron: '*/10 * * * *',
+    handler: () => accountRecoveryService.processDueRecoveries(),
+  },
+  {
+    queue: 'accounts',
+    name: 'finalise-account-deletions',
+    description: 'Anonymise accounts whose deletion grace period has ended',
+    cron: '20 * * * *',
+    handler: () => authService.finaliseDueDeletions(),
+  },
+  {
+    queue: 'accounts',
+    name: 'release-expired-suspensions',
+    description: 'Reactivate accounts whose suspensions have run out',
+    cron: '*/5 * * * *',
+    handler: () => enforcementService.releaseExpiredSuspensions(),
+  },
+];
+
+export const findJobDefinition = (queue: string, name: string): JobDefinition | undefined => {
+  return JOB_DEFINITIONS.find((definition) => definition.queue === queue && definition.name === name);
+};
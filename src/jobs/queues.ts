@@ -0,0 +1,85 @@
+import Queue, { Job, JobOptions, QueueOptions } from 'bull';
+import { logger } from '../utils/logger';
+
+export const QUEUE_NAMES = ['wallet', 'redemptions', 'fraud', 'stories', 'accounts'] as const;
+export type QueueName = (typeof QUEUE_NAMES)[number];
+
+export const DEAD_LETTER_QUEUE = 'dead-letter';
+
+export interface DeadLetterPayload {
+  queue: QueueName;
+  jobName: string;
+  jobId: string | number;
+  data: any;
+  failedReason?: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+const DEFAULT_JOB_OPTIONS: JobOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 30 * 1000 },
+  removeOnComplete: 100, // keep the last 100 completed jobs for inspection
+  removeOnFail: 500,
+};
+
+const queueOptions = (): QueueOptions => {
+  const redisUrl = process.env.REDIS_URL;
+  return {
+    prefix: process.env.JOB_QUEUE_PREFIX || 'wisereels',
+    defaultJobOptions: DEFAULT_JOB_OPTIONS,
+    ...(redisUrl
+      ? {}
+      : {
+          redis: {
+            host: process.env.REDIS_HOST || 'localhost',
+            port: parseInt(process.env.REDIS_PORT || '6379'),
+            password: process.env.REDIS_PASSWORD || undefined,
+          },
+        }),
+  };
+};
+
+const queues = new Map<string, Queue.Queue>();
+
+/**
+ * Get (creating on first use) a named queue. The API process only enqueues;
+ * processors are attached by the worker entry point.
+ */
+export const getQueue = (name: QueueName | typeof DEAD_LETTER_QUEUE): Queue.Queue => {
+  let queue = queues.get(name);
+  if (!queue) {
+    const redisUrl = process.env.REDIS_URL;
+    queue = redisUrl ? new Queue(name, redisUrl, queueOptions()) : new Queue(name, queueOptions());
+    queue.on('error', (error) => logger.error('Job queue error', { queue: name, error }));
+    queues.set(name, queue);
+  }
+  return queue;
+};
+
+export const isQueueName = (name: string): name is QueueName | typeof DEAD_LETTER_QUEUE => {
+  return name === DEAD_LETTER_QUEUE || (QUEUE_NAMES as readonly string[]).includes(name);
+};
+
+/**
+ * Copy a job that has used up all its attempts onto the dead-letter queue
+ */
+export const moveToDeadLetter = async (queueName: QueueName, job: Job, error: Error): Promise<void> => {
+  const payload: DeadLetterPayload = {
+    queue: queueName,
+    jobName: job.name,
+    jobId: job.id,
+    data: job.data,
+    failedReason: error.message,
+    attemptsMade: job.attemptsMade,
+    failedAt: new Date().toISOString(),
+  };
+
+  await getQueue(DEAD_LETTER_QUEUE).add(job.name, payload, { attempts: 1, removeOnComplete: false, removeOnFail: false });
+  logger.error('Job moved to dead-letter queue', { queue: queueName, jobName: job.name, jobId: job.id, error: error.message });
+};
+
+export const closeQueues = async (): Promise<void> => {
+  await Promise.all(Array.from(queues.values()).map((queue) => queue.close()));
+  queues.clear();
+};
@@ -0,0 +1,205 @@
+import { Job, JobStatus } from 'bull';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { JOB_DEFINITIONS, findJobDefinition } from './definitions';
+import {
+  DEAD_LETTER_QUEUE,
+  DeadLetterPayload,
+  QUEUE_NAMES,
+  QueueName,
+  getQueue,
+  isQueueName,
+  moveToDeadLetter,
+} from './queues';
+
+export interface JobSummary {
+  id: string | number;
+  name: string;
+  queue: string;
+  data: any;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason?: string;
+  stacktrace?: string[];
+  returnValue?: any;
+  createdAt: Date;
+  processedAt?: Date;
+  finishedAt?: Date;
+}
+
+const JOB_STATUSES: JobStatus[] = ['waiting', 'active', 'completed', 'failed', 'delayed', 'paused'];
+
+class JobScheduler {
+  /**
+   * Register the cron schedule for every repeatable job, dropping schedules
+   * that no longer match a definition (e.g. after a cron change).
+   */
+  async registerRepeatableJobs(): Promise<void> {
+    for (const queueName of QUEUE_NAMES) {
+      const queue = getQueue(queueName);
+      const definitions = JOB_DEFINITIONS.filter((definition) => definition.queue === queueName && definition.cron);
+
+      for (const repeatable of await queue.getRepeatableJobs()) {
+        const current = definitions.find((d) => d.name === repeatable.name && d.cron === repeatable.cron);
+        if (!current) {
+          await queue.removeRepeatableByKey(repeatable.key);
+          logger.info('Removed stale repeatable job', { queue: queueName, name: repeatable.name, cron: repeatable.cron });
+        }
+      }
+
+      for (const definition of definitions) {
+        await queue.add(definition.name, {}, {
+          repeat: { cron: definition.cron! },
+          jobId: definition.name,
+          attempts: definition.attempts,
+        });
+      }
+    }
+
+    logger.info('Repeatable jobs registered', {
+      jobs: JOB_DEFINITIONS.filter((d) => d.cron).map((d) => `${d.queue}:${d.name}`),
+    });
+  }
+
+  /**
+   * Attach processors for every job definition. Jobs that exhaust their
+   * attempts are copied to the dead-letter queue.
+   */
+  startWorkers(): void {
+    for (const definition of JOB_DEFINITIONS) {
+      getQueue(definition.queue).process(definition.name, 1, async (job: Job) => {
+        const startedAt = Date.now();
+        logger.info('Job started', { queue: definition.queue, name: job.name, jobId: job.id, attempt: job.attemptsMade + 1 });
+        const result = await definition.handler(job);
+        logger.info('Job completed', { queue: definition.queue, name: job.name, jobId: job.id, ms: Date.now() - startedAt });
+        return result;
+      });
+    }
+
+    for (const queueName of QUEUE_NAMES) {
+      getQueue(queueName).on('failed', (job: Job, error: Error) => {
+        const maxAttempts = job.opts.attempts || 1;
+        logger.warn('Job attempt failed', { queue: queueName, name: job.name, jobId: job.id, attempt: job.attemptsMade, error: error.message });
+
+        if (job.attemptsMade >= maxAttempts) {
+          moveToDeadLetter(queueName, job, error).catch((dlqError) =>
+            logger.error('Failed to move job to dead-letter queue', { queue: queueName, jobId: job.id, error: dlqError })
+          );
+        }
+      });
+    }
+
+    logger.info('Job workers started', { queues: QUEUE_NAMES });
+  }
+
+  /**
+   * Job counts and schedules for every queue, including the dead-letter queue
+   */
+  async getOverview(): Promise<
+    Array<{ queue: string; counts: Record<string, number>; repeatable: Array<{ name: string; cron: string; next: number }> }>
+  > {
+    const names = [...QUEUE_NAMES, DEAD_LETTER_QUEUE] as const;
+
+    return Promise.all(
+      names.map(async (name) => {
+        const queue = getQueue(name);
+        const [counts, repeatable] = await Promise.all([queue.getJobCounts(), queue.getRepeatableJobs()]);
+        return {
+          queue: name,
+          counts: counts as unknown as Record<string, number>,
+          repeatable: repeatable.map((job) => ({ name: job.name, cron: job.cron, next: job.next })),
+        };
+      })
+    );
+  }
+
+  async listJobs(queueName: string, status: string = 'failed', limit: number = 20, offset: number = 0): Promise<JobSummary[]> {
+    if (!JOB_STATUSES.includes(status as JobStatus)) {
+      throw new AppError(400, 'Invalid job status');
+    }
+
+    const jobs = await this.queueFor(queueName).getJobs([status as JobStatus], offset, offset + limit - 1);
+    return jobs.filter(Boolean).map((job) => this.summarise(queueName, job));
+  }
+
+  async getJob(queueName: string, jobId: string): Promise<JobSummary & { state: string }> {
+    const job = await this.findJob(queueName, jobId);
+    return { ...this.summarise(queueName, job), state: await job.getState() };
+  }
+
+  /**
+   * Run a job again. Failed jobs are retried in place; dead-letter entries are
+   * re-enqueued on their original queue; anything else is enqueued as a new job.
+   */
+  async retriggerJob(queueName: string, jobId: string): Promise<{ queue: string; jobId: string | number }> {
+    const job = await this.findJob(queueName, jobId);
+
+    if (queueName === DEAD_LETTER_QUEUE) {
+      const payload = job.data as DeadLetterPayload;
+      const requeued = await getQueue(payload.queue).add(payload.jobName, payload.data);
+      await job.remove();
+      logger.info('Dead-letter job re-enqueued', { queue: payload.queue, name: payload.jobName, jobId: requeued.id });
+      return { queue: payload.queue, jobId: requeued.id };
+    }
+
+    if ((await job.getState()) === 'failed') {
+      await job.retry();
+      logger.info('Failed job retried', { queue: queueName, name: job.name, jobId: job.id });
+      return { queue: queueName, jobId: job.id };
+    }
+
+    const copy = await getQueue(queueName as QueueName).add(job.name, job.data);
+    logger.info('Job re-enqueued', { queue: queueName, name: job.name, jobId: copy.id });
+    return { queue: queueName, jobId: copy.id };
+  }
+
+  /**
+   * Enqueue a defined job to run now, outside its schedule
+   */
+  async runNow(queueName: string, jobName: string): Promise<{ queue: string; jobId: string | number }> {
+    const definition = findJobDefinition(queueName, jobName);
+    if (!definition) {
+      throw new AppError(404, 'Job not found');
+    }
+
+    const job = await getQueue(definition.queue).add(definition.name, { triggeredManually: true }, {
+      attempts: definition.attempts,
+    });
+    logger.info('Job triggered manually', { queue: definition.queue, name: definition.name, jobId: job.id });
+    return { queue: definition.queue, jobId: job.id };
+  }
+
+  private queueFor(queueName: string) {
+    if (!isQueueName(queueName)) {
+      throw new AppError(404, 'Queue not found');
+    }
+    return getQueue(queueName);
+  }
+
+  private async findJob(queueName: string, jobId: string): Promise<Job> {
+    const job = await this.queueFor(queueName).getJob(jobId);
+    if (!job) {
+      throw new AppError(404, 'Job not found');
+    }
+    return job;
+  }
+
+  private summarise(queueName: string, job: Job): JobSummary {
+    return {
+      id: job.id,
+      name: job.name,
+      queue: queueName,
+      data: job.data,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      failedReason: job.failedReason,
+      stacktrace: job.stacktrace,
+      returnValue: job.returnvalue,
+      createdAt: new Date(job.timestamp),
+      processedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+    };
+  }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,52 @@
+import { KycProvider, PennyDropRequest, PennyDropResult } from './KycProvider';
+
+export type FakeKycOutcome = 'VERIFIED' | 'REJECTED' | 'ERROR';
+
+/**
+ * In-process provider for local development and tests.
+ * Outcomes are consumed in order; once exhausted every UPI ID verifies.
+ */
+export class FakeKycProvider implements KycProvider {
+  readonly name = 'fake';
+  readonly requests: PennyDropRequest[] = [];
+
+  constructor(
+    private outcomes: FakeKycOutcome[] = [],
+    private nameAtBank?: string
+  ) {}
+
+  queueOutcomes(...outcomes: FakeKycOutcome[]): void {
+    this.outcomes.push(...outcomes);
+  }
+
+  setNameAtBank(name?: string): void {
+    this.nameAtBank = name;
+  }
+
+  async verifyUpi(request: PennyDropRequest): Promise<PennyDropResult> {
+    this.requests.push(request);
+    const outcome = this.outcomes.shift() || 'VERIFIED';
+
+    if (outcome === 'ERROR') {
+      throw new Error('Fake KYC provider unavailable');
+    }
+
+    if (outcome === 'REJECTED') {
+      return {
+        success: false,
+        retryable: false,
+        error: 'Fake UPI ID does not exist',
+        response: { status: 'INVALID', referenceId: request.referenceId },
+      };
+    }
+
+    const reference = `fake_${request.referenceId}`;
+    return {
+      success: true,
+      retryable: false,
+      nameAtBank: this.nameAtBank,
+      reference,
+      response: { status: 'VALID', id: reference, name_at_bank: this.nameAtBank },
+    };
+  }
+}
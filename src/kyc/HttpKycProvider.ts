@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { KycProvider, PennyDropRequest, PennyDropResult } from './KycProvider';
+
+/**
+ * Penny-drop verification through a JSON HTTP API (RazorpayX / Cashfree style).
+ * 4xx responses (other than 429) are final rejections; everything else is thrown.
+ */
+export class HttpKycProvider implements KycProvider {
+  readonly name = 'http';
+
+  async verifyUpi(request: PennyDropRequest): Promise<PennyDropResult> {
+    const url = process.env.KYC_PROVIDER_URL || 'https://api.example.com/verifications/vpa';
+
+    try {
+      const response = await axios.post(
+        url,
+        {
+          vpa: request.upiId,
+          amount: 100, // paise
+          reference_id: request.referenceId,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${process.env.KYC_PROVIDER_API_KEY}`,
+            'Idempotency-Key': request.referenceId,
+          },
+          timeout: 15000,
+        }
+      );
+
+      const valid = response.data?.status === 'VALID' || response.data?.account_status === 'valid';
+      return {
+        success: valid,
+        retryable: false,
+        nameAtBank: response.data?.name_at_bank || response.data?.registered_name,
+        reference: response.data?.id || response.data?.reference,
+        error: valid ? undefined : 'UPI ID could not be verified',
+        response: response.data,
+      };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+        return {
+          success: false,
+          retryable: false,
+          error: data?.error?.description || data?.message || `UPI verification rejected (${status})`,
+          response: { status, data },
+        };
+      }
+      throw new Error(`${this.name} KYC verification request failed${status ? ` (${status})` : ''}`);
+    }
+  }
+}
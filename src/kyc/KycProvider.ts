@@ -0,0 +1,26 @@
+export interface PennyDropRequest {
+  // Verification attempt id; providers must treat it as the idempotency key
+  referenceId: string;
+  userId: string;
+  upiId: string;
+}
+
+export interface PennyDropResult {
+  success: boolean;
+  // false when the provider gave a definitive answer (e.g. VPA does not exist)
+  retryable: boolean;
+  // Account holder name registered with the bank, when the provider returns it
+  nameAtBank?: string;
+  reference?: string;
+  error?: string;
+  response: Record<string, any>;
+}
+
+export interface KycProvider {
+  readonly name: string;
+  /**
+   * Send a penny drop (₹1 credit) to a UPI ID to prove it exists and resolve its holder name.
+   * Network and 5xx errors are thrown; definitive outcomes are returned.
+   */
+  verifyUpi(request: PennyDropRequest): Promise<PennyDropResult>;
+}
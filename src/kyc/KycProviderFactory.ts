@@ -0,0 +1,22 @@
+import { KycProvider } from './KycProvider';
+import { HttpKycProvider } from './HttpKycProvider';
+import { FakeKycProvider } from './FakeKycProvider';
+
+export class KycProviderFactory {
+  private static fakeProvider = new FakeKycProvider();
+
+  /**
+   * Resolve the penny-drop provider.
+   * KYC_PROVIDER=fake verifies every UPI ID with the in-process fake provider.
+   */
+  static getProvider(): KycProvider {
+    if ((process.env.KYC_PROVIDER || '').toLowerCase() === 'fake') {
+      return KycProviderFactory.fakeProvider;
+    }
+    return new HttpKycProvider();
+  }
+
+  static getFakeProvider(): FakeKycProvider {
+    return KycProviderFactory.fakeProvider;
+  }
+}
@@ -0,0 +1,66 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { AppError } from './errorHandler';
+import { adminAuditService } from '../services/adminAudit.service';
+import { logger } from '../utils/logger';
+
+// Request body fields never copied into the audit trail
+const REDACTED_FIELDS = ['codes', 'pan', 'upiId', 'secret', 'pin'];
+
+const redact = (body: any): Record<string, any> | undefined => {
+  if (!body || typeof body !== 'object' || Object.keys(body).length === 0) {
+    return undefined;
+  }
+  const copy: Record<string, any> = {};
+  for (const [key, value] of Object.entries(body)) {
+    copy[key] = REDACTED_FIELDS.includes(key) ? '[redacted]' : value;
+  }
+  return copy;
+};
+
+/**
+ * Audit an admin request. Every admin action is recorded, or it does not happen:
+ *
+ * - With `inTransaction`, the entry is handed to the handler as `req.adminAudit` and the
+ *   service writes it with `adminAuditService.record(entry, client)` inside the action's
+ *   transaction, filling in the affected user when only it knows (e.g. the owner of a fraud flag).
+ * - Otherwise (batch runs, queue operations, exports) the entry is written before the handler
+ *   runs, and the request fails if it cannot be.
+ *
+ * The affected user defaults to `:userId` or a `userId` body field.
+ */
+export const auditAdminAction =
+  (action: string, options: { inTransaction?: boolean } = {}) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new AppError(401, 'Authentication required'));
+    }
+
+    const entry = {
+      adminId: req.user.userId,
+      action,
+      targetUserId: req.params.userId || req.body?.userId,
+      reason: req.body?.reason || req.body?.notes,
+      details: {
+        method: req.method,
+        path: req.originalUrl,
+        params: req.params,
+        body: redact(req.body),
+      },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+
+    if (options.inTransaction) {
+      req.adminAudit = entry;
+      return next();
+    }
+
+    try {
+      await adminAuditService.record(entry);
+      next();
+    } catch (error) {
+      logger.error('Admin audit write failed', { error, action, path: req.originalUrl });
+      next(new AppError(500, 'Failed to record admin action'));
+    }
+  };
@@ -2,20 +2,30 @@ import { Response, NextFunction } from 'express';
 import { Request as ExpressRequest } from 'express';
 import { jwtService, JWTPayload } from '../config/jwt';
 import { AppError } from './errorHandler';
+import { enforcementService, EnforcementStatus } from '../services/enforcement.service';
+import { AdminAuditInput } from '../services/adminAudit.service';
 
 export interface AuthRequest extends ExpressRequest {
   user?: JWTPayload;
+  // Active enforcements, set by authMiddleware
+  enforcement?: EnforcementStatus;
+  // Audit entry for an admin action, written by the service in the action's transaction (see auditAdminAction)
+  adminAudit?: AdminAuditInput;
   body: any;
   params: any;
   query: any;
   headers: any;
 }
 
-export const authMiddleware = (
+// Still reachable while suspended, banned or read-only, so users can see why and appeal
+const ENFORCEMENT_EXEMPT_PATHS = ['/api/enforcement/status', '/api/enforcement/appeals', '/api/auth/logout'];
+
+export const authMiddleware = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
+  let user: JWTPayload;
   try {
     const authHeader = req.headers.authorization;
     
@@ -24,16 +34,31 @@ export const authMiddleware = (
     }
 
     const token = authHeader.substring(7);
-    const user = jwtService.verifyToken(token);
-    
-    req.user = user;
-    next();
+    user = jwtService.verifyToken(token);
   } catch (error) {
     if (error instanceof AppError) {
-      next(error);
-    } else {
-      next(new AppError(401, 'Invalid or expired token'));
+      return next(error);
+    }
+    return next(new AppError(401, 'Invalid or expired token'));
+  }
+
+  try {
+    req.user = user;
+    req.enforcement = await enforcementService.getStatus(user.userId);
+
+    const path = req.originalUrl.split('?')[0].replace(/\/$/, '');
+    const exempt = ENFORCEMENT_EXEMPT_PATHS.includes(path);
+    if (!exempt && req.enforcement.blocked) {
+      const restriction = req.enforcement.enforcements.find((e) => e.type === 'BAN' || e.type === 'SUSPENSION')!;
+      throw new AppError(403, restriction.explanation, { enforcement: restriction, statusUrl: '/api/enforcement/status' });
     }
+    if (!exempt && req.enforcement.readOnly && !['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      const restriction = req.enforcement.enforcements.find((e) => e.type === 'READ_ONLY')!;
+      throw new AppError(403, restriction.explanation, { enforcement: restriction, statusUrl: '/api/enforcement/status' });
+    }
+    next();
+  } catch (error) {
+    next(error);
   }
 };
 
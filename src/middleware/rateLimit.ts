@@ -0,0 +1,154 @@
+import { Response, NextFunction } from 'express';
+import NodeCache from 'node-cache';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { AuthRequest } from './auth';
+import { AppError } from './errorHandler';
+
+export type RateLimitKey = 'ip' | 'user' | 'phone' | 'route';
+
+export interface RateLimitPolicy {
+  // Namespace for the counters, e.g. 'otp-send-phone'
+  name: string;
+  limit: number;
+  windowSeconds: number;
+  // Parts the counter is keyed by; 'user' falls back to the IP for anonymous requests
+  keyBy: RateLimitKey[];
+}
+
+interface WindowState {
+  policy: RateLimitPolicy;
+  count: number;
+  resetSeconds: number;
+}
+
+// Used whenever Redis is not connected; per process, so limits are per instance
+const memoryCounters = new NodeCache({ checkperiod: 60, useClones: false });
+
+/**
+ * Increment a counter that expires after ttlSeconds, in Redis when available
+ */
+const increment = async (key: string, ttlSeconds: number): Promise<number> => {
+  if (redis.isReady()) {
+    try {
+      const count = await redis.incr(key);
+      if (count === 1) {
+        await redis.expire(key, ttlSeconds);
+      }
+      return count;
+    } catch (error) {
+      logger.warn('Rate limit counter unavailable in Redis; using memory', { error: (error as Error).message });
+    }
+  }
+
+  const count = ((memoryCounters.get<number>(key) as number) || 0) + 1;
+  if (count === 1) {
+    memoryCounters.set(key, count, ttlSeconds);
+  } else {
+    // Keep the original expiry
+    const expiresAt = memoryCounters.getTtl(key);
+    memoryCounters.set(key, count, expiresAt ? Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 1) : ttlSeconds);
+  }
+  return count;
+};
+
+const read = async (key: string): Promise<number> => {
+  if (redis.isReady()) {
+    try {
+      return parseInt((await redis.get(key)) || '0', 10);
+    } catch (error) {
+      logger.warn('Rate limit counter unavailable in Redis; using memory', { error: (error as Error).message });
+    }
+  }
+  return (memoryCounters.get<number>(key) as number) || 0;
+};
+
+const identify = (req: AuthRequest, keyBy: RateLimitKey[]): string | null => {
+  const parts: string[] = [];
+  for (const part of keyBy) {
+    switch (part) {
+      case 'ip':
+        parts.push(`ip:${req.ip}`);
+        break;
+      case 'user':
+        parts.push(req.user ? `user:${req.user.userId}` : `ip:${req.ip}`);
+        break;
+      case 'phone': {
+        const phone = String(req.body?.phoneNumber || '').replace(/\D/g, '');
+        if (!phone) {
+          return null;
+        }
+        parts.push(`phone:${phone}`);
+        break;
+      }
+      case 'route':
+        parts.push(`route:${req.method}:${req.baseUrl}${req.route?.path || req.path}`);
+        break;
+    }
+  }
+  return parts.join('|');
+};
+
+/**
+ * Sliding-window counter: the previous fixed window is weighted by how much of it
+ * still overlaps the sliding window ending now
+ */
+const hit = async (policy: RateLimitPolicy, id: string): Promise<WindowState> => {
+  const windowMs = policy.windowSeconds * 1000;
+  const now = Date.now();
+  const window = Math.floor(now / windowMs);
+  const elapsed = (now % windowMs) / windowMs;
+  const prefix = `ratelimit:${policy.name}:${id}`;
+
+  const current = await increment(`${prefix}:${window}`, policy.windowSeconds * 2);
+  const previous = await read(`${prefix}:${window - 1}`);
+
+  return {
+    policy,
+    count: Math.floor(previous * (1 - elapsed)) + current,
+    resetSeconds: Math.ceil((windowMs - (now % windowMs)) / 1000),
+  };
+};
+
+/**
+ * Rate-limit a route by one or more policies. Sets RateLimit-Limit / -Remaining / -Reset
+ * (and RateLimit-Policy) for the tightest policy and rejects with 429 once any is exceeded.
+ * Counters live in Redis when it is connected and in memory otherwise.
+ */
+export const rateLimit = (...policies: RateLimitPolicy[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const states: WindowState[] = [];
+      for (const policy of policies) {
+        const id = identify(req, policy.keyBy);
+        if (id) {
+          states.push(await hit(policy, id));
+        }
+      }
+      if (states.length === 0) {
+        return next();
+      }
+
+      const tightest = states.reduce((a, b) =>
+        b.policy.limit - b.count < a.policy.limit - a.count ? b : a
+      );
+      res.setHeader('RateLimit-Limit', tightest.policy.limit);
+      res.setHeader('RateLimit-Remaining', Math.max(tightest.policy.limit - tightest.count, 0));
+      res.setHeader('RateLimit-Reset', tightest.resetSeconds);
+      res.setHeader('RateLimit-Policy', states.map((s) => `${s.policy.limit};w=${s.policy.windowSeconds}`).join(', '));
+
+      const exceeded = states.find((state) => state.count > state.policy.limit);
+      if (exceeded) {
+        res.setHeader('Retry-After', exceeded.resetSeconds);
+        logger.warn('Rate limit exceeded', { policy: exceeded.policy.name, ip: req.ip, userId: req.user?.userId });
+        return next(new AppError(429, 'Too many requests. Please try again later.', { retryAfterSeconds: exceeded.resetSeconds }));
+      }
+
+      next();
+    } catch (error) {
+      // A limiter failure must not take the endpoint down
+      logger.error('Rate limiter error', error);
+      next();
+    }
+  };
+};
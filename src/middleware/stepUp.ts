@@ -0,0 +1,51 @@
+import { Response, NextFunction } from 'express';
+import { twoFactorService } from '../services/twoFactor.service';
+import { AuthRequest } from './auth';
+import { AppError } from './errorHandler';
+
+// Actions guarded by requireStepUp; a step-up token is issued for exactly one of them
+export const STEP_UP_ACTIONS = [
+  'REDEEM',
+  'SESSION_REVOKE',
+  'ACCOUNT_DELETE',
+  'ACCOUNT_EXPORT',
+  'PHONE_CHANGE',
+  'EXPERT_APPROVE',
+  'EXPERT_REJECT',
+  'CREATOR_CREDENTIALS_REVIEW',
+  'KYC_REVIEW',
+  'APPEAL_REVIEW',
+] as const;
+
+export type StepUpAction = (typeof STEP_UP_ACTIONS)[number];
+
+/**
+ * Guard a sensitive action behind a recent 2FA check. Users with 2FA on must send
+ * an X-Step-Up-Token from POST /api/auth/2fa/step-up issued for this `action`; each
+ * token is good for one request. Admins and verified experts who have not enrolled
+ * yet are refused until they do. Must run after authMiddleware.
+ */
+export const requireStepUp = (action: StepUpAction) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const status = await twoFactorService.getStatus(req.user!.userId);
+      if (!status.enabled) {
+        if (status.required) {
+          throw new AppError(403, 'Two-factor authentication must be enabled for this action', {
+            twoFactorEnrolmentRequired: true,
+            action,
+          });
+        }
+        return next();
+      }
+
+      const stepUpToken = req.headers['x-step-up-token'];
+      if (!stepUpToken || !(await twoFactorService.consumeStepUp(req.user!.userId, action, String(stepUpToken)))) {
+        throw new AppError(401, 'Two-factor verification required', { stepUpRequired: true, action });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
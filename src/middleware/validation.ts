@@ -20,3 +20,19 @@ export const validateRequest =
     req.body = value;
     next();
   };
+
+/**
+ * Validate against a schema resolved per request, e.g. one built from live DB data
+ */
+export const validateRequestWith =
+  (resolveSchema: (req: AuthRequest) => Promise<Joi.Schema>) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    let schema: Joi.Schema;
+    try {
+      schema = await resolveSchema(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    validateRequest(schema)(req, res, next);
+  };
@@ -0,0 +1,44 @@
+import { PayoutProvider, PayoutRequest, PayoutResult } from './PayoutProvider';
+
+export type FakePayoutOutcome = 'SUCCESS' | 'REJECTED' | 'ERROR';
+
+/**
+ * In-process provider for local development and tests.
+ * Outcomes are consumed in order; once exhausted every payout succeeds.
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  readonly name = 'fake';
+  readonly requests: PayoutRequest[] = [];
+
+  constructor(private outcomes: FakePayoutOutcome[] = []) {}
+
+  queueOutcomes(...outcomes: FakePayoutOutcome[]): void {
+    this.outcomes.push(...outcomes);
+  }
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    this.requests.push(request);
+    const outcome = this.outcomes.shift() || 'SUCCESS';
+
+    if (outcome === 'ERROR') {
+      throw new Error('Fake payout provider unavailable');
+    }
+
+    if (outcome === 'REJECTED') {
+      return {
+        success: false,
+        retryable: false,
+        error: 'Fake payout rejected',
+        response: { status: 'rejected', redemptionId: request.redemptionId },
+      };
+    }
+
+    const reference = `fake_${request.redemptionId}`;
+    return {
+      success: true,
+      retryable: false,
+      reference,
+      response: { status: 'processed', id: reference, amount: request.amountRupees },
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { payoutCatalogService } from '../services/payoutCatalog.service';
+import { PayoutProvider, PayoutRequest, PayoutResult } from './PayoutProvider';
+
+/**
+ * Fulfils gift cards from pre-purchased inventory. The code is reserved when the
+ * redemption is created; the redemption service delivers it to the user's inbox.
+ */
+export class GiftCardPayoutProvider implements PayoutProvider {
+  readonly name = 'gift_card_inventory';
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const code = await payoutCatalogService.getReservedCode(request.redemptionId);
+
+    if (!code) {
+      return {
+        success: false,
+        retryable: false,
+        error: 'No gift card code reserved for this redemption',
+        response: { status: 'no_code' },
+      };
+    }
+
+    if (code.expires_at && new Date(code.expires_at) <= new Date()) {
+      return {
+        success: false,
+        retryable: false,
+        error: 'Reserved gift card code has expired',
+        response: { status: 'code_expired', codeId: code.id },
+      };
+    }
+
+    return {
+      success: true,
+      retryable: false,
+      reference: code.id,
+      response: { status: 'reserved', codeId: code.id, denomination: code.denomination },
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { PayoutProvider, PayoutRequest, PayoutResult } from './PayoutProvider';
+
+/**
+ * Base for payout partners exposing a JSON HTTP API.
+ * 4xx responses (other than 429) are final rejections; everything else is thrown so it is retried.
+ */
+export abstract class HttpPayoutProvider implements PayoutProvider {
+  abstract readonly name: string;
+
+  protected abstract getEndpoint(): { url: string; apiKey?: string };
+
+  protected abstract buildPayload(request: PayoutRequest): Record<string, any>;
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const { url, apiKey } = this.getEndpoint();
+
+    try {
+      const response = await axios.post(url, this.buildPayload(request), {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Idempotency-Key': request.redemptionId,
+        },
+        timeout: 15000,
+      });
+
+      return {
+        success: true,
+        retryable: false,
+        reference: response.data?.id || response.data?.reference,
+        response: response.data,
+      };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+        return {
+          success: false,
+          retryable: false,
+          error: data?.error?.description || data?.message || `${this.name} rejected payout (${status})`,
+          response: { status, data },
+        };
+      }
+      throw new Error(`${this.name} payout request failed${status ? ` (${status})` : ''}`);
+    }
+  }
+}
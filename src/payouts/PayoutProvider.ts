@@ -0,0 +1,29 @@
+export type PayoutMethod = 'UPI' | 'RECHARGE' | 'GIFT_CARD';
+
+export interface PayoutRequest {
+  // Redemption id; providers must treat it as the idempotency key
+  redemptionId: string;
+  userId: string;
+  method: PayoutMethod;
+  amountPoints: number;
+  amountRupees: number;
+  details: Record<string, any>;
+}
+
+export interface PayoutResult {
+  success: boolean;
+  // false when the provider rejected the payout outright (e.g. invalid VPA)
+  retryable: boolean;
+  reference?: string;
+  error?: string;
+  response: Record<string, any>;
+}
+
+export interface PayoutProvider {
+  readonly name: string;
+  /**
+   * Send a payout. Network and 5xx errors are thrown and retried by the caller;
+   * definitive outcomes are returned.
+   */
+  sendPayout(request: PayoutRequest): Promise<PayoutResult>;
+}
@@ -0,0 +1,34 @@
+import { PayoutMethod, PayoutProvider } from './PayoutProvider';
+import { UpiPayoutProvider } from './UpiPayoutProvider';
+import { RechargePayoutProvider } from './RechargePayoutProvider';
+import { GiftCardPayoutProvider } from './GiftCardPayoutProvider';
+import { FakePayoutProvider } from './FakePayoutProvider';
+
+export class PayoutProviderFactory {
+  private static fakeProvider = new FakePayoutProvider();
+
+  /**
+   * Resolve the provider for a redemption method.
+   * PAYOUT_PROVIDER=fake routes every method to the in-process fake provider.
+   */
+  static getProvider(method: PayoutMethod): PayoutProvider {
+    if ((process.env.PAYOUT_PROVIDER || '').toLowerCase() === 'fake') {
+      return PayoutProviderFactory.fakeProvider;
+    }
+
+    switch (method) {
+      case 'UPI':
+        return new UpiPayoutProvider();
+      case 'RECHARGE':
+        return new RechargePayoutProvider();
+      case 'GIFT_CARD':
+        return new GiftCardPayoutProvider();
+      default:
+        throw new Error(`Unknown payout method: ${method}`);
+    }
+  }
+
+  static getFakeProvider(): FakePayoutProvider {
+    return PayoutProviderFactory.fakeProvider;
+  }
+}
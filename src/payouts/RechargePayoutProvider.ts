@@ -0,0 +1,24 @@
+import { HttpPayoutProvider } from './HttpPayoutProvider';
+import { PayoutRequest } from './PayoutProvider';
+
+export class RechargePayoutProvider extends HttpPayoutProvider {
+  readonly name = 'recharge';
+
+  protected getEndpoint() {
+    // Example: prepaid recharge aggregator API (replace with real API details)
+    return {
+      url: process.env.RECHARGE_API_URL || 'https://api.example.com/recharge',
+      apiKey: process.env.RECHARGE_API_KEY,
+    };
+  }
+
+  protected buildPayload(request: PayoutRequest) {
+    return {
+      mobile_number: request.details.phoneNumber,
+      operator: request.details.operator,
+      circle: request.details.circle,
+      amount: request.amountRupees,
+      client_reference: request.redemptionId,
+    };
+  }
+}
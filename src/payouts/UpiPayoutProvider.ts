@@ -0,0 +1,29 @@
+import { HttpPayoutProvider } from './HttpPayoutProvider';
+import { PayoutRequest } from './PayoutProvider';
+
+export class UpiPayoutProvider extends HttpPayoutProvider {
+  readonly name = 'upi';
+
+  protected getEndpoint() {
+    // Example: RazorpayX/Cashfree style payouts API (replace with real API details)
+    return {
+      url: process.env.UPI_PAYOUT_API_URL || 'https://api.example.com/payouts',
+      apiKey: process.env.UPI_PAYOUT_API_KEY,
+    };
+  }
+
+  protected buildPayload(request: PayoutRequest) {
+    return {
+      account_number: process.env.UPI_PAYOUT_ACCOUNT_NUMBER,
+      amount: request.amountRupees * 100, // paise
+      currency: 'INR',
+      mode: 'UPI',
+      purpose: 'payout',
+      fund_account: {
+        account_type: 'vpa',
+        vpa: { address: request.details.upiId },
+      },
+      reference_id: request.redemptionId,
+    };
+  }
+}
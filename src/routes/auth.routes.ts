@@ -2,6 +2,7 @@ import express from 'express';
 import {
   registerUser,
   loginUser,
+  verifyLogin,
   verifyToken,
   sendOtp,
   verifyOtpAndRegister,
@@ -10,26 +11,130 @@ import {
   getActiveSessions,
   revokeSession,
   deleteAccount,
+  exportAccountData,
 } from '../controllers/auth.controller';
+import {
+  getTwoFactorStatus,
+  startTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  createStepUp,
+  regenerateBackupCodes,
+  disableTwoFactor,
+} from '../controllers/twoFactor.controller';
+import {
+  requestEmailVerification,
+  verifyEmail,
+  getPhoneChange,
+  startPhoneChange,
+  confirmPhoneChange,
+  cancelPhoneChange,
+  startRecovery,
+  confirmRecovery,
+} from '../controllers/accountRecovery.controller';
 import { authMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
-import { registerSchema, loginSchema } from '../utils/validators';
+import { rateLimit } from '../middleware/rateLimit';
+import { requireStepUp, STEP_UP_ACTIONS } from '../middleware/stepUp';
+import { registerSchema, loginSchema, loginVerifySchema } from '../utils/validators';
+import Joi from 'joi';
 
 const router = express.Router();
 
+// OTPs cost an SMS each: limit per number, and per IP against pumping across many numbers
+const otpSendLimit = rateLimit(
+  { name: 'otp-send-phone', limit: 1, windowSeconds: 60, keyBy: ['phone'] },
+  { name: 'otp-send-phone-hourly', limit: 5, windowSeconds: 60 * 60, keyBy: ['phone'] },
+  { name: 'otp-send-ip', limit: 20, windowSeconds: 60 * 60, keyBy: ['ip'] }
+);
+// Counts across fresh OTPs, so requesting a new code does not reset the guesses
+const otpVerifyLimit = rateLimit(
+  { name: 'otp-verify-phone', limit: 10, windowSeconds: 60 * 60, keyBy: ['phone'] },
+  { name: 'otp-verify-ip', limit: 50, windowSeconds: 60 * 60, keyBy: ['ip'] }
+);
+const loginLimit = rateLimit(
+  { name: 'login-phone', limit: 10, windowSeconds: 15 * 60, keyBy: ['phone'] },
+  { name: 'login-ip', limit: 30, windowSeconds: 15 * 60, keyBy: ['ip'] }
+);
+const refreshLimit = rateLimit({ name: 'token-refresh-ip', limit: 60, windowSeconds: 60, keyBy: ['ip'] });
+
+const phoneNumber = Joi.string().pattern(/^[+]?[0-9]{10,15}$/);
+const otpCode = Joi.string().pattern(/^\d{6}$/);
+
+// Six digits is a small space; cap guesses per account across all 2FA checks
+const twoFactorCodeLimit = rateLimit({ name: '2fa-code-user', limit: 5, windowSeconds: 5 * 60, keyBy: ['user'] });
+
+const totpCodeSchema = Joi.object({
+  code: otpCode.required(),
+});
+
+const stepUpSchema = Joi.object({
+  action: Joi.string().valid(...STEP_UP_ACTIONS).required(),
+  code: otpCode,
+  backupCode: Joi.string().max(20),
+}).xor('code', 'backupCode');
+
+// Phone changes and email codes send messages and take guesses, so cap both per account
+const phoneChangeLimit = rateLimit({ name: 'phone-change-user', limit: 3, windowSeconds: 60 * 60, keyBy: ['user'] });
+const phoneChangeVerifyLimit = rateLimit({ name: 'phone-change-verify-user', limit: 10, windowSeconds: 60 * 60, keyBy: ['user'] });
+const emailCodeLimit = rateLimit({ name: 'email-code-user', limit: 5, windowSeconds: 60 * 60, keyBy: ['user'] });
+
+const phoneChangeSchema = Joi.object({
+  newPhoneNumber: phoneNumber.required(),
+  locale: Joi.string().max(35),
+});
+
+const phoneChangeVerifySchema = Joi.object({
+  oldOtp: otpCode.required(),
+  newOtp: otpCode.required(),
+  locale: Joi.string().max(35),
+});
+
+const recoverySchema = Joi.object({
+  email: Joi.string().email().required(),
+  phoneNumber: phoneNumber.required(),
+  locale: Joi.string().max(35),
+});
+
+const recoveryVerifySchema = Joi.object({
+  email: Joi.string().email().required(),
+  phoneNumber: phoneNumber.required(),
+  emailCode: otpCode.required(),
+  otp: otpCode.required(),
+  locale: Joi.string().max(35),
+});
+
+// Exports read every table the user appears in
+const exportLimit = rateLimit({ name: 'account-export-user', limit: 3, windowSeconds: 60 * 60, keyBy: ['user'] });
+
+const deleteAccountSchema = Joi.object({
+  reason: Joi.string().max(500),
+});
+
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().hex().length(64).required(),
+  deviceName: Joi.string().max(100),
+});
+
 /**
  * @route POST /register
  * @desc Register a new user (sends OTP)
  * @access Public
  */
-router.post('/register', validateRequest(registerSchema), registerUser);
+router.post('/register', validateRequest(registerSchema), otpSendLimit, registerUser);
 
 /**
  * @route POST /login
- * @desc Login user
+ * @desc Send a login OTP to a registered phone number
  * @access Public
  */
-router.post('/login', validateRequest(loginSchema), loginUser);
+router.post('/login', loginLimit, otpSendLimit, validateRequest(loginSchema), loginUser);
+
+/**
+ * @route POST /login/verify
+ * @desc Verify the login OTP and start a session
+ * @access Public
+ */
+router.post('/login/verify', otpVerifyLimit, validateRequest(loginVerifySchema), verifyLogin);
 
 /**
  * @route GET /verify
@@ -43,21 +148,21 @@ router.get('/verify', authMiddleware, verifyToken);
  * @desc Send OTP to phone number
  * @access Public
  */
-router.post('/send-otp', sendOtp);
+router.post('/send-otp', otpSendLimit, sendOtp);
 
 /**
  * @route POST /verify-otp
  * @desc Verify OTP and complete registration
  * @access Public
  */
-router.post('/verify-otp', verifyOtpAndRegister);
+router.post('/verify-otp', otpVerifyLimit, verifyOtpAndRegister);
 
 /**
  * @route POST /refresh
- * @desc Refresh access token
- * @access Authenticated users
+ * @desc Rotate a refresh token for a new access and refresh token pair
+ * @access Public (refresh token in the body)
  */
-router.post('/refresh', authMiddleware, refreshToken);
+router.post('/refresh', refreshLimit, validateRequest(refreshTokenSchema), refreshToken);
 
 /**
  * @route POST /logout
@@ -78,13 +183,125 @@ router.get('/sessions', authMiddleware, getActiveSessions);
  * @desc Revoke specific session
  * @access Authenticated users
  */
-router.delete('/sessions/:sessionId', authMiddleware, revokeSession);
+router.delete('/sessions/:sessionId', authMiddleware, requireStepUp('SESSION_REVOKE'), revokeSession);
 
 /**
  * @route DELETE /account
- * @desc Delete user account
+ * @desc Schedule account deletion; logging in during the grace period cancels it
+ * @access Authenticated users
+ */
+router.delete('/account', authMiddleware, requireStepUp('ACCOUNT_DELETE'), validateRequest(deleteAccountSchema), deleteAccount);
+
+/**
+ * @route GET /account/export
+ * @desc Download a zip of the user's personal data
+ * @access Authenticated users
+ */
+router.get('/account/export', authMiddleware, requireStepUp('ACCOUNT_EXPORT'), exportLimit, exportAccountData);
+
+/**
+ * @route GET /2fa
+ * @desc Get two-factor status and whether enrolment is required
+ * @access Authenticated users
+ */
+router.get('/2fa', authMiddleware, getTwoFactorStatus);
+
+/**
+ * @route POST /2fa/enrol
+ * @desc Start TOTP enrolment (returns the secret and otpauth URI)
+ * @access Authenticated users
+ */
+router.post('/2fa/enrol', authMiddleware, startTwoFactorEnrolment);
+
+/**
+ * @route POST /2fa/enrol/verify
+ * @desc Confirm enrolment with a TOTP code; returns backup codes
+ * @access Authenticated users
+ */
+router.post('/2fa/enrol/verify', authMiddleware, twoFactorCodeLimit, validateRequest(totpCodeSchema), confirmTwoFactorEnrolment);
+
+/**
+ * @route POST /2fa/step-up
+ * @desc Exchange a TOTP or backup code for a short-lived step-up token
  * @access Authenticated users
  */
-router.delete('/account', authMiddleware, deleteAccount);
+router.post('/2fa/step-up', authMiddleware, twoFactorCodeLimit, validateRequest(stepUpSchema), createStepUp);
+
+/**
+ * @route POST /2fa/backup-codes
+ * @desc Replace backup codes
+ * @access Authenticated users
+ */
+router.post('/2fa/backup-codes', authMiddleware, twoFactorCodeLimit, validateRequest(totpCodeSchema), regenerateBackupCodes);
+
+/**
+ * @route DELETE /2fa
+ * @desc Disable two-factor authentication (not allowed for admins and verified experts)
+ * @access Authenticated users
+ */
+router.delete('/2fa', authMiddleware, twoFactorCodeLimit, validateRequest(totpCodeSchema), disableTwoFactor);
+
+/**
+ * @route POST /email/verify-request
+ * @desc Email a verification code to the profile email
+ * @access Authenticated users
+ */
+router.post('/email/verify-request', authMiddleware, emailCodeLimit, requestEmailVerification);
+
+/**
+ * @route POST /email/verify
+ * @desc Verify the profile email (required for account recovery)
+ * @access Authenticated users
+ */
+router.post('/email/verify', authMiddleware, emailCodeLimit, validateRequest(totpCodeSchema), verifyEmail);
+
+/**
+ * @route GET /phone-change
+ * @desc Get the phone change in progress, or the redemption hold after one
+ * @access Authenticated users
+ */
+router.get('/phone-change', authMiddleware, getPhoneChange);
+
+/**
+ * @route POST /phone-change
+ * @desc Start a phone number change; OTPs go to the current and new numbers
+ * @access Authenticated users
+ */
+router.post(
+  '/phone-change',
+  authMiddleware,
+  requireStepUp('PHONE_CHANGE'),
+  phoneChangeLimit,
+  validateRequest(phoneChangeSchema),
+  startPhoneChange
+);
+
+/**
+ * @route POST /phone-change/verify
+ * @desc Confirm the phone number change with both OTPs
+ * @access Authenticated users
+ */
+router.post('/phone-change/verify', authMiddleware, phoneChangeVerifyLimit, validateRequest(phoneChangeVerifySchema), confirmPhoneChange);
+
+/**
+ * @route DELETE /phone-change
+ * @desc Cancel a phone change or an account recovery that is cooling off
+ * @access Authenticated users
+ */
+router.delete('/phone-change', authMiddleware, cancelPhoneChange);
+
+/**
+ * @route POST /recovery
+ * @desc Start account recovery to a new number through the verified email
+ * @access Public
+ */
+router.post('/recovery', otpSendLimit, validateRequest(recoverySchema), startRecovery);
+
+/**
+ * @route POST /recovery/verify
+ * @desc Verify account recovery with the email code and the new number's OTP
+ * @access Public
+ */
+router.post('/recovery/verify', otpVerifyLimit, validateRequest(recoveryVerifySchema), confirmRecovery);
 
 export default router;
@@ -0,0 +1,81 @@
+import express from 'express';
+import {
+  getBonusRules,
+  getBonusRule,
+  createBonusRule,
+  updateBonusRule,
+  deleteBonusRule,
+} from '../controllers/bonusRules.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const bonusRuleFields = {
+  name: Joi.string().max(100),
+  description: Joi.string().max(500),
+  points: Joi.number().integer().positive(),
+  categories: Joi.array().items(Joi.string().max(20)).unique(),
+  min_daily_seconds: Joi.number().integer().positive(),
+  streak_days: Joi.number().integer().min(1).max(365),
+  threshold_seconds: Joi.number().integer().positive(),
+  max_awards_per_user: Joi.number().integer().positive(),
+  starts_at: Joi.date().iso(),
+  ends_at: Joi.date().iso(),
+};
+
+const createBonusRuleSchema = Joi.object({
+  ...bonusRuleFields,
+  slug: Joi.string().pattern(/^[a-z0-9_-]+$/).max(50).required(),
+  rule_type: Joi.string().valid('STREAK', 'MILESTONE', 'CAMPAIGN').required(),
+  name: bonusRuleFields.name.required(),
+  points: bonusRuleFields.points.required(),
+  categories: bonusRuleFields.categories.default([]),
+});
+
+const updateBonusRuleSchema = Joi.object({
+  ...bonusRuleFields,
+  is_active: Joi.boolean(),
+}).min(1);
+
+// Bonus rule management is admin only; users see their progress via GET /api/wallet/streak
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /
+ * @desc List all bonus rules
+ * @access Admin only
+ */
+router.get('/', getBonusRules);
+
+/**
+ * @route GET /:ruleId
+ * @desc Get a bonus rule
+ * @access Admin only
+ */
+router.get('/:ruleId', getBonusRule);
+
+/**
+ * @route POST /
+ * @desc Create a streak, milestone or campaign rule
+ * @access Admin only
+ */
+router.post('/', validateRequest(createBonusRuleSchema), auditAdminAction('BONUS_RULE_CREATED', { inTransaction: true }), createBonusRule);
+
+/**
+ * @route PUT /:ruleId
+ * @desc Update a bonus rule
+ * @access Admin only
+ */
+router.put('/:ruleId', validateRequest(updateBonusRuleSchema), auditAdminAction('BONUS_RULE_UPDATED', { inTransaction: true }), updateBonusRule);
+
+/**
+ * @route DELETE /:ruleId
+ * @desc Deactivate a bonus rule
+ * @access Admin only
+ */
+router.delete('/:ruleId', auditAdminAction('BONUS_RULE_DEACTIVATED', { inTransaction: true }), deleteBonusRule);
+
+export default router;
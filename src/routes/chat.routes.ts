@@ -4,14 +4,23 @@ import {
   getConversations,
   getMessages,
   sendMessage,
+  sendTip,
   deleteMessage,
   getUnreadCount,
   archiveConversation,
 } from '../controllers/chat.controller';
 import { authMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { rateLimit } from '../middleware/rateLimit';
+import { tipSchema } from '../utils/videoValidators';
 
 const router = Router();
 
+const sendMessageLimit = rateLimit(
+  { name: 'chat-send-user', limit: 30, windowSeconds: 60, keyBy: ['user'] },
+  { name: 'chat-send-user-hourly', limit: 500, windowSeconds: 60 * 60, keyBy: ['user'] }
+);
+
 // All routes require authentication
 router.use(authMiddleware);
 
@@ -21,9 +30,12 @@ router.get('/conversations', getConversations);
 
 // Message routes
 router.get('/:conversationId/messages', getMessages);
-router.post('/:conversationId/send', sendMessage);
+router.post('/:conversationId/send', sendMessageLimit, sendMessage);
 router.delete('/messages/:messageId', deleteMessage);
 
+// Tips
+router.post('/:conversationId/tip', validateRequest(tipSchema), sendTip);
+
 // Unread count
 router.get('/unread-count', getUnreadCount);
 
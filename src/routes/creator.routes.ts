@@ -3,10 +3,15 @@ import {
   submitCredentials,
   verifyCreatorCredentials,
   updateCredentials,
-  getCreatorById
+  getCreatorById,
+  getCreatorEarnings,
+  getCreatorReports,
+  getCreatorMonthlyReport
 } from '../controllers/creator.controller';
 import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
 import { validateRequest } from '../middleware/validation';
+import { requireStepUp } from '../middleware/stepUp';
 import { credentialSubmissionSchema } from '../utils/validators';
 import { credentialVerificationSchema } from '../utils/creatorValidators';
 
@@ -33,7 +38,9 @@ router.post(
   '/credentials/verify',
   authMiddleware,
   roleMiddleware('ADMIN'),
+  requireStepUp('CREATOR_CREDENTIALS_REVIEW'),
   validateRequest(credentialVerificationSchema),
+  auditAdminAction('CREATOR_CREDENTIALS_REVIEWED', { inTransaction: true }),
   verifyCreatorCredentials
 );
 
@@ -49,6 +56,27 @@ router.put(
   updateCredentials
 );
 
+/**
+ * @route GET /earnings
+ * @desc Revenue share summary (views, lifetime earnings, pending and released points)
+ * @access Authenticated creators
+ */
+router.get('/earnings', authMiddleware, getCreatorEarnings);
+
+/**
+ * @route GET /earnings/reports
+ * @desc Monthly payout report snapshots
+ * @access Authenticated creators
+ */
+router.get('/earnings/reports', authMiddleware, getCreatorReports);
+
+/**
+ * @route GET /earnings/reports/:month
+ * @desc Revenue share for a month (YYYY-MM) per video; ?format=csv to download
+ * @access Authenticated creators
+ */
+router.get('/earnings/reports/:month', authMiddleware, getCreatorMonthlyReport);
+
 /**
  * @route GET /:creatorId
  * @desc Get creator and user profile by creator ID (admin only)
@@ -0,0 +1,111 @@
+import express from 'express';
+import {
+  getEnforcementStatus,
+  submitAppeal,
+  getUserEnforcements,
+  applyEnforcement,
+  liftEnforcement,
+  getAppeals,
+  reviewAppeal,
+} from '../controllers/enforcement.controller';
+import { roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { requireStepUp } from '../middleware/stepUp';
+import { validateRequest } from '../middleware/validation';
+import { rateLimit } from '../middleware/rateLimit';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const appealLimit = rateLimit({ name: 'enforcement-appeal-user', limit: 5, windowSeconds: 24 * 60 * 60, keyBy: ['user'] });
+
+const appealSchema = Joi.object({
+  enforcementId: Joi.string().uuid().required(),
+  message: Joi.string().min(10).max(2000).required(),
+});
+
+const enforcementSchema = Joi.object({
+  type: Joi.string().valid('SUSPENSION', 'BAN', 'READ_ONLY', 'EARNING_BAN').required(),
+  reason: Joi.string().min(5).max(1000).required(),
+  // Up to a year; omit for a restriction that lasts until lifted (required for SUSPENSION)
+  durationHours: Joi.number().integer().min(1).max(24 * 365),
+});
+
+const liftSchema = Joi.object({
+  reason: Joi.string().min(5).max(1000).required(),
+});
+
+const appealReviewSchema = Joi.object({
+  decision: Joi.string().valid('UPHELD', 'OVERTURNED').required(),
+  note: Joi.string().max(1000),
+});
+
+/**
+ * @route GET /status
+ * @desc Get active restrictions on your account and how to appeal
+ * @access Authenticated users (also while suspended or banned)
+ */
+router.get('/status', getEnforcementStatus);
+
+/**
+ * @route POST /appeals
+ * @desc Appeal an active enforcement (once per enforcement)
+ * @access Authenticated users (also while suspended or banned)
+ */
+router.post('/appeals', appealLimit, validateRequest(appealSchema), submitAppeal);
+
+/**
+ * @route GET /appeals
+ * @desc List appeals by status (default PENDING)
+ * @access Admin only
+ */
+router.get('/appeals', roleMiddleware('ADMIN'), getAppeals);
+
+/**
+ * @route POST /appeals/:appealId/review
+ * @desc Uphold or overturn an appeal; overturning lifts the enforcement
+ * @access Admin only
+ */
+router.post(
+  '/appeals/:appealId/review',
+  roleMiddleware('ADMIN'),
+  requireStepUp('APPEAL_REVIEW'),
+  validateRequest(appealReviewSchema),
+  auditAdminAction('ENFORCEMENT_APPEAL_REVIEWED', { inTransaction: true }),
+  reviewAppeal
+);
+
+/**
+ * @route GET /users/:userId
+ * @desc Get a user's enforcement history with appeals
+ * @access Admin only
+ */
+router.get('/users/:userId', roleMiddleware('ADMIN'), getUserEnforcements);
+
+/**
+ * @route POST /users/:userId
+ * @desc Suspend, ban, make read-only or ban from earning, with a reason
+ * @access Admin only
+ */
+router.post(
+  '/users/:userId',
+  roleMiddleware('ADMIN'),
+  validateRequest(enforcementSchema),
+  auditAdminAction('ENFORCEMENT_APPLIED', { inTransaction: true }),
+  applyEnforcement
+);
+
+/**
+ * @route POST /:enforcementId/lift
+ * @desc Lift an enforcement early
+ * @access Admin only
+ */
+router.post(
+  '/:enforcementId/lift',
+  roleMiddleware('ADMIN'),
+  validateRequest(liftSchema),
+  auditAdminAction('ENFORCEMENT_LIFTED', { inTransaction: true }),
+  liftEnforcement
+);
+
+export default router;
@@ -10,6 +10,7 @@ import {
   getQueueStats,
 } from '../controllers/expert.controller';
 import { authMiddleware } from '../middleware/auth';
+import { requireStepUp } from '../middleware/stepUp';
 
 const router = Router();
 
@@ -23,8 +24,8 @@ router.get('/status', authMiddleware, getApplicationStatus);
 
 // Admin routes
 router.get('/queue', authMiddleware, getPendingApplications);
-router.post('/approve/:applicationId', authMiddleware, approveApplication);
-router.post('/reject/:applicationId', authMiddleware, rejectApplication);
+router.post('/approve/:applicationId', authMiddleware, requireStepUp('EXPERT_APPROVE'), approveApplication);
+router.post('/reject/:applicationId', authMiddleware, requireStepUp('EXPERT_REJECT'), rejectApplication);
 router.get('/stats/queue', authMiddleware, getQueueStats);
 
 export default router;
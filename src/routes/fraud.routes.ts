@@ -0,0 +1,58 @@
+import express from 'express';
+import {
+  runFraudScan,
+  getFraudFlags,
+  getFraudFlag,
+  confirmFraudFlag,
+  dismissFraudFlag,
+} from '../controllers/fraud.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const fraudReviewSchema = Joi.object({
+  notes: Joi.string().max(1000),
+});
+
+// All fraud review routes are admin only
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route POST /scan
+ * @desc Score recent watch activity and flag suspicious users
+ * @access Admin only
+ */
+router.post('/scan', auditAdminAction('FRAUD_SCAN_RUN'), runFraudScan);
+
+/**
+ * @route GET /flags
+ * @desc List fraud flags by status (default OPEN)
+ * @access Admin only
+ */
+router.get('/flags', getFraudFlags);
+
+/**
+ * @route GET /flags/:flagId
+ * @desc Get a fraud flag with the earnings it holds
+ * @access Admin only
+ */
+router.get('/flags/:flagId', getFraudFlag);
+
+/**
+ * @route POST /flags/:flagId/confirm
+ * @desc Confirm fraud and post REVERSED ledger entries for held earnings
+ * @access Admin only
+ */
+router.post('/flags/:flagId/confirm', validateRequest(fraudReviewSchema), auditAdminAction('FRAUD_FLAG_CONFIRMED', { inTransaction: true }), confirmFraudFlag);
+
+/**
+ * @route POST /flags/:flagId/dismiss
+ * @desc Dismiss a fraud flag; held earnings resume the pending period
+ * @access Admin only
+ */
+router.post('/flags/:flagId/dismiss', validateRequest(fraudReviewSchema), auditAdminAction('FRAUD_FLAG_DISMISSED', { inTransaction: true }), dismissFraudFlag);
+
+export default router;
@@ -0,0 +1,46 @@
+import express from 'express';
+import { getJobsOverview, getQueueJobs, getJob, retriggerJob, runJob } from '../controllers/jobs.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+
+const router = express.Router();
+
+// All job administration routes are admin only
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /
+ * @desc Queue counts, cron schedules and known job definitions
+ * @access Admin only
+ */
+router.get('/', getJobsOverview);
+
+/**
+ * @route GET /:queue
+ * @desc List jobs in a queue (?status=waiting|active|completed|failed|delayed); use dead-letter for the DLQ
+ * @access Admin only
+ */
+router.get('/:queue', getQueueJobs);
+
+/**
+ * @route POST /:queue/run/:jobName
+ * @desc Enqueue a defined job to run now
+ * @access Admin only
+ */
+router.post('/:queue/run/:jobName', auditAdminAction('JOB_RUN'), runJob);
+
+/**
+ * @route GET /:queue/:jobId
+ * @desc Inspect a job
+ * @access Admin only
+ */
+router.get('/:queue/:jobId', getJob);
+
+/**
+ * @route POST /:queue/:jobId/retry
+ * @desc Retry a failed job or re-enqueue a dead-letter job on its original queue
+ * @access Admin only
+ */
+router.post('/:queue/:jobId/retry', auditAdminAction('JOB_RETRIED'), retriggerJob);
+
+export default router;
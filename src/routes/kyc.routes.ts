@@ -0,0 +1,75 @@
+import express from 'express';
+import {
+  getKycStatus,
+  submitUpi,
+  submitPan,
+  getKycReviews,
+  getKycReview,
+  reviewKyc,
+} from '../controllers/kyc.controller';
+import { roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import { requireStepUp } from '../middleware/stepUp';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const upiSchema = Joi.object({
+  upiId: Joi.string().pattern(/^[\w.-]{2,256}@[a-zA-Z]{2,64}$/).required(),
+});
+
+const panSchema = Joi.object({
+  pan: Joi.string().uppercase().pattern(/^[A-Z]{5}[0-9]{4}[A-Z]$/).required(),
+  name: Joi.string().min(2).max(100).required(),
+});
+
+const kycReviewSchema = Joi.object({
+  kind: Joi.string().valid('UPI', 'PAN').required(),
+  decision: Joi.string().valid('APPROVE', 'REJECT').required(),
+  notes: Joi.string().max(1000),
+});
+
+/**
+ * @route GET /
+ * @desc Get own KYC level, masked UPI ID / PAN and redemption limits
+ * @access Private
+ */
+router.get('/', getKycStatus);
+
+/**
+ * @route POST /upi
+ * @desc Verify a UPI ID with a penny drop (level 1)
+ * @access Private
+ */
+router.post('/upi', validateRequest(upiSchema), submitUpi);
+
+/**
+ * @route POST /pan
+ * @desc Submit a PAN for review (level 2, higher limits)
+ * @access Private
+ */
+router.post('/pan', validateRequest(panSchema), submitPan);
+
+/**
+ * @route GET /reviews
+ * @desc List UPI name mismatches and PANs awaiting review
+ * @access Admin only
+ */
+router.get('/reviews', roleMiddleware('ADMIN'), getKycReviews);
+
+/**
+ * @route GET /reviews/:userId
+ * @desc Get a user's decrypted KYC details and verification attempts
+ * @access Admin only
+ */
+router.get('/reviews/:userId', roleMiddleware('ADMIN'), auditAdminAction('KYC_DETAILS_VIEWED'), getKycReview);
+
+/**
+ * @route POST /reviews/:userId
+ * @desc Approve or reject a UPI ID or PAN under review
+ * @access Admin only
+ */
+router.post('/reviews/:userId', roleMiddleware('ADMIN'), requireStepUp('KYC_REVIEW'), validateRequest(kycReviewSchema), auditAdminAction('KYC_REVIEWED', { inTransaction: true }), reviewKyc);
+
+export default router;
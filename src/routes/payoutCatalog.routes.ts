@@ -0,0 +1,110 @@
+import express from 'express';
+import {
+  getCatalogItems,
+  getCatalogItem,
+  createCatalogItem,
+  updateCatalogItem,
+  deleteCatalogItem,
+  addGiftCardCodes,
+  getGiftCardStock,
+} from '../controllers/payoutCatalog.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const catalogItemFields = {
+  name: Joi.string().max(100),
+  provider: Joi.string().max(50),
+  points_per_rupee: Joi.number().positive().precision(4),
+  denominations: Joi.array().items(Joi.number().integer().positive()).unique(),
+  min_amount: Joi.number().integer().min(1),
+  max_amount: Joi.number().integer().min(Joi.ref('min_amount')),
+  display_order: Joi.number().integer().min(0),
+};
+
+const createCatalogItemSchema = Joi.object({
+  ...catalogItemFields,
+  slug: Joi.string().pattern(/^[a-z0-9_-]+$/).max(50).required(),
+  method: Joi.string().valid('UPI', 'RECHARGE', 'GIFT_CARD').required(),
+  name: catalogItemFields.name.required(),
+  points_per_rupee: catalogItemFields.points_per_rupee.required(),
+  denominations: catalogItemFields.denominations.default([]),
+  min_amount: catalogItemFields.min_amount.required(),
+});
+
+const updateCatalogItemSchema = Joi.object({
+  ...catalogItemFields,
+  is_active: Joi.boolean(),
+}).min(1);
+
+const giftCardCodesSchema = Joi.object({
+  denomination: Joi.number().integer().positive().required(),
+  codes: Joi.array()
+    .items(
+      Joi.object({
+        code: Joi.string().trim().max(100).required(),
+        pin: Joi.string().trim().max(50),
+      })
+    )
+    .min(1)
+    .max(1000)
+    .required(),
+  expiresAt: Joi.date().iso().greater('now'),
+});
+
+// All catalog management routes are admin only; users see the catalog via GET /api/wallet/options
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /
+ * @desc List all payout catalog items
+ * @access Admin only
+ */
+router.get('/', getCatalogItems);
+
+/**
+ * @route GET /stock
+ * @desc Gift card code stock per item and denomination
+ * @access Admin only
+ */
+router.get('/stock', getGiftCardStock);
+
+/**
+ * @route GET /:itemId
+ * @desc Get a catalog item with its stock
+ * @access Admin only
+ */
+router.get('/:itemId', getCatalogItem);
+
+/**
+ * @route POST /
+ * @desc Create a catalog item
+ * @access Admin only
+ */
+router.post('/', validateRequest(createCatalogItemSchema), auditAdminAction('PAYOUT_ITEM_CREATED', { inTransaction: true }), createCatalogItem);
+
+/**
+ * @route PUT /:itemId
+ * @desc Update a catalog item
+ * @access Admin only
+ */
+router.put('/:itemId', validateRequest(updateCatalogItemSchema), auditAdminAction('PAYOUT_ITEM_UPDATED', { inTransaction: true }), updateCatalogItem);
+
+/**
+ * @route DELETE /:itemId
+ * @desc Deactivate a catalog item
+ * @access Admin only
+ */
+router.delete('/:itemId', auditAdminAction('PAYOUT_ITEM_DEACTIVATED', { inTransaction: true }), deleteCatalogItem);
+
+/**
+ * @route POST /:itemId/codes
+ * @desc Upload pre-purchased gift card codes (encrypted at rest)
+ * @access Admin only
+ */
+router.post('/:itemId/codes', validateRequest(giftCardCodesSchema), auditAdminAction('GIFT_CARD_CODES_UPLOADED', { inTransaction: true }), addGiftCardCodes);
+
+export default router;
@@ -0,0 +1,52 @@
+import express from 'express';
+import {
+  getRedemptions,
+  getStuckRedemptions,
+  getRedemption,
+  retryRedemption,
+  processRedemptions,
+} from '../controllers/redemption.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+
+const router = express.Router();
+
+// All redemption fulfillment routes are admin only
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /
+ * @desc List redemption requests (filter with ?status=pending|processing|success|failed)
+ * @access Admin only
+ */
+router.get('/', getRedemptions);
+
+/**
+ * @route GET /stuck
+ * @desc List requests stuck in processing or overdue for retry
+ * @access Admin only
+ */
+router.get('/stuck', getStuckRedemptions);
+
+/**
+ * @route POST /process
+ * @desc Attempt every pending redemption that is due
+ * @access Admin only
+ */
+router.post('/process', auditAdminAction('REDEMPTIONS_PROCESSED'), processRedemptions);
+
+/**
+ * @route GET /:redemptionId
+ * @desc Get a redemption request with attempts and provider response
+ * @access Admin only
+ */
+router.get('/:redemptionId', getRedemption);
+
+/**
+ * @route POST /:redemptionId/retry
+ * @desc Retry the payout for a stuck or pending redemption
+ * @access Admin only
+ */
+router.post('/:redemptionId/retry', auditAdminAction('REDEMPTION_RETRIED', { inTransaction: true }), retryRedemption);
+
+export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import { getReferralDashboard } from '../controllers/referral.controller';
+
+const router = express.Router();
+
+/**
+ * @route GET /me
+ * @desc Get own referral code, stats and referrals
+ * @access Private
+ */
+router.get('/me', getReferralDashboard);
+
+export default router;
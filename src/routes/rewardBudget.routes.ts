@@ -0,0 +1,44 @@
+import express from 'express';
+import {
+  getRewardBudgets,
+  getRewardBudgetDashboard,
+  setRewardBudget,
+} from '../controllers/rewardBudget.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const rewardBudgetSchema = Joi.object({
+  daily_points: Joi.number().integer().min(0).required(),
+  throttle_at_percent: Joi.number().integer().min(1).max(100),
+  throttle_factor: Joi.number().greater(0).max(1),
+  is_active: Joi.boolean(),
+});
+
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /
+ * @desc List daily reward budgets
+ * @access Admin only
+ */
+router.get('/', getRewardBudgets);
+
+/**
+ * @route GET /dashboard
+ * @desc Budget usage, burn rate and end-of-day forecast per category
+ * @access Admin only
+ */
+router.get('/dashboard', getRewardBudgetDashboard);
+
+/**
+ * @route PUT /:category
+ * @desc Set the daily budget for a category (DEFAULT covers categories without one)
+ * @access Admin only
+ */
+router.put('/:category', validateRequest(rewardBudgetSchema), auditAdminAction('REWARD_BUDGET_UPDATED', { inTransaction: true }), setRewardBudget);
+
+export default router;
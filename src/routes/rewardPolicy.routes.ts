@@ -0,0 +1,62 @@
+import express from 'express';
+import {
+  getActiveRewardPolicy,
+  getRewardPolicies,
+  getRewardPolicy,
+  createRewardPolicy,
+} from '../controllers/rewardPolicy.controller';
+import { authMiddleware, roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest } from '../middleware/validation';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const pointsMapSchema = Joi.object().pattern(Joi.string(), Joi.number().integer().min(0));
+
+const createRewardPolicySchema = Joi.object({
+  effective_from: Joi.date().iso().required(),
+  category_rates: pointsMapSchema.keys({ DEFAULT: Joi.number().integer().min(0).required() }).required(),
+  tier_multipliers: Joi.object().pattern(Joi.string(), Joi.number().min(0).max(20)).required(),
+  daily_user_cap: Joi.number().integer().min(0).required(),
+  daily_video_cap: Joi.number().integer().min(0).required(),
+  category_daily_caps: pointsMapSchema.default({}),
+  rewatch_decay: Joi.number().greater(0).max(1).required(),
+  min_rewatch_factor: Joi.number().min(0).max(1).required(),
+  creator_revenue_share: Joi.number().min(0).max(1).required(),
+  creator_holding_days: Joi.number().integer().min(0).max(365).required(),
+  notes: Joi.string().max(1000),
+});
+
+// All reward policy routes are admin only
+router.use(authMiddleware, roleMiddleware('ADMIN'));
+
+/**
+ * @route GET /active
+ * @desc Get the reward policy currently in force
+ * @access Admin only
+ */
+router.get('/active', getActiveRewardPolicy);
+
+/**
+ * @route GET /
+ * @desc List all reward policy versions
+ * @access Admin only
+ */
+router.get('/', getRewardPolicies);
+
+/**
+ * @route GET /:version
+ * @desc Get a reward policy version (explains earnings posted under it)
+ * @access Admin only
+ */
+router.get('/:version', getRewardPolicy);
+
+/**
+ * @route POST /
+ * @desc Publish a new reward policy version effective now or in the future
+ * @access Admin only
+ */
+router.post('/', validateRequest(createRewardPolicySchema), auditAdminAction('REWARD_POLICY_CREATED', { inTransaction: true }), createRewardPolicy);
+
+export default router;
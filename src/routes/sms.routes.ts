@@ -0,0 +1,13 @@
+import express from 'express';
+import { receiveSmsStatusCallback } from '../controllers/sms.controller';
+
+const router = express.Router();
+
+/**
+ * @route POST /callbacks/:provider
+ * @desc Delivery-status callback (Twilio signature or MSG91 callback token)
+ * @access Public (verified per provider)
+ */
+router.post('/callbacks/:provider', receiveSmsStatusCallback);
+
+export default router;
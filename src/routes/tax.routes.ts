@@ -0,0 +1,29 @@
+import express from 'express';
+import { getTaxStatement, exportTaxStatement, exportTdsFiling } from '../controllers/tax.controller';
+import { roleMiddleware } from '../middleware/auth';
+import { auditAdminAction } from '../middleware/adminAudit';
+
+const router = express.Router();
+
+/**
+ * @route GET /statement
+ * @desc Get own redemptions and TDS for a financial year (?fy=YYYY-YY, default current)
+ * @access Private
+ */
+router.get('/statement', getTaxStatement);
+
+/**
+ * @route GET /statement/export
+ * @desc Download annual tax statement (?fy=YYYY-YY&format=csv|pdf)
+ * @access Private
+ */
+router.get('/statement/export', exportTaxStatement);
+
+/**
+ * @route GET /filing/export
+ * @desc CSV of TDS withheld with deductee PANs (?fy=YYYY-YY&quarter=Q1..Q4)
+ * @access Admin only
+ */
+router.get('/filing/export', roleMiddleware('ADMIN'), auditAdminAction('TDS_FILING_EXPORTED'), exportTdsFiling);
+
+export default router;
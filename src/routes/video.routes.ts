@@ -6,14 +6,22 @@ import {
   getCreatorVideos,
   likeVideo,
   commentOnVideo,
+  tipVideo,
+  getVideoTipLeaderboard,
 } from '../controllers/video.controller';
 import { authMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
+import { rateLimit } from '../middleware/rateLimit';
 import { videoUploadSchema } from '../utils/validators';
-import { videoPublishSchema, videoCommentSchema } from '../utils/videoValidators';
+import { videoPublishSchema, videoCommentSchema, tipSchema } from '../utils/videoValidators';
 
 const router = express.Router();
 
+const commentLimit = rateLimit(
+  { name: 'comment-user', limit: 10, windowSeconds: 60, keyBy: ['user'] },
+  { name: 'comment-user-hourly', limit: 100, windowSeconds: 60 * 60, keyBy: ['user'] }
+);
+
 /**
  * @route POST /upload
  * @desc Upload a new video
@@ -54,6 +62,20 @@ router.post('/:videoId/like', authMiddleware, likeVideo);
  * @desc Comment on a video
  * @access Authenticated users
  */
-router.post('/:videoId/comment', authMiddleware, validateRequest(videoCommentSchema), commentOnVideo);
+router.post('/:videoId/comment', authMiddleware, commentLimit, validateRequest(videoCommentSchema), commentOnVideo);
+
+/**
+ * @route POST /:videoId/tip
+ * @desc Tip the video's creator with available points
+ * @access Authenticated users
+ */
+router.post('/:videoId/tip', authMiddleware, validateRequest(tipSchema), tipVideo);
+
+/**
+ * @route GET /:videoId/tips/leaderboard
+ * @desc Top tippers of a video
+ * @access Authenticated users
+ */
+router.get('/:videoId/tips/leaderboard', authMiddleware, getVideoTipLeaderboard);
 
 export default router;
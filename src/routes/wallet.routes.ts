@@ -1,25 +1,78 @@
 import express from 'express';
 import {
   getWallet,
-  recordWatchEvent,
   redeemPoints,
+  getMyRedemptions,
+  getExpiringPoints,
+  getStreak,
+  getStatement,
+  exportStatement,
+  processPointsExpiry,
+  getInbox,
+  openInboxItem,
   processPendingPoints,
   walletHeartbeat,
+  startWatchSession,
+  closeWatchSession,
   getWalletOptions,
+  reconcileWallet,
+  adjustWallet,
+  freezeWallet,
+  unfreezeWallet,
+  getAuditTrail,
 } from '../controllers/wallet.controller';
 import { authMiddleware, roleMiddleware } from '../middleware/auth';
-import { validateRequest } from '../middleware/validation';
-import { watchEventSchema, redemptionSchema } from '../utils/validators';
+import { auditAdminAction } from '../middleware/adminAudit';
+import { validateRequest, validateRequestWith } from '../middleware/validation';
+import { rateLimit } from '../middleware/rateLimit';
+import { requireStepUp } from '../middleware/stepUp';
+import { buildRedemptionSchema } from '../utils/validators';
+import { payoutCatalogService } from '../services/payoutCatalog.service';
 import Joi from 'joi';
 
 const router = express.Router();
 
-// Heartbeat validation schema
-const heartbeatSchema = Joi.object({
+// Heartbeats are sent every 30 seconds; this leaves room for retries, not for farming
+const heartbeatLimit = rateLimit({ name: 'heartbeat-user', limit: 6, windowSeconds: 60, keyBy: ['user'] });
+
+// Watch session validation schemas
+const watchSessionStartSchema = Joi.object({
   videoId: Joi.string().uuid().required(),
-  creatorId: Joi.string().uuid().required(),
-  watchDurationSeconds: Joi.number().min(0).required(),
-  category: Joi.string().max(50).required(),
+});
+
+const heartbeatSchema = Joi.object({
+  sessionToken: Joi.string().max(200).required(),
+  sequence: Joi.number().integer().min(1).required(),
+  watchDurationSeconds: Joi.number().min(0).max(300).required(),
+});
+
+const watchSessionCloseSchema = Joi.object({
+  sessionToken: Joi.string().max(200).required(),
+});
+
+// Admin wallet actions always carry a reason for the audit trail
+const walletAdjustmentSchema = Joi.object({
+  action: Joi.string().valid('CREDIT', 'DEBIT', 'REVERSE_EARNING').required(),
+  points: Joi.when('action', {
+    is: 'REVERSE_EARNING',
+    then: Joi.forbidden(),
+    otherwise: Joi.number().integer().min(1).max(1000000).required(),
+  }),
+  balance: Joi.when('action', {
+    is: 'REVERSE_EARNING',
+    then: Joi.forbidden(),
+    otherwise: Joi.string().valid('AVAILABLE', 'PENDING').default('AVAILABLE'),
+  }),
+  transactionId: Joi.when('action', {
+    is: 'REVERSE_EARNING',
+    then: Joi.string().uuid().required(),
+    otherwise: Joi.forbidden(),
+  }),
+  reason: Joi.string().trim().min(10).max(500).required(),
+});
+
+const walletFreezeSchema = Joi.object({
+  reason: Joi.string().trim().min(10).max(500).required(),
 });
 
 /**
@@ -29,19 +82,54 @@ const heartbeatSchema = Joi.object({
  */
 router.get('/', authMiddleware, getWallet);
 
+/**
+ * @route POST /sessions
+ * @desc Start a watch session for a video (returns a signed session token)
+ * @access Authenticated users
+ */
+router.post('/sessions', authMiddleware, validateRequest(watchSessionStartSchema), startWatchSession);
+
 /**
  * @route POST /heartbeat
- * @desc 30-second watch progress update with tier-based multipliers
+ * @desc Sequenced 30-second watch progress update for a watch session, with tier-based multipliers
  * @access Authenticated users
  */
-router.post('/heartbeat', authMiddleware, validateRequest(heartbeatSchema), walletHeartbeat);
+router.post('/heartbeat', authMiddleware, heartbeatLimit, validateRequest(heartbeatSchema), walletHeartbeat);
 
 /**
- * @route POST /watch-event
- * @desc Record a video watch event for rewards (deprecated - use heartbeat)
+ * @route POST /sessions/close
+ * @desc Close a watch session
  * @access Authenticated users
  */
-router.post('/watch-event', authMiddleware, validateRequest(watchEventSchema), recordWatchEvent);
+router.post('/sessions/close', authMiddleware, validateRequest(watchSessionCloseSchema), closeWatchSession);
+
+/**
+ * @route GET /statement
+ * @desc Paginated points statement (filter by date range, type, video, creator)
+ * @access Authenticated users
+ */
+router.get('/statement', authMiddleware, getStatement);
+
+/**
+ * @route GET /statement/export
+ * @desc Download a monthly statement as CSV or PDF (?month=YYYY-MM&format=csv|pdf)
+ * @access Authenticated users
+ */
+router.get('/statement/export', authMiddleware, exportStatement);
+
+/**
+ * @route GET /expiring
+ * @desc Breakdown of available points by upcoming expiry date
+ * @access Authenticated users
+ */
+router.get('/expiring', authMiddleware, getExpiringPoints);
+
+/**
+ * @route GET /streak
+ * @desc Current watch streaks, progress to the next streak bonus and recent bonuses
+ * @access Authenticated users
+ */
+router.get('/streak', authMiddleware, getStreak);
 
 /**
  * @route GET /options
@@ -55,13 +143,82 @@ router.get('/options', authMiddleware, getWalletOptions);
  * @desc Redeem points for rewards
  * @access Authenticated users
  */
-router.post('/redeem', authMiddleware, validateRequest(redemptionSchema), redeemPoints);
+router.post(
+  '/redeem',
+  authMiddleware,
+  requireStepUp('REDEEM'),
+  validateRequestWith(async () => buildRedemptionSchema(await payoutCatalogService.getActiveItems())),
+  redeemPoints
+);
+
+/**
+ * @route GET /redemptions
+ * @desc List the user's redemption requests and payout status
+ * @access Authenticated users
+ */
+router.get('/redemptions', authMiddleware, getMyRedemptions);
+
+/**
+ * @route GET /inbox
+ * @desc List wallet inbox items (delivered gift cards); contents are not included
+ * @access Authenticated users
+ */
+router.get('/inbox', authMiddleware, getInbox);
+
+/**
+ * @route GET /inbox/:itemId
+ * @desc Reveal an inbox item, e.g. a gift card code and PIN
+ * @access Authenticated users (owner only)
+ */
+router.get('/inbox/:itemId', authMiddleware, openInboxItem);
 
 /**
  * @route POST /process-pending
  * @desc Process pending points (admin only)
  * @access Admin only
  */
-router.post('/process-pending', authMiddleware, roleMiddleware('ADMIN'), processPendingPoints);
+router.post('/process-pending', authMiddleware, roleMiddleware('ADMIN'), auditAdminAction('PENDING_POINTS_PROCESSED'), processPendingPoints);
+
+/**
+ * @route POST /process-expiry
+ * @desc Expire points past their expiry date and send expiry reminders (admin only)
+ * @access Admin only
+ */
+router.post('/process-expiry', authMiddleware, roleMiddleware('ADMIN'), auditAdminAction('POINTS_EXPIRY_PROCESSED'), processPointsExpiry);
+
+/**
+ * @route POST /reconcile/:userId
+ * @desc Rebuild a user's wallet balances from the points ledger if they drifted
+ * @access Admin only
+ */
+router.post('/reconcile/:userId', authMiddleware, roleMiddleware('ADMIN'), auditAdminAction('WALLET_RECONCILED'), reconcileWallet);
+
+/**
+ * @route POST /adjust/:userId
+ * @desc Credit or debit points, or reverse a pending earning, with a mandatory reason
+ * @access Admin only
+ */
+router.post('/adjust/:userId', authMiddleware, roleMiddleware('ADMIN'), validateRequest(walletAdjustmentSchema), adjustWallet);
+
+/**
+ * @route POST /freeze/:userId
+ * @desc Freeze a wallet (blocks redemptions, tips and earning)
+ * @access Admin only
+ */
+router.post('/freeze/:userId', authMiddleware, roleMiddleware('ADMIN'), validateRequest(walletFreezeSchema), freezeWallet);
+
+/**
+ * @route POST /unfreeze/:userId
+ * @desc Unfreeze a wallet
+ * @access Admin only
+ */
+router.post('/unfreeze/:userId', authMiddleware, roleMiddleware('ADMIN'), validateRequest(walletFreezeSchema), unfreezeWallet);
+
+/**
+ * @route GET /audit/:userId
+ * @desc Admin actions taken on a user's account (?action&limit&offset)
+ * @access Admin only
+ */
+router.get('/audit/:userId', authMiddleware, roleMiddleware('ADMIN'), getAuditTrail);
 
 export default router;
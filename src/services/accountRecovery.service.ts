@@ -0,0 +1,452 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { generateHash, maskPhoneNumber } from '../utils/helpers';
+import { otpService } from './otp.service';
+import { smsService } from './sms.service';
+import { emailService } from './email.service';
+
+const EMAIL_CODE_EXPIRY_MINUTES = 15;
+const EMAIL_CODE_MAX_ATTEMPTS = 5;
+const PHONE_CHANGE_EXPIRY_MINUTES = 15;
+// Redemptions and payouts stay held this long after a number changes
+const PHONE_CHANGE_HOLD_HOURS = parseInt(process.env.PHONE_CHANGE_HOLD_HOURS || '48', 10);
+// Time the current number has to cancel an email recovery before it takes effect
+const RECOVERY_COOLING_OFF_HOURS = parseInt(process.env.RECOVERY_COOLING_OFF_HOURS || '72', 10);
+
+export type PhoneChangeMethod = 'OTP' | 'EMAIL_RECOVERY';
+export type PhoneChangeStatus = 'PENDING' | 'COOLING_OFF' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
+type EmailCodePurpose = 'VERIFY_EMAIL' | 'RECOVERY';
+
+export interface PhoneChange {
+  id: string;
+  user_id: string;
+  old_phone_number: string;
+  new_phone_number: string;
+  method: PhoneChangeMethod;
+  status: PhoneChangeStatus;
+  expires_at: Date;
+  effective_at?: Date;
+  hold_until?: Date;
+  completed_at?: Date;
+  cancelled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface EmailCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: Date;
+}
+
+const formatUtc = (date: Date): string => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+class AccountRecoveryService {
+  /**
+   * Email a code proving the user controls their address; only a verified email can recover the account
+   */
+  async sendEmailVerification(userId: string): Promise<void> {
+    const user = await db.queryOne<{ email: string | null; email_verified_at: Date | null }>(
+      `SELECT email, email_verified_at FROM users WHERE id = $1 AND is_deleted = false`,
+      [userId]
+    );
+    if (!user) {
+      throw new AppError(404, 'User not found');
+    }
+    if (!user.email) {
+      throw new AppError(400, 'Add an email address to your profile first');
+    }
+    if (user.email_verified_at) {
+      throw new AppError(409, 'Email is already verified');
+    }
+
+    const code = await this.issueEmailCode(userId, 'VERIFY_EMAIL');
+    await emailService.send({
+      to: user.email,
+      subject: 'Verify your WiseReels email',
+      text: `Your WiseReels email verification code is ${code}. It expires in ${EMAIL_CODE_EXPIRY_MINUTES} minutes.`,
+    });
+  }
+
+  async verifyEmail(userId: string, code: string): Promise<void> {
+    await db.transaction(async (client) => {
+      await this.consumeEmailCode(client, userId, 'VERIFY_EMAIL', code);
+      await client.query(`UPDATE users SET email_verified_at = NOW(), updated_at = NOW() WHERE id = $1`, [userId]);
+    });
+    logger.info('Email verified', { userId });
+  }
+
+  /**
+   * Start a phone change from a signed-in session: OTPs go to both the current and the new number
+   */
+  async startPhoneChange(userId: string, newPhoneNumber: string, locale?: string): Promise<{ changeId: string; expiresAt: Date }> {
+    const user = await db.queryOne<{ phone_number: string }>(
+      `SELECT phone_number FROM users WHERE id = $1 AND is_deleted = false`,
+      [userId]
+    );
+    if (!user) {
+      throw new AppError(404, 'User not found');
+    }
+    if (user.phone_number === newPhoneNumber) {
+      throw new AppError(400, 'This is already your phone number');
+    }
+    await this.assertPhoneAvailable(newPhoneNumber);
+
+    const changeId = uuidv4();
+    const expiresAt = new Date(Date.now() + PHONE_CHANGE_EXPIRY_MINUTES * 60 * 1000);
+    await db.transaction(async (client) => {
+      const active = await client.query<PhoneChange>(
+        `SELECT * FROM phone_changes WHERE user_id = $1 AND status IN ('PENDING', 'COOLING_OFF') FOR UPDATE`,
+        [userId]
+      );
+      if (active.rows[0]?.status === 'COOLING_OFF') {
+        throw new AppError(409, 'An account recovery is in progress; cancel it before changing your number');
+      }
+      // A new request replaces an unfinished one
+      await client.query(
+        `UPDATE phone_changes SET status = 'CANCELLED', cancelled_at = NOW(), hold_until = NULL, updated_at = NOW()
+         WHERE user_id = $1 AND status = 'PENDING'`,
+        [userId]
+      );
+      await client.query(
+        `INSERT INTO phone_changes (id, user_id, old_phone_number, new_phone_number, method, status, expires_at, hold_until, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, 'OTP', 'PENDING', $5, $5, NOW(), NOW())`,
+        [changeId, userId, user.phone_number, newPhoneNumber, expiresAt]
+      );
+    });
+
+    await otpService.generateAndSendOtp(user.phone_number, locale);
+    await otpService.generateAndSendOtp(newPhoneNumber, locale);
+
+    logger.info('Phone change started', { userId, newPhone: maskPhoneNumber(newPhoneNumber) });
+    return { changeId, expiresAt };
+  }
+
+  /**
+   * Complete a phone change with the OTPs sent to both numbers. Redemptions and payouts
+   * stay held for PHONE_CHANGE_HOLD_HOURS afterwards.
+   */
+  async confirmPhoneChange(userId: string, oldOtp: string, newOtp: string, locale?: string): Promise<{ phoneNumber: string; holdUntil: Date }> {
+    const change = await db.queryOne<PhoneChange>(
+      `SELECT * FROM phone_changes
+       WHERE user_id = $1 AND method = 'OTP' AND status = 'PENDING' AND expires_at > NOW()`,
+      [userId]
+    );
+    if (!change) {
+      throw new AppError(404, 'No phone change in progress, or it has expired');
+    }
+
+    await this.verifyOtp(change.old_phone_number, oldOtp);
+    await this.verifyOtp(change.new_phone_number, newOtp);
+
+    const holdUntil = new Date(Date.now() + PHONE_CHANGE_HOLD_HOURS * 60 * 60 * 1000);
+    const applied = await db.transaction((client) => this.applyPhoneChange(client, change, holdUntil));
+    if (!applied) {
+      throw new AppError(409, 'This phone number is already registered to another account');
+    }
+
+    await this.notifyPhoneChanged(change, locale);
+    logger.warn('Phone number changed', { userId, changeId: change.id });
+    return { phoneNumber: change.new_phone_number, holdUntil };
+  }
+
+  async getActivePhoneChange(userId: string): Promise<PhoneChange | null> {
+    return db.queryOne<PhoneChange>(
+      `SELECT * FROM phone_changes
+       WHERE user_id = $1 AND ((status = 'PENDING' AND expires_at > NOW()) OR status = 'COOLING_OFF' OR hold_until > NOW())
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId]
+    );
+  }
+
+  /**
+   * Cancel an unfinished phone change, including an email recovery still cooling off
+   */
+  async cancelPhoneChange(userId: string): Promise<void> {
+    const cancelled = await db.query<PhoneChange>(
+      `UPDATE phone_changes SET status = 'CANCELLED', cancelled_at = NOW(), hold_until = NULL, updated_at = NOW()
+       WHERE user_id = $1 AND status IN ('PENDING', 'COOLING_OFF')
+       RETURNING *`,
+      [userId]
+    );
+    if (cancelled.length === 0) {
+      throw new AppError(404, 'No phone change in progress');
+    }
+    logger.warn('Phone change cancelled', { userId, changeIds: cancelled.map((change) => change.id) });
+  }
+
+  /**
+   * Start recovery for a user who lost their number: a code goes to the account's verified
+   * email and an OTP to the new number. Unknown emails get the same response.
+   */
+  async startRecovery(email: string, newPhoneNumber: string, locale?: string): Promise<void> {
+    const user = await db.queryOne<{ id: string; email: string; phone_number: string }>(
+      `SELECT id, email, phone_number FROM users
+       WHERE LOWER(email) = LOWER($1) AND email_verified_at IS NOT NULL AND is_deleted = false
+       ORDER BY email_verified_at DESC
+       LIMIT 1`,
+      [email]
+    );
+    if (!user || user.phone_number === newPhoneNumber) {
+      logger.info('Account recovery requested for an unknown email');
+      return;
+    }
+    await this.assertPhoneAvailable(newPhoneNumber);
+
+    const started = await db.transaction(async (client) => {
+      const active = await client.query<PhoneChange>(
+        `SELECT * FROM phone_changes WHERE user_id = $1 AND status IN ('PENDING', 'COOLING_OFF') FOR UPDATE`,
+        [user.id]
+      );
+      if (active.rows[0]?.status === 'COOLING_OFF') {
+        return false;
+      }
+      await client.query(
+        `UPDATE phone_changes SET status = 'CANCELLED', cancelled_at = NOW(), hold_until = NULL, updated_at = NOW()
+         WHERE user_id = $1 AND status = 'PENDING'`,
+        [user.id]
+      );
+      // Nothing is held until the recovery is verified, so unverified requests cannot freeze a wallet
+      await client.query(
+        `INSERT INTO phone_changes (id, user_id, old_phone_number, new_phone_number, method, status, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, 'EMAIL_RECOVERY', 'PENDING', $5, NOW(), NOW())`,
+        [uuidv4(), user.id, user.phone_number, newPhoneNumber, new Date(Date.now() + PHONE_CHANGE_EXPIRY_MINUTES * 60 * 1000)]
+      );
+      return true;
+    });
+    if (!started) {
+      logger.warn('Account recovery requested while another is cooling off', { userId: user.id });
+      return;
+    }
+
+    const code = await this.issueEmailCode(user.id, 'RECOVERY');
+    await emailService.send({
+      to: user.email,
+      subject: 'Your WiseReels account recovery code',
+      text:
+        `Someone asked to move your WiseReels account to ${maskPhoneNumber(newPhoneNumber)}. ` +
+        `If this was you, your recovery code is ${code} (valid for ${EMAIL_CODE_EXPIRY_MINUTES} minutes). ` +
+        'If it was not, ignore this email.',
+    });
+    await otpService.generateAndSendOtp(newPhoneNumber, locale);
+
+    logger.warn('Account recovery started', { userId: user.id, newPhone: maskPhoneNumber(newPhoneNumber) });
+  }
+
+  /**
+   * Verify a recovery with the email code and the OTP sent to the new number. The change
+   * takes effect after the cooling-off period unless the current number cancels it.
+   */
+  async confirmRecovery(
+    email: string,
+    newPhoneNumber: string,
+    emailCode: string,
+    otp: string,
+    locale?: string
+  ): Promise<{ effectiveAt: Date }> {
+    const change = await db.queryOne<PhoneChange & { email: string }>(
+      `SELECT pc.*, u.email FROM phone_changes pc
+       JOIN users u ON u.id = pc.user_id
+       WHERE pc.method = 'EMAIL_RECOVERY' AND pc.status = 'PENDING' AND pc.expires_at > NOW()
+         AND pc.new_phone_number = $1 AND LOWER(u.email) = LOWER($2)
+       ORDER BY pc.created_at DESC
+       LIMIT 1`,
+      [newPhoneNumber, email]
+    );
+    if (!change) {
+      throw new AppError(400, 'No recovery request found, or it has expired');
+    }
+
+    await db.transaction((client) => this.consumeEmailCode(client, change.user_id, 'RECOVERY', emailCode));
+    await this.verifyOtp(newPhoneNumber, otp);
+
+    const effectiveAt = new Date(Date.now() + RECOVERY_COOLING_OFF_HOURS * 60 * 60 * 1000);
+    const holdUntil = new Date(effectiveAt.getTime() + PHONE_CHANGE_HOLD_HOURS * 60 * 60 * 1000);
+    await db.query(
+      `UPDATE phone_changes SET status = 'COOLING_OFF', effective_at = $1, hold_until = $2, updated_at = NOW()
+       WHERE id = $3 AND status = 'PENDING'`,
+      [effectiveAt, holdUntil, change.id]
+    );
+
+    // Warn the current number and the email so a takeover attempt can be cancelled in time
+    await smsService
+      .send(change.old_phone_number, 'ACCOUNT_RECOVERY', { phone: maskPhoneNumber(newPhoneNumber), date: formatUtc(effectiveAt) }, locale)
+      .catch((error) => logger.error('Failed to notify current number of recovery', { changeId: change.id, error }));
+    await emailService
+      .send({
+        to: change.email,
+        subject: 'Your WiseReels account is being recovered',
+        text:
+          `Your WiseReels account will move to ${maskPhoneNumber(newPhoneNumber)} on ${formatUtc(effectiveAt)}. ` +
+          'Redemptions are paused until then. If this was not you, open the app on your current number and cancel it.',
+      })
+      .catch((error) => logger.error('Failed to email recovery notice', { changeId: change.id, error }));
+
+    logger.warn('Account recovery verified; cooling off', { userId: change.user_id, changeId: change.id, effectiveAt });
+    return { effectiveAt };
+  }
+
+  /**
+   * Apply email recoveries whose cooling-off period is over and expire abandoned requests.
+   * Recovered accounts are signed out everywhere.
+   */
+  async processDueRecoveries(): Promise<{ completed: number; expired: number }> {
+    const expired = await db.query(
+      `UPDATE phone_changes SET status = 'EXPIRED', hold_until = NULL, updated_at = NOW()
+       WHERE status = 'PENDING' AND expires_at <= NOW()
+       RETURNING id`
+    );
+
+    const due = await db.query<PhoneChange>(
+      `SELECT * FROM phone_changes WHERE status = 'COOLING_OFF' AND effective_at <= NOW() ORDER BY effective_at ASC`
+    );
+
+    let completed = 0;
+    for (const candidate of due) {
+      try {
+        const change = await db.transaction(async (client) => {
+          const locked = await client.query<PhoneChange>(
+            `SELECT * FROM phone_changes WHERE id = $1 AND status = 'COOLING_OFF' FOR UPDATE`,
+            [candidate.id]
+          );
+          if (!locked.rows[0]) {
+            return null;
+          }
+          if (!(await this.applyPhoneChange(client, locked.rows[0], locked.rows[0].hold_until!))) {
+            logger.warn('Account recovery cancelled: number registered meanwhile', { changeId: candidate.id });
+            return null;
+          }
+          await client.query(
+            `UPDATE refresh_tokens SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'ACCOUNT_RECOVERED'
+             WHERE user_id = $1 AND is_revoked = false`,
+            [locked.rows[0].user_id]
+          );
+          return locked.rows[0];
+        });
+        if (change) {
+          completed++;
+          await this.notifyPhoneChanged(change);
+          logger.warn('Account recovered to a new number', { userId: change.user_id, changeId: change.id });
+        }
+      } catch (error) {
+        logger.error('Failed to complete account recovery', { changeId: candidate.id, error });
+      }
+    }
+
+    return { completed, expired: expired.length };
+  }
+
+  /**
+   * Refuse redemptions while a phone change is in progress or recently completed
+   */
+  async assertNoPhoneChangeHold(client: PoolClient, userId: string): Promise<void> {
+    const result = await client.query<{ hold_until: Date }>(
+      `SELECT hold_until FROM phone_changes
+       WHERE user_id = $1 AND status IN ('PENDING', 'COOLING_OFF', 'COMPLETED') AND hold_until > NOW()
+       ORDER BY hold_until DESC
+       LIMIT 1`,
+      [userId]
+    );
+    if (result.rows[0]) {
+      throw new AppError(403, `Redemptions are paused until ${formatUtc(new Date(result.rows[0].hold_until))} after a phone number change`);
+    }
+  }
+
+  /**
+   * Move the account to the new number. If someone registered that number in the meantime
+   * the change is cancelled instead and false is returned.
+   */
+  private async applyPhoneChange(client: PoolClient, change: PhoneChange, holdUntil: Date): Promise<boolean> {
+    const taken = await client.query(
+      `SELECT 1 FROM users WHERE phone_number = $1 AND id <> $2`,
+      [change.new_phone_number, change.user_id]
+    );
+    if (taken.rows.length > 0) {
+      await client.query(
+        `UPDATE phone_changes SET status = 'CANCELLED', cancelled_at = NOW(), hold_until = NULL, updated_at = NOW() WHERE id = $1`,
+        [change.id]
+      );
+      return false;
+    }
+
+    await client.query(
+      `UPDATE users SET phone_number = $1, updated_at = NOW() WHERE id = $2`,
+      [change.new_phone_number, change.user_id]
+    );
+    await client.query(
+      `UPDATE phone_changes SET status = 'COMPLETED', completed_at = NOW(), hold_until = $1, updated_at = NOW() WHERE id = $2`,
+      [holdUntil, change.id]
+    );
+    return true;
+  }
+
+  private async notifyPhoneChanged(change: PhoneChange, locale?: string): Promise<void> {
+    await smsService
+      .send(change.old_phone_number, 'PHONE_CHANGED', { phone: maskPhoneNumber(change.new_phone_number) }, locale)
+      .catch((error) => logger.error('Failed to notify previous number of phone change', { changeId: change.id, error }));
+  }
+
+  private async assertPhoneAvailable(phoneNumber: string): Promise<void> {
+    const existing = await db.queryOne(`SELECT 1 FROM users WHERE phone_number = $1`, [phoneNumber]);
+    if (existing) {
+      throw new AppError(409, 'This phone number is already registered to another account');
+    }
+  }
+
+  private async verifyOtp(phoneNumber: string, otp: string): Promise<void> {
+    try {
+      await otpService.verifyOtp(phoneNumber, otp);
+    } catch (error) {
+      throw new AppError(400, `${(error as Error).message} for ${maskPhoneNumber(phoneNumber)}`);
+    }
+  }
+
+  private async issueEmailCode(userId: string, purpose: EmailCodePurpose): Promise<string> {
+    const code = crypto.randomInt(100000, 1000000).toString();
+    await db.query(
+      `INSERT INTO email_codes (id, user_id, purpose, code_hash, attempts, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, 0, $5, NOW())`,
+      [uuidv4(), userId, purpose, generateHash(`${userId}:${code}`), new Date(Date.now() + EMAIL_CODE_EXPIRY_MINUTES * 60 * 1000)]
+    );
+    return code;
+  }
+
+  private async consumeEmailCode(client: PoolClient, userId: string, purpose: EmailCodePurpose, code: string): Promise<void> {
+    const result = await client.query<EmailCode>(
+      `SELECT * FROM email_codes
+       WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, purpose]
+    );
+    const record = result.rows[0];
+    if (!record || new Date(record.expires_at) <= new Date()) {
+      throw new AppError(400, 'Code expired; request a new one');
+    }
+    if (record.attempts >= EMAIL_CODE_MAX_ATTEMPTS) {
+      throw new AppError(429, 'Too many attempts; request a new code');
+    }
+
+    if (record.code_hash !== generateHash(`${userId}:${code}`)) {
+      // Counted outside the caller's transaction so a failed guess is not rolled back
+      await db.query(`UPDATE email_codes SET attempts = attempts + 1 WHERE id = $1`, [record.id]);
+      throw new AppError(400, 'Invalid code');
+    }
+    const used = await client.query(
+      `UPDATE email_codes SET used_at = NOW() WHERE id = $1 AND used_at IS NULL RETURNING id`,
+      [record.id]
+    );
+    if (used.rows.length === 0) {
+      throw new AppError(400, 'Code already used; request a new one');
+    }
+  }
+}
+
+export const accountRecoveryService = new AccountRecoveryService();
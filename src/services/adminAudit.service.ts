@@ -0,0 +1,80 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+
+export interface AdminAuditEntry {
+  id: string;
+  admin_id: string;
+  action: string;
+  target_user_id?: string;
+  reason?: string;
+  details?: Record<string, any>;
+  ip_address?: string;
+  user_agent?: string;
+  created_at: Date;
+}
+
+export interface AdminAuditInput {
+  adminId: string;
+  action: string;
+  targetUserId?: string;
+  reason?: string;
+  details?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Append-only trail of admin actions. Rows cannot be updated or deleted (enforced by a
+ * trigger), so entries written inside a transaction commit or roll back with the action.
+ */
+class AdminAuditService {
+  async record(entry: AdminAuditInput, client?: PoolClient): Promise<AdminAuditEntry> {
+    const query = `INSERT INTO admin_audit_log (id, admin_id, action, target_user_id, reason, details, ip_address, user_agent, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+       RETURNING *`;
+    const params = [
+      uuidv4(),
+      entry.adminId,
+      entry.action,
+      entry.targetUserId || null,
+      entry.reason || null,
+      entry.details ? JSON.stringify(entry.details) : null,
+      entry.ipAddress || null,
+      entry.userAgent ? entry.userAgent.slice(0, 500) : null,
+    ];
+
+    if (client) {
+      return (await client.query<AdminAuditEntry>(query, params)).rows[0];
+    }
+    return (await db.queryOne<AdminAuditEntry>(query, params))!;
+  }
+
+  /**
+   * Actions taken on a user's account, newest first
+   */
+  async getUserTrail(
+    userId: string,
+    filters: { action?: string; limit?: number; offset?: number } = {}
+  ): Promise<Array<AdminAuditEntry & { admin_username?: string }>> {
+    const params: any[] = [userId];
+    let actionFilter = '';
+    if (filters.action) {
+      params.push(filters.action);
+      actionFilter = `AND a.action = $${params.length}`;
+    }
+    params.push(filters.limit || 50, filters.offset || 0);
+
+    return db.query(
+      `SELECT a.*, u.username AS admin_username
+       FROM admin_audit_log a
+       LEFT JOIN users u ON u.id = a.admin_id
+       WHERE a.target_user_id = $1 ${actionFilter}
+       ORDER BY a.created_at DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+  }
+}
+
+export const adminAuditService = new AdminAuditService();
@@ -1,8 +1,17 @@
+import { PoolClient } from 'pg';
 import { db } from '../config/database';
 import { jwtService } from '../config/jwt';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
+import { referralService } from './referral.service';
+import { ledgerService } from './ledger.service';
+import { AppError } from '../middleware/errorHandler';
+import { generateHash, generateRefreshToken } from '../utils/helpers';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+// Days a deletion request can still be undone by logging in
+const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
 
 export interface User {
   id: string;
@@ -12,16 +21,63 @@ export interface User {
   display_name: string;
   profile_picture_url?: string;
   account_status: 'ACTIVE' | 'SUSPENDED' | 'DELETED';
+  role: 'USER' | 'CREATOR' | 'ADMIN';
   account_created_at: Date;
 }
 
+/**
+ * Where a session was started from, recorded with its refresh tokens
+ */
+export interface SessionContext {
+  deviceName?: string;
+  deviceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  device_name?: string;
+  device_id?: string;
+  ip_address?: string;
+  user_agent?: string;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  role: 'USER' | 'CREATOR' | 'ADMIN';
+  device_name?: string;
+  device_id?: string;
+  ip_address?: string;
+  user_agent?: string;
+  is_revoked: boolean;
+  revoked_reason?: string;
+  replaced_by?: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
 class AuthService {
-  async savePendingRegistration({ phoneNumber, username, displayName, firstName, lastName, email }: any): Promise<void> {
+  async savePendingRegistration({ phoneNumber, username, displayName, firstName, lastName, email, referralCode, deviceId }: any): Promise<void> {
     await db.query(
-      `INSERT INTO pending_registrations (phone_number, username, display_name, first_name, last_name, email, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       ON CONFLICT (phone_number) DO UPDATE SET username = $2, display_name = $3, first_name = $4, last_name = $5, email = $6, created_at = $7`,
-      [phoneNumber, username, displayName, firstName, lastName, email, new Date()]
+      `INSERT INTO pending_registrations (phone_number, username, display_name, first_name, last_name, email, referral_code, device_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (phone_number) DO UPDATE SET username = $2, display_name = $3, first_name = $4, last_name = $5, email = $6,
+         referral_code = $7, device_id = $8, created_at = $9`,
+      [phoneNumber, username, displayName, firstName, lastName, email, referralCode || null, deviceId || null, new Date()]
     );
   }
 
@@ -39,7 +95,15 @@ class AuthService {
     );
   }
 
-  async registerUser(phoneNumber: string, username: string, displayName: string, firstName?: string, lastName?: string, email?: string): Promise<User> {
+  async registerUser(
+    phoneNumber: string,
+    username: string,
+    displayName: string,
+    firstName?: string,
+    lastName?: string,
+    email?: string,
+    referral?: { code?: string; deviceId?: string; ipAddress?: string }
+  ): Promise<User> {
     // Check for unique username
     const existingUsername = await db.queryOne<User>(
       'SELECT * FROM users WHERE username = $1',
@@ -75,6 +139,20 @@ class AuthService {
       // Initialize wallet
       await this.initializeWallet(userId);
 
+      // Referral attribution must never block a signup
+      try {
+        await referralService.getOrCreateCode(userId);
+        if (referral?.code) {
+          await referralService.attributeSignup(user, {
+            code: referral.code,
+            deviceId: referral.deviceId,
+            ipAddress: referral.ipAddress,
+          });
+        }
+      } catch (error) {
+        logger.error('Referral attribution failed', { error, userId });
+      }
+
       logger.info(`User registered: ${userId}`);
       return user;
     } catch (error) {
@@ -106,43 +184,143 @@ class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Start a session: an access token plus an opaque refresh token that begins a new token family
    */
-  async refreshAccessToken(refreshToken: string, userId: string): Promise<string> {
-    try {
-      // Verify refresh token from db
-      const query = `
-        SELECT * FROM refresh_tokens 
-        WHERE user_id = $1 AND token = $2 AND is_revoked = false AND expires_at > NOW()
-      `;
+  async createSession(userId: string, role: string = 'USER', context: SessionContext = {}): Promise<TokenPair> {
+    const refreshToken = generateRefreshToken();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const session = await db.queryOne<{ id: string; family_id: string }>(
+      `INSERT INTO refresh_tokens (
+        id, user_id, family_id, token_hash, role, device_name, device_id, ip_address, user_agent, expires_at, created_at, last_used_at
+      ) VALUES ($1, $2, $1, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+      RETURNING id, family_id`,
+      [
+        uuidv4(),
+        userId,
+        generateHash(refreshToken),
+        role,
+        context.deviceName || null,
+        context.deviceId || null,
+        context.ipAddress || null,
+        context.userAgent || null,
+        expiresAt,
+      ]
+    );
+
+    logger.info('Session created', { userId, sessionId: session!.family_id });
+
+    return {
+      accessToken: await this.generateAuthToken(userId, role),
+      refreshToken,
+      refreshTokenExpiresAt: expiresAt,
+      sessionId: session!.family_id,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Every refresh token is single use:
+   * presenting one that was already rotated means it leaked, so its whole family is revoked.
+   */
+  async refreshAccessToken(refreshToken: string, context: SessionContext = {}): Promise<TokenPair> {
+    const tokenHash = generateHash(refreshToken);
+
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query<RefreshTokenRow>(
+        `SELECT * FROM refresh_tokens WHERE token_hash = $1 FOR UPDATE`,
+        [tokenHash]
+      );
+      const current = result.rows[0];
 
-      const result = await db.queryOne<any>(query, [userId, refreshToken]);
+      if (!current) {
+        throw new AppError(401, 'Invalid or expired refresh token');
+      }
 
-      if (!result) {
-        throw new Error('Invalid or expired refresh token');
+      if (current.is_revoked) {
+        if (current.replaced_by) {
+          await client.query(
+            `UPDATE refresh_tokens
+             SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'REUSE_DETECTED'
+             WHERE family_id = $1 AND is_revoked = false`,
+            [current.family_id]
+          );
+          return { reuse: current, rotated: null };
+        }
+        throw new AppError(401, 'Invalid or expired refresh token');
       }
 
-      // Get user details
-      const userQuery = 'SELECT id, user_role FROM users WHERE id = $1';
-      const user = await db.queryOne<any>(userQuery, [userId]);
+      if (new Date(current.expires_at) <= new Date()) {
+        throw new AppError(401, 'Invalid or expired refresh token');
+      }
 
-      if (!user) {
-        throw new Error('User not found');
+      // The role is re-read so a promotion or demotion applies from the next refresh
+      const user = await client.query<{ account_status: string; role: string }>(
+        `SELECT account_status, role FROM users WHERE id = $1`,
+        [current.user_id]
+      );
+      // Suspended and banned users keep their session to see why and appeal (see enforcementService.apply);
+      // authMiddleware restricts what it can reach
+      if (!user.rows[0] || user.rows[0].account_status === 'DELETED') {
+        throw new AppError(401, 'Account is not active');
       }
 
-      // Generate new access token
-      return jwtService.generateToken({
-        userId: user.id,
-        role: user.user_role || 'USER',
+      const role = user.rows[0].role;
+      const nextToken = generateRefreshToken();
+      const nextId = uuidv4();
+      const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+      // The new token keeps the session's start time, and its device name unless the client reports a new one
+      await client.query(
+        `INSERT INTO refresh_tokens (
+          id, user_id, family_id, token_hash, role, device_name, device_id, ip_address, user_agent, expires_at, created_at, last_used_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())`,
+        [
+          nextId,
+          current.user_id,
+          current.family_id,
+          generateHash(nextToken),
+          role,
+          context.deviceName || current.device_name || null,
+          context.deviceId || current.device_id || null,
+          context.ipAddress || current.ip_address || null,
+          context.userAgent || current.user_agent || null,
+          expiresAt,
+          current.created_at,
+        ]
+      );
+      await client.query(
+        `UPDATE refresh_tokens
+         SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'ROTATED', replaced_by = $1
+         WHERE id = $2`,
+        [nextId, current.id]
+      );
+
+      return { reuse: null, rotated: { current, role, nextToken, expiresAt } };
+    });
+
+    // Thrown outside the transaction so the family revocation commits
+    if (outcome.reuse) {
+      logger.warn('Refresh token reuse detected; session revoked', {
+        userId: outcome.reuse.user_id,
+        sessionId: outcome.reuse.family_id,
+        ipAddress: context.ipAddress,
       });
-    } catch (error) {
-      logger.error('Error refreshing token', { error, userId });
-      throw error;
+      throw new AppError(401, 'Refresh token has already been used; please sign in again');
     }
+
+    const { current, role, nextToken, expiresAt } = outcome.rotated!;
+    logger.info('Token refreshed', { userId: current.user_id, sessionId: current.family_id });
+
+    return {
+      accessToken: await this.generateAuthToken(current.user_id, role),
+      refreshToken: nextToken,
+      refreshTokenExpiresAt: expiresAt,
+      sessionId: current.family_id,
+    };
   }
 
   /**
-   * Logout user - revoke refresh token
+   * Logout user - revoke the session the refresh token belongs to, or every session
    */
   async logout(userId: string, refreshToken?: string, allDevices: boolean = false): Promise<void> {
     try {
@@ -150,7 +328,7 @@ class AuthService {
         // Revoke all refresh tokens for this user
         const revokeQuery = `
           UPDATE refresh_tokens 
-          SET is_revoked = true, revoked_at = NOW()
+          SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'LOGOUT'
           WHERE user_id = $1 AND is_revoked = false;
         `;
 
@@ -158,14 +336,15 @@ class AuthService {
 
         logger.info('User logged out from all devices', { userId });
       } else if (refreshToken) {
-        // Revoke specific refresh token
+        // Revoke the token's family so no rotated sibling stays usable
         const revokeQuery = `
           UPDATE refresh_tokens 
-          SET is_revoked = true, revoked_at = NOW()
-          WHERE user_id = $1 AND token = $2;
+          SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'LOGOUT'
+          WHERE user_id = $1 AND is_revoked = false
+            AND family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $2);
         `;
 
-        await db.query(revokeQuery, [userId, refreshToken]);
+        await db.query(revokeQuery, [userId, generateHash(refreshToken)]);
 
         logger.info('User logged out', { userId });
       }
@@ -176,99 +355,201 @@ class AuthService {
   }
 
   /**
-   * Delete user account with cascade delete and GDPR compliance
+   * Schedule the account for deletion after the grace period and sign out every session.
+   * Logging in again before then cancels it (see cancelAccountDeletion).
    */
-  async deleteAccount(userId: string): Promise<void> {
-    try {
-      // Get user before deletion for logging
-      const user = await db.queryOne<any>('SELECT username FROM users WHERE id = $1', [userId]);
+  async scheduleAccountDeletion(userId: string, reason?: string): Promise<{ scheduledFor: Date }> {
+    const scheduledFor = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
 
-      if (!user) {
-        throw new Error('User not found');
+    await db.transaction(async (client) => {
+      const user = await client.query<{ is_deleted: boolean }>(`SELECT is_deleted FROM users WHERE id = $1 FOR UPDATE`, [userId]);
+      if (!user.rows[0] || user.rows[0].is_deleted) {
+        throw new AppError(404, 'User not found');
+      }
+      const existing = await client.query(
+        `SELECT 1 FROM account_deletion_requests WHERE user_id = $1 AND status = 'SCHEDULED'`,
+        [userId]
+      );
+      if (existing.rows.length > 0) {
+        throw new AppError(409, 'Account deletion is already scheduled');
       }
 
-      // Anonymize user data (GDPR compliance)
-      const anonymizeUserQuery = `
-        UPDATE users 
-        SET 
-          display_name = 'Deleted User',
-          username = $1,
-          email = NULL,
-          bio = NULL,
-          profile_pic_url = NULL,
-          is_deleted = true,
-          deleted_at = NOW()
-        WHERE id = $2;
-      `;
-
-      await db.query(anonymizeUserQuery, [`deleted_${uuidv4().slice(0, 8)}`, userId]);
-
-      // Delete/anonymize related content
-      // Videos - soft delete
-      await db.query('UPDATE videos SET is_deleted = true WHERE creator_id = $1', [userId]);
+      await client.query(
+        `INSERT INTO account_deletion_requests (id, user_id, reason, status, scheduled_for, created_at)
+         VALUES ($1, $2, $3, 'SCHEDULED', $4, NOW())`,
+        [uuidv4(), userId, reason || null, scheduledFor]
+      );
+      await client.query(
+        `UPDATE refresh_tokens SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'ACCOUNT_DELETED'
+         WHERE user_id = $1 AND is_revoked = false`,
+        [userId]
+      );
+    });
 
-      // Stories - soft delete
-      await db.query('UPDATE stories SET is_deleted = true WHERE creator_id = $1', [userId]);
+    logger.warn('Account deletion scheduled', { userId, scheduledFor });
+    return { scheduledFor };
+  }
 
-      // Comments - anonymize
-      await db.query(
-        'UPDATE comments SET user_id = NULL, text = $1 WHERE user_id = $2',
-        ['[deleted]', userId]
-      );
+  /**
+   * Cancel a scheduled deletion; called on login. Returns whether one was cancelled.
+   */
+  async cancelAccountDeletion(userId: string): Promise<boolean> {
+    const cancelled = await db.query(
+      `UPDATE account_deletion_requests SET status = 'CANCELLED', cancelled_at = NOW()
+       WHERE user_id = $1 AND status = 'SCHEDULED'
+       RETURNING id`,
+      [userId]
+    );
+    if (cancelled.length > 0) {
+      logger.info('Account deletion cancelled by login', { userId });
+    }
+    return cancelled.length > 0;
+  }
 
-      // Likes - delete
-      await db.query('DELETE FROM likes WHERE user_id = $1', [userId]);
+  /**
+   * Delete every account whose grace period is over
+   */
+  async finaliseDueDeletions(): Promise<{ deleted: number }> {
+    const due = await db.query<{ id: string; user_id: string; reason: string | null }>(
+      `SELECT id, user_id, reason FROM account_deletion_requests
+       WHERE status = 'SCHEDULED' AND scheduled_for <= NOW()
+       ORDER BY scheduled_for ASC`
+    );
 
-      // Follows - delete
-      await db.query('DELETE FROM follows WHERE follower_id = $1 OR following_id = $1', [userId]);
+    let deleted = 0;
+    for (const request of due) {
+      try {
+        const finalised = await db.transaction(async (client) => {
+          const claimed = await client.query(
+            `UPDATE account_deletion_requests SET status = 'COMPLETED', completed_at = NOW()
+             WHERE id = $1 AND status = 'SCHEDULED'
+             RETURNING id`,
+            [request.id]
+          );
+          if (claimed.rows.length === 0) {
+            return false;
+          }
+          await this.anonymiseAccount(client, request.user_id, request.reason);
+          return true;
+        });
+        if (finalised) {
+          deleted++;
+        }
+      } catch (error) {
+        logger.error('Failed to finalise account deletion', { error, userId: request.user_id });
+      }
+    }
 
-      // Blocks - delete
-      await db.query('DELETE FROM blocks WHERE blocker_id = $1 OR blocked_id = $1', [userId]);
+    return { deleted };
+  }
 
-      // Refresh tokens - revoke all
-      await db.query(
-        'UPDATE refresh_tokens SET is_revoked = true, revoked_at = NOW() WHERE user_id = $1',
-        [userId]
-      );
+  /**
+   * Anonymise the user and remove or anonymise their content. The users row stays so
+   * ledger history keeps its foreign keys; the phone number is released for re-registration.
+   */
+  private async anonymiseAccount(client: PoolClient, userId: string, reason: string | null): Promise<void> {
+    const userResult = await client.query<{ username: string }>('SELECT username FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    const user = userResult.rows[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
 
-      // Wallet - clear balance
-      await db.query('DELETE FROM wallet WHERE user_id = $1', [userId]);
+    const placeholder = `deleted_${uuidv4().slice(0, 8)}`;
+    await client.query(
+      `UPDATE users
+       SET display_name = 'Deleted User', username = $1, phone_number = $1,
+           full_name = NULL, first_name = NULL, last_name = NULL, email = NULL, email_verified_at = NULL,
+           bio = NULL, avatar_url = NULL, settings = '{}',
+           account_status = 'DELETED', is_deleted = true, deleted_at = NOW(), updated_at = NOW()
+       WHERE id = $2`,
+      [placeholder, userId]
+    );
 
-      // Saved posts - delete
-      await db.query('DELETE FROM saved_posts WHERE user_id = $1', [userId]);
+    // Videos and stories - soft delete
+    await client.query('UPDATE videos SET is_deleted = true, updated_at = NOW() WHERE creator_id = $1', [userId]);
+    await client.query('UPDATE stories SET is_deleted = true, is_active = false WHERE user_id = $1', [userId]);
 
-      // Create deletion record for compliance
-      const deletionId = uuidv4();
-      await db.query(
-        'INSERT INTO user_deletions (id, user_id, username, deleted_at, reason) VALUES ($1, $2, $3, NOW(), $4)',
-        [deletionId, userId, user.username, 'user_request']
-      );
+    // Comments and sent messages - anonymise
+    await client.query(`UPDATE comments SET user_id = NULL, comment = '[deleted]', is_deleted = true WHERE user_id = $1`, [userId]);
+    await client.query(
+      `UPDATE direct_messages SET content = NULL, media_url = NULL, is_deleted = true, deleted_at = NOW()
+       WHERE sender_id = $1 AND is_deleted = false`,
+      [userId]
+    );
 
-      logger.warn('User account deleted', {
+    // Likes, follows, blocks and saved posts - delete
+    await client.query('DELETE FROM likes WHERE user_id = $1', [userId]);
+    await client.query('DELETE FROM follows WHERE follower_id = $1 OR following_id = $1', [userId]);
+    await client.query('DELETE FROM blocks WHERE blocker_id = $1 OR blocked_id = $1', [userId]);
+    await client.query('DELETE FROM saved_posts WHERE user_id = $1', [userId]);
+
+    // Second factor
+    await client.query('DELETE FROM user_totp WHERE user_id = $1', [userId]);
+    await client.query('DELETE FROM user_backup_codes WHERE user_id = $1', [userId]);
+
+    // Wallet - forfeit both balances through the ledger; the row stays, at zero, so the
+    // ledger and the wallet agree. Open earnings and lots are closed so no job picks them up.
+    const walletResult = await client.query<{ pending_points: number; available_points: number }>(
+      'SELECT pending_points, available_points FROM wallet WHERE user_id = $1 FOR UPDATE',
+      [userId]
+    );
+    await client.query(
+      `UPDATE ledger_transactions SET status = 'REVERSED'
+       WHERE user_id = $1 AND status = 'POSTED' AND credit_account = 'USER_PENDING'`,
+      [userId]
+    );
+    await client.query(`UPDATE ledger_transactions SET status = 'EXPIRED' WHERE user_id = $1 AND status = 'AVAILABLE'`, [
+      userId,
+    ]);
+    const balances = walletResult.rows[0];
+    if (balances && Number(balances.pending_points) > 0) {
+      await ledgerService.post(client, {
         userId,
-        username: user.username,
-        deletionId,
+        type: 'REVERSED',
+        points: Number(balances.pending_points),
+        debit: 'USER_PENDING',
+        credit: 'REWARD_POOL',
+        status: 'REVERSED',
+        reason: 'Account deleted',
       });
-    } catch (error) {
-      logger.error('Error deleting user account', { error, userId });
-      throw error;
     }
+    if (balances && Number(balances.available_points) > 0) {
+      await ledgerService.post(client, {
+        userId,
+        type: 'EXPIRED',
+        points: Number(balances.available_points),
+        debit: 'USER_AVAILABLE',
+        credit: 'EXPIRED',
+        status: 'EXPIRED',
+        reason: 'Account deleted',
+      });
+    }
+
+    // Deletion record for compliance
+    const deletionId = uuidv4();
+    await client.query(
+      'INSERT INTO user_deletions (id, user_id, username, deletion_reason, created_at) VALUES ($1, $2, $3, $4, NOW())',
+      [deletionId, userId, user.username, reason || 'user_request']
+    );
+
+    logger.warn('User account deleted', { userId, username: user.username, deletionId });
   }
 
   /**
-   * Get active sessions for user
+   * Get active sessions for user; a session is a refresh token family
    */
-  async getActiveSessions(userId: string): Promise<any[]> {
+  async getActiveSessions(userId: string): Promise<ActiveSession[]> {
     try {
       const query = `
         SELECT 
-          id, created_at, expires_at
+          family_id AS id, device_name, device_id, ip_address, user_agent,
+          created_at, last_used_at, expires_at
         FROM refresh_tokens
         WHERE user_id = $1 AND is_revoked = false AND expires_at > NOW()
-        ORDER BY created_at DESC;
+        ORDER BY last_used_at DESC;
       `;
 
-      return await db.query<any>(query, [userId]);
+      return await db.query<ActiveSession>(query, [userId]);
     } catch (error) {
       logger.error('Error fetching sessions', { error, userId });
       throw error;
@@ -279,20 +560,19 @@ class AuthService {
    * Revoke specific session
    */
   async revokeSession(userId: string, sessionId: string): Promise<void> {
-    try {
-      const query = `
-        UPDATE refresh_tokens 
-        SET is_revoked = true, revoked_at = NOW()
-        WHERE id = $1 AND user_id = $2;
-      `;
-
-      await db.query(query, [sessionId, userId]);
+    const query = `
+      UPDATE refresh_tokens 
+      SET is_revoked = true, revoked_at = NOW(), revoked_reason = 'REVOKED'
+      WHERE family_id = $1 AND user_id = $2 AND is_revoked = false
+      RETURNING id;
+    `;
 
-      logger.info('Session revoked', { userId, sessionId });
-    } catch (error) {
-      logger.error('Error revoking session', { error });
-      throw error;
+    const revoked = await db.query(query, [sessionId, userId]);
+    if (revoked.length === 0) {
+      throw new AppError(404, 'Session not found');
     }
+
+    logger.info('Session revoked', { userId, sessionId });
   }
 
   private async initializeWallet(userId: string): Promise<void> {
@@ -0,0 +1,501 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ledgerService } from './ledger.service';
+import NotificationService from './notifications.service';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const ACTIVE_RULES_CACHE_KEY = 'bonus_rules:active';
+const ACTIVE_RULES_CACHE_TTL_SECONDS = 60;
+// Heartbeats arrive every few seconds; evaluate a user's rules at most this often from the heartbeat path
+const HEARTBEAT_EVALUATION_INTERVAL_SECONDS = 60;
+const STREAK_LOOKBACK_DAYS = 366;
+
+export type BonusRuleType = 'STREAK' | 'MILESTONE' | 'CAMPAIGN';
+
+export interface BonusRule {
+  id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  rule_type: BonusRuleType;
+  points: number;
+  // Watch categories that count towards the rule; empty means every category
+  categories: string[];
+  // STREAK: verified watch time needed on a day for it to count, and the run length that pays out
+  min_daily_seconds?: number;
+  streak_days?: number;
+  // MILESTONE / CAMPAIGN: total verified watch time needed inside the rule window
+  threshold_seconds?: number;
+  // STREAK: cap on how many times one user can be paid; empty means every completed run
+  max_awards_per_user?: number;
+  starts_at?: Date;
+  ends_at?: Date;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type BonusRuleInput = Pick<
+  BonusRule,
+  | 'slug'
+  | 'name'
+  | 'description'
+  | 'rule_type'
+  | 'points'
+  | 'categories'
+  | 'min_daily_seconds'
+  | 'streak_days'
+  | 'threshold_seconds'
+  | 'max_awards_per_user'
+  | 'starts_at'
+  | 'ends_at'
+>;
+
+export interface BonusAward {
+  id: string;
+  rule_id: string;
+  user_id: string;
+  award_key: string;
+  points: number;
+  transaction_id?: string;
+  created_at: Date;
+}
+
+export interface StreakStatus {
+  ruleId: string;
+  slug: string;
+  name: string;
+  points: number;
+  categories: string[];
+  minDailySeconds: number;
+  streakDays: number;
+  currentStreak: number;
+  longestStreak: number;
+  todaySeconds: number;
+  qualifiedToday: boolean;
+  daysToNextReward: number;
+  awardsEarned: number;
+}
+
+class BonusRulesService {
+  async getActiveRules(): Promise<BonusRule[]> {
+    const cached = await cache.get(ACTIVE_RULES_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = await db.query<BonusRule>(
+      `SELECT * FROM bonus_rules
+       WHERE is_active = true
+       AND (starts_at IS NULL OR starts_at <= NOW())
+       AND (ends_at IS NULL OR ends_at > NOW())
+       ORDER BY rule_type, slug`
+    );
+
+    await cache.set(ACTIVE_RULES_CACHE_KEY, rules, ACTIVE_RULES_CACHE_TTL_SECONDS);
+    return rules;
+  }
+
+  async listRules(): Promise<BonusRule[]> {
+    return db.query<BonusRule>(`SELECT * FROM bonus_rules ORDER BY is_active DESC, rule_type, slug`);
+  }
+
+  async getRule(ruleId: string): Promise<BonusRule> {
+    const rule = await db.queryOne<BonusRule>(`SELECT * FROM bonus_rules WHERE id = $1`, [ruleId]);
+    if (!rule) {
+      throw new AppError(404, 'Bonus rule not found');
+    }
+    return rule;
+  }
+
+  async createRule(input: BonusRuleInput, audit: AdminAuditInput): Promise<BonusRule> {
+    this.assertRuleShape(input);
+
+    const existing = await db.queryOne(`SELECT id FROM bonus_rules WHERE slug = $1`, [input.slug]);
+    if (existing) {
+      throw new AppError(409, 'A bonus rule with this slug already exists');
+    }
+
+    const now = new Date();
+    const rule = await db.transaction(async (client) => {
+      const result = await client.query<BonusRule>(
+        `INSERT INTO bonus_rules (
+          id, slug, name, description, rule_type, points, categories, min_daily_seconds, streak_days,
+          threshold_seconds, max_awards_per_user, starts_at, ends_at, is_active, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, true, $14, $14)
+        RETURNING *`,
+        [
+          uuidv4(),
+          input.slug,
+          input.name,
+          input.description || null,
+          input.rule_type,
+          input.points,
+          input.categories || [],
+          input.min_daily_seconds || null,
+          input.streak_days || null,
+          input.threshold_seconds || null,
+          input.max_awards_per_user || null,
+          input.starts_at || null,
+          input.ends_at || null,
+          now,
+        ]
+      );
+
+      await adminAuditService.record({ ...audit, details: { ...audit.details, rule_id: result.rows[0].id } }, client);
+      return result.rows[0];
+    });
+
+    await cache.del(ACTIVE_RULES_CACHE_KEY);
+    logger.info('Bonus rule created', { ruleId: rule.id, slug: input.slug });
+
+    return rule;
+  }
+
+  /**
+   * Update a rule. The rule type is fixed once created; awards already paid are unaffected.
+   */
+  async updateRule(
+    ruleId: string,
+    updates: Partial<Omit<BonusRuleInput, 'slug' | 'rule_type'>> & { is_active?: boolean },
+    audit: AdminAuditInput
+  ): Promise<BonusRule> {
+    const current = await this.getRule(ruleId);
+    const merged = { ...current, ...updates };
+    this.assertRuleShape(merged);
+
+    const rule = await db.transaction(async (client) => {
+      const result = await client.query<BonusRule>(
+        `UPDATE bonus_rules
+         SET name = $1, description = $2, points = $3, categories = $4, min_daily_seconds = $5, streak_days = $6,
+             threshold_seconds = $7, max_awards_per_user = $8, starts_at = $9, ends_at = $10, is_active = $11, updated_at = $12
+         WHERE id = $13
+         RETURNING *`,
+        [
+          merged.name,
+          merged.description || null,
+          merged.points,
+          merged.categories || [],
+          merged.min_daily_seconds || null,
+          merged.streak_days || null,
+          merged.threshold_seconds || null,
+          merged.max_awards_per_user || null,
+          merged.starts_at || null,
+          merged.ends_at || null,
+          merged.is_active,
+          new Date(),
+          ruleId,
+        ]
+      );
+
+      await adminAuditService.record(audit, client);
+      return result.rows[0];
+    });
+
+    await cache.del(ACTIVE_RULES_CACHE_KEY);
+    logger.info('Bonus rule updated', { ruleId, fields: Object.keys(updates) });
+
+    return rule;
+  }
+
+  /**
+   * Evaluate every active rule for a user and pay out any bonus they have newly earned
+   */
+  async evaluateUser(userId: string): Promise<BonusAward[]> {
+    const rules = await this.getActiveRules();
+    const awarded: BonusAward[] = [];
+
+    for (const rule of rules) {
+      for (const awardKey of await this.earnedAwardKeys(rule, userId)) {
+        const award = await this.award(rule, userId, awardKey);
+        if (award) {
+          awarded.push(award);
+        }
+      }
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Heartbeat hook: evaluate the user's rules, throttled per user
+   */
+  async evaluateAfterHeartbeat(userId: string): Promise<void> {
+    const throttleKey = `bonus_rules:evaluated:${userId}`;
+    if (await cache.get(throttleKey)) {
+      return;
+    }
+    await cache.set(throttleKey, true, HEARTBEAT_EVALUATION_INTERVAL_SECONDS);
+
+    await this.evaluateUser(userId);
+  }
+
+  /**
+   * Sweep users who watched recently; catches thresholds crossed inside the heartbeat throttle window
+   */
+  async evaluateRecentUsers(): Promise<{ users: number; awarded: number }> {
+    const users = await db.query<{ user_id: string }>(
+      `SELECT DISTINCT user_id FROM video_heartbeats WHERE created_at > NOW() - INTERVAL '2 days'`
+    );
+
+    let awarded = 0;
+    for (const { user_id } of users) {
+      try {
+        awarded += (await this.evaluateUser(user_id)).length;
+      } catch (error) {
+        logger.error('Bonus rule evaluation failed', { error, userId: user_id });
+      }
+    }
+
+    logger.info('Bonus rules evaluated', { users: users.length, awarded });
+    return { users: users.length, awarded };
+  }
+
+  /**
+   * Current state of every active streak rule for the user
+   */
+  async getStreaks(userId: string): Promise<{ streaks: StreakStatus[]; recentBonuses: Array<BonusAward & { rule_name: string }> }> {
+    const rules = (await this.getActiveRules()).filter((rule) => rule.rule_type === 'STREAK');
+    const today = await this.today();
+    const streaks: StreakStatus[] = [];
+
+    for (const rule of rules) {
+      const days = await this.getDailySeconds(rule, userId);
+      const streak = this.computeStreak(days, rule.min_daily_seconds!, today);
+      const awards = await db.queryOne<{ count: string }>(
+        `SELECT COUNT(*) AS count FROM bonus_awards WHERE rule_id = $1 AND user_id = $2`,
+        [rule.id, userId]
+      );
+      const todaySeconds = days.get(today) || 0;
+
+      streaks.push({
+        ruleId: rule.id,
+        slug: rule.slug,
+        name: rule.name,
+        points: rule.points,
+        categories: rule.categories,
+        minDailySeconds: rule.min_daily_seconds!,
+        streakDays: rule.streak_days!,
+        currentStreak: streak.current,
+        longestStreak: streak.longest,
+        todaySeconds,
+        qualifiedToday: todaySeconds >= rule.min_daily_seconds!,
+        daysToNextReward: rule.streak_days! - (streak.current % rule.streak_days!),
+        awardsEarned: parseInt(awards?.count || '0', 10),
+      });
+    }
+
+    const recentBonuses = await db.query<BonusAward & { rule_name: string }>(
+      `SELECT ba.*, br.name AS rule_name FROM bonus_awards ba
+       JOIN bonus_rules br ON br.id = ba.rule_id
+       WHERE ba.user_id = $1
+       ORDER BY ba.created_at DESC
+       LIMIT 20`,
+      [userId]
+    );
+
+    return { streaks, recentBonuses };
+  }
+
+  /**
+   * Keys of the awards the user has earned under a rule; already-paid keys are skipped on insert
+   */
+  private async earnedAwardKeys(rule: BonusRule, userId: string): Promise<string[]> {
+    if (rule.rule_type === 'STREAK') {
+      const days = await this.getDailySeconds(rule, userId);
+      const streak = this.computeStreak(days, rule.min_daily_seconds!, await this.today());
+      if (!streak.start) {
+        return [];
+      }
+      if (streak.current >= STREAK_LOOKBACK_DAYS) {
+        // The run is older than the lookback, so its start day (part of the award key) is not stable
+        logger.warn('Streak exceeds lookback window; not awarding', { userId, ruleId: rule.id });
+        return [];
+      }
+
+      // One award per completed run of streak_days within the current streak
+      const keys: string[] = [];
+      for (let run = 1; run <= Math.floor(streak.current / rule.streak_days!); run++) {
+        keys.push(`${streak.start}#${run}`);
+      }
+
+      if (rule.max_awards_per_user) {
+        const paid = await db.query<{ award_key: string }>(
+          `SELECT award_key FROM bonus_awards WHERE rule_id = $1 AND user_id = $2`,
+          [rule.id, userId]
+        );
+        const paidKeys = new Set(paid.map((row) => row.award_key));
+        return keys.filter((key) => !paidKeys.has(key)).slice(0, Math.max(0, rule.max_awards_per_user - paid.length));
+      }
+
+      return keys;
+    }
+
+    const total = await db.queryOne<{ seconds: string }>(
+      `SELECT COALESCE(SUM(vh.seconds_watched), 0) AS seconds
+       FROM video_heartbeats vh
+       JOIN watch_sessions ws ON ws.id = vh.session_id
+       WHERE vh.user_id = $1
+       AND ($2::timestamp IS NULL OR vh.created_at >= $2)
+       AND ($3::timestamp IS NULL OR vh.created_at < $3)
+       AND (cardinality($4::text[]) = 0 OR ws.category = ANY($4))`,
+      [userId, rule.starts_at || null, rule.ends_at || null, rule.categories]
+    );
+
+    return parseInt(total?.seconds || '0', 10) >= rule.threshold_seconds! ? ['once'] : [];
+  }
+
+  /**
+   * Record the award and post the bonus to the ledger. The unique award key makes this idempotent.
+   * Bonuses go through the normal pending period like watch earnings.
+   */
+  private async award(rule: BonusRule, userId: string, awardKey: string): Promise<BonusAward | null> {
+    const award = await db.transaction(async (client) => {
+      // Nothing is recorded for a frozen wallet, so the bonus pays on a later evaluation once unfrozen
+      const frozen = await client.query(`SELECT 1 FROM wallet WHERE user_id = $1 AND frozen_at IS NOT NULL`, [userId]);
+      if (frozen.rows[0]) {
+        return null;
+      }
+
+      const inserted = await client.query<BonusAward>(
+        `INSERT INTO bonus_awards (id, rule_id, user_id, award_key, points, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (rule_id, user_id, award_key) DO NOTHING
+         RETURNING *`,
+        [uuidv4(), rule.id, userId, awardKey, rule.points, new Date()]
+      );
+      const created = inserted.rows[0];
+      if (!created) {
+        return null;
+      }
+
+      const now = new Date();
+      const availableAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+      const expiresAt = new Date(availableAt.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days after available
+
+      const transaction = await ledgerService.post(client, {
+        userId,
+        type: 'BONUS',
+        points: rule.points,
+        debit: 'REWARD_POOL',
+        credit: 'USER_PENDING',
+        status: 'POSTED',
+        category: rule.rule_type,
+        referenceId: created.id,
+        reason: rule.name,
+        metadata: { rule_id: rule.id, rule_slug: rule.slug, award_key: awardKey },
+        availableAt,
+        expiresAt,
+      });
+
+      await client.query(`UPDATE bonus_awards SET transaction_id = $1 WHERE id = $2`, [transaction.id, created.id]);
+      return { ...created, transaction_id: transaction.id };
+    });
+
+    if (!award) {
+      return null;
+    }
+
+    logger.info('Bonus awarded', { userId, ruleId: rule.id, awardKey, points: rule.points });
+
+    try {
+      await NotificationService.createNotification(
+        userId,
+        'points_update',
+        `+${rule.points} bonus points: ${rule.name}`,
+        undefined,
+        award.transaction_id,
+        'wallet',
+        rule.description
+      );
+    } catch (error) {
+      logger.error('Bonus notification failed', { error, awardId: award.id });
+    }
+
+    return award;
+  }
+
+  /**
+   * Verified watch seconds per day (from heartbeats) in the rule's categories
+   */
+  private async getDailySeconds(rule: BonusRule, userId: string): Promise<Map<string, number>> {
+    const rows = await db.query<{ day: string; seconds: string }>(
+      `SELECT to_char(date_trunc('day', vh.created_at), 'YYYY-MM-DD') AS day, SUM(vh.seconds_watched) AS seconds
+       FROM video_heartbeats vh
+       JOIN watch_sessions ws ON ws.id = vh.session_id
+       WHERE vh.user_id = $1
+       AND vh.created_at >= GREATEST(date_trunc('day', NOW()) - make_interval(days => $2), COALESCE($3::timestamp, '-infinity'))
+       AND (cardinality($4::text[]) = 0 OR ws.category = ANY($4))
+       GROUP BY 1`,
+      [userId, STREAK_LOOKBACK_DAYS, rule.starts_at || null, rule.categories]
+    );
+
+    return new Map(rows.map((row) => [row.day, parseInt(row.seconds, 10)]));
+  }
+
+  private async today(): Promise<string> {
+    const row = await db.queryOne<{ today: string }>(`SELECT to_char(NOW(), 'YYYY-MM-DD') AS today`);
+    return row!.today;
+  }
+
+  /**
+   * The current streak counts back from today, or from yesterday while today is still in progress
+   */
+  private computeStreak(
+    days: Map<string, number>,
+    minDailySeconds: number,
+    today: string
+  ): { current: number; longest: number; start?: string } {
+    const qualifies = (day: string) => (days.get(day) || 0) >= minDailySeconds;
+
+    let cursor = qualifies(today) ? today : this.shiftDay(today, -1);
+    let current = 0;
+    let start: string | undefined;
+    while (qualifies(cursor)) {
+      current++;
+      start = cursor;
+      cursor = this.shiftDay(cursor, -1);
+    }
+
+    let longest = 0;
+    for (const day of days.keys()) {
+      // Only walk forward from the first day of each run
+      if (!qualifies(day) || qualifies(this.shiftDay(day, -1))) {
+        continue;
+      }
+      let length = 0;
+      for (let d = day; qualifies(d); d = this.shiftDay(d, 1)) {
+        length++;
+      }
+      longest = Math.max(longest, length);
+    }
+
+    return { current, longest, start };
+  }
+
+  private shiftDay(day: string, offset: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return date.toISOString().slice(0, 10);
+  }
+
+  private assertRuleShape(rule: Partial<BonusRuleInput>): void {
+    if (rule.rule_type === 'STREAK' && (!rule.min_daily_seconds || !rule.streak_days)) {
+      throw new AppError(400, 'Streak rules need min_daily_seconds and streak_days');
+    }
+    if (rule.rule_type !== 'STREAK' && !rule.threshold_seconds) {
+      throw new AppError(400, 'Milestone and campaign rules need threshold_seconds');
+    }
+    if (rule.rule_type === 'CAMPAIGN' && (!rule.starts_at || !rule.ends_at)) {
+      throw new AppError(400, 'Campaign rules need starts_at and ends_at');
+    }
+    if (rule.starts_at && rule.ends_at && new Date(rule.ends_at) <= new Date(rule.starts_at)) {
+      throw new AppError(400, 'ends_at must be after starts_at');
+    }
+  }
+}
+
+export const bonusRulesService = new BonusRulesService();
@@ -22,6 +22,8 @@ export interface DirectMessage {
   content?: string;
   mediaUrl?: string;
   mediaType?: string;
+  // Set when the message announces a points tip
+  tipId?: string;
   createdAt: string;
   isDeleted: boolean;
   isRead?: boolean;
@@ -134,7 +136,8 @@ class ChatService {
     senderId: string,
     content?: string,
     mediaUrl?: string,
-    mediaType?: string
+    mediaType?: string,
+    tipId?: string
   ): Promise<DirectMessage> {
     const client = await pool.connect();
     try {
@@ -157,8 +160,8 @@ class ChatService {
 
       // Insert message
       const query = `
-        INSERT INTO direct_messages (id, conversation_id, sender_id, content, media_url, media_type, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        INSERT INTO direct_messages (id, conversation_id, sender_id, content, media_url, media_type, tip_id, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
         RETURNING *
       `;
 
@@ -169,6 +172,7 @@ class ChatService {
         content || null,
         mediaUrl || null,
         mediaType || null,
+        tipId || null,
         now,
       ]);
 
@@ -390,6 +394,7 @@ class ChatService {
       content: row.content,
       mediaUrl: row.media_url,
       mediaType: row.media_type,
+      tipId: row.tip_id || undefined,
       createdAt: row.created_at,
       isDeleted: row.is_deleted || false,
       isRead: row.is_read || false,
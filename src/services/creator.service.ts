@@ -2,6 +2,7 @@ import { db } from '../config/database';
 import { cache } from '../config/cache';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
 
 export interface Creator {
   id: string;
@@ -96,7 +97,8 @@ class CreatorService {
   async verifyCreator(
     userId: string,
     status: 'VERIFIED' | 'REJECTED',
-    verifiedBy: string
+    verifiedBy: string,
+    audit: AdminAuditInput
   ): Promise<Creator> {
     const now = new Date();
     const query = `
@@ -108,16 +110,20 @@ class CreatorService {
     `;
 
     try {
-      const creator = await db.queryOne<Creator>(query, [
-        status,
-        status === 'VERIFIED' ? now : null,
-        status === 'VERIFIED' ? verifiedBy : null,
-        status === 'VERIFIED',
-        now,
-        userId,
-      ]);
-
-      if (!creator) throw new Error('Creator not found');
+      const creator = await db.transaction(async (client) => {
+        const result = await client.query<Creator>(query, [
+          status,
+          status === 'VERIFIED' ? now : null,
+          status === 'VERIFIED' ? verifiedBy : null,
+          status === 'VERIFIED',
+          now,
+          userId,
+        ]);
+        if (!result.rows[0]) throw new Error('Creator not found');
+
+        await adminAuditService.record({ ...audit, targetUserId: userId }, client);
+        return result.rows[0];
+      });
 
       // Invalidate cache
       await cache.del(`creator:${userId}`);
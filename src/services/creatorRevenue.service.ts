@@ -0,0 +1,435 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { parseMonth, toCsvCell } from '../utils/helpers';
+import { ledgerService, LedgerTransaction } from './ledger.service';
+
+export interface CreatorEarningsSummary {
+  creatorId: string;
+  totalViews: number;
+  // Lifetime revenue share in points, net of reversals
+  totalEarnings: number;
+  pendingPoints: number;
+  releasedPoints: number;
+  reversedPoints: number;
+  nextReleaseAt?: Date;
+}
+
+export interface CreatorVideoEarnings {
+  video_id: string;
+  title?: string;
+  views: number;
+  watch_seconds: number;
+  share_points: number;
+  reversed_points: number;
+}
+
+export interface CreatorMonthlyReport {
+  month: string;
+  creatorId: string;
+  views: number;
+  watchSeconds: number;
+  sharePoints: number;
+  reversedPoints: number;
+  releasedPoints: number;
+  pendingPoints: number;
+  videos: CreatorVideoEarnings[];
+}
+
+export interface CreatorPayoutReport {
+  id: string;
+  creator_id: string;
+  user_id: string;
+  month: string;
+  views: number;
+  watch_seconds: number;
+  share_points: number;
+  reversed_points: number;
+  released_points: number;
+  pending_points: number;
+  videos: CreatorVideoEarnings[];
+  notified_at?: Date;
+  created_at: Date;
+}
+
+class CreatorRevenueService {
+  /**
+   * Credit the creator's share of a viewer's earning. Runs on the heartbeat's
+   * client so the share commits (or rolls back) with the earning itself.
+   */
+  async recordShare(
+    client: PoolClient,
+    share: {
+      viewerId: string;
+      creatorId: string;
+      videoId: string;
+      category: string;
+      earning: LedgerTransaction;
+      points: number;
+      holdingDays: number;
+    }
+  ): Promise<LedgerTransaction | null> {
+    if (share.points <= 0) {
+      return null;
+    }
+
+    const creatorResult = await client.query<{ user_id: string; frozen_at: Date | null; earning_banned: boolean }>(
+      `SELECT c.user_id, w.frozen_at,
+              EXISTS (
+                SELECT 1 FROM account_enforcements e
+                WHERE e.user_id = c.user_id AND e.type = 'EARNING_BAN' AND e.lifted_at IS NULL
+                  AND (e.expires_at IS NULL OR e.expires_at > NOW())
+              ) AS earning_banned
+       FROM creators c LEFT JOIN wallet w ON w.user_id = c.user_id WHERE c.id = $1`,
+      [share.creatorId]
+    );
+    const creator = creatorResult.rows[0];
+    // Creators earn nothing from watching their own videos, while their wallet is frozen or under an earning ban
+    if (!creator || creator.user_id === share.viewerId || creator.frozen_at || creator.earning_banned) {
+      return null;
+    }
+
+    const now = new Date();
+    const availableAt = new Date(now.getTime() + share.holdingDays * 24 * 60 * 60 * 1000);
+    const expiresAt = new Date(availableAt.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days after available
+
+    const transaction = await ledgerService.post(client, {
+      userId: creator.user_id,
+      type: 'REVENUE_SHARE',
+      points: share.points,
+      debit: 'REWARD_POOL',
+      credit: 'USER_PENDING',
+      status: 'POSTED',
+      videoId: share.videoId,
+      creatorId: share.creatorId,
+      category: share.category,
+      policyVersion: share.earning.policy_version,
+      referenceId: share.earning.id,
+      reason: 'Creator revenue share',
+      availableAt,
+      expiresAt,
+    });
+
+    await client.query(
+      `UPDATE creators SET total_earnings = total_earnings + $1, updated_at = $2 WHERE id = $3`,
+      [share.points, now, share.creatorId]
+    );
+    await cache.del(`creator:${creator.user_id}`);
+
+    return transaction;
+  }
+
+  /**
+   * Count a view for the creator; called once per watch session, on its first accepted heartbeat
+   */
+  async recordView(client: PoolClient, creatorId: string, viewerId: string): Promise<void> {
+    const result = await client.query<{ user_id: string }>(
+      `UPDATE creators SET total_views = total_views + 1, updated_at = $1
+       WHERE id = $2 AND user_id <> $3
+       RETURNING user_id`,
+      [new Date(), creatorId, viewerId]
+    );
+    if (result.rows[0]) {
+      await cache.del(`creator:${result.rows[0].user_id}`);
+    }
+  }
+
+  /**
+   * Reverse the still-pending creator shares of reversed viewer earnings (e.g. confirmed fraud)
+   */
+  async reverseShares(client: PoolClient, earningIds: string[], reason: string, metadata?: Record<string, any>): Promise<number> {
+    if (earningIds.length === 0) {
+      return 0;
+    }
+
+    const held = await client.query<LedgerTransaction>(
+      `UPDATE ledger_transactions SET status = 'REVERSED'
+       WHERE transaction_type = 'REVENUE_SHARE' AND status = 'POSTED' AND reference_id = ANY($1)
+       RETURNING *`,
+      [earningIds]
+    );
+
+    let pointsReversed = 0;
+    for (const share of held.rows) {
+      await ledgerService.post(client, {
+        userId: share.user_id,
+        type: 'REVERSED',
+        points: Number(share.points),
+        debit: 'USER_PENDING',
+        credit: 'REWARD_POOL',
+        status: 'REVERSED',
+        videoId: share.video_id,
+        creatorId: share.creator_id,
+        category: share.category,
+        referenceId: share.id,
+        reason,
+        metadata,
+      });
+      await client.query(
+        `UPDATE creators SET total_earnings = total_earnings - $1, updated_at = $2 WHERE id = $3`,
+        [Number(share.points), new Date(), share.creator_id]
+      );
+      pointsReversed += Number(share.points);
+    }
+
+    if (pointsReversed > 0) {
+      logger.warn('Creator revenue shares reversed', { shares: held.rows.length, pointsReversed, reason });
+    }
+    return pointsReversed;
+  }
+
+  async getSummary(userId: string): Promise<CreatorEarningsSummary> {
+    const creator = await this.getCreator(userId);
+
+    const totals = await db.queryOne<{
+      pending: string;
+      released: string;
+      reversed: string;
+      next_release_at: Date | null;
+    }>(
+      `SELECT
+         COALESCE(SUM(points) FILTER (WHERE status = 'POSTED'), 0) AS pending,
+         COALESCE(SUM(points) FILTER (WHERE status IN ('AVAILABLE', 'EXPIRED', 'REDEEMED')), 0) AS released,
+         COALESCE(SUM(points) FILTER (WHERE status = 'REVERSED'), 0) AS reversed,
+         MIN(available_at) FILTER (WHERE status = 'POSTED') AS next_release_at
+       FROM ledger_transactions
+       WHERE user_id = $1 AND transaction_type = 'REVENUE_SHARE'`,
+      [userId]
+    );
+
+    return {
+      creatorId: creator.id,
+      totalViews: Number(creator.total_views),
+      totalEarnings: Number(creator.total_earnings),
+      pendingPoints: parseInt(totals?.pending || '0', 10),
+      releasedPoints: parseInt(totals?.released || '0', 10),
+      reversedPoints: parseInt(totals?.reversed || '0', 10),
+      nextReleaseAt: totals?.next_release_at || undefined,
+    };
+  }
+
+  /**
+   * Revenue share for a calendar month (YYYY-MM, UTC), per video
+   */
+  async getMonthlyReport(userId: string, month: string): Promise<CreatorMonthlyReport> {
+    const range = parseMonth(month);
+    if (!range) {
+      throw new AppError(400, 'Month must be in YYYY-MM format');
+    }
+    if (range.from.getTime() > Date.now()) {
+      throw new AppError(400, 'Report month is in the future');
+    }
+
+    const creator = await this.getCreator(userId);
+    return this.buildReport(creator.id, userId, month, range.from, range.to);
+  }
+
+  async exportMonthlyReport(userId: string, month: string): Promise<{ filename: string; contentType: string; body: string }> {
+    const report = await this.getMonthlyReport(userId, month);
+
+    const rows: unknown[][] = [
+      ['video_id', 'title', 'views', 'watch_seconds', 'share_points', 'reversed_points'],
+      ...report.videos.map((video) => [
+        video.video_id,
+        video.title,
+        video.views,
+        video.watch_seconds,
+        video.share_points,
+        video.reversed_points,
+      ]),
+      ['TOTAL', '', report.views, report.watchSeconds, report.sharePoints, report.reversedPoints],
+    ];
+
+    return {
+      filename: `wisereels-creator-report-${month}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: rows.map((row) => row.map((value) => toCsvCell(value)).join(',')).join('\r\n') + '\r\n',
+    };
+  }
+
+  async listReports(userId: string): Promise<CreatorPayoutReport[]> {
+    return db.query<CreatorPayoutReport>(
+      `SELECT * FROM creator_payout_reports WHERE user_id = $1 ORDER BY month DESC`,
+      [userId]
+    );
+  }
+
+  /**
+   * Snapshot last month's report for every creator with activity and notify them.
+   * Safe to re-run: an existing snapshot for the month is left untouched.
+   */
+  async generateMonthlyReports(month?: string): Promise<{ month: string; generated: number }> {
+    const now = new Date();
+    const reportMonth =
+      month || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+    const range = parseMonth(reportMonth);
+    if (!range) {
+      throw new AppError(400, 'Month must be in YYYY-MM format');
+    }
+
+    const creators = await db.query<{ id: string; user_id: string }>(
+      `SELECT DISTINCT c.id, c.user_id FROM creators c
+       JOIN ledger_transactions lt ON lt.user_id = c.user_id AND lt.transaction_type = 'REVENUE_SHARE'
+       WHERE lt.posted_at >= $1 AND lt.posted_at < $2`,
+      [range.from, range.to]
+    );
+
+    let generated = 0;
+    for (const creator of creators) {
+      try {
+        const report = await this.buildReport(creator.id, creator.user_id, reportMonth, range.from, range.to);
+        const now = new Date();
+        // Snapshot and notification commit together, so a failed notification is retried on the next run
+        const created = await db.transaction(async (client) => {
+          const snapshot = await client.query<CreatorPayoutReport>(
+            `INSERT INTO creator_payout_reports (
+              id, creator_id, user_id, month, views, watch_seconds, share_points, reversed_points,
+              released_points, pending_points, videos, created_at, notified_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $12)
+            ON CONFLICT (creator_id, month) DO NOTHING
+            RETURNING *`,
+            [
+              uuidv4(),
+              creator.id,
+              creator.user_id,
+              reportMonth,
+              report.views,
+              report.watchSeconds,
+              report.sharePoints,
+              report.reversedPoints,
+              report.releasedPoints,
+              report.pendingPoints,
+              JSON.stringify(report.videos),
+              now,
+            ]
+          );
+          if (!snapshot.rows[0]) {
+            return false;
+          }
+
+          await client.query(
+            `INSERT INTO notifications
+             (id, user_id, type, related_id, related_type, title, description, is_read, created_at, updated_at)
+             VALUES ($1, $2, 'points_update', $3, 'wallet', $4, $5, false, $6, $6)`,
+            [
+              uuidv4(),
+              creator.user_id,
+              snapshot.rows[0].id,
+              `Your ${reportMonth} creator report: ${report.sharePoints - report.reversedPoints} points from ${report.views} views`,
+              `${report.releasedPoints} points were released to your wallet this month; ${report.pendingPoints} are still in the holding period`,
+              now,
+            ]
+          );
+          return true;
+        });
+        if (!created) {
+          continue;
+        }
+
+        await cache.del(`notifications:${creator.user_id}`);
+        await cache.del(`unread:${creator.user_id}`);
+        generated++;
+      } catch (error) {
+        logger.error('Creator report generation failed', { error, creatorId: creator.id, month: reportMonth });
+      }
+    }
+
+    logger.info('Creator monthly reports generated', { month: reportMonth, generated });
+    return { month: reportMonth, generated };
+  }
+
+  private async buildReport(
+    creatorId: string,
+    userId: string,
+    month: string,
+    from: Date,
+    to: Date
+  ): Promise<CreatorMonthlyReport> {
+    const viewRows = await db.query<{ video_id: string; views: string; watch_seconds: string }>(
+      `SELECT video_id, COUNT(*) AS views, COALESCE(SUM(seconds_watched), 0) AS watch_seconds
+       FROM watch_sessions
+       WHERE creator_id = $1 AND user_id <> $2 AND last_sequence > 0 AND started_at >= $3 AND started_at < $4
+       GROUP BY video_id`,
+      [creatorId, userId, from, to]
+    );
+    const shareRows = await db.query<{ video_id: string; share_points: string; reversed_points: string }>(
+      `SELECT video_id,
+              COALESCE(SUM(points), 0) AS share_points,
+              COALESCE(SUM(points) FILTER (WHERE status = 'REVERSED'), 0) AS reversed_points
+       FROM ledger_transactions
+       WHERE user_id = $1 AND transaction_type = 'REVENUE_SHARE' AND posted_at >= $2 AND posted_at < $3
+       GROUP BY video_id`,
+      [userId, from, to]
+    );
+    const movement = await db.queryOne<{ released: string; pending: string }>(
+      `SELECT
+         (SELECT COALESCE(SUM(a.points), 0) FROM ledger_transactions a
+          JOIN ledger_transactions s ON s.id = a.reference_id AND s.transaction_type = 'REVENUE_SHARE'
+          WHERE a.user_id = $1 AND a.transaction_type = 'AVAILABLE' AND a.posted_at >= $2 AND a.posted_at < $3) AS released,
+         (SELECT COALESCE(SUM(points), 0) FROM ledger_transactions
+          WHERE user_id = $1 AND transaction_type = 'REVENUE_SHARE' AND status = 'POSTED' AND posted_at < $3) AS pending`,
+      [userId, from, to]
+    );
+
+    const videos = new Map<string, CreatorVideoEarnings>();
+    const videoFor = (videoId: string) => {
+      let video = videos.get(videoId);
+      if (!video) {
+        video = { video_id: videoId, views: 0, watch_seconds: 0, share_points: 0, reversed_points: 0 };
+        videos.set(videoId, video);
+      }
+      return video;
+    };
+    for (const row of viewRows) {
+      const video = videoFor(row.video_id);
+      video.views = parseInt(row.views, 10);
+      video.watch_seconds = parseInt(row.watch_seconds, 10);
+    }
+    for (const row of shareRows) {
+      const video = videoFor(row.video_id);
+      video.share_points = parseInt(row.share_points, 10);
+      video.reversed_points = parseInt(row.reversed_points, 10);
+    }
+
+    if (videos.size > 0) {
+      const titles = await db.query<{ id: string; title: string }>(`SELECT id, title FROM videos WHERE id = ANY($1)`, [
+        Array.from(videos.keys()),
+      ]);
+      for (const { id, title } of titles) {
+        videoFor(id).title = title;
+      }
+    }
+
+    const list = Array.from(videos.values()).sort((a, b) => b.share_points - a.share_points);
+    const sum = (key: 'views' | 'watch_seconds' | 'share_points' | 'reversed_points') =>
+      list.reduce((total, video) => total + video[key], 0);
+
+    return {
+      month,
+      creatorId,
+      views: sum('views'),
+      watchSeconds: sum('watch_seconds'),
+      sharePoints: sum('share_points'),
+      reversedPoints: sum('reversed_points'),
+      releasedPoints: parseInt(movement?.released || '0', 10),
+      pendingPoints: parseInt(movement?.pending || '0', 10),
+      videos: list,
+    };
+  }
+
+  private async getCreator(userId: string): Promise<{ id: string; total_views: number; total_earnings: number }> {
+    const creator = await db.queryOne<{ id: string; total_views: number; total_earnings: number }>(
+      `SELECT id, total_views, total_earnings FROM creators WHERE user_id = $1`,
+      [userId]
+    );
+    if (!creator) {
+      throw new AppError(404, 'Creator profile not found');
+    }
+    return creator;
+  }
+}
+
+export const creatorRevenueService = new CreatorRevenueService();
@@ -0,0 +1,114 @@
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { createZip, ZipEntry } from '../utils/zip';
+
+const README = `WiseReels personal data export
+
+profile.json        Your account and profile
+videos.json         Metadata of the videos you uploaded
+comments.json       Comments you wrote
+follows.json        Accounts you follow and accounts following you
+messages.json       Messages in your conversations
+stories.json        Stories you posted
+wallet.json         Wallet balances and the full points ledger
+notifications.json  Notifications sent to you
+
+Dates are in UTC (ISO 8601).
+`;
+
+class DataExportService {
+  /**
+   * Collect everything held about the user into a zip archive of JSON files
+   */
+  async buildExport(userId: string): Promise<{ filename: string; archive: Buffer }> {
+    const profile = await db.queryOne(
+      `SELECT id, phone_number, username, full_name, display_name, first_name, last_name, email, email_verified_at,
+              bio, avatar_url, follower_count, following_count, expert_status, settings, account_status,
+              account_created_at, last_login, created_at, updated_at
+       FROM users WHERE id = $1 AND is_deleted = false`,
+      [userId]
+    );
+    if (!profile) {
+      throw new AppError(404, 'User not found');
+    }
+
+    const [videos, comments, following, followers, messages, stories, wallet, ledger, notifications] = await Promise.all([
+      db.query(
+        `SELECT id, title, description, category, duration_seconds, tier, video_url, thumbnail_url,
+                is_published, is_deleted, created_at, updated_at
+         FROM videos WHERE creator_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT id, video_id, comment, is_deleted, created_at FROM comments WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT u.id AS user_id, u.username, f.created_at
+         FROM follows f JOIN users u ON u.id = f.following_id
+         WHERE f.follower_id = $1 ORDER BY f.created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT u.id AS user_id, u.username, f.created_at
+         FROM follows f JOIN users u ON u.id = f.follower_id
+         WHERE f.following_id = $1 ORDER BY f.created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT dm.id, dm.conversation_id, dm.sender_id, su.username AS sender_username,
+                dm.content, dm.media_url, dm.media_type, dm.tip_id, dm.created_at
+         FROM direct_messages dm
+         JOIN conversations c ON c.id = dm.conversation_id
+         LEFT JOIN users su ON su.id = dm.sender_id
+         WHERE (c.participant_a_id = $1 OR c.participant_b_id = $1) AND dm.is_deleted = false
+         ORDER BY dm.conversation_id, dm.created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT id, media_url, caption, category, view_count, is_active, is_deleted, created_at, expires_at
+         FROM stories WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      db.queryOne(
+        `SELECT pending_points, available_points, total_earned, total_redeemed, frozen_at, frozen_reason, updated_at
+         FROM wallet WHERE user_id = $1`,
+        [userId]
+      ),
+      db.query(
+        `SELECT id, transaction_type, points, debit_account, credit_account, category, status, reason,
+                video_id, reference_id, posted_at, available_at, expires_at
+         FROM ledger_transactions WHERE user_id = $1 ORDER BY posted_at, created_at`,
+        [userId]
+      ),
+      db.query(
+        `SELECT id, type, title, description, related_type, related_id, is_read, created_at
+         FROM notifications WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+    ]);
+
+    const json = (value: unknown): Buffer => Buffer.from(JSON.stringify(value, null, 2), 'utf8');
+    const entries: ZipEntry[] = [
+      { name: 'README.txt', data: Buffer.from(README, 'utf8') },
+      { name: 'profile.json', data: json(profile) },
+      { name: 'videos.json', data: json(videos) },
+      { name: 'comments.json', data: json(comments) },
+      { name: 'follows.json', data: json({ following, followers }) },
+      { name: 'messages.json', data: json(messages) },
+      { name: 'stories.json', data: json(stories) },
+      { name: 'wallet.json', data: json({ balance: wallet, ledger }) },
+      { name: 'notifications.json', data: json(notifications) },
+    ];
+
+    const generatedAt = new Date();
+    logger.info('Personal data export generated', { userId, files: entries.length });
+    return {
+      filename: `wisereels-export-${generatedAt.toISOString().slice(0, 10)}.zip`,
+      archive: createZip(entries, generatedAt),
+    };
+  }
+}
+
+export const dataExportService = new DataExportService();
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+class EmailService {
+  /**
+   * Send a plain-text email. EMAIL_PROVIDER=http posts to a transactional email API
+   * (EMAIL_API_URL); dev (the default outside production) appends to EMAIL_DEV_FILE or logs.
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const provider = process.env.EMAIL_PROVIDER || (process.env.NODE_ENV === 'production' ? 'http' : 'dev');
+
+    if (provider === 'dev') {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The dev email provider cannot be used in production');
+      }
+      const entry = { ...message, at: new Date().toISOString() };
+      if (process.env.EMAIL_DEV_FILE) {
+        await fs.promises.mkdir(path.dirname(process.env.EMAIL_DEV_FILE), { recursive: true });
+        await fs.promises.appendFile(process.env.EMAIL_DEV_FILE, `${JSON.stringify(entry)}\n`);
+      } else {
+        logger.info(`[dev email] to ${message.to}: ${message.subject}\n${message.text}`);
+      }
+      return;
+    }
+
+    if (!process.env.EMAIL_API_URL) {
+      throw new Error('EMAIL_API_URL must be set for the http email provider');
+    }
+
+    try {
+      await axios.post(
+        process.env.EMAIL_API_URL,
+        { from: process.env.EMAIL_FROM || 'WiseReels <no-reply@wisereels.app>', ...message },
+        { headers: { Authorization: `Bearer ${process.env.EMAIL_API_KEY}` }, timeout: 10000 }
+      );
+    } catch (error) {
+      logger.error('Email could not be sent', { subject: message.subject, error: (error as Error).message });
+      throw new AppError(503, 'Could not send email right now. Please try again.');
+    }
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,331 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const STATUS_CACHE_TTL_SECONDS = 60;
+
+/**
+ * SUSPENSION (timed) and BAN (permanent) block the account; READ_ONLY allows reads only;
+ * EARNING_BAN stops watch earnings and revenue shares but leaves the app usable
+ */
+export type EnforcementType = 'SUSPENSION' | 'BAN' | 'READ_ONLY' | 'EARNING_BAN';
+export type AppealStatus = 'PENDING' | 'UPHELD' | 'OVERTURNED';
+
+export interface Enforcement {
+  id: string;
+  user_id: string;
+  type: EnforcementType;
+  reason: string;
+  applied_by: string;
+  starts_at: Date;
+  expires_at?: Date;
+  lifted_at?: Date;
+  lifted_by?: string;
+  lift_reason?: string;
+  created_at: Date;
+}
+
+export interface EnforcementAppeal {
+  id: string;
+  enforcement_id: string;
+  user_id: string;
+  message: string;
+  status: AppealStatus;
+  reviewed_by?: string;
+  review_note?: string;
+  reviewed_at?: Date;
+  created_at: Date;
+}
+
+export interface EnforcementStatus {
+  // Suspended or banned: only the status, appeal and logout endpoints respond
+  blocked: boolean;
+  readOnly: boolean;
+  earningBanned: boolean;
+  enforcements: Array<{
+    id: string;
+    type: EnforcementType;
+    reason: string;
+    startsAt: Date;
+    expiresAt?: Date;
+    explanation: string;
+    appeal?: { id: string; status: AppealStatus; reviewNote?: string; createdAt: Date };
+  }>;
+}
+
+const ACTIVE_CONDITION = `lifted_at IS NULL AND starts_at <= NOW() AND (expires_at IS NULL OR expires_at > NOW())`;
+
+const explain = (enforcement: Enforcement): string => {
+  const until = enforcement.expires_at ? ` until ${new Date(enforcement.expires_at).toISOString()}` : '';
+  switch (enforcement.type) {
+    case 'BAN':
+      return 'Your account has been permanently banned.';
+    case 'SUSPENSION':
+      return `Your account is suspended${until}.`;
+    case 'READ_ONLY':
+      return `Your account is read-only${until}: you can browse but not post, comment, message or redeem.`;
+    case 'EARNING_BAN':
+      return `You cannot earn points${until}. Points you already have are unaffected.`;
+  }
+};
+
+class EnforcementService {
+  /**
+   * Active restrictions for a user, cached briefly since every authenticated request checks them
+   */
+  async getStatus(userId: string): Promise<EnforcementStatus> {
+    const cacheKey = `enforcement:${userId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const enforcements = await db.query<Enforcement>(
+      `SELECT * FROM account_enforcements WHERE user_id = $1 AND ${ACTIVE_CONDITION} ORDER BY created_at DESC`,
+      [userId]
+    );
+    const appeals = enforcements.length
+      ? await db.query<EnforcementAppeal>(
+          `SELECT * FROM enforcement_appeals WHERE enforcement_id = ANY($1::uuid[])`,
+          [enforcements.map((enforcement) => enforcement.id)]
+        )
+      : [];
+
+    const status: EnforcementStatus = {
+      blocked: enforcements.some((e) => e.type === 'BAN' || e.type === 'SUSPENSION'),
+      readOnly: enforcements.some((e) => e.type === 'READ_ONLY'),
+      earningBanned: enforcements.some((e) => e.type === 'EARNING_BAN'),
+      enforcements: enforcements.map((enforcement) => {
+        const appeal = appeals.find((a) => a.enforcement_id === enforcement.id);
+        return {
+          id: enforcement.id,
+          type: enforcement.type,
+          reason: enforcement.reason,
+          startsAt: enforcement.starts_at,
+          expiresAt: enforcement.expires_at,
+          explanation: explain(enforcement),
+          appeal: appeal && { id: appeal.id, status: appeal.status, reviewNote: appeal.review_note, createdAt: appeal.created_at },
+        };
+      }),
+    };
+
+    // Never cache past the moment a restriction runs out
+    const nextExpiry = Math.min(
+      ...enforcements.filter((e) => e.expires_at).map((e) => new Date(e.expires_at!).getTime())
+    );
+    const ttl = Number.isFinite(nextExpiry)
+      ? Math.max(1, Math.min(STATUS_CACHE_TTL_SECONDS, Math.ceil((nextExpiry - Date.now()) / 1000)))
+      : STATUS_CACHE_TTL_SECONDS;
+    await cache.set(cacheKey, status, ttl);
+
+    return status;
+  }
+
+  /**
+   * Apply an enforcement. Suspensions need a duration; bans are always permanent.
+   */
+  async apply(
+    userId: string,
+    input: { type: EnforcementType; reason: string; durationHours?: number },
+    moderatorId: string,
+    audit: AdminAuditInput
+  ): Promise<Enforcement> {
+    if (input.type === 'SUSPENSION' && !input.durationHours) {
+      throw new AppError(400, 'Suspensions need a duration');
+    }
+    if (input.type === 'BAN' && input.durationHours) {
+      throw new AppError(400, 'Bans are permanent; use a suspension for a timed block');
+    }
+    if (userId === moderatorId) {
+      throw new AppError(400, 'You cannot apply an enforcement to yourself');
+    }
+
+    const expiresAt = input.durationHours ? new Date(Date.now() + input.durationHours * 60 * 60 * 1000) : null;
+
+    const enforcement = await db.transaction(async (client) => {
+      const user = await client.query(`SELECT 1 FROM users WHERE id = $1 AND is_deleted = false FOR UPDATE`, [userId]);
+      if (user.rows.length === 0) {
+        throw new AppError(404, 'User not found');
+      }
+
+      const result = await client.query<Enforcement>(
+        `INSERT INTO account_enforcements (id, user_id, type, reason, applied_by, starts_at, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, NOW(), $6, NOW())
+         RETURNING *`,
+        [uuidv4(), userId, input.type, input.reason, moderatorId, expiresAt]
+      );
+
+      if (input.type === 'BAN' || input.type === 'SUSPENSION') {
+        // Sessions are kept, and new logins allowed, so the user can see why and appeal;
+        // authMiddleware limits a blocked account to the status, appeal and logout routes
+        await client.query(`UPDATE users SET account_status = 'SUSPENDED', updated_at = NOW() WHERE id = $1`, [userId]);
+      }
+
+      await adminAuditService.record(
+        { ...audit, targetUserId: userId, details: { ...audit.details, enforcement_id: result.rows[0].id } },
+        client
+      );
+      return result.rows[0];
+    });
+
+    await cache.del(`enforcement:${userId}`);
+    logger.warn('Enforcement applied', { userId, enforcementId: enforcement.id, type: input.type, moderatorId });
+    return enforcement;
+  }
+
+  async lift(enforcementId: string, moderatorId: string, reason: string, audit: AdminAuditInput): Promise<Enforcement> {
+    const enforcement = await db.transaction(async (client) => {
+      const result = await client.query<Enforcement>(
+        `UPDATE account_enforcements SET lifted_at = NOW(), lifted_by = $1, lift_reason = $2
+         WHERE id = $3 AND lifted_at IS NULL
+         RETURNING *`,
+        [moderatorId, reason, enforcementId]
+      );
+      if (!result.rows[0]) {
+        throw new AppError(404, 'Active enforcement not found');
+      }
+      await this.syncAccountStatus(client, result.rows[0].user_id);
+      await adminAuditService.record({ ...audit, targetUserId: result.rows[0].user_id }, client);
+      return result.rows[0];
+    });
+
+    await cache.del(`enforcement:${enforcement.user_id}`);
+    logger.info('Enforcement lifted', { enforcementId, userId: enforcement.user_id, moderatorId });
+    return enforcement;
+  }
+
+  /**
+   * Every enforcement on a user, newest first, with appeals (moderator view)
+   */
+  async getUserHistory(userId: string): Promise<Array<Enforcement & { appeal: EnforcementAppeal | null }>> {
+    return db.query(
+      `SELECT e.*, row_to_json(a.*) AS appeal
+       FROM account_enforcements e
+       LEFT JOIN enforcement_appeals a ON a.enforcement_id = e.id
+       WHERE e.user_id = $1
+       ORDER BY e.created_at DESC`,
+      [userId]
+    );
+  }
+
+  /**
+   * One appeal per enforcement, while it is active
+   */
+  async submitAppeal(userId: string, enforcementId: string, message: string): Promise<EnforcementAppeal> {
+    const enforcement = await db.queryOne<Enforcement>(
+      `SELECT * FROM account_enforcements WHERE id = $1 AND user_id = $2 AND ${ACTIVE_CONDITION}`,
+      [enforcementId, userId]
+    );
+    if (!enforcement) {
+      throw new AppError(404, 'Active enforcement not found');
+    }
+
+    const appeal = await db.queryOne<EnforcementAppeal>(
+      `INSERT INTO enforcement_appeals (id, enforcement_id, user_id, message, status, created_at)
+       VALUES ($1, $2, $3, $4, 'PENDING', NOW())
+       ON CONFLICT (enforcement_id) DO NOTHING
+       RETURNING *`,
+      [uuidv4(), enforcementId, userId, message]
+    );
+    if (!appeal) {
+      throw new AppError(409, 'This enforcement has already been appealed');
+    }
+
+    await cache.del(`enforcement:${userId}`);
+    logger.info('Enforcement appealed', { userId, enforcementId, appealId: appeal.id });
+    return appeal;
+  }
+
+  async getAppeals(status: AppealStatus = 'PENDING', limit: number = 20, offset: number = 0): Promise<Array<EnforcementAppeal & { enforcement: Enforcement }>> {
+    return db.query(
+      `SELECT a.*, row_to_json(e.*) AS enforcement
+       FROM enforcement_appeals a
+       JOIN account_enforcements e ON e.id = a.enforcement_id
+       WHERE a.status = $1
+       ORDER BY a.created_at ASC
+       LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    );
+  }
+
+  /**
+   * Decide an appeal; overturning it lifts the enforcement
+   */
+  async reviewAppeal(
+    appealId: string,
+    decision: 'UPHELD' | 'OVERTURNED',
+    moderatorId: string,
+    audit: AdminAuditInput,
+    note?: string
+  ): Promise<EnforcementAppeal> {
+    const appeal = await db.transaction(async (client) => {
+      const result = await client.query<EnforcementAppeal>(
+        `UPDATE enforcement_appeals SET status = $1, reviewed_by = $2, review_note = $3, reviewed_at = NOW()
+         WHERE id = $4 AND status = 'PENDING'
+         RETURNING *`,
+        [decision, moderatorId, note || null, appealId]
+      );
+      const reviewed = result.rows[0];
+      if (!reviewed) {
+        throw new AppError(404, 'Pending appeal not found');
+      }
+
+      if (decision === 'OVERTURNED') {
+        await client.query(
+          `UPDATE account_enforcements SET lifted_at = NOW(), lifted_by = $1, lift_reason = $2
+           WHERE id = $3 AND lifted_at IS NULL`,
+          [moderatorId, note || 'Appeal overturned', reviewed.enforcement_id]
+        );
+        await this.syncAccountStatus(client, reviewed.user_id);
+      }
+      await adminAuditService.record({ ...audit, targetUserId: reviewed.user_id }, client);
+      return reviewed;
+    });
+
+    await cache.del(`enforcement:${appeal.user_id}`);
+    logger.info('Enforcement appeal reviewed', { appealId, decision, moderatorId });
+    return appeal;
+  }
+
+  /**
+   * Reactivate accounts whose suspensions have run out
+   */
+  async releaseExpiredSuspensions(): Promise<{ released: number }> {
+    const released = await db.query<{ id: string }>(
+      `UPDATE users u SET account_status = 'ACTIVE', updated_at = NOW()
+       WHERE u.account_status = 'SUSPENDED'
+       AND NOT EXISTS (
+         SELECT 1 FROM account_enforcements e
+         WHERE e.user_id = u.id AND e.type IN ('BAN', 'SUSPENSION')
+           AND e.lifted_at IS NULL AND (e.expires_at IS NULL OR e.expires_at > NOW())
+       )
+       RETURNING u.id`
+    );
+    for (const { id } of released) {
+      await cache.del(`enforcement:${id}`);
+    }
+    if (released.length > 0) {
+      logger.info('Expired suspensions released', { count: released.length });
+    }
+    return { released: released.length };
+  }
+
+  private async syncAccountStatus(client: PoolClient, userId: string): Promise<void> {
+    await client.query(
+      `UPDATE users SET account_status = CASE
+         WHEN EXISTS (
+           SELECT 1 FROM account_enforcements
+           WHERE user_id = $1 AND type IN ('BAN', 'SUSPENSION') AND ${ACTIVE_CONDITION}
+         ) THEN 'SUSPENDED' ELSE 'ACTIVE' END,
+         updated_at = NOW()
+       WHERE id = $1 AND account_status IN ('ACTIVE', 'SUSPENDED')`,
+      [userId]
+    );
+  }
+}
+
+export const enforcementService = new EnforcementService();
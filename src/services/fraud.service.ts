@@ -0,0 +1,357 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { creatorRevenueService } from './creatorRevenue.service';
+import { ledgerService, LedgerTransaction } from './ledger.service';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+import { rewardPolicyService } from './rewardPolicy.service';
+
+// Signal weights; a user whose total reaches FLAG_THRESHOLD is sent to review
+const FRAUD_RULES = {
+  SHARED_DEVICE: { weight: 40, maxUsersPerDevice: 3, windowDays: 7 },
+  SHARED_IP: { weight: 20, maxUsersPerIp: 10, windowDays: 1 },
+  ROUND_THE_CLOCK: { weight: 40, maxActiveHoursPerDay: 20 },
+  CREATOR_LOOP: { weight: 30, minSeconds: 2 * 60 * 60, maxCreatorShare: 0.8 },
+  CAP_HUGGING: { weight: 30, capRatio: 0.95, minDays: 5, windowDays: 7 },
+};
+const FLAG_THRESHOLD = 50;
+
+export type FraudSignalType = keyof typeof FRAUD_RULES;
+
+export interface FraudSignal {
+  type: FraudSignalType;
+  weight: number;
+  detail: Record<string, any>;
+}
+
+export interface FraudFlag {
+  id: string;
+  user_id: string;
+  score: number;
+  signals: FraudSignal[];
+  status: 'OPEN' | 'CONFIRMED' | 'DISMISSED';
+  points_held: number;
+  points_reversed: number;
+  review_notes?: string;
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+class FraudService {
+  /**
+   * Score every user who sent heartbeats in the last day and flag the suspicious ones
+   */
+  async runScan(): Promise<{ scanned: number; flagged: number }> {
+    const users = await db.query<{ user_id: string }>(
+      `SELECT DISTINCT user_id FROM video_heartbeats WHERE created_at > NOW() - INTERVAL '1 day'`
+    );
+
+    let flagged = 0;
+    for (const { user_id } of users) {
+      try {
+        const flag = await this.evaluateUser(user_id);
+        if (flag) {
+          flagged++;
+        }
+      } catch (error) {
+        logger.error('Fraud evaluation failed', { error, userId: user_id });
+      }
+    }
+
+    logger.info('Fraud scan completed', { scanned: users.length, flagged });
+    return { scanned: users.length, flagged };
+  }
+
+  /**
+   * Compute fraud signals for a user; if the score crosses the threshold the
+   * user's pending earnings are held on an open review flag.
+   */
+  async evaluateUser(userId: string): Promise<FraudFlag | null> {
+    const signals = await this.collectSignals(userId);
+    const score = signals.reduce((sum, signal) => sum + signal.weight, 0);
+
+    if (score < FLAG_THRESHOLD) {
+      return null;
+    }
+
+    const flag = await db.transaction(async (client) => {
+      const now = new Date();
+      const existing = await client.query<FraudFlag>(
+        `SELECT * FROM fraud_flags WHERE user_id = $1 AND status = 'OPEN' FOR UPDATE`,
+        [userId]
+      );
+
+      let flagId: string;
+      if (existing.rows[0]) {
+        flagId = existing.rows[0].id;
+        await client.query(
+          `UPDATE fraud_flags SET score = $1, signals = $2, updated_at = $3 WHERE id = $4`,
+          [score, JSON.stringify(signals), now, flagId]
+        );
+      } else {
+        flagId = uuidv4();
+        await client.query(
+          `INSERT INTO fraud_flags (id, user_id, score, signals, status, points_held, points_reversed, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, 'OPEN', 0, 0, $5, $5)`,
+          [flagId, userId, score, JSON.stringify(signals), now]
+        );
+      }
+
+      // Hold every earning that is still pending
+      await client.query(
+        `INSERT INTO fraud_flag_transactions (flag_id, transaction_id)
+         SELECT $1, id FROM ledger_transactions
+         WHERE user_id = $2 AND status = 'POSTED' AND credit_account = 'USER_PENDING'
+         ON CONFLICT DO NOTHING`,
+        [flagId, userId]
+      );
+
+      const result = await client.query<FraudFlag>(
+        `UPDATE fraud_flags SET points_held = (
+           SELECT COALESCE(SUM(lt.points), 0)
+           FROM fraud_flag_transactions ft
+           JOIN ledger_transactions lt ON lt.id = ft.transaction_id
+           WHERE ft.flag_id = $1 AND lt.status = 'POSTED'
+         )
+         WHERE id = $1
+         RETURNING *`,
+        [flagId]
+      );
+
+      return result.rows[0];
+    });
+
+    logger.warn('User flagged for fraud review', { userId, flagId: flag.id, score, signals: signals.map((s) => s.type) });
+    return flag;
+  }
+
+  async getFlags(status: FraudFlag['status'] = 'OPEN', limit: number = 20, offset: number = 0): Promise<FraudFlag[]> {
+    return db.query<FraudFlag>(
+      `SELECT * FROM fraud_flags WHERE status = $1 ORDER BY score DESC, created_at ASC LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    );
+  }
+
+  async getFlag(flagId: string): Promise<{ flag: FraudFlag; transactions: LedgerTransaction[] }> {
+    const flag = await db.queryOne<FraudFlag>(`SELECT * FROM fraud_flags WHERE id = $1`, [flagId]);
+    if (!flag) {
+      throw new AppError(404, 'Fraud flag not found');
+    }
+
+    const transactions = await db.query<LedgerTransaction>(
+      `SELECT lt.* FROM fraud_flag_transactions ft
+       JOIN ledger_transactions lt ON lt.id = ft.transaction_id
+       WHERE ft.flag_id = $1
+       ORDER BY lt.posted_at ASC`,
+      [flagId]
+    );
+
+    return { flag, transactions };
+  }
+
+  /**
+   * Confirm fraud: every held earning still pending is reversed back to the reward pool
+   */
+  async confirmFlag(flagId: string, adminId: string, audit: AdminAuditInput, notes?: string): Promise<FraudFlag> {
+    const flag = await db.transaction(async (client) => {
+      const flagResult = await client.query<FraudFlag>(
+        `SELECT * FROM fraud_flags WHERE id = $1 FOR UPDATE`,
+        [flagId]
+      );
+      const current = flagResult.rows[0];
+
+      if (!current) {
+        throw new AppError(404, 'Fraud flag not found');
+      }
+      if (current.status !== 'OPEN') {
+        throw new AppError(400, 'Fraud flag has already been reviewed');
+      }
+
+      const held = await client.query<LedgerTransaction>(
+        `UPDATE ledger_transactions lt SET status = 'REVERSED'
+         FROM fraud_flag_transactions ft
+         WHERE ft.flag_id = $1 AND ft.transaction_id = lt.id AND lt.status = 'POSTED'
+         RETURNING lt.*`,
+        [flagId]
+      );
+
+      let pointsReversed = 0;
+      for (const earning of held.rows) {
+        await ledgerService.post(client, {
+          userId: earning.user_id,
+          type: 'REVERSED',
+          points: Number(earning.points),
+          debit: 'USER_PENDING',
+          credit: 'REWARD_POOL',
+          status: 'REVERSED',
+          videoId: earning.video_id,
+          creatorId: earning.creator_id,
+          category: earning.category,
+          referenceId: earning.id,
+          reason: 'Fraud confirmed',
+          metadata: { fraud_flag_id: flagId },
+        });
+        pointsReversed += Number(earning.points);
+      }
+
+      // Creators' shares of the reversed earnings go back to the pool too
+      await creatorRevenueService.reverseShares(
+        client,
+        held.rows.map((earning) => earning.id),
+        'Viewer fraud confirmed',
+        { fraud_flag_id: flagId }
+      );
+
+      const result = await client.query<FraudFlag>(
+        `UPDATE fraud_flags
+         SET status = 'CONFIRMED', points_reversed = $1, review_notes = $2,
+             reviewed_by = $3, reviewed_at = $4, updated_at = $4
+         WHERE id = $5
+         RETURNING *`,
+        [pointsReversed, notes || null, adminId, new Date(), flagId]
+      );
+
+      await adminAuditService.record(
+        { ...audit, targetUserId: current.user_id, details: { ...audit.details, points_reversed: pointsReversed } },
+        client
+      );
+      return result.rows[0];
+    });
+
+    logger.warn('Fraud flag confirmed', { flagId, userId: flag.user_id, pointsReversed: flag.points_reversed, adminId });
+    return flag;
+  }
+
+  /**
+   * Dismiss a flag; held earnings are released by the next pending-to-available run
+   */
+  async dismissFlag(flagId: string, adminId: string, audit: AdminAuditInput, notes?: string): Promise<FraudFlag> {
+    const flag = await db.transaction(async (client) => {
+      const result = await client.query<FraudFlag>(
+        `UPDATE fraud_flags
+         SET status = 'DISMISSED', review_notes = $1, reviewed_by = $2, reviewed_at = $3, updated_at = $3
+         WHERE id = $4 AND status = 'OPEN'
+         RETURNING *`,
+        [notes || null, adminId, new Date(), flagId]
+      );
+      if (!result.rows[0]) {
+        throw new AppError(404, 'Open fraud flag not found');
+      }
+
+      await adminAuditService.record({ ...audit, targetUserId: result.rows[0].user_id }, client);
+      return result.rows[0];
+    });
+
+    logger.info('Fraud flag dismissed', { flagId, userId: flag.user_id, adminId });
+    return flag;
+  }
+
+  private async collectSignals(userId: string): Promise<FraudSignal[]> {
+    const signals: FraudSignal[] = [];
+
+    const device = await db.queryOne<{ device_id: string; users: string }>(
+      `SELECT mine.device_id, COUNT(DISTINCT other.user_id) AS users
+       FROM watch_sessions mine
+       JOIN watch_sessions other ON other.device_id = mine.device_id
+         AND other.started_at > NOW() - make_interval(days => $2)
+       WHERE mine.user_id = $1 AND mine.device_id IS NOT NULL
+         AND mine.started_at > NOW() - make_interval(days => $2)
+       GROUP BY mine.device_id
+       ORDER BY users DESC
+       LIMIT 1`,
+      [userId, FRAUD_RULES.SHARED_DEVICE.windowDays]
+    );
+    if (device && parseInt(device.users, 10) > FRAUD_RULES.SHARED_DEVICE.maxUsersPerDevice) {
+      signals.push({
+        type: 'SHARED_DEVICE',
+        weight: FRAUD_RULES.SHARED_DEVICE.weight,
+        detail: { deviceId: device.device_id, accounts: parseInt(device.users, 10) },
+      });
+    }
+
+    const ip = await db.queryOne<{ ip_address: string; users: string }>(
+      `SELECT mine.ip_address, COUNT(DISTINCT other.user_id) AS users
+       FROM watch_sessions mine
+       JOIN watch_sessions other ON other.ip_address = mine.ip_address
+         AND other.started_at > NOW() - make_interval(days => $2)
+       WHERE mine.user_id = $1 AND mine.ip_address IS NOT NULL
+         AND mine.started_at > NOW() - make_interval(days => $2)
+       GROUP BY mine.ip_address
+       ORDER BY users DESC
+       LIMIT 1`,
+      [userId, FRAUD_RULES.SHARED_IP.windowDays]
+    );
+    if (ip && parseInt(ip.users, 10) > FRAUD_RULES.SHARED_IP.maxUsersPerIp) {
+      signals.push({
+        type: 'SHARED_IP',
+        weight: FRAUD_RULES.SHARED_IP.weight,
+        detail: { ipAddress: ip.ip_address, accounts: parseInt(ip.users, 10) },
+      });
+    }
+
+    const activity = await db.queryOne<{ active_hours: string; seconds: string }>(
+      `SELECT COUNT(DISTINCT date_trunc('hour', created_at)) AS active_hours,
+              COALESCE(SUM(seconds_watched), 0) AS seconds
+       FROM video_heartbeats
+       WHERE user_id = $1 AND created_at > NOW() - INTERVAL '1 day'`,
+      [userId]
+    );
+    const activeHours = parseInt(activity?.active_hours || '0', 10);
+    if (activeHours >= FRAUD_RULES.ROUND_THE_CLOCK.maxActiveHoursPerDay) {
+      signals.push({
+        type: 'ROUND_THE_CLOCK',
+        weight: FRAUD_RULES.ROUND_THE_CLOCK.weight,
+        detail: { activeHours, secondsWatched: parseInt(activity?.seconds || '0', 10) },
+      });
+    }
+
+    const creators = await db.query<{ creator_id: string; seconds: string }>(
+      `SELECT ws.creator_id, SUM(vh.seconds_watched) AS seconds
+       FROM video_heartbeats vh
+       JOIN watch_sessions ws ON ws.id = vh.session_id
+       WHERE vh.user_id = $1 AND vh.created_at > NOW() - INTERVAL '1 day'
+       GROUP BY ws.creator_id
+       ORDER BY seconds DESC`,
+      [userId]
+    );
+    const totalSeconds = creators.reduce((sum, row) => sum + parseInt(row.seconds, 10), 0);
+    if (creators.length > 0 && totalSeconds >= FRAUD_RULES.CREATOR_LOOP.minSeconds) {
+      const topShare = parseInt(creators[0].seconds, 10) / totalSeconds;
+      if (topShare >= FRAUD_RULES.CREATOR_LOOP.maxCreatorShare) {
+        signals.push({
+          type: 'CREATOR_LOOP',
+          weight: FRAUD_RULES.CREATOR_LOOP.weight,
+          detail: { creatorId: creators[0].creator_id, share: Number(topShare.toFixed(2)), totalSeconds },
+        });
+      }
+    }
+
+    const policy = await rewardPolicyService.getActivePolicy();
+    const capDays = await db.queryOne<{ days: string }>(
+      `SELECT COUNT(*) AS days FROM (
+         SELECT date_trunc('day', posted_at) AS day, SUM(points) AS points
+         FROM ledger_transactions
+         WHERE user_id = $1 AND transaction_type = 'EARN'
+           AND posted_at > NOW() - make_interval(days => $2)
+         GROUP BY day
+       ) daily
+       WHERE points >= $3`,
+      [userId, FRAUD_RULES.CAP_HUGGING.windowDays, Math.floor(policy.daily_user_cap * FRAUD_RULES.CAP_HUGGING.capRatio)]
+    );
+    const daysAtCap = parseInt(capDays?.days || '0', 10);
+    if (daysAtCap >= FRAUD_RULES.CAP_HUGGING.minDays) {
+      signals.push({
+        type: 'CAP_HUGGING',
+        weight: FRAUD_RULES.CAP_HUGGING.weight,
+        detail: { daysAtCap, windowDays: FRAUD_RULES.CAP_HUGGING.windowDays },
+      });
+    }
+
+    return signals;
+  }
+}
+
+export const fraudService = new FraudService();
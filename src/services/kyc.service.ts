@@ -0,0 +1,562 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { getSecret } from '../config/secrets';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { encryptSecret, decryptSecret, maskSecret } from '../utils/encryption';
+import { maskUPI } from '../utils/helpers';
+import { KycProviderFactory } from '../kyc/KycProviderFactory';
+import { PennyDropResult } from '../kyc/KycProvider';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+export type KycLevel = 0 | 1 | 2;
+export type UpiStatus = 'NONE' | 'VERIFIED' | 'FAILED' | 'MANUAL_REVIEW';
+export type PanStatus = 'NONE' | 'PENDING_REVIEW' | 'VERIFIED' | 'REJECTED';
+
+// Rupee limits per KYC level; level 0 cannot redeem at all
+export const KYC_LIMITS: Record<KycLevel, { perRedemption: number; monthly: number }> = {
+  0: { perRedemption: 0, monthly: 0 },
+  1: { perRedemption: 1000, monthly: 5000 },
+  2: { perRedemption: 10000, monthly: 50000 },
+};
+const MAX_UPI_ATTEMPTS_PER_DAY = 5;
+
+const UPI_PATTERN = /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/;
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+export interface KycProfile {
+  user_id: string;
+  level: KycLevel;
+  upi_id_encrypted?: string;
+  upi_id_hash?: string;
+  upi_name_at_bank?: string;
+  upi_status: UpiStatus;
+  upi_provider?: string;
+  upi_provider_reference?: string;
+  upi_verified_at?: Date;
+  pan_encrypted?: string;
+  pan_hash?: string;
+  pan_name?: string;
+  pan_status: PanStatus;
+  pan_verified_at?: Date;
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  review_notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface KycVerificationAttempt {
+  id: string;
+  user_id: string;
+  kind: 'UPI' | 'PAN' | 'REVIEW';
+  status: string;
+  provider?: string;
+  reference?: string;
+  response?: Record<string, any>;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface KycStatus {
+  level: KycLevel;
+  upi: { status: UpiStatus; upiId?: string; nameAtBank?: string; verifiedAt?: Date };
+  pan: { status: PanStatus; pan?: string; name?: string; verifiedAt?: Date };
+  limits: { perRedemption: number; monthly: number; usedThisMonth: number; remainingThisMonth: number };
+  nextLevel?: { level: KycLevel; perRedemption: number; monthly: number; requires: string };
+}
+
+export interface KycReviewDecision {
+  kind: 'UPI' | 'PAN';
+  decision: 'APPROVE' | 'REJECT';
+  notes?: string;
+}
+
+// Lookups on the hash keep duplicate checks possible without decrypting every row.
+// Keyed, since PANs are few enough to brute-force from a plain hash.
+const hashIdentity = (value: string): string =>
+  crypto.createHmac('sha256', getSecret('KYC_HASH_KEY')).update(value.toLowerCase()).digest('hex');
+
+const nameTokens = (name?: string | null): string[] =>
+  (name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 1);
+
+class KycService {
+  /**
+   * KYC level, masked identities and this month's redemption headroom
+   */
+  async getStatus(userId: string): Promise<KycStatus> {
+    const profile = await this.getProfile(userId);
+    const level = (profile?.level ?? 0) as KycLevel;
+    const limits = KYC_LIMITS[level];
+    const usedThisMonth = await this.getMonthlyRedeemed(userId);
+
+    let nextLevel: KycStatus['nextLevel'];
+    if (level < 2) {
+      const next = (level + 1) as KycLevel;
+      nextLevel = {
+        level: next,
+        ...KYC_LIMITS[next],
+        requires: next === 1 ? 'Verify your UPI ID' : 'Verify your PAN',
+      };
+    }
+
+    return {
+      level,
+      upi: {
+        status: profile?.upi_status || 'NONE',
+        upiId: profile?.upi_id_encrypted ? maskUPI(decryptSecret(profile.upi_id_encrypted)) : undefined,
+        nameAtBank: profile?.upi_name_at_bank,
+        verifiedAt: profile?.upi_verified_at,
+      },
+      pan: {
+        status: profile?.pan_status || 'NONE',
+        pan: profile?.pan_encrypted ? maskSecret(decryptSecret(profile.pan_encrypted)) : undefined,
+        name: profile?.pan_name,
+        verifiedAt: profile?.pan_verified_at,
+      },
+      limits: {
+        ...limits,
+        usedThisMonth,
+        remainingThisMonth: Math.max(limits.monthly - usedThisMonth, 0),
+      },
+      nextLevel,
+    };
+  }
+
+  /**
+   * Verify a UPI ID with a penny drop. The holder name at the bank is compared with
+   * the name on the account; a mismatch goes to manual review instead of failing.
+   */
+  async submitUpi(userId: string, rawUpiId: string): Promise<KycStatus> {
+    const upiId = rawUpiId.trim().toLowerCase();
+    if (!UPI_PATTERN.test(upiId)) {
+      throw new AppError(400, 'Invalid UPI ID');
+    }
+
+    const upiHash = hashIdentity(upiId);
+    const profile = await this.getProfile(userId);
+    if (profile?.upi_id_hash === upiHash && profile.upi_status === 'VERIFIED') {
+      throw new AppError(400, 'This UPI ID is already verified');
+    }
+
+    const linked = await db.queryOne(
+      `SELECT 1 FROM kyc_profiles
+       WHERE upi_id_hash = $1 AND user_id <> $2 AND upi_status IN ('VERIFIED', 'MANUAL_REVIEW')`,
+      [upiHash, userId]
+    );
+    if (linked) {
+      throw new AppError(409, 'This UPI ID is linked to another account');
+    }
+
+    const attemptsToday = await db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM kyc_verification_attempts
+       WHERE user_id = $1 AND kind = 'UPI' AND created_at >= date_trunc('day', NOW())`,
+      [userId]
+    );
+    if (parseInt(attemptsToday?.count || '0', 10) >= MAX_UPI_ATTEMPTS_PER_DAY) {
+      throw new AppError(429, 'Too many UPI verification attempts today, please try again tomorrow');
+    }
+
+    const provider = KycProviderFactory.getProvider();
+    const attemptId = uuidv4();
+    let result: PennyDropResult;
+
+    try {
+      result = await provider.verifyUpi({ referenceId: attemptId, userId, upiId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'KYC provider error';
+      await this.recordAttempt({
+        id: attemptId,
+        userId,
+        kind: 'UPI',
+        status: 'ERROR',
+        provider: provider.name,
+        response: { error: message },
+      });
+      logger.error('UPI penny drop failed', { userId, attemptId, error: message });
+      throw new AppError(503, 'UPI verification is temporarily unavailable, please try again later');
+    }
+
+    if (!result.success) {
+      await this.recordAttempt({
+        id: attemptId,
+        userId,
+        kind: 'UPI',
+        status: 'FAILED',
+        provider: provider.name,
+        reference: result.reference,
+        response: result.response,
+      });
+      // A failed attempt never replaces an already verified UPI ID
+      if (profile?.upi_status !== 'VERIFIED') {
+        await this.upsertProfile(userId, { upi_status: 'FAILED' });
+      }
+      throw new AppError(400, result.error || 'UPI ID could not be verified');
+    }
+
+    const user = await db.queryOne<{ full_name?: string; first_name?: string; last_name?: string }>(
+      `SELECT full_name, first_name, last_name FROM users WHERE id = $1`,
+      [userId]
+    );
+    const status: UpiStatus = this.namesMatch(result.nameAtBank, user) ? 'VERIFIED' : 'MANUAL_REVIEW';
+
+    await db.transaction(async (client) => {
+      await this.recordAttempt(
+        {
+          id: attemptId,
+          userId,
+          kind: 'UPI',
+          status,
+          provider: provider.name,
+          reference: result.reference,
+          response: result.response,
+        },
+        client
+      );
+      await this.upsertProfile(
+        userId,
+        {
+          upi_id_encrypted: encryptSecret(upiId),
+          upi_id_hash: upiHash,
+          upi_name_at_bank: result.nameAtBank || null,
+          upi_status: status,
+          upi_provider: provider.name,
+          upi_provider_reference: result.reference || null,
+          upi_verified_at: status === 'VERIFIED' ? new Date() : null,
+        },
+        client
+      );
+    });
+
+    logger.info('UPI verification completed', { userId, attemptId, status, provider: provider.name });
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Submit a PAN for manual review; approval raises the account to level 2
+   */
+  async submitPan(userId: string, rawPan: string, panName: string): Promise<KycStatus> {
+    const pan = rawPan.trim().toUpperCase();
+    if (!PAN_PATTERN.test(pan)) {
+      throw new AppError(400, 'Invalid PAN');
+    }
+
+    const profile = await this.getProfile(userId);
+    if (!profile || profile.upi_status !== 'VERIFIED') {
+      throw new AppError(400, 'Verify your UPI ID before submitting a PAN');
+    }
+    if (profile.pan_status === 'PENDING_REVIEW' || profile.pan_status === 'VERIFIED') {
+      throw new AppError(400, profile.pan_status === 'VERIFIED' ? 'PAN is already verified' : 'PAN is already under review');
+    }
+
+    const panHash = hashIdentity(pan);
+    const linked = await db.queryOne(
+      `SELECT 1 FROM kyc_profiles
+       WHERE pan_hash = $1 AND user_id <> $2 AND pan_status IN ('PENDING_REVIEW', 'VERIFIED')`,
+      [panHash, userId]
+    );
+    if (linked) {
+      throw new AppError(409, 'This PAN is linked to another account');
+    }
+
+    await db.transaction(async (client) => {
+      await this.recordAttempt({ id: uuidv4(), userId, kind: 'PAN', status: 'PENDING_REVIEW' }, client);
+      await this.upsertProfile(
+        userId,
+        {
+          pan_encrypted: encryptSecret(pan),
+          pan_hash: panHash,
+          pan_name: panName.trim(),
+          pan_status: 'PENDING_REVIEW',
+          pan_verified_at: null,
+        },
+        client
+      );
+    });
+
+    logger.info('PAN submitted for review', { userId });
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Profiles waiting for an admin: UPI name mismatches and submitted PANs
+   */
+  async listReviews(limit: number = 20, offset: number = 0): Promise<Array<Record<string, any>>> {
+    const profiles = await db.query<KycProfile & { username: string; full_name?: string }>(
+      `SELECT k.*, u.username, u.full_name
+       FROM kyc_profiles k
+       JOIN users u ON u.id = k.user_id
+       WHERE k.upi_status = 'MANUAL_REVIEW' OR k.pan_status = 'PENDING_REVIEW'
+       ORDER BY k.updated_at ASC
+       LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    );
+
+    return profiles.map((profile) => ({
+      userId: profile.user_id,
+      username: profile.username,
+      fullName: profile.full_name,
+      level: profile.level,
+      upiStatus: profile.upi_status,
+      upiId: profile.upi_id_encrypted ? maskUPI(decryptSecret(profile.upi_id_encrypted)) : undefined,
+      upiNameAtBank: profile.upi_name_at_bank,
+      panStatus: profile.pan_status,
+      panName: profile.pan_name,
+      updatedAt: profile.updated_at,
+    }));
+  }
+
+  /**
+   * Full identity details for an admin review; every access is logged
+   */
+  async getReview(userId: string, adminId: string): Promise<Record<string, any>> {
+    const profile = await this.getProfile(userId);
+    if (!profile) {
+      throw new AppError(404, 'KYC profile not found');
+    }
+
+    const user = await db.queryOne<{ username: string; full_name?: string; first_name?: string; last_name?: string; phone_number: string }>(
+      `SELECT username, full_name, first_name, last_name, phone_number FROM users WHERE id = $1`,
+      [userId]
+    );
+    const attempts = await db.query<KycVerificationAttempt>(
+      `SELECT * FROM kyc_verification_attempts WHERE user_id = $1 ORDER BY created_at DESC LIMIT 20`,
+      [userId]
+    );
+
+    logger.info('KYC details accessed', { userId, adminId });
+
+    return {
+      user,
+      level: profile.level,
+      upi: {
+        status: profile.upi_status,
+        upiId: profile.upi_id_encrypted ? decryptSecret(profile.upi_id_encrypted) : undefined,
+        nameAtBank: profile.upi_name_at_bank,
+        provider: profile.upi_provider,
+        providerReference: profile.upi_provider_reference,
+        verifiedAt: profile.upi_verified_at,
+      },
+      pan: {
+        status: profile.pan_status,
+        pan: profile.pan_encrypted ? decryptSecret(profile.pan_encrypted) : undefined,
+        name: profile.pan_name,
+        verifiedAt: profile.pan_verified_at,
+      },
+      review: { reviewedBy: profile.reviewed_by, reviewedAt: profile.reviewed_at, notes: profile.review_notes },
+      attempts,
+    };
+  }
+
+  /**
+   * Approve or reject a UPI ID held for manual review, or a submitted PAN
+   */
+  async review(userId: string, decision: KycReviewDecision, adminId: string, audit: AdminAuditInput): Promise<KycStatus> {
+    await db.transaction(async (client) => {
+      const profileResult = await client.query<KycProfile>(
+        `SELECT * FROM kyc_profiles WHERE user_id = $1 FOR UPDATE`,
+        [userId]
+      );
+      const profile = profileResult.rows[0];
+      const approve = decision.decision === 'APPROVE';
+      const now = new Date();
+
+      if (decision.kind === 'UPI') {
+        if (!profile || profile.upi_status !== 'MANUAL_REVIEW') {
+          throw new AppError(404, 'No UPI ID awaiting review');
+        }
+        await this.upsertProfile(
+          userId,
+          {
+            upi_status: approve ? 'VERIFIED' : 'FAILED',
+            upi_verified_at: approve ? now : null,
+            reviewed_by: adminId,
+            reviewed_at: now,
+            review_notes: decision.notes || null,
+          },
+          client
+        );
+      } else {
+        if (!profile || profile.pan_status !== 'PENDING_REVIEW') {
+          throw new AppError(404, 'No PAN awaiting review');
+        }
+        await this.upsertProfile(
+          userId,
+          {
+            pan_status: approve ? 'VERIFIED' : 'REJECTED',
+            pan_verified_at: approve ? now : null,
+            reviewed_by: adminId,
+            reviewed_at: now,
+            review_notes: decision.notes || null,
+          },
+          client
+        );
+      }
+
+      await this.recordAttempt(
+        {
+          id: uuidv4(),
+          userId,
+          kind: 'REVIEW',
+          status: `${decision.kind}_${approve ? 'APPROVED' : 'REJECTED'}`,
+          response: { notes: decision.notes },
+          createdBy: adminId,
+        },
+        client
+      );
+      await adminAuditService.record({ ...audit, targetUserId: userId }, client);
+    });
+
+    logger.info('KYC reviewed', { userId, adminId, kind: decision.kind, decision: decision.decision });
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Enforce the KYC gate and level limits for a redemption.
+   * Runs inside the redemption transaction after the wallet row is locked, so
+   * concurrent redemptions see each other in the monthly total.
+   */
+  async assertRedemptionAllowed(client: PoolClient, userId: string, amountRupees: number): Promise<void> {
+    const profileResult = await client.query<{ level: KycLevel }>(
+      `SELECT level FROM kyc_profiles WHERE user_id = $1`,
+      [userId]
+    );
+    const level = (profileResult.rows[0]?.level ?? 0) as KycLevel;
+
+    if (level === 0) {
+      throw new AppError(403, 'Verify your UPI ID before redeeming points');
+    }
+
+    const limits = KYC_LIMITS[level];
+    if (amountRupees > limits.perRedemption) {
+      throw new AppError(
+        403,
+        `Redemptions are limited to ₹${limits.perRedemption} at your KYC level${level < 2 ? '; verify your PAN for higher limits' : ''}`
+      );
+    }
+
+    const used = await this.getMonthlyRedeemed(userId, client);
+    if (used + amountRupees > limits.monthly) {
+      throw new AppError(
+        403,
+        `Monthly redemption limit of ₹${limits.monthly} reached (₹${Math.max(limits.monthly - used, 0)} left this month)`
+      );
+    }
+  }
+
+  /**
+   * The user's verified UPI ID in clear text, for payouts
+   */
+  async getVerifiedUpi(userId: string, client?: PoolClient): Promise<string | null> {
+    const query = `SELECT upi_id_encrypted FROM kyc_profiles WHERE user_id = $1 AND upi_status = 'VERIFIED'`;
+    const row = client
+      ? (await client.query<{ upi_id_encrypted: string }>(query, [userId])).rows[0]
+      : await db.queryOne<{ upi_id_encrypted: string }>(query, [userId]);
+
+    return row?.upi_id_encrypted ? decryptSecret(row.upi_id_encrypted) : null;
+  }
+
+  private async getProfile(userId: string): Promise<KycProfile | null> {
+    return db.queryOne<KycProfile>(`SELECT * FROM kyc_profiles WHERE user_id = $1`, [userId]);
+  }
+
+  /**
+   * Rupees redeemed this calendar month, not counting failed (refunded) requests
+   */
+  private async getMonthlyRedeemed(userId: string, client?: PoolClient): Promise<number> {
+    const query = `SELECT COALESCE(SUM(amount_rupees), 0) AS total FROM redemption_requests
+       WHERE user_id = $1 AND status <> 'failed' AND created_at >= date_trunc('month', NOW())`;
+    const row = client
+      ? (await client.query<{ total: string }>(query, [userId])).rows[0]
+      : await db.queryOne<{ total: string }>(query, [userId]);
+
+    return parseInt(row?.total || '0', 10);
+  }
+
+  /**
+   * Insert or update a profile and recompute its level from the UPI and PAN statuses
+   */
+  private async upsertProfile(userId: string, fields: Record<string, any>, client?: PoolClient): Promise<void> {
+    const columns = Object.keys(fields);
+    const values = Object.values(fields);
+    const placeholders = columns.map((_, index) => `$${index + 2}`);
+    const updates = columns.map((column) => `${column} = EXCLUDED.${column}`);
+
+    const query = `INSERT INTO kyc_profiles (user_id, ${columns.join(', ')}, created_at, updated_at)
+       VALUES ($1, ${placeholders.join(', ')}, NOW(), NOW())
+       ON CONFLICT (user_id) DO UPDATE SET ${updates.join(', ')}, updated_at = NOW()`;
+    const levelQuery = `UPDATE kyc_profiles
+       SET level = CASE
+         WHEN upi_status = 'VERIFIED' AND pan_status = 'VERIFIED' THEN 2
+         WHEN upi_status = 'VERIFIED' THEN 1
+         ELSE 0
+       END
+       WHERE user_id = $1`;
+
+    if (client) {
+      await client.query(query, [userId, ...values]);
+      await client.query(levelQuery, [userId]);
+    } else {
+      await db.query(query, [userId, ...values]);
+      await db.query(levelQuery, [userId]);
+    }
+  }
+
+  private async recordAttempt(
+    attempt: {
+      id: string;
+      userId: string;
+      kind: KycVerificationAttempt['kind'];
+      status: string;
+      provider?: string;
+      reference?: string;
+      response?: Record<string, any>;
+      createdBy?: string;
+    },
+    client?: PoolClient
+  ): Promise<void> {
+    const query = `INSERT INTO kyc_verification_attempts (id, user_id, kind, status, provider, reference, response, created_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`;
+    const params = [
+      attempt.id,
+      attempt.userId,
+      attempt.kind,
+      attempt.status,
+      attempt.provider || null,
+      attempt.reference || null,
+      attempt.response ? JSON.stringify(attempt.response) : null,
+      attempt.createdBy || null,
+    ];
+
+    if (client) {
+      await client.query(query, params);
+    } else {
+      await db.query(query, params);
+    }
+  }
+
+  /**
+   * At least one name token in common between the bank's holder name and the user's name.
+   * Without a name on either side there is nothing to compare, so the penny drop stands.
+   */
+  private namesMatch(
+    nameAtBank: string | undefined,
+    user: { full_name?: string; first_name?: string; last_name?: string } | null
+  ): boolean {
+    const bankTokens = nameTokens(nameAtBank);
+    const userTokens = nameTokens([user?.full_name, user?.first_name, user?.last_name].filter(Boolean).join(' '));
+
+    if (bankTokens.length === 0 || userTokens.length === 0) {
+      return true;
+    }
+    return bankTokens.some((token) => userTokens.includes(token));
+  }
+}
+
+export const kycService = new KycService();
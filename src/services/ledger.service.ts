@@ -0,0 +1,315 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Double-entry points ledger.
+ *
+ * Every movement of points is one ledger_transactions row plus two
+ * ledger_entries rows (a debit and a credit) that sum to zero. Entries are
+ * append-only; the wallet table is a projection of the entries and is kept in
+ * step inside the same DB transaction.
+ */
+export type LedgerAccount =
+  | 'USER_PENDING'
+  | 'USER_AVAILABLE'
+  | 'REDEEMED'
+  | 'EXPIRED'
+  | 'REWARD_POOL'
+  | 'TAX_WITHHELD';
+
+export interface LedgerTransaction {
+  id: string;
+  user_id: string;
+  video_id?: string;
+  creator_id?: string;
+  transaction_type: 'EARN' | 'PENDING' | 'AVAILABLE' | 'REDEEMED' | 'REVERSED' | 'EXPIRED' | 'BONUS' | 'REVENUE_SHARE' | 'TIP' | 'TAX_WITHHELD' | 'ADJUSTMENT';
+  points: number;
+  debit_account: LedgerAccount;
+  credit_account: LedgerAccount;
+  category?: string;
+  watch_duration_seconds?: number;
+  rate_per_10m?: number;
+  policy_version?: number;
+  status: 'POSTED' | 'PENDING_30D' | 'AVAILABLE' | 'EXPIRED' | 'REDEEMED' | 'REVERSED';
+  reference_id?: string;
+  reason?: string;
+  metadata?: any;
+  posted_at: Date;
+  available_at?: Date;
+  expires_at?: Date;
+}
+
+export interface LedgerEntry {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  account: LedgerAccount;
+  amount: number;
+  created_at: Date;
+}
+
+export interface LedgerPostInput {
+  userId: string;
+  type: LedgerTransaction['transaction_type'];
+  points: number;
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  // Owner of the credit side when points move between two users
+  creditUserId?: string;
+  status?: LedgerTransaction['status'];
+  videoId?: string;
+  creatorId?: string;
+  category?: string;
+  watchDurationSeconds?: number;
+  ratePerTenMin?: number;
+  policyVersion?: number;
+  referenceId?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  availableAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface WalletBalances {
+  pending_points: number;
+  available_points: number;
+  total_earned: number;
+  total_redeemed: number;
+}
+
+export interface ReconciliationResult {
+  userId: string;
+  inSync: boolean;
+  ledger: WalletBalances;
+  wallet: WalletBalances | null;
+}
+
+// Wallet columns that mirror user-owned ledger accounts
+const WALLET_BALANCE_COLUMNS: Partial<Record<LedgerAccount, keyof WalletBalances>> = {
+  USER_PENDING: 'pending_points',
+  USER_AVAILABLE: 'available_points',
+};
+
+class LedgerService {
+  /**
+   * Post a balanced transaction and apply it to the wallet projection.
+   * Must be called with a client that is already inside a DB transaction.
+   */
+  async post(client: PoolClient, input: LedgerPostInput): Promise<LedgerTransaction> {
+    if (!Number.isInteger(input.points) || input.points <= 0) {
+      throw new Error('Ledger points must be a positive integer');
+    }
+    const creditUserId = input.creditUserId || input.userId;
+    // The same account on both sides is only meaningful as a transfer between two users
+    if (input.debit === input.credit && creditUserId === input.userId) {
+      throw new Error('Ledger debit and credit accounts must differ');
+    }
+
+    const transactionId = uuidv4();
+    const now = new Date();
+
+    const txResult = await client.query<LedgerTransaction>(
+      `INSERT INTO ledger_transactions (
+        id, user_id, video_id, creator_id, transaction_type, points,
+        debit_account, credit_account, category, watch_duration_seconds,
+        rate_per_10m, policy_version, status, reference_id, reason, metadata,
+        posted_at, available_at, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      RETURNING *`,
+      [
+        transactionId,
+        input.userId,
+        input.videoId || null,
+        input.creatorId || null,
+        input.type,
+        input.points,
+        input.debit,
+        input.credit,
+        input.category || null,
+        input.watchDurationSeconds ?? null,
+        input.ratePerTenMin ?? null,
+        input.policyVersion ?? null,
+        input.status || 'POSTED',
+        input.referenceId || null,
+        input.reason || null,
+        input.metadata ? JSON.stringify(input.metadata) : null,
+        now,
+        input.availableAt || null,
+        input.expiresAt || null,
+        now,
+      ]
+    );
+
+    await client.query(
+      `INSERT INTO ledger_entries (id, transaction_id, user_id, account, amount, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6), ($7, $2, $8, $9, $10, $6)`,
+      [
+        uuidv4(),
+        transactionId,
+        input.userId,
+        input.debit,
+        -input.points,
+        now,
+        uuidv4(),
+        creditUserId,
+        input.credit,
+        input.points,
+      ]
+    );
+
+    const debitDelta = this.walletDelta(input.debit, -input.points);
+    const creditDelta = this.walletDelta(input.credit, input.points);
+    if (creditUserId === input.userId) {
+      await this.applyToWallet(client, input.userId, this.mergeDeltas(debitDelta, creditDelta), now);
+    } else {
+      await this.applyToWallet(client, input.userId, debitDelta, now);
+      await this.applyToWallet(client, creditUserId, creditDelta, now);
+    }
+
+    return txResult.rows[0];
+  }
+
+  /**
+   * Compute wallet balances for a user purely from ledger entries
+   */
+  async getLedgerBalances(userId: string, client?: PoolClient): Promise<WalletBalances> {
+    const query = `
+      SELECT account, COALESCE(SUM(amount), 0) AS balance
+      FROM ledger_entries
+      WHERE user_id = $1
+      GROUP BY account
+    `;
+    const rows = client
+      ? (await client.query<{ account: LedgerAccount; balance: string }>(query, [userId])).rows
+      : await db.query<{ account: LedgerAccount; balance: string }>(query, [userId]);
+
+    const byAccount: Partial<Record<LedgerAccount, number>> = {};
+    for (const row of rows) {
+      byAccount[row.account] = parseInt(row.balance, 10);
+    }
+
+    return {
+      pending_points: byAccount.USER_PENDING || 0,
+      available_points: byAccount.USER_AVAILABLE || 0,
+      // The pool is debited for every point minted to this user and credited on reversal
+      total_earned: -(byAccount.REWARD_POOL || 0),
+      total_redeemed: byAccount.REDEEMED || 0,
+    };
+  }
+
+  /**
+   * Compare the wallet row with the ledger and, when they drift, rewrite the
+   * wallet from the ledger. The ledger is always the source of truth.
+   */
+  async reconcileWallet(userId: string): Promise<ReconciliationResult> {
+    const result = await db.transaction(async (client) => {
+      const walletResult = await client.query<WalletBalances>(
+        `SELECT pending_points, available_points, total_earned, total_redeemed
+         FROM wallet WHERE user_id = $1 FOR UPDATE`,
+        [userId]
+      );
+      const ledger = await this.getLedgerBalances(userId, client);
+      const row = walletResult.rows[0];
+      const wallet: WalletBalances | null = row
+        ? {
+            pending_points: Number(row.pending_points),
+            available_points: Number(row.available_points),
+            total_earned: Number(row.total_earned),
+            total_redeemed: Number(row.total_redeemed),
+          }
+        : null;
+
+      const inSync =
+        !!wallet &&
+        (Object.keys(ledger) as Array<keyof WalletBalances>).every((key) => ledger[key] === wallet[key]);
+
+      if (!inSync) {
+        await client.query(
+          `INSERT INTO wallet (user_id, pending_points, available_points, total_earned, total_redeemed, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (user_id) DO UPDATE SET
+             pending_points = $2, available_points = $3,
+             total_earned = $4, total_redeemed = $5, updated_at = $6`,
+          [
+            userId,
+            ledger.pending_points,
+            ledger.available_points,
+            ledger.total_earned,
+            ledger.total_redeemed,
+            new Date(),
+          ]
+        );
+      }
+
+      return { userId, inSync, ledger, wallet };
+    });
+
+    if (!result.inSync) {
+      logger.warn('Wallet drift corrected from ledger', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Wallet column deltas produced by a single signed entry on `account`
+   */
+  private walletDelta(account: LedgerAccount, amount: number): Partial<WalletBalances> {
+    const delta: Partial<WalletBalances> = {};
+    const column = WALLET_BALANCE_COLUMNS[account];
+    if (column) {
+      delta[column] = amount;
+    }
+    if (account === 'REWARD_POOL') {
+      delta.total_earned = -amount;
+    }
+    if (account === 'REDEEMED') {
+      delta.total_redeemed = amount;
+    }
+    return delta;
+  }
+
+  private mergeDeltas(a: Partial<WalletBalances>, b: Partial<WalletBalances>): Partial<WalletBalances> {
+    const merged: Partial<WalletBalances> = { ...a };
+    for (const key of Object.keys(b) as Array<keyof WalletBalances>) {
+      merged[key] = (merged[key] || 0) + (b[key] || 0);
+    }
+    return merged;
+  }
+
+  private async applyToWallet(
+    client: PoolClient,
+    userId: string,
+    delta: Partial<WalletBalances>,
+    now: Date
+  ): Promise<void> {
+    const columns = Object.keys(delta) as Array<keyof WalletBalances>;
+    if (columns.length === 0) {
+      return;
+    }
+
+    const assignments = columns.map((column, i) => `${column} = ${column} + $${i + 1}`);
+    const params: any[] = columns.map((column) => delta[column]);
+    params.push(now, userId);
+
+    const result = await client.query<WalletBalances>(
+      `UPDATE wallet
+       SET ${assignments.join(', ')}, updated_at = $${params.length - 1}
+       WHERE user_id = $${params.length}
+       RETURNING pending_points, available_points`,
+      params
+    );
+
+    const wallet = result.rows[0];
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+    if (Number(wallet.pending_points) < 0 || Number(wallet.available_points) < 0) {
+      throw new Error('Insufficient points');
+    }
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -1,12 +1,12 @@
 import crypto from 'crypto';
-import { SmsProviderFactory } from '../sms/SmsProviderFactory';
 import { db } from '../config/database';
 import { logger } from '../utils/logger';
+import { maskPhoneNumber } from '../utils/helpers';
+import { smsService } from './sms.service';
 
 const OTP_LENGTH = 6;
 const OTP_EXPIRY_MINUTES = 5;
 const OTP_MAX_ATTEMPTS = 3;
-const OTP_RATE_LIMIT_SECONDS = 60; // 1 OTP per minute per phone
 const OTP_SECRET = process.env.OTP_SECRET || 'wisereels-otp-secret';
 
 export interface OtpRecord {
@@ -14,23 +14,18 @@ export interface OtpRecord {
   otp_hash: string;
   expires_at: Date;
   attempts: number;
+  verified: boolean;
   created_at: Date;
 }
 
 export class OtpService {
-  private smsProvider = SmsProviderFactory.getProvider();
-
-  async generateAndSendOtp(phoneNumber: string): Promise<void> {
-    // Rate limit: check last OTP sent
-    const lastOtp = await db.queryOne<OtpRecord>(
-      'SELECT * FROM otps WHERE phone_number = $1 ORDER BY created_at DESC LIMIT 1',
-      [phoneNumber]
-    );
-    if (lastOtp && (Date.now() - new Date(lastOtp.created_at).getTime()) < OTP_RATE_LIMIT_SECONDS * 1000) {
-      throw new Error('OTP recently sent. Please wait before requesting again.');
-    }
-    // Generate OTP - use hardcoded OTP in development if BYPASS_OTP is set
-    const otp = process.env.BYPASS_OTP === 'true' ? '123456' : this.generateOtp();
+  /**
+   * Send a fresh OTP in the user's locale (a locale code or an Accept-Language header).
+   * In development the dev SMS provider writes the code to a file or the log.
+   * Callers are rate limited per phone and IP by the auth routes (see otpSendLimit).
+   */
+  async generateAndSendOtp(phoneNumber: string, locale?: string): Promise<void> {
+    const otp = this.generateOtp();
     const otpHash = this.hashOtp(otp);
     const expiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
     // Store OTP (plain and hashed)
@@ -38,11 +33,8 @@ export class OtpService {
       'INSERT INTO otps (phone_number, otp_code, otp_hash, expires_at, attempts, created_at) VALUES ($1, $2, $3, $4, $5, $6)',
       [phoneNumber, otp, otpHash, expiresAt, 0, new Date()]
     );
-    // Send OTP only if not bypassed
-    if (process.env.BYPASS_OTP !== 'true') {
-      await this.smsProvider.sendOtp(phoneNumber, otp);
-    }
-    logger.info(`OTP sent to ${phoneNumber}${process.env.BYPASS_OTP === 'true' ? ' (BYPASS MODE - Use 123456)' : ''}`);
+    await smsService.sendOtp(phoneNumber, otp, OTP_EXPIRY_MINUTES, locale);
+    logger.info(`OTP sent to ${maskPhoneNumber(phoneNumber)}`);
   }
 
   async verifyOtp(phoneNumber: string, otp: string): Promise<boolean> {
@@ -51,12 +43,15 @@ export class OtpService {
       [phoneNumber]
     );
     if (!record) throw new Error('No OTP found for this number');
+    if (record.verified) throw new Error('OTP already used');
     if (record.attempts >= OTP_MAX_ATTEMPTS) throw new Error('Max OTP attempts exceeded');
     if (new Date() > new Date(record.expires_at)) throw new Error('OTP expired');
     const isValid = this.hashOtp(otp) === record.otp_hash;
     // Increment attempts
     await db.query('UPDATE otps SET attempts = attempts + 1 WHERE phone_number = $1 AND created_at = $2', [phoneNumber, record.created_at]);
     if (!isValid) throw new Error('Invalid OTP');
+    // Single use: a code that signed someone in cannot be replayed
+    await db.query('UPDATE otps SET verified = true WHERE phone_number = $1 AND created_at = $2', [phoneNumber, record.created_at]);
     return true;
   }
 
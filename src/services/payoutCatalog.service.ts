@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { encryptSecret } from '../utils/encryption';
+import { PayoutMethod } from '../payouts/PayoutProvider';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const ACTIVE_CATALOG_CACHE_KEY = 'payout_catalog:active';
+const ACTIVE_CATALOG_CACHE_TTL_SECONDS = 60;
+
+export interface PayoutCatalogItem {
+  id: string;
+  slug: string;
+  method: PayoutMethod;
+  name: string;
+  provider?: string;
+  // Points charged per rupee of payout value
+  points_per_rupee: number;
+  // Fixed face values in rupees; empty means any amount between min_amount and max_amount
+  denominations: number[];
+  min_amount: number;
+  max_amount?: number;
+  is_active: boolean;
+  display_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PayoutCatalogItemInput = Pick<
+  PayoutCatalogItem,
+  'slug' | 'method' | 'name' | 'provider' | 'points_per_rupee' | 'denominations' | 'min_amount' | 'max_amount' | 'display_order'
+>;
+
+export interface GiftCardStock {
+  catalog_item_id: string;
+  denomination: number;
+  available: number;
+  reserved: number;
+  delivered: number;
+}
+
+export interface GiftCardCode {
+  id: string;
+  catalog_item_id: string;
+  denomination: number;
+  secret_encrypted: string;
+  code_hash: string;
+  status: 'AVAILABLE' | 'RESERVED' | 'DELIVERED';
+  redemption_id?: string;
+  expires_at?: Date;
+  created_at: Date;
+  reserved_at?: Date;
+  delivered_at?: Date;
+}
+
+class PayoutCatalogService {
+  /**
+   * Active catalog items, cached briefly; gift card stock is read live when a code is reserved
+   */
+  async getActiveItems(): Promise<PayoutCatalogItem[]> {
+    const cached = await cache.get(ACTIVE_CATALOG_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const items = await db.query<PayoutCatalogItem>(
+      `SELECT * FROM payout_catalog_items WHERE is_active = true ORDER BY display_order ASC, name ASC`
+    );
+    const normalised = items.map((item) => this.normalise(item));
+
+    await cache.set(ACTIVE_CATALOG_CACHE_KEY, normalised, ACTIVE_CATALOG_CACHE_TTL_SECONDS);
+    return normalised;
+  }
+
+  async listItems(): Promise<PayoutCatalogItem[]> {
+    const items = await db.query<PayoutCatalogItem>(
+      `SELECT * FROM payout_catalog_items ORDER BY is_active DESC, display_order ASC, name ASC`
+    );
+    return items.map((item) => this.normalise(item));
+  }
+
+  async getItem(itemId: string, client?: PoolClient): Promise<PayoutCatalogItem> {
+    const query = `SELECT * FROM payout_catalog_items WHERE id = $1`;
+    const item = client
+      ? (await client.query<PayoutCatalogItem>(query, [itemId])).rows[0]
+      : await db.queryOne<PayoutCatalogItem>(query, [itemId]);
+
+    if (!item) {
+      throw new AppError(404, 'Catalog item not found');
+    }
+
+    return this.normalise(item);
+  }
+
+  async createItem(input: PayoutCatalogItemInput, audit: AdminAuditInput): Promise<PayoutCatalogItem> {
+    this.assertDenominations(input.method, input.denominations);
+
+    const existing = await db.queryOne(`SELECT id FROM payout_catalog_items WHERE slug = $1`, [input.slug]);
+    if (existing) {
+      throw new AppError(409, 'A catalog item with this slug already exists');
+    }
+
+    const now = new Date();
+    const item = await db.transaction(async (client) => {
+      const result = await client.query<PayoutCatalogItem>(
+        `INSERT INTO payout_catalog_items (
+          id, slug, method, name, provider, points_per_rupee, denominations,
+          min_amount, max_amount, is_active, display_order, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, true, $10, $11, $11)
+        RETURNING *`,
+        [
+          uuidv4(),
+          input.slug,
+          input.method,
+          input.name,
+          input.provider || null,
+          input.points_per_rupee,
+          input.denominations || [],
+          input.min_amount,
+          input.max_amount || null,
+          input.display_order || 0,
+          now,
+        ]
+      );
+      await adminAuditService.record({ ...audit, details: { ...audit.details, item_id: result.rows[0].id } }, client);
+      return result.rows[0];
+    });
+
+    await cache.del(ACTIVE_CATALOG_CACHE_KEY);
+    logger.info('Payout catalog item created', { itemId: item.id, slug: input.slug });
+
+    return this.normalise(item);
+  }
+
+  async updateItem(
+    itemId: string,
+    updates: Partial<PayoutCatalogItemInput> & { is_active?: boolean },
+    audit: AdminAuditInput
+  ): Promise<PayoutCatalogItem> {
+    const current = await this.getItem(itemId);
+    const merged = { ...current, ...updates };
+    this.assertDenominations(merged.method, merged.denominations);
+
+    const item = await db.transaction(async (client) => {
+      const result = await client.query<PayoutCatalogItem>(
+        `UPDATE payout_catalog_items
+         SET name = $1, provider = $2, points_per_rupee = $3, denominations = $4,
+             min_amount = $5, max_amount = $6, is_active = $7, display_order = $8, updated_at = $9
+         WHERE id = $10
+         RETURNING *`,
+        [
+          merged.name,
+          merged.provider || null,
+          merged.points_per_rupee,
+          merged.denominations,
+          merged.min_amount,
+          merged.max_amount || null,
+          merged.is_active,
+          merged.display_order,
+          new Date(),
+          itemId,
+        ]
+      );
+      await adminAuditService.record(audit, client);
+      return result.rows[0];
+    });
+
+    await cache.del(ACTIVE_CATALOG_CACHE_KEY);
+    logger.info('Payout catalog item updated', { itemId, fields: Object.keys(updates) });
+
+    return this.normalise(item);
+  }
+
+  /**
+   * Items are deactivated rather than deleted so past redemptions keep their reference
+   */
+  async deactivateItem(itemId: string, audit: AdminAuditInput): Promise<PayoutCatalogItem> {
+    return this.updateItem(itemId, { is_active: false }, audit);
+  }
+
+  /**
+   * Load pre-purchased gift card codes. Codes are encrypted at rest and
+   * de-duplicated by hash, so re-uploading a batch is harmless.
+   */
+  async addCodes(
+    itemId: string,
+    denomination: number,
+    codes: Array<{ code: string; pin?: string }>,
+    audit: AdminAuditInput,
+    expiresAt?: Date
+  ): Promise<{ added: number; duplicates: number }> {
+    const item = await this.getItem(itemId);
+    if (item.method !== 'GIFT_CARD') {
+      throw new AppError(400, 'Codes can only be added to gift card items');
+    }
+    if (!item.denominations.includes(denomination)) {
+      throw new AppError(400, `Denomination ${denomination} is not offered for ${item.name}`);
+    }
+
+    const added = await db.transaction(async (client) => {
+      let count = 0;
+      for (const { code, pin } of codes) {
+        const result = await client.query(
+          `INSERT INTO gift_card_codes (
+            id, catalog_item_id, denomination, secret_encrypted, code_hash, status, expires_at, created_at
+          ) VALUES ($1, $2, $3, $4, $5, 'AVAILABLE', $6, $7)
+          ON CONFLICT (code_hash) DO NOTHING`,
+          [
+            uuidv4(),
+            itemId,
+            denomination,
+            encryptSecret(JSON.stringify({ code, pin })),
+            this.hashCode(itemId, code),
+            expiresAt || null,
+            new Date(),
+          ]
+        );
+        count += result.rowCount || 0;
+      }
+
+      await adminAuditService.record(
+        { ...audit, details: { ...audit.details, added: count, duplicates: codes.length - count } },
+        client
+      );
+      return count;
+    });
+
+    logger.info('Gift card codes added', { itemId, denomination, added, duplicates: codes.length - added });
+    return { added, duplicates: codes.length - added };
+  }
+
+  async getStock(itemId?: string): Promise<GiftCardStock[]> {
+    const stock = await db.query<GiftCardStock>(
+      `SELECT catalog_item_id, denomination,
+              COUNT(*) FILTER (WHERE status = 'AVAILABLE' AND (expires_at IS NULL OR expires_at > NOW()))::int AS available,
+              COUNT(*) FILTER (WHERE status = 'RESERVED')::int AS reserved,
+              COUNT(*) FILTER (WHERE status = 'DELIVERED')::int AS delivered
+       FROM gift_card_codes
+       WHERE ($1::uuid IS NULL OR catalog_item_id = $1)
+       GROUP BY catalog_item_id, denomination
+       ORDER BY catalog_item_id, denomination`,
+      [itemId || null]
+    );
+    return stock;
+  }
+
+  /**
+   * Hold one unexpired code for a redemption; fails if the denomination is sold out
+   */
+  async reserveCode(client: PoolClient, itemId: string, denomination: number, redemptionId: string): Promise<string> {
+    const result = await client.query<{ id: string }>(
+      `UPDATE gift_card_codes SET status = 'RESERVED', redemption_id = $1, reserved_at = NOW()
+       WHERE id = (
+         SELECT id FROM gift_card_codes
+         WHERE catalog_item_id = $2 AND denomination = $3 AND status = 'AVAILABLE'
+         AND (expires_at IS NULL OR expires_at > NOW())
+         ORDER BY expires_at ASC NULLS LAST, created_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id`,
+      [redemptionId, itemId, denomination]
+    );
+
+    if (!result.rows[0]) {
+      throw new AppError(409, 'This gift card is out of stock');
+    }
+
+    return result.rows[0].id;
+  }
+
+  async getReservedCode(redemptionId: string): Promise<GiftCardCode | null> {
+    return db.queryOne<GiftCardCode>(
+      `SELECT * FROM gift_card_codes WHERE redemption_id = $1 AND status IN ('RESERVED', 'DELIVERED')`,
+      [redemptionId]
+    );
+  }
+
+  /**
+   * Return a reserved code to stock after its redemption failed
+   */
+  async releaseCode(client: PoolClient, redemptionId: string): Promise<void> {
+    await client.query(
+      `UPDATE gift_card_codes SET status = 'AVAILABLE', redemption_id = NULL, reserved_at = NULL
+       WHERE redemption_id = $1 AND status = 'RESERVED'`,
+      [redemptionId]
+    );
+  }
+
+  async markDelivered(client: PoolClient, redemptionId: string): Promise<GiftCardCode | null> {
+    const result = await client.query<GiftCardCode>(
+      `UPDATE gift_card_codes SET status = 'DELIVERED', delivered_at = NOW()
+       WHERE redemption_id = $1 AND status = 'RESERVED'
+       RETURNING *`,
+      [redemptionId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Points charged for a payout of `amountRupees` from this item
+   */
+  pointsFor(item: PayoutCatalogItem, amountRupees: number): number {
+    return Math.ceil(amountRupees * item.points_per_rupee);
+  }
+
+  private assertDenominations(method: PayoutMethod, denominations?: number[]): void {
+    if (method === 'GIFT_CARD' && (!denominations || denominations.length === 0)) {
+      throw new AppError(400, 'Gift card items need at least one denomination');
+    }
+  }
+
+  private hashCode(itemId: string, code: string): string {
+    return crypto.createHash('sha256').update(`${itemId}:${code.trim()}`).digest('hex');
+  }
+
+  // NUMERIC columns come back from pg as strings
+  private normalise(item: PayoutCatalogItem): PayoutCatalogItem {
+    return {
+      ...item,
+      points_per_rupee: Number(item.points_per_rupee),
+      denominations: (item.denominations || []).map(Number),
+    };
+  }
+}
+
+export const payoutCatalogService = new PayoutCatalogService();
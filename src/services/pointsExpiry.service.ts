@@ -0,0 +1,242 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { logger } from '../utils/logger';
+import { isPointsExpired } from '../utils/helpers';
+import { ledgerService } from './ledger.service';
+import NotificationService from './notifications.service';
+
+const REMINDER_DAYS_BEFORE = [7, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A credit to USER_AVAILABLE and how much of it is still unspent
+ */
+export interface PointsLot {
+  transaction_id: string;
+  points: number;
+  remaining: number;
+  expires_at: Date | null;
+  posted_at: Date;
+}
+
+export interface ExpiryBreakdown {
+  totalExpiring: number;
+  expiringIn7Days: number;
+  expiringIn30Days: number;
+  upcoming: Array<{ date: string; points: number }>;
+}
+
+class PointsExpiryService {
+  /**
+   * Rebuild a user's available-point lots from the ledger. Spending (redemptions,
+   * expiries and any other USER_AVAILABLE debits) consumes lots FIFO: soonest
+   * expiry first, then oldest.
+   */
+  async getLots(userId: string, client?: PoolClient): Promise<PointsLot[]> {
+    const lotsQuery = `
+      SELECT lt.id AS transaction_id, le.amount AS points, lt.expires_at, lt.posted_at
+      FROM ledger_entries le
+      JOIN ledger_transactions lt ON lt.id = le.transaction_id
+      WHERE le.user_id = $1 AND le.account = 'USER_AVAILABLE' AND le.amount > 0
+      ORDER BY lt.expires_at ASC NULLS LAST, lt.posted_at ASC, lt.id ASC
+    `;
+    const spentQuery = `
+      SELECT COALESCE(-SUM(amount), 0) AS spent
+      FROM ledger_entries
+      WHERE user_id = $1 AND account = 'USER_AVAILABLE' AND amount < 0
+    `;
+
+    const lots = client
+      ? (await client.query<PointsLot>(lotsQuery, [userId])).rows
+      : await db.query<PointsLot>(lotsQuery, [userId]);
+    const spentRow = client
+      ? (await client.query<{ spent: string }>(spentQuery, [userId])).rows[0]
+      : await db.queryOne<{ spent: string }>(spentQuery, [userId]);
+
+    let unconsumed = Number(spentRow?.spent || 0);
+    return lots.map((lot) => {
+      const points = Number(lot.points);
+      const consumed = Math.min(points, unconsumed);
+      unconsumed -= consumed;
+      return { ...lot, points, remaining: points - consumed };
+    });
+  }
+
+  /**
+   * Expire every lot past its expires_at, posting EXPIRED ledger entries for the unspent part
+   */
+  async expirePoints(): Promise<{ users: number; pointsExpired: number }> {
+    const users = await db.query<{ user_id: string }>(
+      `SELECT DISTINCT le.user_id
+       FROM ledger_transactions lt
+       JOIN ledger_entries le ON le.transaction_id = lt.id AND le.account = 'USER_AVAILABLE' AND le.amount > 0
+       WHERE lt.status = 'AVAILABLE' AND lt.expires_at <= NOW()`
+    );
+
+    let pointsExpired = 0;
+    for (const { user_id } of users) {
+      try {
+        pointsExpired += await this.expireUserPoints(user_id);
+      } catch (error) {
+        logger.error('Points expiry failed', { error, userId: user_id });
+      }
+    }
+
+    logger.info('Points expiry completed', { users: users.length, pointsExpired });
+    return { users: users.length, pointsExpired };
+  }
+
+  async expireUserPoints(userId: string): Promise<number> {
+    return db.transaction(async (client) => {
+      // Serialise with redemptions so the FIFO view cannot change underneath us
+      await client.query(`SELECT user_id FROM wallet WHERE user_id = $1 FOR UPDATE`, [userId]);
+
+      const lots = await this.getLots(userId, client);
+      let expired = 0;
+
+      for (const lot of lots) {
+        if (!lot.expires_at || !isPointsExpired(new Date(lot.expires_at))) {
+          continue;
+        }
+
+        // Claim the lot; status EXPIRED means its expiry has been processed
+        const claim = await client.query(
+          `UPDATE ledger_transactions SET status = 'EXPIRED' WHERE id = $1 AND status = 'AVAILABLE' RETURNING id`,
+          [lot.transaction_id]
+        );
+        if (claim.rowCount === 0 || lot.remaining <= 0) {
+          continue;
+        }
+
+        await ledgerService.post(client, {
+          userId,
+          type: 'EXPIRED',
+          points: lot.remaining,
+          debit: 'USER_AVAILABLE',
+          credit: 'EXPIRED',
+          status: 'EXPIRED',
+          referenceId: lot.transaction_id,
+          reason: 'Points expired',
+          metadata: { expires_at: lot.expires_at },
+        });
+        expired += lot.remaining;
+      }
+
+      if (expired > 0) {
+        logger.info('Points expired', { userId, points: expired });
+      }
+      return expired;
+    });
+  }
+
+  /**
+   * Send points_update notifications 7 days and 1 day before unspent points expire.
+   * Each lot is reminded at most once per threshold.
+   */
+  async sendExpiryReminders(): Promise<{ notified: number }> {
+    let notified = 0;
+
+    for (const daysBefore of REMINDER_DAYS_BEFORE) {
+      const users = await db.query<{ user_id: string }>(
+        `SELECT DISTINCT le.user_id
+         FROM ledger_transactions lt
+         JOIN ledger_entries le ON le.transaction_id = lt.id AND le.account = 'USER_AVAILABLE' AND le.amount > 0
+         WHERE lt.status = 'AVAILABLE'
+         AND lt.expires_at > NOW() AND lt.expires_at <= NOW() + make_interval(days => $1)
+         AND NOT EXISTS (
+           SELECT 1 FROM points_expiry_reminders r WHERE r.transaction_id = lt.id AND r.days_before = $1
+         )`,
+        [daysBefore]
+      );
+
+      for (const { user_id } of users) {
+        try {
+          if (await this.remindUser(user_id, daysBefore)) {
+            notified++;
+          }
+        } catch (error) {
+          logger.error('Points expiry reminder failed', { error, userId: user_id, daysBefore });
+        }
+      }
+    }
+
+    logger.info('Points expiry reminders sent', { notified });
+    return { notified };
+  }
+
+  /**
+   * Upcoming expiries of the user's unspent points, grouped by day
+   */
+  async getExpiryBreakdown(userId: string): Promise<ExpiryBreakdown> {
+    const now = Date.now();
+    const lots = (await this.getLots(userId)).filter(
+      (lot) => lot.remaining > 0 && lot.expires_at && !isPointsExpired(new Date(lot.expires_at))
+    );
+
+    const byDay = new Map<string, number>();
+    let expiringIn7Days = 0;
+    let expiringIn30Days = 0;
+
+    for (const lot of lots) {
+      const expiresAt = new Date(lot.expires_at!);
+      const day = expiresAt.toISOString().slice(0, 10);
+      byDay.set(day, (byDay.get(day) || 0) + lot.remaining);
+
+      if (expiresAt.getTime() - now <= 7 * DAY_MS) {
+        expiringIn7Days += lot.remaining;
+      }
+      if (expiresAt.getTime() - now <= 30 * DAY_MS) {
+        expiringIn30Days += lot.remaining;
+      }
+    }
+
+    return {
+      totalExpiring: lots.reduce((sum, lot) => sum + lot.remaining, 0),
+      expiringIn7Days,
+      expiringIn30Days,
+      upcoming: Array.from(byDay.entries()).map(([date, points]) => ({ date, points })),
+    };
+  }
+
+  private async remindUser(userId: string, daysBefore: number): Promise<boolean> {
+    const horizon = Date.now() + daysBefore * DAY_MS;
+    const due = (await this.getLots(userId)).filter((lot) => {
+      if (!lot.expires_at) {
+        return false;
+      }
+      const expiresAt = new Date(lot.expires_at);
+      return !isPointsExpired(expiresAt) && expiresAt.getTime() <= horizon;
+    });
+
+    // Record the reminder for every lot in the window, spent or not, so it is not re-checked
+    const recorded = await db.query<{ transaction_id: string }>(
+      `INSERT INTO points_expiry_reminders (transaction_id, days_before, sent_at)
+       SELECT UNNEST($1::uuid[]), $2, NOW()
+       ON CONFLICT DO NOTHING
+       RETURNING transaction_id`,
+      [due.map((lot) => lot.transaction_id), daysBefore]
+    );
+    const newlyReminded = new Set(recorded.map((row) => row.transaction_id));
+    const points = due
+      .filter((lot) => newlyReminded.has(lot.transaction_id))
+      .reduce((sum, lot) => sum + lot.remaining, 0);
+
+    if (points <= 0) {
+      return false;
+    }
+
+    await NotificationService.createNotification(
+      userId,
+      'points_update',
+      daysBefore === 1 ? `${points} points expire tomorrow` : `${points} points expire in ${daysBefore} days`,
+      undefined,
+      undefined,
+      'wallet',
+      'Redeem them from your wallet before they expire'
+    );
+
+    return true;
+  }
+}
+
+export const pointsExpiryService = new PointsExpiryService();
@@ -0,0 +1,376 @@
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ledgerService, LedgerTransaction } from './ledger.service';
+import { PayoutMethod, PayoutResult } from '../payouts/PayoutProvider';
+import { PayoutProviderFactory } from '../payouts/PayoutProviderFactory';
+import { payoutCatalogService } from './payoutCatalog.service';
+import { walletInboxService } from './walletInbox.service';
+import NotificationService from './notifications.service';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+import { kycService } from './kyc.service';
+import { taxService } from './tax.service';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const MAX_PAYOUT_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_SECONDS = 60; // 1m, 2m, 4m, 8m between attempts
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+const STUCK_AFTER_MINUTES = 15; // A request left in this state longer than this needs attention
+
+export interface RedemptionRequest {
+  id: string;
+  user_id: string;
+  amount: number;
+  amount_rupees: number;
+  catalog_item_id?: string;
+  method: PayoutMethod;
+  details: Record<string, any>;
+  status: 'pending' | 'processing' | 'success' | 'failed';
+  provider?: string;
+  provider_reference?: string;
+  provider_response?: Record<string, any>;
+  attempts: number;
+  next_attempt_at?: Date;
+  last_error?: string;
+  refund_transaction_id?: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+class RedemptionService {
+  /**
+   * Make one payout attempt for a due pending request.
+   * The request is claimed as `processing` first so concurrent workers cannot pay twice;
+   * the provider call itself happens outside any DB transaction.
+   */
+  async processRedemption(redemptionId: string): Promise<RedemptionRequest | null> {
+    const claimed = await db.queryOne<RedemptionRequest>(
+      `UPDATE redemption_requests
+       SET status = 'processing', attempts = attempts + 1, updated_at = NOW()
+       WHERE id = $1 AND status = 'pending' AND next_attempt_at <= NOW()
+       -- Payouts wait while the account's phone number is changing (see phone_changes.hold_until)
+       AND NOT EXISTS (
+         SELECT 1 FROM phone_changes pc
+         WHERE pc.user_id = redemption_requests.user_id AND pc.hold_until > NOW()
+           AND pc.status IN ('PENDING', 'COOLING_OFF', 'COMPLETED')
+       )
+       RETURNING *`,
+      [redemptionId]
+    );
+
+    if (!claimed) {
+      return null;
+    }
+
+    const provider = PayoutProviderFactory.getProvider(claimed.method);
+    let result: PayoutResult;
+
+    try {
+      result = await provider.sendPayout({
+        redemptionId: claimed.id,
+        userId: claimed.user_id,
+        method: claimed.method,
+        amountPoints: Number(claimed.amount),
+        amountRupees: Number(claimed.amount_rupees),
+        details: await this.payoutDetails(claimed),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Payout provider error';
+      result = { success: false, retryable: true, error: message, response: { error: message } };
+    }
+
+    if (result.success) {
+      const completed = await this.complete(claimed, provider.name, result);
+      logger.info('Redemption fulfilled', { redemptionId: claimed.id, provider: provider.name, attempts: claimed.attempts });
+      return completed;
+    }
+
+    if (result.retryable && claimed.attempts < MAX_PAYOUT_ATTEMPTS) {
+      const delaySeconds = Math.min(
+        RETRY_BASE_DELAY_SECONDS * Math.pow(2, claimed.attempts - 1),
+        RETRY_MAX_DELAY_SECONDS
+      );
+      const retried = await db.queryOne<RedemptionRequest>(
+        `UPDATE redemption_requests
+         SET status = 'pending', provider = $1, provider_response = $2, last_error = $3,
+             next_attempt_at = NOW() + make_interval(secs => $4), updated_at = NOW()
+         WHERE id = $5
+         RETURNING *`,
+        [provider.name, JSON.stringify(result.response), result.error || null, delaySeconds, claimed.id]
+      );
+      logger.warn('Redemption payout failed, will retry', {
+        redemptionId: claimed.id,
+        attempts: claimed.attempts,
+        retryInSeconds: delaySeconds,
+        error: result.error,
+      });
+      return retried;
+    }
+
+    return this.failAndRefund(claimed.id, provider.name, result);
+  }
+
+  /**
+   * Attempt every pending request whose retry time has come
+   */
+  async processDueRedemptions(limit: number = 50): Promise<{ processed: number; succeeded: number; failed: number }> {
+    const due = await db.query<{ id: string }>(
+      `SELECT id FROM redemption_requests rr
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       AND NOT EXISTS (
+         SELECT 1 FROM phone_changes pc
+         WHERE pc.user_id = rr.user_id AND pc.hold_until > NOW()
+           AND pc.status IN ('PENDING', 'COOLING_OFF', 'COMPLETED')
+       )
+       ORDER BY next_attempt_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    let succeeded = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      try {
+        const redemption = await this.processRedemption(id);
+        if (redemption?.status === 'success') {
+          succeeded++;
+        } else if (redemption?.status === 'failed') {
+          failed++;
+        }
+      } catch (error) {
+        logger.error('Redemption processing failed', { error, redemptionId: id });
+      }
+    }
+
+    logger.info('Processed due redemptions', { processed: due.length, succeeded, failed });
+    return { processed: due.length, succeeded, failed };
+  }
+
+  async getRedemptions(
+    status?: RedemptionRequest['status'],
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<RedemptionRequest[]> {
+    return db.query<RedemptionRequest>(
+      `SELECT * FROM redemption_requests
+       WHERE ($1::varchar IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [status || null, limit, offset]
+    );
+  }
+
+  async getUserRedemptions(userId: string, limit: number = 20, offset: number = 0): Promise<RedemptionRequest[]> {
+    return db.query<RedemptionRequest>(
+      `SELECT id, amount, amount_rupees, method, status, attempts, created_at, updated_at, completed_at
+       FROM redemption_requests
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
+    );
+  }
+
+  async getRedemption(redemptionId: string): Promise<RedemptionRequest> {
+    const redemption = await db.queryOne<RedemptionRequest>(
+      `SELECT * FROM redemption_requests WHERE id = $1`,
+      [redemptionId]
+    );
+
+    if (!redemption) {
+      throw new AppError(404, 'Redemption request not found');
+    }
+
+    return redemption;
+  }
+
+  /**
+   * Requests left in `processing` (worker died mid-payout) or pending long past their retry time
+   */
+  async getStuckRedemptions(): Promise<RedemptionRequest[]> {
+    return db.query<RedemptionRequest>(
+      `SELECT * FROM redemption_requests
+       WHERE (status = 'processing' AND updated_at < NOW() - make_interval(mins => $1))
+          OR (status = 'pending' AND next_attempt_at < NOW() - make_interval(mins => $1))
+       ORDER BY created_at ASC`,
+      [STUCK_AFTER_MINUTES]
+    );
+  }
+
+  /**
+   * Admin retry: make a stuck or pending request due now and attempt it.
+   * The redemption id is the provider idempotency key, so re-sending a request
+   * that was stuck mid-payout cannot pay the user twice.
+   */
+  async retryRedemption(redemptionId: string, adminId: string, audit: AdminAuditInput): Promise<RedemptionRequest> {
+    const redemption = await this.getRedemption(redemptionId);
+
+    if (redemption.status === 'success') {
+      throw new AppError(400, 'Redemption has already been fulfilled');
+    }
+    if (redemption.status === 'failed') {
+      throw new AppError(400, 'Redemption failed and its points were refunded');
+    }
+    if (
+      redemption.status === 'processing' &&
+      Date.now() - new Date(redemption.updated_at).getTime() < STUCK_AFTER_MINUTES * 60 * 1000
+    ) {
+      throw new AppError(409, 'Redemption is being processed');
+    }
+
+    await db.transaction(async (client) => {
+      await client.query(
+        `UPDATE redemption_requests SET status = 'pending', next_attempt_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing')`,
+        [redemptionId]
+      );
+      await adminAuditService.record(
+        { ...audit, targetUserId: redemption.user_id, details: { ...audit.details, previous_status: redemption.status } },
+        client
+      );
+    });
+
+    logger.info('Redemption retry requested', { redemptionId, adminId, previousStatus: redemption.status });
+
+    return (await this.processRedemption(redemptionId)) || this.getRedemption(redemptionId);
+  }
+
+  /**
+   * Payout details for the provider; UPI payouts go to the user's KYC-verified UPI ID,
+   * which is only stored masked on the request
+   */
+  private async payoutDetails(claimed: RedemptionRequest): Promise<Record<string, any>> {
+    const details = { ...(claimed.details || {}) };
+
+    if (claimed.method === 'UPI') {
+      const upiId = await kycService.getVerifiedUpi(claimed.user_id);
+      if (!upiId) {
+        throw new Error('No verified UPI ID on file');
+      }
+      details.upiId = upiId;
+    }
+
+    return details;
+  }
+
+  /**
+   * Mark a request fulfilled; gift card codes are handed to the user's wallet inbox in the same transaction
+   */
+  private async complete(claimed: RedemptionRequest, providerName: string, result: PayoutResult): Promise<RedemptionRequest> {
+    let inboxItemId: string | null = null;
+
+    const redemption = await db.transaction(async (client) => {
+      if (claimed.method === 'GIFT_CARD') {
+        const code = await payoutCatalogService.markDelivered(client, claimed.id);
+        if (code) {
+          const item = await payoutCatalogService.getItem(code.catalog_item_id, client);
+          const secret = JSON.parse(decryptSecret(code.secret_encrypted));
+          inboxItemId = await walletInboxService.deliverGiftCard(client, {
+            userId: claimed.user_id,
+            redemptionId: claimed.id,
+            title: `${item.name} gift card ₹${code.denomination}`,
+            payloadEncrypted: encryptSecret(
+              JSON.stringify({
+                ...secret,
+                provider: item.provider || item.name,
+                denomination: code.denomination,
+                expiresAt: code.expires_at || null,
+              })
+            ),
+          });
+        }
+      }
+
+      const updated = await client.query<RedemptionRequest>(
+        `UPDATE redemption_requests
+         SET status = 'success', provider = $1, provider_reference = $2, provider_response = $3,
+             last_error = NULL, next_attempt_at = NULL, updated_at = NOW(), completed_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [providerName, result.reference || null, JSON.stringify(result.response), claimed.id]
+      );
+
+      return updated.rows[0];
+    });
+
+    if (inboxItemId) {
+      NotificationService.createNotification(
+        claimed.user_id,
+        'points_update',
+        'Your gift card is ready',
+        undefined,
+        inboxItemId,
+        'wallet',
+        'Open your wallet inbox to view the code'
+      ).catch((error) => logger.error('Gift card notification failed', { error, redemptionId: claimed.id }));
+    }
+
+    return redemption;
+  }
+
+  /**
+   * Final failure: mark the request failed and return the points, and any TDS withheld,
+   * to the user's available balance
+   */
+  private async failAndRefund(redemptionId: string, providerName: string, result: PayoutResult): Promise<RedemptionRequest> {
+    const redemption = await db.transaction(async (client) => {
+      const redemptionResult = await client.query<RedemptionRequest>(
+        `SELECT * FROM redemption_requests WHERE id = $1 FOR UPDATE`,
+        [redemptionId]
+      );
+      const current = redemptionResult.rows[0];
+      if (current.status === 'failed') {
+        return current;
+      }
+
+      const debitResult = await client.query<LedgerTransaction>(
+        `UPDATE ledger_transactions SET status = 'REVERSED'
+         WHERE reference_id = $1 AND transaction_type = 'REDEEMED' AND status = 'REDEEMED'
+         RETURNING *`,
+        [redemptionId]
+      );
+
+      await payoutCatalogService.releaseCode(client, redemptionId);
+      await taxService.reverseWithholding(client, redemptionId);
+
+      let refundTransactionId: string | null = null;
+      const debit = debitResult.rows[0];
+      if (debit) {
+        const refund = await ledgerService.post(client, {
+          userId: current.user_id,
+          type: 'REVERSED',
+          points: Number(debit.points),
+          debit: 'REDEEMED',
+          credit: 'USER_AVAILABLE',
+          status: 'AVAILABLE',
+          referenceId: redemptionId,
+          reason: 'Redemption failed',
+          metadata: { provider: providerName, error: result.error },
+        });
+        refundTransactionId = refund.id;
+      }
+
+      const updated = await client.query<RedemptionRequest>(
+        `UPDATE redemption_requests
+         SET status = 'failed', provider = $1, provider_response = $2, last_error = $3,
+             refund_transaction_id = $4, next_attempt_at = NULL, updated_at = NOW(), completed_at = NOW()
+         WHERE id = $5
+         RETURNING *`,
+        [providerName, JSON.stringify(result.response), result.error || null, refundTransactionId, redemptionId]
+      );
+
+      return updated.rows[0];
+    });
+
+    logger.warn('Redemption failed and refunded', {
+      redemptionId,
+      userId: redemption.user_id,
+      attempts: redemption.attempts,
+      error: result.error,
+    });
+    return redemption;
+  }
+}
+
+export const redemptionService = new RedemptionService();
@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { logger } from '../utils/logger';
+import { maskPhoneNumber } from '../utils/helpers';
+import { ledgerService } from './ledger.service';
+
+const REFERRAL_RULES = {
+  referrerBonus: 500,
+  refereeBonus: 250,
+  // Verified (heartbeat-backed) watch time the referee needs before either side is rewarded
+  minWatchSeconds: parseInt(process.env.REFERRAL_MIN_WATCH_SECONDS || '1800', 10),
+  qualifyWithinDays: 30,
+  maxSignupsPerReferrerPerDay: 20,
+  // Numbers that only differ in the trailing digits are treated as one SIM batch
+  phonePrefixTrailingDigits: 3,
+  maxReferralsPerPhonePrefix: 2,
+};
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+const CODE_LENGTH = 8;
+
+export interface Referral {
+  id: string;
+  referrer_id: string;
+  referee_id: string;
+  code: string;
+  status: 'PENDING' | 'REWARDED' | 'REJECTED' | 'EXPIRED';
+  rejection_reason?: string;
+  referee_device_id?: string;
+  referee_ip?: string;
+  rewarded_at?: Date;
+  created_at: Date;
+}
+
+export interface ReferralDashboard {
+  code: string;
+  rules: { referrerBonus: number; refereeBonus: number; minWatchMinutes: number; qualifyWithinDays: number };
+  stats: { total: number; pending: number; rewarded: number; rejected: number; expired: number; pointsEarned: number };
+  referredBy?: { status: Referral['status']; watchSeconds: number };
+  referrals: Array<{
+    id: string;
+    referee: string;
+    status: Referral['status'];
+    watchSeconds: number;
+    createdAt: Date;
+    rewardedAt?: Date;
+  }>;
+}
+
+class ReferralService {
+  /**
+   * Get the user's referral code, creating one on first use
+   */
+  async getOrCreateCode(userId: string): Promise<string> {
+    const existing = await db.queryOne<{ code: string }>(`SELECT code FROM referral_codes WHERE user_id = $1`, [userId]);
+    if (existing) {
+      return existing.code;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = this.generateCode();
+      const created = await db.queryOne<{ code: string }>(
+        `INSERT INTO referral_codes (user_id, code, created_at) VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING
+         RETURNING code`,
+        [userId, code, new Date()]
+      );
+      if (created) {
+        return created.code;
+      }
+
+      // Either the code collided or another request created this user's code first
+      const raced = await db.queryOne<{ code: string }>(`SELECT code FROM referral_codes WHERE user_id = $1`, [userId]);
+      if (raced) {
+        return raced.code;
+      }
+    }
+
+    throw new Error('Failed to allocate referral code');
+  }
+
+  async resolveCode(code: string): Promise<string | null> {
+    const row = await db.queryOne<{ user_id: string }>(
+      `SELECT rc.user_id FROM referral_codes rc
+       JOIN users u ON u.id = rc.user_id
+       WHERE rc.code = $1 AND u.account_status = 'ACTIVE'`,
+      [code.toUpperCase()]
+    );
+    return row ? row.user_id : null;
+  }
+
+  /**
+   * Attribute a new signup to a referral code. Abuse checks run here; a
+   * rejected referral is still recorded (with the reason) but never rewarded.
+   */
+  async attributeSignup(
+    referee: { id: string; phone_number: string },
+    signup: { code: string; deviceId?: string; ipAddress?: string }
+  ): Promise<Referral | null> {
+    const code = signup.code.toUpperCase();
+    const referrerId = await this.resolveCode(code);
+    if (!referrerId || referrerId === referee.id) {
+      logger.warn('Referral code not attributable', { code, refereeId: referee.id });
+      return null;
+    }
+
+    const rejectionReason = await this.detectAbuse(referrerId, referee, signup.deviceId);
+
+    const referral = await db.queryOne<Referral>(
+      `INSERT INTO referrals (
+        id, referrer_id, referee_id, code, status, rejection_reason, referee_device_id, referee_ip, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (referee_id) DO NOTHING
+      RETURNING *`,
+      [
+        uuidv4(),
+        referrerId,
+        referee.id,
+        code,
+        rejectionReason ? 'REJECTED' : 'PENDING',
+        rejectionReason,
+        signup.deviceId || null,
+        signup.ipAddress || null,
+        new Date(),
+      ]
+    );
+
+    if (rejectionReason) {
+      logger.warn('Referral rejected', { referrerId, refereeId: referee.id, reason: rejectionReason });
+    } else {
+      logger.info('Referral attributed', { referrerId, refereeId: referee.id });
+    }
+
+    return referral;
+  }
+
+  /**
+   * Reward pending referrals whose referee has reached the watch-time threshold,
+   * and expire those that did not get there in time
+   */
+  async processReferrals(): Promise<{ rewarded: number; expired: number }> {
+    const expired = await db.query(
+      `UPDATE referrals SET status = 'EXPIRED'
+       WHERE status = 'PENDING' AND created_at < NOW() - make_interval(days => $1)
+       RETURNING id`,
+      [REFERRAL_RULES.qualifyWithinDays]
+    );
+
+    const qualified = await db.query<Referral>(
+      `SELECT r.* FROM referrals r
+       WHERE r.status = 'PENDING'
+       AND NOT EXISTS (
+         SELECT 1 FROM wallet w WHERE w.user_id IN (r.referrer_id, r.referee_id) AND w.frozen_at IS NOT NULL
+       )
+       AND (SELECT COALESCE(SUM(ws.seconds_watched), 0) FROM watch_sessions ws WHERE ws.user_id = r.referee_id) >= $1`,
+      [REFERRAL_RULES.minWatchSeconds]
+    );
+
+    let rewarded = 0;
+    for (const referral of qualified) {
+      try {
+        if (await this.rewardReferral(referral.id)) {
+          rewarded++;
+        }
+      } catch (error) {
+        logger.error('Referral reward failed', { error, referralId: referral.id });
+      }
+    }
+
+    logger.info('Referrals processed', { rewarded, expired: expired.length });
+    return { rewarded, expired: expired.length };
+  }
+
+  async getDashboard(userId: string): Promise<ReferralDashboard> {
+    const code = await this.getOrCreateCode(userId);
+
+    const referrals = await db.query<Referral & { referee_phone: string; watch_seconds: string }>(
+      `SELECT r.*, u.phone_number AS referee_phone,
+              (SELECT COALESCE(SUM(ws.seconds_watched), 0) FROM watch_sessions ws WHERE ws.user_id = r.referee_id) AS watch_seconds
+       FROM referrals r
+       JOIN users u ON u.id = r.referee_id
+       WHERE r.referrer_id = $1
+       ORDER BY r.created_at DESC`,
+      [userId]
+    );
+
+    const referredBy = await db.queryOne<{ status: Referral['status']; watch_seconds: string }>(
+      `SELECT r.status,
+              (SELECT COALESCE(SUM(ws.seconds_watched), 0) FROM watch_sessions ws WHERE ws.user_id = r.referee_id) AS watch_seconds
+       FROM referrals r WHERE r.referee_id = $1`,
+      [userId]
+    );
+
+    const count = (status: Referral['status']) => referrals.filter((r) => r.status === status).length;
+
+    return {
+      code,
+      rules: {
+        referrerBonus: REFERRAL_RULES.referrerBonus,
+        refereeBonus: REFERRAL_RULES.refereeBonus,
+        minWatchMinutes: Math.ceil(REFERRAL_RULES.minWatchSeconds / 60),
+        qualifyWithinDays: REFERRAL_RULES.qualifyWithinDays,
+      },
+      stats: {
+        total: referrals.length,
+        pending: count('PENDING'),
+        rewarded: count('REWARDED'),
+        rejected: count('REJECTED'),
+        expired: count('EXPIRED'),
+        pointsEarned: count('REWARDED') * REFERRAL_RULES.referrerBonus,
+      },
+      referredBy: referredBy
+        ? { status: referredBy.status, watchSeconds: parseInt(referredBy.watch_seconds, 10) }
+        : undefined,
+      referrals: referrals.map((r) => ({
+        id: r.id,
+        referee: maskPhoneNumber(r.referee_phone),
+        status: r.status,
+        watchSeconds: Math.min(parseInt(r.watch_seconds, 10), REFERRAL_RULES.minWatchSeconds),
+        createdAt: r.created_at,
+        rewardedAt: r.rewarded_at,
+      })),
+    };
+  }
+
+  /**
+   * Post the referral bonus for both sides. Bonuses go through the normal
+   * pending period so fraud review can still hold them.
+   */
+  private async rewardReferral(referralId: string): Promise<boolean> {
+    return db.transaction(async (client) => {
+      const claim = await client.query<Referral>(
+        `UPDATE referrals SET status = 'REWARDED', rewarded_at = NOW()
+         WHERE id = $1 AND status = 'PENDING'
+         RETURNING *`,
+        [referralId]
+      );
+      const referral = claim.rows[0];
+      if (!referral) {
+        return false;
+      }
+
+      const now = new Date();
+      const availableAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+      const expiresAt = new Date(availableAt.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days after available
+
+      const bonuses: Array<[string, number, 'REFERRER' | 'REFEREE']> = [
+        [referral.referrer_id, REFERRAL_RULES.referrerBonus, 'REFERRER'],
+        [referral.referee_id, REFERRAL_RULES.refereeBonus, 'REFEREE'],
+      ];
+
+      for (const [userId, points, side] of bonuses) {
+        await ledgerService.post(client, {
+          userId,
+          type: 'BONUS',
+          points,
+          debit: 'REWARD_POOL',
+          credit: 'USER_PENDING',
+          status: 'POSTED',
+          category: 'REFERRAL',
+          referenceId: referral.id,
+          reason: side === 'REFERRER' ? 'Referral bonus' : 'Welcome bonus (referred signup)',
+          metadata: { referral_id: referral.id, side },
+          availableAt,
+          expiresAt,
+        });
+      }
+
+      logger.info('Referral rewarded', { referralId, referrerId: referral.referrer_id, refereeId: referral.referee_id });
+      return true;
+    });
+  }
+
+  private async detectAbuse(
+    referrerId: string,
+    referee: { id: string; phone_number: string },
+    deviceId?: string
+  ): Promise<string | null> {
+    if (deviceId) {
+      // Device the referrer has watched on, or that another referred account signed up from
+      const sharedDevice = await db.queryOne(
+        `SELECT 1 FROM watch_sessions WHERE user_id = $1 AND device_id = $2
+         UNION ALL
+         SELECT 1 FROM referrals WHERE (referee_id = $1 OR referrer_id = $1) AND referee_device_id = $2
+         LIMIT 1`,
+        [referrerId, deviceId]
+      );
+      if (sharedDevice) {
+        return 'SAME_DEVICE';
+      }
+    }
+
+    const referrer = await db.queryOne<{ phone_number: string }>(`SELECT phone_number FROM users WHERE id = $1`, [referrerId]);
+    const prefix = this.phonePrefix(referee.phone_number);
+    if (referrer && this.phonePrefix(referrer.phone_number) === prefix) {
+      return 'PHONE_PREFIX';
+    }
+
+    const siblings = await db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM referrals r
+       JOIN users u ON u.id = r.referee_id
+       WHERE r.referrer_id = $1 AND LEFT(u.phone_number, $2) = $3`,
+      [referrerId, prefix.length, prefix]
+    );
+    if (parseInt(siblings?.count || '0', 10) >= REFERRAL_RULES.maxReferralsPerPhonePrefix) {
+      return 'PHONE_PREFIX';
+    }
+
+    const today = await db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM referrals WHERE referrer_id = $1 AND created_at > NOW() - INTERVAL '1 day'`,
+      [referrerId]
+    );
+    if (parseInt(today?.count || '0', 10) >= REFERRAL_RULES.maxSignupsPerReferrerPerDay) {
+      return 'DAILY_LIMIT';
+    }
+
+    return null;
+  }
+
+  private phonePrefix(phoneNumber: string): string {
+    return phoneNumber.slice(0, -REFERRAL_RULES.phonePrefixTrailingDigits);
+  }
+
+  private generateCode(): string {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  }
+}
+
+export const referralService = new ReferralService();
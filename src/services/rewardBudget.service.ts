@@ -0,0 +1,258 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const BUDGETS_CACHE_KEY = 'reward_budgets:all';
+const BUDGETS_CACHE_TTL_SECONDS = 60;
+// Budget row applied to categories without their own
+const DEFAULT_CATEGORY = 'DEFAULT';
+const HISTORY_DAYS = 7;
+
+export type BudgetState = 'OPEN' | 'THROTTLED' | 'PAUSED' | 'UNBUDGETED';
+
+export interface RewardBudget {
+  category: string;
+  daily_points: number;
+  // Above this share of the day's budget, earnings are scaled by throttle_factor
+  throttle_at_percent: number;
+  throttle_factor: number;
+  is_active: boolean;
+  updated_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BudgetAllocation {
+  points: number;
+  sharePoints: number;
+  state: BudgetState;
+  factor: number;
+}
+
+export interface BudgetDashboardEntry {
+  category: string;
+  dailyPoints: number | null;
+  mintedToday: number;
+  percentUsed: number | null;
+  state: BudgetState;
+  burnRatePerHour: number;
+  projectedEndOfDay: number;
+  projectedExhaustionAt: Date | null;
+  history: Array<{ day: string; minted: number }>;
+}
+
+class RewardBudgetService {
+  async getBudgets(): Promise<RewardBudget[]> {
+    const cached = await cache.get(BUDGETS_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const budgets = await db.query<RewardBudget>(`SELECT * FROM reward_budgets ORDER BY category ASC`);
+    await cache.set(BUDGETS_CACHE_KEY, budgets, BUDGETS_CACHE_TTL_SECONDS);
+    return budgets;
+  }
+
+  /**
+   * Create or replace the daily budget for a category
+   */
+  async setBudget(
+    category: string,
+    fields: { daily_points: number; throttle_at_percent?: number; throttle_factor?: number; is_active?: boolean },
+    adminId: string,
+    audit: AdminAuditInput
+  ): Promise<RewardBudget> {
+    const normalised = category.toUpperCase();
+    if (!/^[A-Z_]{1,20}$/.test(normalised)) {
+      throw new AppError(400, 'Invalid category');
+    }
+
+    const budget = await db.transaction(async (client) => {
+      const result = await client.query<RewardBudget>(
+        `INSERT INTO reward_budgets (category, daily_points, throttle_at_percent, throttle_factor, is_active, updated_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+         ON CONFLICT (category) DO UPDATE SET
+           daily_points = EXCLUDED.daily_points,
+           throttle_at_percent = EXCLUDED.throttle_at_percent,
+           throttle_factor = EXCLUDED.throttle_factor,
+           is_active = EXCLUDED.is_active,
+           updated_by = EXCLUDED.updated_by,
+           updated_at = NOW()
+         RETURNING *`,
+        [
+          normalised,
+          fields.daily_points,
+          fields.throttle_at_percent ?? 80,
+          fields.throttle_factor ?? 0.5,
+          fields.is_active ?? true,
+          adminId,
+        ]
+      );
+
+      await adminAuditService.record(audit, client);
+      return result.rows[0];
+    });
+
+    await cache.del(BUDGETS_CACHE_KEY);
+    logger.info('Reward budget updated', { category: normalised, adminId, dailyPoints: fields.daily_points });
+    return budget;
+  }
+
+  /**
+   * Allocate points for an earning (and the creator's share) against today's budget for the category.
+   * The usage row is locked for the rest of the caller's transaction, so concurrent heartbeats
+   * in a category are counted one after another and the budget is never overspent.
+   */
+  async allocate(client: PoolClient, category: string, points: number, sharePoints: number): Promise<BudgetAllocation> {
+    const budget = await this.budgetFor(category);
+    if (!budget) {
+      return { points, sharePoints, state: 'UNBUDGETED', factor: 1 };
+    }
+
+    const usageResult = await client.query<{ minted_points: string }>(
+      `INSERT INTO reward_budget_usage (category, day, minted_points, updated_at)
+       VALUES ($1, CURRENT_DATE, 0, NOW())
+       ON CONFLICT (category, day) DO UPDATE SET updated_at = reward_budget_usage.updated_at
+       RETURNING minted_points`,
+      [budget.category]
+    );
+    const minted = Number(usageResult.rows[0].minted_points);
+    const dailyPoints = Number(budget.daily_points);
+    const remaining = Math.max(dailyPoints - minted, 0);
+    const state = this.stateFor(budget, minted);
+
+    if (state === 'PAUSED' || points + sharePoints === 0) {
+      return { points: 0, sharePoints: 0, state, factor: state === 'PAUSED' ? 0 : 1 };
+    }
+
+    let factor = state === 'THROTTLED' ? Number(budget.throttle_factor) : 1;
+    let allocatedPoints = Math.floor(points * factor);
+    let allocatedShare = Math.floor(sharePoints * factor);
+
+    // The last allocation of the day only gets what is left
+    if (allocatedPoints + allocatedShare > remaining) {
+      factor = remaining / (points + sharePoints);
+      allocatedPoints = Math.floor(points * factor);
+      allocatedShare = Math.min(Math.floor(sharePoints * factor), remaining - allocatedPoints);
+    }
+
+    const newMinted = minted + allocatedPoints + allocatedShare;
+    await client.query(
+      `UPDATE reward_budget_usage SET minted_points = $1, updated_at = NOW() WHERE category = $2 AND day = CURRENT_DATE`,
+      [newMinted, budget.category]
+    );
+
+    const newState = this.stateFor(budget, newMinted);
+    if (newState !== state) {
+      logger.warn('Reward budget state changed', { category: budget.category, state: newState, minted: newMinted, dailyPoints });
+    }
+
+    return { points: allocatedPoints, sharePoints: allocatedShare, state: newState === 'PAUSED' ? 'PAUSED' : state, factor };
+  }
+
+  /**
+   * Today's usage, burn rate over the last hour and an end-of-day forecast per budget.
+   * Categories without a budget of their own are reported under DEFAULT, or as
+   * UNBUDGETED when there is no DEFAULT budget either.
+   */
+  async getDashboard(): Promise<{ generatedAt: Date; categories: BudgetDashboardEntry[] }> {
+    const budgets = (await this.getBudgets()).filter((budget) => budget.is_active);
+
+    const usage = await db.query<{ category: string; day: string; minted_points: string; is_today: boolean }>(
+      `SELECT category, to_char(day, 'YYYY-MM-DD') AS day, minted_points, day = CURRENT_DATE AS is_today
+       FROM reward_budget_usage
+       WHERE day > CURRENT_DATE - $1::int
+       ORDER BY day ASC`,
+      [HISTORY_DAYS]
+    );
+    // Points minted by watching (viewer earnings and creator shares) today and in the last hour
+    const minting = await db.query<{ category: string; today: string; last_hour: string }>(
+      `SELECT COALESCE(category, 'OTHER') AS category,
+              SUM(points) AS today,
+              COALESCE(SUM(points) FILTER (WHERE posted_at >= NOW() - INTERVAL '1 hour'), 0) AS last_hour
+       FROM ledger_transactions
+       WHERE transaction_type IN ('EARN', 'REVENUE_SHARE') AND posted_at >= CURRENT_DATE
+       GROUP BY COALESCE(category, 'OTHER')`
+    );
+    const dayRow = await db.queryOne<{ seconds_left: string }>(
+      `SELECT EXTRACT(EPOCH FROM (CURRENT_DATE + 1) - LOCALTIMESTAMP) AS seconds_left`
+    );
+    const hoursLeft = Number(dayRow?.seconds_left || 0) / 3600;
+
+    const budgetFor = (category: string) =>
+      budgets.find((budget) => budget.category === category) ||
+      budgets.find((budget) => budget.category === DEFAULT_CATEGORY);
+
+    const entries: BudgetDashboardEntry[] = budgets.map((budget) => {
+      const rows = minting.filter((row) => budgetFor(row.category) === budget);
+      const history = usage
+        .filter((row) => row.category === budget.category)
+        .map((row) => ({ day: row.day, minted: Number(row.minted_points) }));
+      const mintedToday = Number(usage.find((row) => row.category === budget.category && row.is_today)?.minted_points || 0);
+      const burnRatePerHour = rows.reduce((sum, row) => sum + Number(row.last_hour), 0);
+      const dailyPoints = Number(budget.daily_points);
+      const projectedEndOfDay = Math.min(Math.round(mintedToday + burnRatePerHour * hoursLeft), dailyPoints);
+
+      let projectedExhaustionAt: Date | null = null;
+      if (burnRatePerHour > 0 && mintedToday < dailyPoints && projectedEndOfDay >= dailyPoints) {
+        projectedExhaustionAt = new Date(Date.now() + ((dailyPoints - mintedToday) / burnRatePerHour) * 60 * 60 * 1000);
+      }
+
+      return {
+        category: budget.category,
+        dailyPoints,
+        mintedToday,
+        percentUsed: dailyPoints > 0 ? Math.round((mintedToday / dailyPoints) * 1000) / 10 : 100,
+        state: this.stateFor(budget, mintedToday),
+        burnRatePerHour,
+        projectedEndOfDay,
+        projectedExhaustionAt,
+        history,
+      };
+    });
+
+    for (const row of minting.filter((r) => !budgetFor(r.category))) {
+      const mintedToday = Number(row.today);
+      const burnRatePerHour = Number(row.last_hour);
+      entries.push({
+        category: row.category,
+        dailyPoints: null,
+        mintedToday,
+        percentUsed: null,
+        state: 'UNBUDGETED',
+        burnRatePerHour,
+        projectedEndOfDay: Math.round(mintedToday + burnRatePerHour * hoursLeft),
+        projectedExhaustionAt: null,
+        history: [],
+      });
+    }
+
+    entries.sort((a, b) => a.category.localeCompare(b.category));
+    return { generatedAt: new Date(), categories: entries };
+  }
+
+  private async budgetFor(category: string): Promise<RewardBudget | null> {
+    const budgets = (await this.getBudgets()).filter((budget) => budget.is_active);
+    return (
+      budgets.find((budget) => budget.category === category) ||
+      budgets.find((budget) => budget.category === DEFAULT_CATEGORY) ||
+      null
+    );
+  }
+
+  private stateFor(budget: RewardBudget, minted: number): BudgetState {
+    const dailyPoints = Number(budget.daily_points);
+    if (minted >= dailyPoints) {
+      return 'PAUSED';
+    }
+    if (minted >= (dailyPoints * Number(budget.throttle_at_percent)) / 100) {
+      return 'THROTTLED';
+    }
+    return 'OPEN';
+  }
+}
+
+export const rewardBudgetService = new RewardBudgetService();
@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { adminAuditService, AdminAuditInput } from './adminAudit.service';
+
+const ACTIVE_POLICY_CACHE_KEY = 'reward_policy:active';
+const ACTIVE_POLICY_CACHE_TTL_SECONDS = 60;
+
+export interface RewardPolicy {
+  id: string;
+  version: number;
+  effective_from: Date;
+  // Points per 10 minutes of watch time; DEFAULT applies to unlisted categories
+  category_rates: Record<string, number>;
+  // Multiplier per users.expert_status
+  tier_multipliers: Record<string, number>;
+  daily_user_cap: number;
+  daily_video_cap: number;
+  category_daily_caps: Record<string, number>;
+  // Each completed rewatch of a video multiplies its earnings by this factor
+  rewatch_decay: number;
+  min_rewatch_factor: number;
+  // Fraction of the points minted for a watch that is also credited to the video's creator
+  creator_revenue_share: number;
+  // Days a creator's share stays pending before it becomes available
+  creator_holding_days: number;
+  notes?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export type RewardPolicyInput = Omit<RewardPolicy, 'id' | 'version' | 'created_at' | 'created_by'>;
+
+export interface EarningCalculation {
+  points: number;
+  basePoints: number;
+  ratePerTenMin: number;
+  multiplier: number;
+  rewatchFactor: number;
+  policyVersion: number;
+  capReached?: 'DAILY_USER_CAP' | 'DAILY_VIDEO_CAP' | 'CATEGORY_CAP';
+  creatorSharePoints: number;
+  creatorHoldingDays: number;
+}
+
+class RewardPolicyService {
+  /**
+   * Get the policy in force now (latest effective_from not in the future)
+   */
+  async getActivePolicy(): Promise<RewardPolicy> {
+    const cached = await cache.get(ACTIVE_POLICY_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const policy = await db.queryOne<RewardPolicy>(
+      `SELECT * FROM reward_policies
+       WHERE effective_from <= NOW()
+       ORDER BY effective_from DESC, version DESC
+       LIMIT 1`
+    );
+
+    if (!policy) {
+      throw new Error('No active reward policy configured');
+    }
+
+    await cache.set(ACTIVE_POLICY_CACHE_KEY, policy, ACTIVE_POLICY_CACHE_TTL_SECONDS);
+    return policy;
+  }
+
+  async getPolicyByVersion(version: number): Promise<RewardPolicy | null> {
+    return db.queryOne<RewardPolicy>(`SELECT * FROM reward_policies WHERE version = $1`, [version]);
+  }
+
+  async listPolicies(): Promise<RewardPolicy[]> {
+    return db.query<RewardPolicy>(`SELECT * FROM reward_policies ORDER BY version DESC`);
+  }
+
+  /**
+   * Publish a new policy version. Policies are immutable and cannot take
+   * effect in the past, so every posted earning stays explainable.
+   */
+  async createPolicy(input: RewardPolicyInput, adminId: string, audit: AdminAuditInput): Promise<RewardPolicy> {
+    const effectiveFrom = new Date(input.effective_from);
+    if (effectiveFrom.getTime() < Date.now() - 60 * 1000) {
+      throw new AppError(400, 'Policy cannot take effect in the past');
+    }
+
+    const policy = await db.transaction(async (client) => {
+      // Serialise version allocation
+      await client.query('LOCK TABLE reward_policies IN EXCLUSIVE MODE');
+      const latest = await client.query<{ version: number }>(
+        `SELECT COALESCE(MAX(version), 0) AS version FROM reward_policies`
+      );
+      const version = Number(latest.rows[0].version) + 1;
+
+      const result = await client.query<RewardPolicy>(
+        `INSERT INTO reward_policies (
+          id, version, effective_from, category_rates, tier_multipliers,
+          daily_user_cap, daily_video_cap, category_daily_caps,
+          rewatch_decay, min_rewatch_factor, creator_revenue_share, creator_holding_days,
+          notes, created_by, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING *`,
+        [
+          uuidv4(),
+          version,
+          effectiveFrom,
+          JSON.stringify(input.category_rates),
+          JSON.stringify(input.tier_multipliers),
+          input.daily_user_cap,
+          input.daily_video_cap,
+          JSON.stringify(input.category_daily_caps || {}),
+          input.rewatch_decay,
+          input.min_rewatch_factor,
+          input.creator_revenue_share,
+          input.creator_holding_days,
+          input.notes || null,
+          adminId,
+          new Date(),
+        ]
+      );
+
+      await adminAuditService.record({ ...audit, details: { ...audit.details, version } }, client);
+      return result.rows[0];
+    });
+
+    await cache.del(ACTIVE_POLICY_CACHE_KEY);
+    logger.info('Reward policy published', { version: policy.version, effectiveFrom, adminId });
+
+    return policy;
+  }
+
+  /**
+   * Work out how many points a slice of watch time earns under the active
+   * policy, after tier multiplier, rewatch decay and daily caps.
+   * Locks the user's wallet row so concurrent earnings see the same cap usage.
+   */
+  async calculateEarning(
+    client: PoolClient,
+    params: {
+      userId: string;
+      videoId: string;
+      category: string;
+      watchDurationSeconds: number;
+      tier: string;
+    }
+  ): Promise<EarningCalculation> {
+    const policy = await this.getActivePolicy();
+
+    const ratePerTenMin = policy.category_rates[params.category] ?? policy.category_rates.DEFAULT ?? 0;
+    const multiplier = policy.tier_multipliers[params.tier] ?? 1;
+    const basePoints = Math.floor((params.watchDurationSeconds / 600) * ratePerTenMin);
+
+    const calculation: EarningCalculation = {
+      points: 0,
+      basePoints,
+      ratePerTenMin,
+      multiplier,
+      rewatchFactor: 1,
+      policyVersion: policy.version,
+      creatorSharePoints: 0,
+      creatorHoldingDays: policy.creator_holding_days,
+    };
+
+    if (basePoints <= 0) {
+      return calculation;
+    }
+
+    await client.query(`SELECT user_id FROM wallet WHERE user_id = $1 FOR UPDATE`, [params.userId]);
+
+    const usageResult = await client.query<{
+      earned_today: string;
+      earned_video_today: string;
+      earned_category_today: string;
+      video_seconds: string;
+      duration_seconds: number | null;
+    }>(
+      `SELECT
+         COALESCE(SUM(points) FILTER (WHERE posted_at >= date_trunc('day', NOW())), 0) AS earned_today,
+         COALESCE(SUM(points) FILTER (WHERE posted_at >= date_trunc('day', NOW()) AND video_id = $2), 0) AS earned_video_today,
+         COALESCE(SUM(points) FILTER (WHERE posted_at >= date_trunc('day', NOW()) AND category = $3), 0) AS earned_category_today,
+         COALESCE(SUM(watch_duration_seconds) FILTER (WHERE video_id = $2), 0) AS video_seconds,
+         (SELECT duration_seconds FROM videos WHERE id = $2) AS duration_seconds
+       FROM ledger_transactions
+       WHERE user_id = $1 AND transaction_type = 'EARN' AND status <> 'REVERSED'`,
+      [params.userId, params.videoId, params.category]
+    );
+    const usage = usageResult.rows[0];
+
+    // Diminishing returns: each full prior viewing of this video decays the rate
+    const duration = Number(usage.duration_seconds) || 0;
+    const completedViews = duration > 0 ? Math.floor(parseInt(usage.video_seconds, 10) / duration) : 0;
+    calculation.rewatchFactor = Math.max(
+      Number(policy.min_rewatch_factor),
+      Math.pow(Number(policy.rewatch_decay), completedViews)
+    );
+
+    let points = Math.floor(basePoints * multiplier * calculation.rewatchFactor);
+
+    const limits: Array<[NonNullable<EarningCalculation['capReached']>, number]> = [
+      ['DAILY_USER_CAP', policy.daily_user_cap - parseInt(usage.earned_today, 10)],
+      ['DAILY_VIDEO_CAP', policy.daily_video_cap - parseInt(usage.earned_video_today, 10)],
+    ];
+    const categoryCap = policy.category_daily_caps[params.category];
+    if (categoryCap !== undefined) {
+      limits.push(['CATEGORY_CAP', categoryCap - parseInt(usage.earned_category_today, 10)]);
+    }
+
+    for (const [cap, remaining] of limits) {
+      if (points >= remaining) {
+        points = Math.max(0, remaining);
+        calculation.capReached = cap;
+      }
+    }
+
+    calculation.points = points;
+    calculation.creatorSharePoints = Math.floor(points * Number(policy.creator_revenue_share));
+    return calculation;
+  }
+}
+
+export const rewardPolicyService = new RewardPolicyService();
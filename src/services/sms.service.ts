@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { SmsProviderRegistry } from '../sms/SmsProviderRegistry';
+import { SmsCallbackRequest, SmsDeliveryStatus } from '../sms/SmsProvider';
+import { renderSmsTemplate, resolveSmsLocale, SmsTemplateKey } from '../sms/templates';
+
+// A later callback never moves a message back to an earlier status
+const STATUS_RANK: Record<SmsDeliveryStatus, number> = {
+  QUEUED: 0,
+  SENT: 1,
+  UNDELIVERED: 2,
+  FAILED: 2,
+  DELIVERED: 3,
+};
+
+export interface SmsMessageRecord {
+  id: string;
+  phone_number: string;
+  template: SmsTemplateKey;
+  locale: string;
+  provider: string;
+  provider_message_id?: string;
+  attempt: number;
+  status: SmsDeliveryStatus;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+  delivered_at?: Date;
+}
+
+class SmsService {
+  /**
+   * Send a templated message, failing over through the configured providers in order.
+   * Every attempt is recorded; the message body is not, since it may carry a code.
+   */
+  async send(
+    phoneNumber: string,
+    template: SmsTemplateKey,
+    variables: Record<string, string>,
+    locale?: string
+  ): Promise<SmsMessageRecord> {
+    const resolvedLocale = resolveSmsLocale(locale);
+    const body = renderSmsTemplate(template, resolvedLocale, variables);
+    const providers = SmsProviderRegistry.getChain();
+
+    for (const [index, provider] of providers.entries()) {
+      const messageId = uuidv4();
+      let status: SmsDeliveryStatus = 'FAILED';
+      let providerMessageId: string | undefined;
+      let error: string | undefined;
+
+      try {
+        const result = await provider.send({ messageId, to: phoneNumber, body, template, locale: resolvedLocale, variables });
+        status = result.success ? result.status || 'SENT' : 'FAILED';
+        providerMessageId = result.providerMessageId;
+        error = result.error;
+      } catch (err) {
+        error = (err as Error).message;
+      }
+
+      const record = await db.queryOne<SmsMessageRecord>(
+        `INSERT INTO sms_messages (
+          id, phone_number, template, locale, provider, provider_message_id, attempt, status, error, created_at, updated_at, delivered_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW(), $10)
+        RETURNING *`,
+        [
+          messageId,
+          phoneNumber,
+          template,
+          resolvedLocale,
+          provider.name,
+          providerMessageId || null,
+          index + 1,
+          status,
+          error || null,
+          status === 'DELIVERED' ? new Date() : null,
+        ]
+      );
+
+      if (status !== 'FAILED') {
+        logger.info('SMS sent', { messageId, provider: provider.name, template, attempt: index + 1 });
+        return record!;
+      }
+
+      logger.warn('SMS provider failed; trying the next one', { messageId, provider: provider.name, template, error });
+    }
+
+    logger.error('SMS could not be sent by any provider', { template, providers: providers.map((p) => p.name) });
+    throw new AppError(503, 'Could not send SMS right now. Please try again.');
+  }
+
+  async sendOtp(phoneNumber: string, otp: string, expiryMinutes: number, locale?: string): Promise<SmsMessageRecord> {
+    return this.send(phoneNumber, 'OTP', { otp, minutes: String(expiryMinutes) }, locale);
+  }
+
+  /**
+   * Record a provider's delivery-status callback. The raw event is always kept;
+   * the matching message moves forward to the reported status.
+   */
+  async recordStatusCallback(providerName: string, request: SmsCallbackRequest): Promise<number> {
+    const provider = SmsProviderRegistry.get(providerName);
+    if (!provider || !provider.parseStatusCallback) {
+      throw new AppError(404, 'Unknown SMS provider');
+    }
+
+    const updates = provider.parseStatusCallback(request);
+    if (!updates) {
+      throw new AppError(401, 'Invalid callback signature');
+    }
+
+    let matched = 0;
+    for (const update of updates) {
+      await db.transaction(async (client) => {
+        const messageResult = await client.query<SmsMessageRecord>(
+          `SELECT * FROM sms_messages WHERE provider = $1 AND provider_message_id = $2 FOR UPDATE`,
+          [provider.name, update.providerMessageId]
+        );
+        const message = messageResult.rows[0];
+
+        await client.query(
+          `INSERT INTO sms_delivery_events (id, sms_message_id, provider, provider_message_id, status, error_code, payload, received_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+          [
+            uuidv4(),
+            message?.id || null,
+            provider.name,
+            update.providerMessageId,
+            update.status,
+            update.errorCode || null,
+            JSON.stringify(update.payload),
+          ]
+        );
+
+        if (!message) {
+          return;
+        }
+        matched += 1;
+
+        if (STATUS_RANK[update.status] > STATUS_RANK[message.status]) {
+          await client.query(
+            `UPDATE sms_messages
+             SET status = $1, error = COALESCE($2, error), updated_at = NOW(),
+                 delivered_at = CASE WHEN $1 = 'DELIVERED' THEN NOW() ELSE delivered_at END
+             WHERE id = $3`,
+            [update.status, update.errorCode ? `Provider error ${update.errorCode}` : null, message.id]
+          );
+        }
+      });
+    }
+
+    if (updates.length > matched) {
+      logger.warn('SMS delivery callback for unknown messages', { provider: provider.name, unmatched: updates.length - matched });
+    }
+    return matched;
+  }
+}
+
+export const smsService = new SmsService();
@@ -0,0 +1,332 @@
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { LedgerTransaction } from './ledger.service';
+import { renderPdf, PdfLine } from '../utils/pdf';
+import { parseMonth, toCsvCell } from '../utils/helpers';
+
+export const STATEMENT_TYPES: LedgerTransaction['transaction_type'][] = [
+  'EARN',
+  'BONUS',
+  'REVENUE_SHARE',
+  'TIP',
+  'ADJUSTMENT',
+  'AVAILABLE',
+  'REDEEMED',
+  'TAX_WITHHELD',
+  'EXPIRED',
+  'REVERSED',
+];
+
+export interface StatementFilters {
+  from?: Date;
+  to?: Date;
+  types?: LedgerTransaction['transaction_type'][];
+  videoId?: string;
+  creatorId?: string;
+}
+
+export interface StatementLine {
+  id: string;
+  transaction_type: LedgerTransaction['transaction_type'];
+  status: LedgerTransaction['status'];
+  points: number;
+  // Signed change to the user's pending and available balances
+  pending_change: number;
+  available_change: number;
+  category?: string;
+  video_id?: string;
+  video_title?: string;
+  creator_id?: string;
+  reason?: string;
+  reference_id?: string;
+  posted_at: Date;
+}
+
+export interface CategoryTotal {
+  category: string;
+  earned: number;
+  spent: number;
+  reversed: number;
+  expired: number;
+  net: number;
+}
+
+export interface MonthlyStatement {
+  month: string;
+  from: Date;
+  to: Date;
+  openingBalance: { pending: number; available: number };
+  closingBalance: { pending: number; available: number };
+  categoryTotals: CategoryTotal[];
+  lines: StatementLine[];
+}
+
+class StatementService {
+  /**
+   * Paginated ledger history for a user, newest first
+   */
+  async getStatement(
+    userId: string,
+    filters: StatementFilters,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ lines: StatementLine[]; total: number }> {
+    const { where, params } = this.buildFilters(userId, filters);
+
+    const lines = await db.query<StatementLine>(
+      `${this.linesQuery(where)}
+       ORDER BY lt.posted_at DESC, lt.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    const count = await db.queryOne<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM ledger_transactions lt WHERE ${where}`,
+      params
+    );
+
+    return { lines: lines.map((line) => this.normalise(line)), total: parseInt(count?.total || '0', 10) };
+  }
+
+  /**
+   * Full statement for a calendar month (YYYY-MM, UTC) with balances and per-category totals
+   */
+  async getMonthlyStatement(userId: string, month: string): Promise<MonthlyStatement> {
+    const range = parseMonth(month);
+    if (!range) {
+      throw new AppError(400, 'Month must be in YYYY-MM format');
+    }
+
+    const { from, to } = range;
+    if (from.getTime() > Date.now()) {
+      throw new AppError(400, 'Statement month is in the future');
+    }
+
+    const { where, params } = this.buildFilters(userId, { from, to });
+    const lines = (
+      await db.query<StatementLine>(`${this.linesQuery(where)} ORDER BY lt.posted_at ASC, lt.id ASC`, params)
+    ).map((line) => this.normalise(line));
+
+    const [opening, closing] = await Promise.all([this.balanceAt(userId, from), this.balanceAt(userId, to)]);
+
+    return {
+      month,
+      from,
+      to,
+      openingBalance: opening,
+      closingBalance: closing,
+      categoryTotals: this.categoryTotals(lines),
+      lines,
+    };
+  }
+
+  /**
+   * Render a monthly statement as a downloadable CSV or PDF file
+   */
+  async exportMonthlyStatement(
+    userId: string,
+    month: string,
+    format: 'csv' | 'pdf'
+  ): Promise<{ filename: string; contentType: string; body: string | Buffer }> {
+    const statement = await this.getMonthlyStatement(userId, month);
+    const filename = `wisereels-statement-${month}.${format}`;
+
+    if (format === 'csv') {
+      return { filename, contentType: 'text/csv; charset=utf-8', body: this.toCsv(statement) };
+    }
+
+    const user = await db.queryOne<{ username: string }>(`SELECT username FROM users WHERE id = $1`, [userId]);
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: this.toPdf(statement, { username: user?.username || 'unknown', userId }),
+    };
+  }
+
+  toCsv(statement: MonthlyStatement): string {
+    const header = [
+      'posted_at',
+      'transaction_id',
+      'type',
+      'status',
+      'points',
+      'pending_change',
+      'available_change',
+      'category',
+      'video_id',
+      'video_title',
+      'creator_id',
+      'reason',
+      'reference_id',
+    ];
+
+    const rows = statement.lines.map((line) => [
+      new Date(line.posted_at).toISOString(),
+      line.id,
+      line.transaction_type,
+      line.status,
+      line.points,
+      line.pending_change,
+      line.available_change,
+      line.category,
+      line.video_id,
+      line.video_title,
+      line.creator_id,
+      line.reason,
+      line.reference_id,
+    ]);
+
+    return [header, ...rows].map((row) => row.map((value) => toCsvCell(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  toPdf(statement: MonthlyStatement, user: { username: string; userId: string }): Buffer {
+    const totalsColumns = [0, 150, 220, 290, 360, 430];
+    const linesColumns = [0, 85, 150, 200, 280];
+
+    const lines: PdfLine[] = [
+      { text: 'WiseReels Points Statement', size: 16, bold: true },
+      { text: `Statement period: ${statement.month} (UTC)`, gap: 4 },
+      { text: `User: @${user.username} (${user.userId})` },
+      { text: `Generated: ${new Date().toISOString()}` },
+      { text: 'Balances', size: 12, bold: true, gap: 12 },
+      this.row(['', 'Pending', 'Available'], [0, 150, 220], true),
+      this.row(['Opening', statement.openingBalance.pending, statement.openingBalance.available], [0, 150, 220]),
+      this.row(['Closing', statement.closingBalance.pending, statement.closingBalance.available], [0, 150, 220]),
+      { text: 'Totals by category (points)', size: 12, bold: true, gap: 12 },
+      this.row(['Category', 'Earned', 'Spent', 'Reversed', 'Expired', 'Net'], totalsColumns, true),
+      ...statement.categoryTotals.map((total) =>
+        this.row([total.category, total.earned, total.spent, total.reversed, total.expired, total.net], totalsColumns)
+      ),
+      { text: `Transactions (${statement.lines.length})`, size: 12, bold: true, gap: 12 },
+      this.row(['Date (UTC)', 'Type', 'Points', 'Category', 'Details'], linesColumns, true),
+      ...statement.lines.map((line) =>
+        this.row(
+          [
+            new Date(line.posted_at).toISOString().replace('T', ' ').slice(0, 16),
+            line.transaction_type,
+            line.pending_change + line.available_change || line.points,
+            line.category || '-',
+            [line.reason, line.video_title || line.reference_id].filter(Boolean).join(' - ').slice(0, 60),
+          ],
+          linesColumns,
+          false,
+          8
+        )
+      ),
+    ];
+
+    if (statement.lines.length === 0) {
+      lines.push({ text: 'No transactions in this period.' });
+    }
+
+    return renderPdf(lines);
+  }
+
+  private buildFilters(userId: string, filters: StatementFilters): { where: string; params: any[] } {
+    // Include every transaction with an entry for the user (covers transfers from other users)
+    const conditions = [
+      `EXISTS (SELECT 1 FROM ledger_entries le WHERE le.transaction_id = lt.id AND le.user_id = $1)`,
+    ];
+    const params: any[] = [userId];
+
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`lt.posted_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`lt.posted_at < $${params.length}`);
+    }
+    if (filters.types && filters.types.length > 0) {
+      params.push(filters.types);
+      conditions.push(`lt.transaction_type = ANY($${params.length})`);
+    }
+    if (filters.videoId) {
+      params.push(filters.videoId);
+      conditions.push(`lt.video_id = $${params.length}`);
+    }
+    if (filters.creatorId) {
+      params.push(filters.creatorId);
+      conditions.push(`lt.creator_id = $${params.length}`);
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  private linesQuery(where: string): string {
+    return `
+      SELECT lt.id, lt.transaction_type, lt.status, lt.points, lt.category, lt.video_id, v.title AS video_title,
+             lt.creator_id, lt.reason, lt.reference_id, lt.posted_at,
+             COALESCE((SELECT SUM(le.amount) FROM ledger_entries le
+                       WHERE le.transaction_id = lt.id AND le.user_id = $1 AND le.account = 'USER_PENDING'), 0) AS pending_change,
+             COALESCE((SELECT SUM(le.amount) FROM ledger_entries le
+                       WHERE le.transaction_id = lt.id AND le.user_id = $1 AND le.account = 'USER_AVAILABLE'), 0) AS available_change
+      FROM ledger_transactions lt
+      LEFT JOIN videos v ON v.id = lt.video_id
+      WHERE ${where}`;
+  }
+
+  private async balanceAt(userId: string, at: Date): Promise<{ pending: number; available: number }> {
+    const row = await db.queryOne<{ pending: string; available: string }>(
+      `SELECT
+         COALESCE(SUM(amount) FILTER (WHERE account = 'USER_PENDING'), 0) AS pending,
+         COALESCE(SUM(amount) FILTER (WHERE account = 'USER_AVAILABLE'), 0) AS available
+       FROM ledger_entries
+       WHERE user_id = $1 AND created_at < $2`,
+      [userId, at]
+    );
+    return { pending: Number(row?.pending || 0), available: Number(row?.available || 0) };
+  }
+
+  /**
+   * Per-category totals of the user's balance changes. Moves between the
+   * user's own pending and available balances net to zero and are skipped.
+   */
+  private categoryTotals(lines: StatementLine[]): CategoryTotal[] {
+    const totals = new Map<string, CategoryTotal>();
+
+    for (const line of lines) {
+      const change = line.pending_change + line.available_change;
+      if (change === 0) {
+        continue;
+      }
+
+      const category = line.category || (line.transaction_type === 'REDEEMED' ? 'REDEMPTIONS' : 'OTHER');
+      const total = totals.get(category) || { category, earned: 0, spent: 0, reversed: 0, expired: 0, net: 0 };
+
+      if (line.transaction_type === 'EXPIRED') {
+        total.expired += -change;
+      } else if (line.transaction_type === 'REVERSED') {
+        total.reversed += change;
+      } else if (change > 0) {
+        total.earned += change;
+      } else {
+        total.spent += -change;
+      }
+      total.net += change;
+      totals.set(category, total);
+    }
+
+    return Array.from(totals.values()).sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  private normalise(line: StatementLine): StatementLine {
+    return {
+      ...line,
+      points: Number(line.points),
+      pending_change: Number(line.pending_change),
+      available_change: Number(line.available_change),
+    };
+  }
+
+  private row(values: Array<string | number>, columns: number[], bold: boolean = false, size?: number): PdfLine {
+    const [first, ...rest] = values.map((value) => String(value));
+    return {
+      text: first,
+      cells: rest.map((text, index) => ({ text, x: columns[index + 1] })),
+      bold,
+      size,
+    };
+  }
+}
+
+export const statementService = new StatementService();
@@ -0,0 +1,411 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ledgerService } from './ledger.service';
+import { renderPdf, PdfLine } from '../utils/pdf';
+import { decryptSecret, maskSecret } from '../utils/encryption';
+import { financialYearOf, parseFinancialYear, toCsvCell } from '../utils/helpers';
+
+/**
+ * TDS on the value of rewards paid out (section 194R). Once a user's redemptions in a
+ * financial year cross the threshold, tax is due on the whole year's value; each
+ * redemption withholds whatever is due and not yet withheld.
+ */
+export const TDS_RULES = {
+  section: '194R',
+  thresholdRupees: 20000,
+  rate: 0.1,
+  // Section 206AA: higher rate when no verified PAN is on file
+  rateWithoutPan: 0.2,
+};
+
+export interface TaxWithholding {
+  id: string;
+  user_id: string;
+  redemption_id: string;
+  financial_year: string;
+  section: string;
+  gross_rupees: number;
+  cumulative_rupees: number;
+  rate: number;
+  pan_verified: boolean;
+  tds_rupees: number;
+  tds_points: number;
+  status: 'WITHHELD' | 'REVERSED';
+  transaction_id: string;
+  reversal_transaction_id?: string;
+  created_at: Date;
+}
+
+export interface WithholdingCalculation {
+  financialYear: string;
+  cumulativeRupees: number;
+  rate: number;
+  panVerified: boolean;
+  tdsRupees: number;
+}
+
+export interface AnnualTaxStatement {
+  financialYear: string;
+  section: string;
+  thresholdRupees: number;
+  pan?: string;
+  panVerified: boolean;
+  totals: { redeemedRupees: number; tdsRupees: number; tdsPoints: number; redemptions: number };
+  redemptions: Array<{
+    redemption_id: string;
+    created_at: Date;
+    method: string;
+    amount_rupees: number;
+    status: string;
+    tds_rupees: number;
+    tds_points: number;
+    rate?: number;
+  }>;
+}
+
+const QUARTERS: Record<string, [number, number]> = {
+  // Months from the start of the financial year (April = 0)
+  Q1: [0, 3],
+  Q2: [3, 6],
+  Q3: [6, 9],
+  Q4: [9, 12],
+};
+
+class TaxService {
+  /**
+   * Tax due on a new redemption given everything redeemed and withheld so far this financial year.
+   * Call inside the redemption transaction once the wallet row is locked.
+   */
+  async calculateWithholding(client: PoolClient, userId: string, amountRupees: number): Promise<WithholdingCalculation> {
+    const financialYear = financialYearOf(new Date());
+    const { from, to } = parseFinancialYear(financialYear)!;
+
+    const totals = await client.query<{ redeemed: string; withheld: string; pan_verified: boolean }>(
+      `SELECT
+         (SELECT COALESCE(SUM(amount_rupees), 0) FROM redemption_requests
+          WHERE user_id = $1 AND status <> 'failed' AND created_at >= $2 AND created_at < $3) AS redeemed,
+         (SELECT COALESCE(SUM(tds_rupees), 0) FROM tax_withholdings
+          WHERE user_id = $1 AND financial_year = $4 AND status = 'WITHHELD') AS withheld,
+         EXISTS (SELECT 1 FROM kyc_profiles WHERE user_id = $1 AND pan_status = 'VERIFIED') AS pan_verified`,
+      [userId, from, to, financialYear]
+    );
+    const row = totals.rows[0];
+
+    const cumulativeRupees = Number(row.redeemed) + amountRupees;
+    const panVerified = row.pan_verified;
+    const rate = panVerified ? TDS_RULES.rate : TDS_RULES.rateWithoutPan;
+
+    let tdsRupees = 0;
+    if (cumulativeRupees > TDS_RULES.thresholdRupees) {
+      // TDS is rounded to the nearest rupee (section 288B)
+      tdsRupees = Math.max(Math.round(cumulativeRupees * rate) - Number(row.withheld), 0);
+    }
+
+    return { financialYear, cumulativeRupees, rate, panVerified, tdsRupees };
+  }
+
+  /**
+   * Post the withholding as its own ledger line and record it against the redemption
+   */
+  async recordWithholding(
+    client: PoolClient,
+    withholding: WithholdingCalculation & { userId: string; redemptionId: string; grossRupees: number; points: number }
+  ): Promise<TaxWithholding> {
+    const transaction = await ledgerService.post(client, {
+      userId: withholding.userId,
+      type: 'TAX_WITHHELD',
+      points: withholding.points,
+      debit: 'USER_AVAILABLE',
+      credit: 'TAX_WITHHELD',
+      status: 'POSTED',
+      category: 'TAX',
+      referenceId: withholding.redemptionId,
+      reason: `TDS u/s ${TDS_RULES.section}`,
+      metadata: {
+        financial_year: withholding.financialYear,
+        tds_rupees: withholding.tdsRupees,
+        rate: withholding.rate,
+      },
+    });
+
+    const result = await client.query<TaxWithholding>(
+      `INSERT INTO tax_withholdings (
+        id, user_id, redemption_id, financial_year, section, gross_rupees, cumulative_rupees,
+        rate, pan_verified, tds_rupees, tds_points, status, transaction_id, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'WITHHELD', $12, NOW())
+      RETURNING *`,
+      [
+        uuidv4(),
+        withholding.userId,
+        withholding.redemptionId,
+        withholding.financialYear,
+        TDS_RULES.section,
+        withholding.grossRupees,
+        withholding.cumulativeRupees,
+        withholding.rate,
+        withholding.panVerified,
+        withholding.tdsRupees,
+        withholding.points,
+        transaction.id,
+      ]
+    );
+
+    logger.info('TDS withheld', {
+      userId: withholding.userId,
+      redemptionId: withholding.redemptionId,
+      tdsRupees: withholding.tdsRupees,
+      financialYear: withholding.financialYear,
+    });
+    return result.rows[0];
+  }
+
+  /**
+   * Return the tax withheld on a redemption that was never paid out
+   */
+  async reverseWithholding(client: PoolClient, redemptionId: string): Promise<void> {
+    const result = await client.query<TaxWithholding>(
+      `UPDATE tax_withholdings SET status = 'REVERSED'
+       WHERE redemption_id = $1 AND status = 'WITHHELD'
+       RETURNING *`,
+      [redemptionId]
+    );
+    const withholding = result.rows[0];
+    if (!withholding) {
+      return;
+    }
+
+    await client.query(`UPDATE ledger_transactions SET status = 'REVERSED' WHERE id = $1`, [withholding.transaction_id]);
+    const refund = await ledgerService.post(client, {
+      userId: withholding.user_id,
+      type: 'REVERSED',
+      points: Number(withholding.tds_points),
+      debit: 'TAX_WITHHELD',
+      credit: 'USER_AVAILABLE',
+      status: 'AVAILABLE',
+      category: 'TAX',
+      referenceId: redemptionId,
+      reason: 'TDS reversed, redemption failed',
+    });
+    await client.query(`UPDATE tax_withholdings SET reversal_transaction_id = $1 WHERE id = $2`, [
+      refund.id,
+      withholding.id,
+    ]);
+  }
+
+  /**
+   * A user's redemptions and TDS for one financial year (defaults to the current one)
+   */
+  async getAnnualStatement(userId: string, financialYear?: string): Promise<AnnualTaxStatement> {
+    const year = financialYear || financialYearOf(new Date());
+    const range = parseFinancialYear(year);
+    if (!range) {
+      throw new AppError(400, 'Financial year must be formatted as YYYY-YY, e.g. 2026-27');
+    }
+
+    const redemptions = await db.query<AnnualTaxStatement['redemptions'][number]>(
+      `SELECT r.id AS redemption_id, r.created_at, r.method, r.amount_rupees, r.status,
+              COALESCE(t.tds_rupees, 0) AS tds_rupees, COALESCE(t.tds_points, 0) AS tds_points, t.rate
+       FROM redemption_requests r
+       LEFT JOIN tax_withholdings t ON t.redemption_id = r.id AND t.status = 'WITHHELD'
+       WHERE r.user_id = $1 AND r.status <> 'failed' AND r.created_at >= $2 AND r.created_at < $3
+       ORDER BY r.created_at ASC`,
+      [userId, range.from, range.to]
+    );
+    const kyc = await db.queryOne<{ pan_encrypted?: string; pan_status: string }>(
+      `SELECT pan_encrypted, pan_status FROM kyc_profiles WHERE user_id = $1`,
+      [userId]
+    );
+
+    const lines = redemptions.map((line) => ({
+      ...line,
+      amount_rupees: Number(line.amount_rupees),
+      tds_rupees: Number(line.tds_rupees),
+      tds_points: Number(line.tds_points),
+      rate: line.rate === null || line.rate === undefined ? undefined : Number(line.rate),
+    }));
+
+    return {
+      financialYear: year,
+      section: TDS_RULES.section,
+      thresholdRupees: TDS_RULES.thresholdRupees,
+      pan: kyc?.pan_encrypted ? maskSecret(decryptSecret(kyc.pan_encrypted)) : undefined,
+      panVerified: kyc?.pan_status === 'VERIFIED',
+      totals: {
+        redeemedRupees: lines.reduce((sum, line) => sum + line.amount_rupees, 0),
+        tdsRupees: lines.reduce((sum, line) => sum + line.tds_rupees, 0),
+        tdsPoints: lines.reduce((sum, line) => sum + line.tds_points, 0),
+        redemptions: lines.length,
+      },
+      redemptions: lines,
+    };
+  }
+
+  /**
+   * Render an annual tax statement as a downloadable CSV or PDF file
+   */
+  async exportAnnualStatement(
+    userId: string,
+    financialYear: string,
+    format: 'csv' | 'pdf'
+  ): Promise<{ filename: string; contentType: string; body: string | Buffer }> {
+    const statement = await this.getAnnualStatement(userId, financialYear);
+    const filename = `wisereels-tax-statement-FY${statement.financialYear}.${format}`;
+
+    if (format === 'csv') {
+      const header = ['date', 'redemption_id', 'method', 'amount_rupees', 'status', 'tds_rate', 'tds_rupees', 'tds_points'];
+      const rows = statement.redemptions.map((line) => [
+        new Date(line.created_at).toISOString(),
+        line.redemption_id,
+        line.method,
+        line.amount_rupees,
+        line.status,
+        line.rate,
+        line.tds_rupees,
+        line.tds_points,
+      ]);
+      return { filename, contentType: 'text/csv; charset=utf-8', body: this.toCsv([header, ...rows]) };
+    }
+
+    const user = await db.queryOne<{ username: string; full_name?: string }>(
+      `SELECT username, full_name FROM users WHERE id = $1`,
+      [userId]
+    );
+    const columns = [0, 110, 180, 260, 330, 400];
+
+    const lines: PdfLine[] = [
+      { text: 'WiseReels Annual Tax Statement', size: 16, bold: true },
+      { text: `Financial year: ${statement.financialYear} (1 April - 31 March)`, gap: 4 },
+      { text: `User: ${user?.full_name || `@${user?.username || 'unknown'}`} (${userId})` },
+      { text: `PAN: ${statement.pan || 'not provided'}${statement.panVerified ? '' : ' (not verified)'}` },
+      { text: `Generated: ${new Date().toISOString()}` },
+      { text: 'Summary', size: 12, bold: true, gap: 12 },
+      { text: `Rewards redeemed: ₹${statement.totals.redeemedRupees} across ${statement.totals.redemptions} redemptions` },
+      { text: `Tax deducted at source (section ${statement.section}): ₹${statement.totals.tdsRupees}` },
+      { text: `TDS applies once redemptions exceed ₹${statement.thresholdRupees} in a financial year.` },
+      { text: `Redemptions (${statement.redemptions.length})`, size: 12, bold: true, gap: 12 },
+      this.row(['Date (UTC)', 'Method', 'Amount (Rs.)', 'Status', 'TDS rate', 'TDS (Rs.)'], columns, true),
+      ...statement.redemptions.map((line) =>
+        this.row(
+          [
+            new Date(line.created_at).toISOString().slice(0, 10),
+            line.method,
+            line.amount_rupees,
+            line.status,
+            line.rate !== undefined ? `${line.rate * 100}%` : '-',
+            line.tds_rupees,
+          ],
+          columns,
+          false,
+          8
+        )
+      ),
+    ];
+
+    if (statement.redemptions.length === 0) {
+      lines.push({ text: 'No redemptions in this financial year.' });
+    }
+
+    return { filename, contentType: 'application/pdf', body: renderPdf(lines) };
+  }
+
+  /**
+   * Every withholding in a financial year (optionally one quarter) with the deductee's
+   * PAN in clear text, for the quarterly TDS return
+   */
+  async exportWithholdings(
+    financialYear: string,
+    quarter: string | undefined,
+    adminId: string
+  ): Promise<{ filename: string; contentType: string; body: string }> {
+    const range = parseFinancialYear(financialYear);
+    if (!range) {
+      throw new AppError(400, 'Financial year must be formatted as YYYY-YY, e.g. 2026-27');
+    }
+    if (quarter && !QUARTERS[quarter]) {
+      throw new AppError(400, 'Quarter must be one of Q1, Q2, Q3, Q4');
+    }
+
+    let { from, to } = range;
+    if (quarter) {
+      const [startMonth, endMonth] = QUARTERS[quarter];
+      const addMonths = (date: Date, months: number) => {
+        const shifted = new Date(date);
+        shifted.setUTCMonth(shifted.getUTCMonth() + months);
+        return shifted;
+      };
+      to = addMonths(from, endMonth);
+      from = addMonths(from, startMonth);
+    }
+
+    const withholdings = await db.query<
+      TaxWithholding & { username: string; full_name?: string; pan_encrypted?: string; pan_name?: string; method: string }
+    >(
+      `SELECT t.*, u.username, u.full_name, k.pan_encrypted, k.pan_name, r.method
+       FROM tax_withholdings t
+       JOIN users u ON u.id = t.user_id
+       JOIN redemption_requests r ON r.id = t.redemption_id
+       LEFT JOIN kyc_profiles k ON k.user_id = t.user_id AND k.pan_status = 'VERIFIED'
+       WHERE t.status = 'WITHHELD' AND t.created_at >= $1 AND t.created_at < $2
+       ORDER BY t.created_at ASC`,
+      [from, to]
+    );
+
+    logger.info('TDS filing export generated', { financialYear, quarter, adminId, rows: withholdings.length });
+
+    const header = [
+      'deducted_at',
+      'section',
+      'user_id',
+      'username',
+      'deductee_name',
+      'pan',
+      'redemption_id',
+      'method',
+      'amount_paid_rupees',
+      'cumulative_fy_rupees',
+      'tds_rate',
+      'tds_rupees',
+      'pan_verified',
+    ];
+    const rows = withholdings.map((line) => [
+      new Date(line.created_at).toISOString(),
+      line.section,
+      line.user_id,
+      line.username,
+      line.pan_name || line.full_name,
+      line.pan_encrypted ? decryptSecret(line.pan_encrypted) : 'PANNOTAVBL',
+      line.redemption_id,
+      line.method,
+      Number(line.gross_rupees),
+      Number(line.cumulative_rupees),
+      Number(line.rate),
+      Number(line.tds_rupees),
+      line.pan_verified,
+    ]);
+
+    return {
+      filename: `wisereels-tds-FY${financialYear}${quarter ? `-${quarter}` : ''}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: this.toCsv([header, ...rows]),
+    };
+  }
+
+  private toCsv(rows: unknown[][]): string {
+    return rows.map((row) => row.map((value) => toCsvCell(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private row(values: Array<string | number>, columns: number[], bold: boolean = false, size?: number): PdfLine {
+    const [first, ...rest] = values.map((value) => String(value));
+    return {
+      text: first,
+      cells: rest.map((text, index) => ({ text, x: columns[index + 1] })),
+      bold,
+      size,
+    };
+  }
+}
+
+export const taxService = new TaxService();
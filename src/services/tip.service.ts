@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ledgerService } from './ledger.service';
+import NotificationService from './notifications.service';
+
+const TIP_LIMITS = {
+  minPoints: 10,
+  maxPointsPerTip: 5000,
+  // Per tipper, per calendar day (server time zone)
+  dailyPoints: 10000,
+  dailyTips: 50,
+};
+const TIP_POINTS_VALID_DAYS = 90;
+const LEADERBOARD_SIZE = 10;
+const LEADERBOARD_CACHE_TTL_SECONDS = 60;
+
+export interface Tip {
+  id: string;
+  tipper_id: string;
+  recipient_id: string;
+  video_id?: string;
+  conversation_id?: string;
+  points: number;
+  message?: string;
+  transaction_id: string;
+  created_at: Date;
+}
+
+export interface TipLeaderboardEntry {
+  user_id: string;
+  username: string;
+  display_name?: string;
+  avatar_url?: string;
+  points: number;
+  tips: number;
+}
+
+class TipService {
+  /**
+   * Tip the creator of a video
+   */
+  async tipVideo(tipperId: string, videoId: string, points: number, message?: string): Promise<Tip> {
+    const video = await db.queryOne<{ id: string; creator_user_id: string | null }>(
+      `SELECT v.id, c.user_id AS creator_user_id
+       FROM videos v
+       LEFT JOIN creators c ON c.id = v.creator_id
+       WHERE v.id = $1`,
+      [videoId]
+    );
+
+    if (!video || !video.creator_user_id) {
+      throw new AppError(404, 'Video not found');
+    }
+
+    const tip = await this.transfer({ tipperId, recipientId: video.creator_user_id, points, message, videoId });
+    await cache.del(`tips:leaderboard:${videoId}`);
+    return tip;
+  }
+
+  /**
+   * Tip the other participant of a chat conversation
+   */
+  async tipInConversation(tipperId: string, conversationId: string, points: number, message?: string): Promise<Tip> {
+    const conversation = await db.queryOne<{ participant_a_id: string; participant_b_id: string }>(
+      `SELECT participant_a_id, participant_b_id FROM conversations
+       WHERE id = $1 AND (participant_a_id = $2 OR participant_b_id = $2)`,
+      [conversationId, tipperId]
+    );
+
+    if (!conversation) {
+      throw new AppError(404, 'Conversation not found or access denied');
+    }
+
+    const recipientId =
+      conversation.participant_a_id === tipperId ? conversation.participant_b_id : conversation.participant_a_id;
+
+    return this.transfer({ tipperId, recipientId, points, message, conversationId });
+  }
+
+  /**
+   * Top tippers of a video by points
+   */
+  async getVideoLeaderboard(
+    videoId: string
+  ): Promise<{ videoId: string; totalPoints: number; totalTips: number; leaders: TipLeaderboardEntry[] }> {
+    const cacheKey = `tips:leaderboard:${videoId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const totals = await db.queryOne<{ total_points: string; total_tips: string }>(
+      `SELECT COALESCE(SUM(points), 0) AS total_points, COUNT(*) AS total_tips FROM tips WHERE video_id = $1`,
+      [videoId]
+    );
+    const leaders = await db.query<TipLeaderboardEntry>(
+      `SELECT t.tipper_id AS user_id, u.username, u.display_name, u.avatar_url,
+              SUM(t.points)::int AS points, COUNT(*)::int AS tips
+       FROM tips t
+       JOIN users u ON u.id = t.tipper_id
+       WHERE t.video_id = $1 AND u.account_status = 'ACTIVE'
+       GROUP BY t.tipper_id, u.username, u.display_name, u.avatar_url
+       ORDER BY points DESC, MIN(t.created_at) ASC
+       LIMIT $2`,
+      [videoId, LEADERBOARD_SIZE]
+    );
+
+    const leaderboard = {
+      videoId,
+      totalPoints: parseInt(totals?.total_points || '0', 10),
+      totalTips: parseInt(totals?.total_tips || '0', 10),
+      leaders,
+    };
+    await cache.set(cacheKey, leaderboard, LEADERBOARD_CACHE_TTL_SECONDS);
+
+    return leaderboard;
+  }
+
+  /**
+   * Move available points from tipper to recipient as one ledger transaction.
+   * The tipper's wallet row is locked so the balance and daily limits are checked
+   * against a consistent view.
+   */
+  private async transfer(params: {
+    tipperId: string;
+    recipientId: string;
+    points: number;
+    message?: string;
+    videoId?: string;
+    conversationId?: string;
+  }): Promise<Tip> {
+    const { tipperId, recipientId, points } = params;
+
+    if (tipperId === recipientId) {
+      throw new AppError(400, 'You cannot tip yourself');
+    }
+    if (!Number.isInteger(points) || points < TIP_LIMITS.minPoints || points > TIP_LIMITS.maxPointsPerTip) {
+      throw new AppError(400, `Tips must be between ${TIP_LIMITS.minPoints} and ${TIP_LIMITS.maxPointsPerTip} points`);
+    }
+
+    const blocked = await db.queryOne(
+      `SELECT 1 FROM blocks
+       WHERE (blocker_id = $1 AND blocked_id = $2) OR (blocker_id = $2 AND blocked_id = $1)`,
+      [tipperId, recipientId]
+    );
+    if (blocked) {
+      throw new AppError(403, 'You cannot tip this user');
+    }
+
+    const recipient = await db.queryOne<{ id: string; account_status: string; frozen_at: Date | null }>(
+      `SELECT u.id, u.account_status, w.frozen_at FROM users u LEFT JOIN wallet w ON w.user_id = u.id WHERE u.id = $1`,
+      [recipientId]
+    );
+    if (!recipient || recipient.account_status !== 'ACTIVE') {
+      throw new AppError(404, 'Recipient not found');
+    }
+    if (recipient.frozen_at) {
+      throw new AppError(403, 'This user cannot receive tips right now');
+    }
+
+    const tip = await db.transaction(async (client) => {
+      const walletResult = await client.query<{ available_points: number; frozen_at: Date | null }>(
+        `SELECT available_points, frozen_at FROM wallet WHERE user_id = $1 FOR UPDATE`,
+        [tipperId]
+      );
+      const wallet = walletResult.rows[0];
+      if (wallet?.frozen_at) {
+        throw new AppError(403, 'Your wallet is frozen; contact support');
+      }
+      if (!wallet || Number(wallet.available_points) < points) {
+        throw new AppError(400, 'Insufficient available points');
+      }
+
+      const todayResult = await client.query<{ points: string; tips: string }>(
+        `SELECT COALESCE(SUM(points), 0) AS points, COUNT(*) AS tips
+         FROM tips WHERE tipper_id = $1 AND created_at >= date_trunc('day', NOW())`,
+        [tipperId]
+      );
+      const today = todayResult.rows[0];
+      if (parseInt(today.tips, 10) >= TIP_LIMITS.dailyTips) {
+        throw new AppError(429, 'Daily tip limit reached');
+      }
+      if (parseInt(today.points, 10) + points > TIP_LIMITS.dailyPoints) {
+        throw new AppError(429, `Tips are limited to ${TIP_LIMITS.dailyPoints} points per day`);
+      }
+
+      const tipId = uuidv4();
+      const now = new Date();
+
+      // The tip arrives as a fresh lot of available points for the recipient
+      const transaction = await ledgerService.post(client, {
+        userId: tipperId,
+        creditUserId: recipientId,
+        type: 'TIP',
+        points,
+        debit: 'USER_AVAILABLE',
+        credit: 'USER_AVAILABLE',
+        status: 'AVAILABLE',
+        videoId: params.videoId,
+        category: 'TIPS',
+        referenceId: tipId,
+        reason: params.videoId ? 'Video tip' : 'Chat tip',
+        metadata: { recipient_id: recipientId, conversation_id: params.conversationId },
+        expiresAt: new Date(now.getTime() + TIP_POINTS_VALID_DAYS * 24 * 60 * 60 * 1000),
+      });
+
+      const result = await client.query<Tip>(
+        `INSERT INTO tips (id, tipper_id, recipient_id, video_id, conversation_id, points, message, transaction_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          tipId,
+          tipperId,
+          recipientId,
+          params.videoId || null,
+          params.conversationId || null,
+          points,
+          params.message || null,
+          transaction.id,
+          now,
+        ]
+      );
+
+      return result.rows[0];
+    });
+
+    logger.info('Tip sent', { tipId: tip.id, tipperId, recipientId, points, videoId: params.videoId });
+
+    try {
+      const tipper = await db.queryOne<{ username: string }>(`SELECT username FROM users WHERE id = $1`, [tipperId]);
+      await NotificationService.createNotification(
+        recipientId,
+        'points_update',
+        `@${tipper?.username || 'someone'} tipped you ${points} points`,
+        tipperId,
+        params.videoId || params.conversationId,
+        params.videoId ? 'video' : 'message',
+        params.message
+      );
+    } catch (error) {
+      logger.error('Tip notification failed', { error, tipId: tip.id });
+    }
+
+    return tip;
+  }
+}
+
+export const tipService = new TipService();
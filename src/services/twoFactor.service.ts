@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { cache } from '../config/cache';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { generateHash, generateRefreshToken } from '../utils/helpers';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'WiseReels';
+const BACKUP_CODE_COUNT = 10;
+const STEP_UP_TTL_MINUTES = 5;
+const STATUS_CACHE_TTL_SECONDS = 60;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins and verified experts must enrol before sensitive actions
+  required: boolean;
+  enabledAt?: Date;
+  backupCodesRemaining: number;
+}
+
+interface UserTotp {
+  user_id: string;
+  secret_encrypted: string;
+  enabled_at?: Date;
+  last_used_counter?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+class TwoFactorService {
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const cacheKey = `2fa:status:${userId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // The stored role, not the token's, so a session issued with another role cannot skip enrolment
+    const row = await db.queryOne<{ enabled_at: Date | null; role: string; expert_status: string; backup_codes: string }>(
+      `SELECT t.enabled_at, u.role, u.expert_status,
+              (SELECT COUNT(*) FROM user_backup_codes b WHERE b.user_id = u.id AND b.used_at IS NULL) AS backup_codes
+       FROM users u
+       LEFT JOIN user_totp t ON t.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    if (!row) {
+      throw new AppError(404, 'User not found');
+    }
+
+    const status: TwoFactorStatus = {
+      enabled: !!row.enabled_at,
+      required: row.role === 'ADMIN' || row.expert_status === 'verified',
+      enabledAt: row.enabled_at || undefined,
+      backupCodesRemaining: parseInt(row.backup_codes, 10),
+    };
+    await cache.set(cacheKey, status, STATUS_CACHE_TTL_SECONDS);
+
+    return status;
+  }
+
+  /**
+   * Start enrolment with a fresh secret. 2FA is not on until the first code is confirmed.
+   */
+  async startEnrolment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await db.queryOne<{ phone_number: string; username: string; enabled_at: Date | null }>(
+      `SELECT u.phone_number, u.username, t.enabled_at
+       FROM users u LEFT JOIN user_totp t ON t.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    if (!user) {
+      throw new AppError(404, 'User not found');
+    }
+    if (user.enabled_at) {
+      throw new AppError(409, 'Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await db.query(
+      `INSERT INTO user_totp (user_id, secret_encrypted, created_at, updated_at)
+       VALUES ($1, $2, NOW(), NOW())
+       ON CONFLICT (user_id) DO UPDATE SET secret_encrypted = $2, last_used_counter = NULL, updated_at = NOW()`,
+      [userId, encryptSecret(secret)]
+    );
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.username || user.phone_number, TOTP_ISSUER) };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app; returns backup codes once
+   */
+  async confirmEnrolment(userId: string, code: string): Promise<{ backupCodes: string[] }> {
+    const backupCodes = await db.transaction(async (client) => {
+      const result = await client.query<UserTotp>(`SELECT * FROM user_totp WHERE user_id = $1 FOR UPDATE`, [userId]);
+      const totp = result.rows[0];
+      if (!totp) {
+        throw new AppError(400, 'Start enrolment first');
+      }
+      if (totp.enabled_at) {
+        throw new AppError(409, 'Two-factor authentication is already enabled');
+      }
+
+      const counter = verifyTotp(decryptSecret(totp.secret_encrypted), code);
+      if (counter === null) {
+        throw new AppError(400, 'Invalid verification code');
+      }
+
+      await client.query(
+        `UPDATE user_totp SET enabled_at = NOW(), last_used_counter = $1, updated_at = NOW() WHERE user_id = $2`,
+        [counter, userId]
+      );
+      return this.replaceBackupCodes(client, userId);
+    });
+
+    await cache.del(`2fa:status:${userId}`);
+    logger.info('Two-factor authentication enabled', { userId });
+    return { backupCodes };
+  }
+
+  /**
+   * Exchange a TOTP or backup code for a short-lived step-up token (X-Step-Up-Token)
+   * that authorises one `action`, once
+   */
+  async stepUp(
+    userId: string,
+    action: string,
+    code: { code?: string; backupCode?: string }
+  ): Promise<{ stepUpToken: string; action: string; expiresAt: Date }> {
+    await this.verifyCode(userId, code);
+
+    const stepUpToken = generateRefreshToken();
+    const expiresAt = new Date(Date.now() + STEP_UP_TTL_MINUTES * 60 * 1000);
+    await db.query(
+      `INSERT INTO two_factor_step_ups (token_hash, user_id, action, expires_at, created_at) VALUES ($1, $2, $3, $4, NOW())`,
+      [generateHash(stepUpToken), userId, action, expiresAt]
+    );
+
+    return { stepUpToken, action, expiresAt };
+  }
+
+  /**
+   * Use up a step-up grant; false when it is unknown, expired, spent or for another action
+   */
+  async consumeStepUp(userId: string, action: string, stepUpToken: string): Promise<boolean> {
+    const grant = await db.queryOne(
+      `DELETE FROM two_factor_step_ups
+       WHERE token_hash = $1 AND user_id = $2 AND action = $3 AND expires_at > NOW()
+       RETURNING token_hash`,
+      [generateHash(stepUpToken), userId, action]
+    );
+    return !!grant;
+  }
+
+  async regenerateBackupCodes(userId: string, code: string): Promise<{ backupCodes: string[] }> {
+    await this.verifyCode(userId, { code });
+    const backupCodes = await db.transaction((client) => this.replaceBackupCodes(client, userId));
+
+    await cache.del(`2fa:status:${userId}`);
+    return { backupCodes };
+  }
+
+  /**
+   * Turn 2FA off; not allowed for accounts that must keep it
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const status = await this.getStatus(userId);
+    if (status.required) {
+      throw new AppError(403, 'Two-factor authentication is required for this account');
+    }
+    await this.verifyCode(userId, { code });
+
+    await db.transaction(async (client) => {
+      await client.query(`DELETE FROM user_totp WHERE user_id = $1`, [userId]);
+      await client.query(`DELETE FROM user_backup_codes WHERE user_id = $1`, [userId]);
+      await client.query(`DELETE FROM two_factor_step_ups WHERE user_id = $1`, [userId]);
+    });
+
+    await cache.del(`2fa:status:${userId}`);
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Accept a TOTP code once (codes at or before the last used step are replays) or an unused backup code
+   */
+  private async verifyCode(userId: string, { code, backupCode }: { code?: string; backupCode?: string }): Promise<void> {
+    await db.transaction(async (client) => {
+      const result = await client.query<UserTotp>(`SELECT * FROM user_totp WHERE user_id = $1 FOR UPDATE`, [userId]);
+      const totp = result.rows[0];
+      if (!totp || !totp.enabled_at) {
+        throw new AppError(400, 'Two-factor authentication is not enabled');
+      }
+
+      if (backupCode) {
+        const used = await client.query(
+          `UPDATE user_backup_codes SET used_at = NOW()
+           WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+           RETURNING id`,
+          [userId, generateHash(backupCode.replace(/[\s-]/g, '').toLowerCase())]
+        );
+        if (used.rows.length === 0) {
+          throw new AppError(401, 'Invalid backup code');
+        }
+        await cache.del(`2fa:status:${userId}`);
+        logger.warn('Backup code used', { userId });
+        return;
+      }
+
+      const counter = verifyTotp(decryptSecret(totp.secret_encrypted), code || '');
+      if (counter === null || (totp.last_used_counter && counter <= Number(totp.last_used_counter))) {
+        throw new AppError(401, 'Invalid verification code');
+      }
+      await client.query(`UPDATE user_totp SET last_used_counter = $1, updated_at = NOW() WHERE user_id = $2`, [counter, userId]);
+    });
+  }
+
+  private async replaceBackupCodes(client: PoolClient, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => crypto.randomBytes(5).toString('hex'));
+
+    await client.query(`DELETE FROM user_backup_codes WHERE user_id = $1`, [userId]);
+    for (const code of codes) {
+      await client.query(
+        `INSERT INTO user_backup_codes (id, user_id, code_hash, created_at) VALUES (gen_random_uuid(), $1, $2, NOW())`,
+        [userId, generateHash(code)]
+      );
+    }
+
+    // Shown as xxxxx-xxxxx; dashes and case are ignored when redeemed
+    return codes.map((code) => `${code.slice(0, 5)}-${code.slice(5)}`);
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
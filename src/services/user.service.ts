@@ -15,6 +15,10 @@ export class UserService {
     const values = [];
     let idx = 1;
     for (const key of Object.keys(fields)) {
+      if (key === 'email') {
+        // A different address must be verified again before it can be used for account recovery
+        updates.push(`email_verified_at = CASE WHEN email IS DISTINCT FROM $${idx} THEN NULL ELSE email_verified_at END`);
+      }
       updates.push(`${key} = $${idx++}`);
       values.push((fields as any)[key]);
     }
@@ -1,16 +1,22 @@
+import { PoolClient } from 'pg';
 import { db } from '../config/database';
-import { cache } from '../config/cache';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
-
-// Earning rates per 10 minutes
-const EARNING_RATES = {
-  FINANCE: 500,
-  HEALTH: 400,
-  FITNESS: 300,
-  EDUCATION: 200,
-  ENTERTAINMENT: 100,
-};
+import { AppError } from '../middleware/errorHandler';
+import { ledgerService, LedgerTransaction, ReconciliationResult } from './ledger.service';
+import { rewardPolicyService, EarningCalculation } from './rewardPolicy.service';
+import { rewardBudgetService, BudgetState } from './rewardBudget.service';
+import { payoutCatalogService, PayoutCatalogItem, GiftCardStock } from './payoutCatalog.service';
+import { creatorRevenueService } from './creatorRevenue.service';
+import { kycService } from './kyc.service';
+import { accountRecoveryService } from './accountRecovery.service';
+import { taxService } from './tax.service';
+import { adminAuditService } from './adminAudit.service';
+import NotificationService from './notifications.service';
+import { PayoutMethod } from '../payouts/PayoutProvider';
+import { maskUPI } from '../utils/helpers';
+
+export type { LedgerTransaction } from './ledger.service';
 
 export interface Wallet {
   user_id: string;
@@ -18,168 +24,140 @@ export interface Wallet {
   available_points: number;
   total_earned: number;
   total_redeemed: number;
+  frozen_at?: Date;
+  frozen_reason?: string;
+  frozen_by?: string;
   updated_at: Date;
 }
 
-export interface LedgerTransaction {
-  id: string;
-  user_id: string;
-  video_id?: string;
-  creator_id?: string;
-  transaction_type: 'EARN' | 'PENDING' | 'AVAILABLE' | 'REDEEMED' | 'REVERSED' | 'EXPIRED' | 'BONUS';
-  points: number;
-  status: 'POSTED' | 'PENDING_30D' | 'AVAILABLE' | 'EXPIRED' | 'REDEEMED';
-  posted_at: Date;
-  available_at?: Date;
-  expires_at?: Date;
+export interface WalletAdjustmentInput {
+  // CREDIT and DEBIT move points against the reward pool; REVERSE_EARNING cancels one pending earning
+  action: 'CREDIT' | 'DEBIT' | 'REVERSE_EARNING';
+  points?: number;
+  balance?: 'AVAILABLE' | 'PENDING';
+  transactionId?: string;
+  reason: string;
+}
+
+// Who performed an admin action, for the audit trail
+export interface AdminActor {
+  adminId: string;
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 class WalletService {
+  /**
+   * Read straight from the DB: ledger postings update the row inside their callers'
+   * transactions, so a cached copy could outlive a commit with a stale balance
+   */
   async getWallet(userId: string): Promise<Wallet | null> {
-    const cached = await cache.get(`wallet:${userId}`);
-    if (cached) {
-      return cached;
-    }
-
     const query = `SELECT * FROM wallet WHERE user_id = $1`;
-    const wallet = await db.queryOne<Wallet>(query, [userId]);
-
-    if (wallet) {
-      await cache.set(`wallet:${userId}`, wallet, 30);
-    }
-
-    return wallet;
-  }
-
-  async recordWatchEvent(
-    userId: string,
-    videoId: string,
-    creatorId: string,
-    watchDurationSeconds: number,
-    category: string
-  ): Promise<void> {
-    try {
-      // Validate watch (minimum 5 seconds per watch event)
-      if (watchDurationSeconds < 5) {
-        logger.info(`Watch too short: ${userId}, ${videoId}, ${watchDurationSeconds}s`);
-        return;
-      }
-
-      // Calculate points
-      const ratePerTenMin = EARNING_RATES[category as keyof typeof EARNING_RATES] || 100;
-      const points = Math.floor((watchDurationSeconds / 600) * ratePerTenMin);
-
-      if (points <= 0) {
-        return; // Too short to earn
-      }
-
-      // Record in ledger
-      await this.recordEarning(
-        userId,
-        videoId,
-        creatorId,
-        points,
-        category,
-        watchDurationSeconds,
-        ratePerTenMin
-      );
-
-      // Update wallet (pending points)
-      await this.updateWalletPending(userId, points);
-    } catch (error) {
-      logger.error('Watch event recording failed', error);
-      throw error;
-    }
+    return db.queryOne<Wallet>(query, [userId]);
   }
 
   private async recordEarning(
-    userId: string,
-    videoId: string,
-    creatorId: string,
-    points: number,
-    category: string,
-    watchDurationSeconds: number,
-    ratePerTenMin: number
-  ): Promise<void> {
-    const transactionId = uuidv4();
+    client: PoolClient,
+    earning: {
+      userId: string;
+      videoId: string;
+      creatorId: string;
+      points: number;
+      category: string;
+      watchDurationSeconds: number;
+      ratePerTenMin: number;
+      policyVersion: number;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<LedgerTransaction> {
     const now = new Date();
     const availableAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
     const expiresAt = new Date(availableAt.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days after available
 
-    const query = `
-      INSERT INTO ledger_transactions (
-        id, user_id, video_id, creator_id, transaction_type, points,
-        category, watch_duration_seconds, rate_per_10m, status,
-        posted_at, available_at, expires_at, reason, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-    `;
-
-    await db.query(query, [
-      transactionId,
-      userId,
-      videoId,
-      creatorId,
-      'EARN',
-      points,
-      category,
-      watchDurationSeconds,
-      ratePerTenMin,
-      'POSTED',
-      now,
+    const transaction = await ledgerService.post(client, {
+      userId: earning.userId,
+      type: 'EARN',
+      points: earning.points,
+      debit: 'REWARD_POOL',
+      credit: 'USER_PENDING',
+      status: 'POSTED',
+      videoId: earning.videoId,
+      creatorId: earning.creatorId,
+      category: earning.category,
+      watchDurationSeconds: earning.watchDurationSeconds,
+      ratePerTenMin: earning.ratePerTenMin,
+      policyVersion: earning.policyVersion,
+      reason: 'Video watched',
+      metadata: earning.metadata,
       availableAt,
       expiresAt,
-      'Video watched',
-      now,
-    ]);
-
-    logger.info(`Earning recorded: ${transactionId}`);
-  }
-
-  private async updateWalletPending(userId: string, points: number): Promise<void> {
-    const query = `
-      UPDATE wallet 
-      SET pending_points = pending_points + $1, updated_at = $2
-      WHERE user_id = $3
-    `;
-
-    await db.query(query, [points, new Date(), userId]);
+    });
 
-    // Invalidate cache
-    await cache.del(`wallet:${userId}`);
+    logger.info(`Earning recorded: ${transaction.id}`);
+    return transaction;
   }
 
   async processPendingToAvailable(): Promise<void> {
     const query = `
-      SELECT * FROM ledger_transactions
-      WHERE status = $1 
-      AND posted_at <= NOW() - INTERVAL '30 days'
+      SELECT * FROM ledger_transactions lt
+      WHERE lt.status = $1
+      AND lt.credit_account = $2
+      AND lt.available_at <= NOW()
+      -- Earnings of users under fraud review stay pending until the flag is resolved
+      AND NOT EXISTS (
+        SELECT 1 FROM fraud_flags ff WHERE ff.user_id = lt.user_id AND ff.status = 'OPEN'
+      )
+      -- Frozen wallets release nothing until unfrozen
+      AND NOT EXISTS (
+        SELECT 1 FROM wallet w WHERE w.user_id = lt.user_id AND w.frozen_at IS NOT NULL
+      )
+      -- A creator's share waits while the viewer who generated it is under review
+      AND NOT EXISTS (
+        SELECT 1 FROM ledger_transactions e
+        JOIN fraud_flags ff ON ff.user_id = e.user_id AND ff.status = 'OPEN'
+        WHERE lt.transaction_type = 'REVENUE_SHARE' AND e.id = lt.reference_id
+      )
+      ORDER BY lt.available_at ASC
     `;
 
     try {
-      const transactions = await db.query<LedgerTransaction>(query, ['POSTED']);
+      const transactions = await db.query<LedgerTransaction>(query, ['POSTED', 'USER_PENDING']);
+      let processed = 0;
 
       for (const transaction of transactions) {
-        // Update transaction status
-        await db.query(
-          `UPDATE ledger_transactions SET status = $1 WHERE id = $2`,
-          ['AVAILABLE', transaction.id]
-        );
-
-        // Update wallet
-        await db.query(
-          `UPDATE wallet 
-           SET available_points = available_points + $1,
-               pending_points = pending_points - $1,
-               updated_at = $2
-           WHERE user_id = $3`,
-          [transaction.points, new Date(), transaction.user_id]
-        );
+        const released = await db.transaction(async (client) => {
+          // Claim the earning so concurrent runs cannot release it twice
+          const claim = await client.query(
+            `UPDATE ledger_transactions SET status = $1 WHERE id = $2 AND status = $3 RETURNING id`,
+            ['AVAILABLE', transaction.id, 'POSTED']
+          );
+          if (claim.rowCount === 0) {
+            return false;
+          }
+
+          await ledgerService.post(client, {
+            userId: transaction.user_id,
+            type: 'AVAILABLE',
+            points: Number(transaction.points),
+            debit: 'USER_PENDING',
+            credit: 'USER_AVAILABLE',
+            status: 'AVAILABLE',
+            videoId: transaction.video_id,
+            creatorId: transaction.creator_id,
+            category: transaction.category,
+            referenceId: transaction.id,
+            reason: 'Pending period elapsed',
+            expiresAt: transaction.expires_at,
+          });
+          return true;
+        });
 
-        // Invalidate cache
-        await cache.del(`wallet:${transaction.user_id}`);
+        if (released) {
+          processed++;
+        }
       }
 
-      logger.info(`Processed ${transactions.length} transactions to available`);
+      logger.info(`Processed ${processed} transactions to available`);
     } catch (error) {
       logger.error('Pending to available processing failed', error);
       throw error;
@@ -187,208 +165,492 @@ class WalletService {
   }
 
   /**
-   * Wallet Heartbeat: Update watch progress every 30 seconds
-   * Applies tier-based multipliers (Gold: 5x, Silver: 3x, Bronze: 1x)
+   * Check the wallet projection against the ledger and repair any drift
+   */
+  async reconcileWallet(userId: string): Promise<ReconciliationResult> {
+    return ledgerService.reconcileWallet(userId);
+  }
+
+  /**
+   * Wallet Heartbeat: credit watch time accepted by a watch session
+   * Rates, tier multipliers (Gold/Silver/Bronze), rewatch decay, daily caps and
+   * the creator's revenue share come from the active reward policy
+   * Runs on the caller's client so the heartbeat and its earning commit together
    */
   async recordWatchHeartbeat(
+    client: PoolClient,
     userId: string,
     videoId: string,
     creatorId: string,
     watchDurationSeconds: number,
     category: string
   ): Promise<{
-    pendingPoints: number;
-    availablePoints: number;
     pointsEarned: number;
     multiplier: number;
+    policyVersion: number;
+    capReached?: EarningCalculation['capReached'];
+    walletFrozen?: boolean;
+    earningBanned?: boolean;
+    budgetState: BudgetState;
   }> {
-    try {
-      // Get user's expert status (determines multiplier)
-      const userQuery = `SELECT expert_status FROM users WHERE id = $1`;
-      const userResult = await db.queryOne<{ expert_status: string }>(userQuery, [userId]);
+    // Get user's expert status (determines multiplier), whether their wallet is frozen
+    // and whether a moderator has banned them from earning
+    const userResult = await client.query<{ expert_status: string; frozen_at: Date | null; earning_banned: boolean }>(
+      `SELECT u.expert_status, w.frozen_at,
+              EXISTS (
+                SELECT 1 FROM account_enforcements e
+                WHERE e.user_id = u.id AND e.type = 'EARNING_BAN' AND e.lifted_at IS NULL
+                  AND (e.expires_at IS NULL OR e.expires_at > NOW())
+              ) AS earning_banned
+       FROM users u LEFT JOIN wallet w ON w.user_id = u.id WHERE u.id = $1`,
+      [userId]
+    );
+    const user = userResult.rows[0];
+
+    if (!user) {
+      throw new Error('User not found');
+    }
 
-      if (!userResult) {
-        throw new Error('User not found');
-      }
+    const earning = await rewardPolicyService.calculateEarning(client, {
+      userId,
+      videoId,
+      category,
+      watchDurationSeconds,
+      tier: user.expert_status,
+    });
 
-      // Determine tier multiplier
-      const multiplierMap: { [key: string]: number } = {
-        verified: 5, // Gold tier for verified experts
-        pending: 3, // Silver tier for pending verification
-        none: 1, // Bronze tier for regular users
-      };
+    // A frozen wallet or an earning ban earns nothing; the heartbeat itself is still accepted
+    const walletFrozen = !!user.frozen_at;
+    const earningBanned = user.earning_banned;
 
-      const tierMultiplier = multiplierMap[userResult.expert_status] || 1;
+    // The day's reward budget for the category may scale the earning down or pause it.
+    // The creator's share is budgeted with the viewer's points since both are minted here.
+    const allocation = walletFrozen || earningBanned
+      ? { points: 0, sharePoints: 0, state: 'UNBUDGETED' as BudgetState, factor: 1 }
+      : await rewardBudgetService.allocate(client, category, earning.points, earning.creatorSharePoints);
 
-      // Calculate points with tier multiplier
-      const ratePerTenMin = EARNING_RATES[category as keyof typeof EARNING_RATES] || 100;
-      const basePoints = Math.floor((watchDurationSeconds / 600) * ratePerTenMin);
-      const pointsWithMultiplier = Math.floor(basePoints * tierMultiplier);
+    if (allocation.points > 0) {
+      const transaction = await this.recordEarning(client, {
+        userId,
+        videoId,
+        creatorId,
+        points: allocation.points,
+        category,
+        watchDurationSeconds,
+        ratePerTenMin: earning.ratePerTenMin,
+        policyVersion: earning.policyVersion,
+        metadata: {
+          base_points: earning.basePoints,
+          multiplier: earning.multiplier,
+          rewatch_factor: earning.rewatchFactor,
+          cap_reached: earning.capReached,
+          budget_state: allocation.state,
+          budget_factor: allocation.factor < 1 ? allocation.factor : undefined,
+          tier: user.expert_status,
+        },
+      });
 
-      if (pointsWithMultiplier > 0) {
-        // Record earning with multiplier info
-        const transactionId = uuidv4();
-        const now = new Date();
-        const availableAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
-        const expiresAt = new Date(availableAt.getTime() + 90 * 24 * 60 * 60 * 1000);
-
-        const insertQuery = `
-          INSERT INTO transactions (
-            id, user_id, type, amount, video_id, created_at, metadata
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-        `;
-
-        const metadata = {
-          base_points: basePoints,
-          multiplier: tierMultiplier,
-          tier: userResult.expert_status,
-          watch_duration_seconds: watchDurationSeconds,
-          category,
-          heartbeat: true,
-        };
+      await creatorRevenueService.recordShare(client, {
+        viewerId: userId,
+        creatorId,
+        videoId,
+        category,
+        earning: transaction,
+        points: allocation.sharePoints,
+        holdingDays: earning.creatorHoldingDays,
+      });
 
-        await db.query(insertQuery, [
-          transactionId,
-          userId,
-          'earn',
-          pointsWithMultiplier,
-          videoId,
-          now,
-          JSON.stringify(metadata),
-        ]);
-
-        // Update wallet pending points
-        await db.query(
-          `UPDATE wallet 
-           SET pending_points = pending_points + $1, updated_at = $2
-           WHERE user_id = $3`,
-          [pointsWithMultiplier, now, userId]
+      logger.info('Heartbeat recorded', {
+        userId,
+        videoId,
+        basePoints: earning.basePoints,
+        multiplier: earning.multiplier,
+        rewatchFactor: earning.rewatchFactor,
+        totalPoints: allocation.points,
+        budgetState: allocation.state,
+        policyVersion: earning.policyVersion,
+        tier: user.expert_status,
+      });
+    }
+
+    return {
+      pointsEarned: allocation.points,
+      multiplier: earning.multiplier,
+      policyVersion: earning.policyVersion,
+      capReached: earning.capReached,
+      walletFrozen: walletFrozen || undefined,
+      earningBanned: earningBanned || undefined,
+      budgetState: allocation.state,
+    };
+  }
+
+  /**
+   * Get wallet options (payment methods and gift cards) from the live payout catalog
+   */
+  async getWalletOptions(): Promise<{
+    paymentMethods: Array<{
+      id: string;
+      method: PayoutMethod;
+      name: string;
+      pointsPerRupee: number;
+      minAmount: number;
+      maxAmount?: number;
+    }>;
+    giftCards: Array<{
+      id: string;
+      provider: string;
+      name: string;
+      pointsPerRupee: number;
+      denominations: Array<{ amount: number; points: number; inStock: boolean }>;
+    }>;
+  }> {
+    const items = await payoutCatalogService.getActiveItems();
+    const stock = await payoutCatalogService.getStock();
+    const available = (item: PayoutCatalogItem, denomination: number) =>
+      stock.some((s: GiftCardStock) => s.catalog_item_id === item.id && s.denomination === denomination && s.available > 0);
+
+    return {
+      paymentMethods: items
+        .filter((item) => item.method !== 'GIFT_CARD')
+        .map((item) => ({
+          id: item.id,
+          method: item.method,
+          name: item.name,
+          pointsPerRupee: item.points_per_rupee,
+          minAmount: item.min_amount,
+          maxAmount: item.max_amount,
+        })),
+      giftCards: items
+        .filter((item) => item.method === 'GIFT_CARD')
+        .map((item) => ({
+          id: item.id,
+          provider: item.provider || item.name,
+          name: item.name,
+          pointsPerRupee: item.points_per_rupee,
+          denominations: item.denominations.map((amount) => ({
+            amount,
+            points: payoutCatalogService.pointsFor(item, amount),
+            inStock: available(item, amount),
+          })),
+        })),
+    };
+  }
+
+  /**
+   * Deduct points for a catalog payout and queue the redemption for fulfillment.
+   * Gift card redemptions reserve a code from inventory up front.
+   * The user's KYC level gates the amount, and UPI payouts only go to the verified UPI ID.
+   * TDS due for the financial year is withheld as a separate ledger line.
+   */
+  async redeemPoints(
+    userId: string,
+    redemption: { catalogItemId: string; amountRupees: number; details?: Record<string, any> }
+  ): Promise<{
+    redemptionId: string;
+    pointsRedeemed: number;
+    method: PayoutMethod;
+    taxWithheld?: { rupees: number; points: number; financialYear: string };
+  }> {
+    const redemptionId = uuidv4();
+
+    try {
+      const result = await db.transaction(async (client) => {
+        const item = await payoutCatalogService.getItem(redemption.catalogItemId, client);
+        if (!item.is_active) {
+          throw new AppError(400, 'This redemption option is no longer available');
+        }
+
+        const pointsToRedeem = payoutCatalogService.pointsFor(item, redemption.amountRupees);
+
+        // Lock the wallet row so concurrent redemptions see the same balance
+        const walletResult = await client.query<Wallet>(
+          `SELECT * FROM wallet WHERE user_id = $1 FOR UPDATE`,
+          [userId]
         );
+        const wallet = walletResult.rows[0];
+        if (wallet?.frozen_at) {
+          throw new AppError(403, 'Your wallet is frozen; contact support');
+        }
+        if (!wallet || Number(wallet.available_points) < pointsToRedeem) {
+          throw new AppError(400, 'Insufficient points');
+        }
+
+        await kycService.assertRedemptionAllowed(client, userId, redemption.amountRupees);
+        await accountRecoveryService.assertNoPhoneChangeHold(client, userId);
+
+        // TDS is collected in points on top of the redemption, at the item's rate
+        const tax = await taxService.calculateWithholding(client, userId, redemption.amountRupees);
+        const taxPoints = tax.tdsRupees > 0 ? payoutCatalogService.pointsFor(item, tax.tdsRupees) : 0;
+        if (Number(wallet.available_points) < pointsToRedeem + taxPoints) {
+          // This redemption also withholds TDS in points
+          throw new AppError(400, 'Insufficient points', { tdsRupees: tax.tdsRupees, taxPoints });
+        }
+
+        const details = { ...(redemption.details || {}) };
+        if (item.method === 'UPI') {
+          const verifiedUpi = await kycService.getVerifiedUpi(userId, client);
+          if (!verifiedUpi) {
+            throw new AppError(403, 'Verify your UPI ID before redeeming to UPI');
+          }
+          if (details.upiId && String(details.upiId).trim().toLowerCase() !== verifiedUpi) {
+            throw new AppError(400, 'UPI redemptions are paid to your verified UPI ID');
+          }
+          // The payout resolves the full UPI ID from the KYC profile; only a masked copy is stored here
+          details.upiId = maskUPI(verifiedUpi);
+        }
 
-        // Invalidate cache
-        await cache.del(`wallet:${userId}`);
+        const now = new Date();
+        await client.query(
+          `INSERT INTO redemption_requests (
+            id, user_id, amount, amount_rupees, catalog_item_id, method, details, status,
+            attempts, next_attempt_at, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', 0, $8, $8, $8)`,
+          [
+            redemptionId,
+            userId,
+            pointsToRedeem,
+            redemption.amountRupees,
+            item.id,
+            item.method,
+            JSON.stringify(details),
+            now,
+          ]
+        );
+
+        if (item.method === 'GIFT_CARD') {
+          await payoutCatalogService.reserveCode(client, item.id, redemption.amountRupees, redemptionId);
+        }
 
-        logger.info('Heartbeat recorded', {
+        // Deduct points immediately (with ledger entry)
+        await ledgerService.post(client, {
           userId,
-          videoId,
-          basePoints,
-          multiplier: tierMultiplier,
-          totalPoints: pointsWithMultiplier,
-          tier: userResult.expert_status,
+          type: 'REDEEMED',
+          points: pointsToRedeem,
+          debit: 'USER_AVAILABLE',
+          credit: 'REDEEMED',
+          status: 'REDEEMED',
+          referenceId: redemptionId,
+          reason: 'Redemption request',
+          metadata: { catalog_item_id: item.id, amount_rupees: redemption.amountRupees },
         });
-      }
 
-      // Return updated wallet balances
-      const wallet = await this.getWallet(userId);
-      if (!wallet) {
-        throw new Error('Failed to fetch updated wallet');
-      }
+        if (taxPoints > 0) {
+          await taxService.recordWithholding(client, {
+            ...tax,
+            userId,
+            redemptionId,
+            grossRupees: redemption.amountRupees,
+            points: taxPoints,
+          });
+        }
+
+        return {
+          redemptionId,
+          pointsRedeemed: pointsToRedeem,
+          method: item.method,
+          taxWithheld:
+            taxPoints > 0 ? { rupees: tax.tdsRupees, points: taxPoints, financialYear: tax.financialYear } : undefined,
+        };
+      });
 
-      return {
-        pendingPoints: wallet.pending_points,
-        availablePoints: wallet.available_points,
-        pointsEarned: pointsWithMultiplier,
-        multiplier: tierMultiplier,
-      };
+      logger.info(`Redemption created: ${redemptionId}`);
+      return result;
     } catch (error) {
-      logger.error('Heartbeat recording failed', error);
+      logger.error('Redemption failed', error);
       throw error;
     }
   }
 
   /**
-   * Get wallet options (payment methods and redemption options)
+   * Manual adjustment by support: goodwill credits, debits, or cancelling a bad pending earning.
+   * The ledger entry and the audit record commit together.
    */
-  async getWalletOptions(): Promise<{
-    paymentMethods: Array<{ id: string; name: string; minAmount: number }>;
-    giftCards: Array<{ id: string; provider: string; denominations: number[] }>;
-  }> {
-    return {
-      paymentMethods: [
-        { id: 'upi', name: 'UPI (Google Pay, PhonePe, Paytm)', minAmount: 100 },
-        { id: 'recharge', name: 'Mobile Recharge', minAmount: 50 },
-        { id: 'bank_transfer', name: 'Bank Transfer', minAmount: 500 },
-      ],
-      giftCards: [
-        {
-          id: 'amazon',
-          provider: 'Amazon',
-          denominations: [100, 250, 500, 1000, 2000, 5000],
-        },
-        { id: 'flipkart', provider: 'Flipkart', denominations: [100, 250, 500, 1000, 2000] },
-        {
-          id: 'netflix',
-          provider: 'Netflix',
-          denominations: [149, 399, 649, 799],
-        },
+  async adjustPoints(
+    userId: string,
+    adjustment: WalletAdjustmentInput,
+    actor: AdminActor
+  ): Promise<{ transaction: LedgerTransaction; wallet: Wallet }> {
+    const result = await db.transaction(async (client) => {
+      const walletResult = await client.query<Wallet>(`SELECT * FROM wallet WHERE user_id = $1 FOR UPDATE`, [userId]);
+      const wallet = walletResult.rows[0];
+      if (!wallet) {
+        throw new AppError(404, 'Wallet not found');
+      }
+
+      const now = new Date();
+      const metadata = { admin_id: actor.adminId, adjustment: adjustment.action };
+      let transaction: LedgerTransaction;
+
+      if (adjustment.action === 'REVERSE_EARNING') {
+        const earningResult = await client.query<LedgerTransaction>(
+          `UPDATE ledger_transactions SET status = 'REVERSED'
+           WHERE id = $1 AND user_id = $2 AND status = 'POSTED' AND credit_account = 'USER_PENDING'
+           RETURNING *`,
+          [adjustment.transactionId, userId]
+        );
+        const earning = earningResult.rows[0];
+        if (!earning) {
+          throw new AppError(404, 'No pending earning with that transaction ID; released points can be debited instead');
+        }
+
+        transaction = await ledgerService.post(client, {
+          userId,
+          type: 'REVERSED',
+          points: Number(earning.points),
+          debit: 'USER_PENDING',
+          credit: 'REWARD_POOL',
+          status: 'REVERSED',
+          videoId: earning.video_id,
+          creatorId: earning.creator_id,
+          category: earning.category,
+          referenceId: earning.id,
+          reason: adjustment.reason,
+          metadata,
+        });
+        if (earning.transaction_type === 'EARN') {
+          await creatorRevenueService.reverseShares(client, [earning.id], 'Viewer earning reversed by support', metadata);
+        }
+      } else {
+        const points = adjustment.points!;
+        const balance = adjustment.balance || 'AVAILABLE';
+        const userAccount = balance === 'PENDING' ? 'USER_PENDING' : 'USER_AVAILABLE';
+
+        if (adjustment.action === 'DEBIT') {
+          if (balance === 'PENDING') {
+            // Pending points belong to individual earnings; reverse the earning instead
+            throw new AppError(400, 'Pending points can only be removed with REVERSE_EARNING');
+          }
+          if (Number(wallet.available_points) < points) {
+            throw new AppError(400, 'Debit exceeds the available balance');
+          }
+          transaction = await ledgerService.post(client, {
+            userId,
+            type: 'ADJUSTMENT',
+            points,
+            debit: userAccount,
+            credit: 'REWARD_POOL',
+            status: 'POSTED',
+            category: 'ADJUSTMENT',
+            reason: adjustment.reason,
+            metadata,
+          });
+        } else {
+          const availableAt = balance === 'PENDING' ? new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000) : undefined;
+          const expiresAt = new Date((availableAt || now).getTime() + 90 * 24 * 60 * 60 * 1000);
+          transaction = await ledgerService.post(client, {
+            userId,
+            type: 'ADJUSTMENT',
+            points,
+            debit: 'REWARD_POOL',
+            credit: userAccount,
+            status: balance === 'PENDING' ? 'POSTED' : 'AVAILABLE',
+            category: 'ADJUSTMENT',
+            reason: adjustment.reason,
+            metadata,
+            availableAt,
+            expiresAt,
+          });
+        }
+      }
+
+      await adminAuditService.record(
         {
-          id: 'spotify',
-          provider: 'Spotify',
-          denominations: [99, 249, 499, 999],
+          ...actor,
+          action: adjustment.action === 'REVERSE_EARNING' ? 'EARNING_REVERSED' : `WALLET_${adjustment.action}`,
+          targetUserId: userId,
+          reason: adjustment.reason,
+          details: {
+            points: Number(transaction.points),
+            balance: adjustment.balance,
+            ledger_transaction_id: transaction.id,
+            reversed_transaction_id: adjustment.transactionId,
+          },
         },
-      ],
-    };
-  }
+        client
+      );
 
-  async redeemPoints(userId: string, pointsToRedeem: number): Promise<string> {
-    const wallet = await this.getWallet(userId);
-    if (!wallet || wallet.available_points < pointsToRedeem) {
-      throw new Error('Insufficient points');
-    }
+      const updated = await client.query<Wallet>(`SELECT * FROM wallet WHERE user_id = $1`, [userId]);
+      return { transaction, wallet: updated.rows[0] };
+    });
 
-    const redemptionId = uuidv4();
-    const now = new Date();
-
-    const query = `
-      INSERT INTO redemption_requests (
-        id, user_id, amount_points, redemption_type, status, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING id
-    `;
+    logger.info('Wallet adjusted', {
+      userId,
+      adminId: actor.adminId,
+      action: adjustment.action,
+      points: result.transaction.points,
+    });
 
-    try {
-      const result = await db.queryOne<{ id: string }>(query, [
-        redemptionId,
+    if (adjustment.action === 'CREDIT') {
+      NotificationService.createNotification(
         userId,
-        pointsToRedeem,
-        'UPI',
-        'PENDING',
-        now,
-      ]);
-
-      // Deduct points immediately (with ledger entry)
-      await db.query(
-        `UPDATE wallet 
-         SET available_points = available_points - $1, updated_at = $2
-         WHERE user_id = $3`,
-        [pointsToRedeem, now, userId]
+        'points_update',
+        `You received ${result.transaction.points} points from WiseReels support`,
+        undefined,
+        result.transaction.id,
+        'wallet',
+        adjustment.reason
+      ).catch((error) => logger.error('Adjustment notification failed', { error, userId }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Freeze a wallet: no redemptions, tips, earnings or pending releases until unfrozen
+   */
+  async freezeWallet(userId: string, reason: string, actor: AdminActor): Promise<Wallet> {
+    const wallet = await db.transaction(async (client) => {
+      const result = await client.query<Wallet>(
+        `UPDATE wallet SET frozen_at = NOW(), frozen_reason = $1, frozen_by = $2, updated_at = NOW()
+         WHERE user_id = $3 AND frozen_at IS NULL
+         RETURNING *`,
+        [reason, actor.adminId, userId]
       );
+      if (!result.rows[0]) {
+        const exists = await client.query(`SELECT 1 FROM wallet WHERE user_id = $1`, [userId]);
+        throw exists.rows[0] ? new AppError(400, 'Wallet is already frozen') : new AppError(404, 'Wallet not found');
+      }
 
-      // Record in ledger
-      await db.query(
-        `INSERT INTO ledger_transactions (
-          id, user_id, transaction_type, points, status, posted_at, created_at, reason
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [
-          uuidv4(),
-          userId,
-          'REDEEMED',
-          -pointsToRedeem,
-          'REDEEMED',
-          now,
-          now,
-          'Redemption request',
-        ]
+      await adminAuditService.record({ ...actor, action: 'WALLET_FROZEN', targetUserId: userId, reason }, client);
+      return result.rows[0];
+    });
+
+    logger.warn('Wallet frozen', { userId, adminId: actor.adminId });
+    return wallet;
+  }
+
+  async unfreezeWallet(userId: string, reason: string, actor: AdminActor): Promise<Wallet> {
+    const wallet = await db.transaction(async (client) => {
+      const current = await client.query<Wallet>(`SELECT * FROM wallet WHERE user_id = $1 FOR UPDATE`, [userId]);
+      if (!current.rows[0]) {
+        throw new AppError(404, 'Wallet not found');
+      }
+      if (!current.rows[0].frozen_at) {
+        throw new AppError(400, 'Wallet is not frozen');
+      }
+
+      const result = await client.query<Wallet>(
+        `UPDATE wallet SET frozen_at = NULL, frozen_reason = NULL, frozen_by = NULL, updated_at = NOW()
+         WHERE user_id = $1
+         RETURNING *`,
+        [userId]
       );
 
-      await cache.del(`wallet:${userId}`);
+      await adminAuditService.record(
+        {
+          ...actor,
+          action: 'WALLET_UNFROZEN',
+          targetUserId: userId,
+          reason,
+          details: { frozen_at: current.rows[0].frozen_at, frozen_reason: current.rows[0].frozen_reason },
+        },
+        client
+      );
+      return result.rows[0];
+    });
 
-      logger.info(`Redemption created: ${redemptionId}`);
-      return result?.id || redemptionId;
-    } catch (error) {
-      logger.error('Redemption failed', error);
-      throw error;
-    }
+    logger.info('Wallet unfrozen', { userId, adminId: actor.adminId });
+    return wallet;
   }
 }
 
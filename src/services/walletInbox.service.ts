@@ -0,0 +1,71 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { decryptSecret } from '../utils/encryption';
+
+export interface WalletInboxItem {
+  id: string;
+  user_id: string;
+  redemption_id?: string;
+  item_type: 'GIFT_CARD_CODE';
+  title: string;
+  // Encrypted JSON; only returned by openItem()
+  payload_encrypted?: string;
+  opened_at?: Date;
+  created_at: Date;
+}
+
+class WalletInboxService {
+  /**
+   * Drop an already-encrypted gift card secret into the user's inbox.
+   * Runs on the caller's client so delivery commits with the redemption.
+   */
+  async deliverGiftCard(
+    client: PoolClient,
+    delivery: { userId: string; redemptionId: string; title: string; payloadEncrypted: string }
+  ): Promise<string> {
+    const id = uuidv4();
+    await client.query(
+      `INSERT INTO wallet_inbox (id, user_id, redemption_id, item_type, title, payload_encrypted, created_at)
+       VALUES ($1, $2, $3, 'GIFT_CARD_CODE', $4, $5, $6)`,
+      [id, delivery.userId, delivery.redemptionId, delivery.title, delivery.payloadEncrypted, new Date()]
+    );
+    return id;
+  }
+
+  async getInbox(userId: string, limit: number = 20, offset: number = 0): Promise<WalletInboxItem[]> {
+    return db.query<WalletInboxItem>(
+      `SELECT id, user_id, redemption_id, item_type, title, opened_at, created_at
+       FROM wallet_inbox
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
+    );
+  }
+
+  /**
+   * Reveal an inbox item's contents to its owner
+   */
+  async openItem(userId: string, itemId: string): Promise<Omit<WalletInboxItem, 'payload_encrypted'> & { payload: any }> {
+    const item = await db.queryOne<WalletInboxItem>(
+      `UPDATE wallet_inbox SET opened_at = COALESCE(opened_at, NOW())
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [itemId, userId]
+    );
+
+    if (!item) {
+      throw new AppError(404, 'Inbox item not found');
+    }
+
+    const { payload_encrypted, ...rest } = item;
+    logger.info('Wallet inbox item opened', { userId, itemId });
+
+    return { ...rest, payload: JSON.parse(decryptSecret(payload_encrypted!)) };
+  }
+}
+
+export const walletInboxService = new WalletInboxService();
@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { getSecret } from '../config/secrets';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { walletService } from './wallet.service';
+import { bonusRulesService } from './bonusRules.service';
+import { creatorRevenueService } from './creatorRevenue.service';
+import { BudgetState } from './rewardBudget.service';
+
+const WATCH_SESSION_TTL_SECONDS = 4 * 60 * 60; // Sessions older than this stop accepting heartbeats
+const HEARTBEAT_CLOCK_TOLERANCE_SECONDS = 2; // Allowance for network jitter between heartbeats
+
+export interface WatchSession {
+  id: string;
+  user_id: string;
+  video_id: string;
+  creator_id: string;
+  category: string;
+  video_duration_seconds: number;
+  status: 'ACTIVE' | 'CLOSED';
+  device_id?: string;
+  ip_address?: string;
+  last_sequence: number;
+  seconds_watched: number;
+  points_earned: number;
+  started_at: Date;
+  last_heartbeat_at?: Date;
+  closed_at?: Date;
+}
+
+export interface HeartbeatResult {
+  sessionId: string;
+  sequence: number;
+  secondsWatched: number;
+  pointsEarned: number;
+  multiplier: number;
+  policyVersion: number;
+  capReached?: string;
+  // THROTTLED or PAUSED when the category's daily reward budget is running out
+  budgetState: BudgetState;
+  // Set while a moderator has banned the user from earning
+  earningBanned?: boolean;
+  pendingPoints: number;
+  availablePoints: number;
+}
+
+class WatchSessionService {
+  /**
+   * Start a watch session for a published video.
+   * Any other active session for the user is closed so parallel players cannot earn twice.
+   */
+  async startSession(
+    userId: string,
+    videoId: string,
+    origin: { deviceId?: string; ipAddress?: string } = {}
+  ): Promise<{ sessionId: string; sessionToken: string; videoDurationSeconds: number; expiresAt: Date }> {
+    const video = await db.queryOne<{ id: string; creator_id: string; category: string; duration_seconds: number }>(
+      `SELECT id, creator_id, category, duration_seconds FROM videos WHERE id = $1 AND video_status = $2`,
+      [videoId, 'PUBLISHED']
+    );
+
+    if (!video) {
+      throw new AppError(404, 'Video not found');
+    }
+
+    if (!video.duration_seconds || video.duration_seconds <= 0) {
+      throw new AppError(400, 'Video duration is unknown');
+    }
+
+    const sessionId = uuidv4();
+    const now = new Date();
+
+    await db.transaction(async (client) => {
+      await client.query(
+        `UPDATE watch_sessions SET status = 'CLOSED', closed_at = $1
+         WHERE user_id = $2 AND status = 'ACTIVE'`,
+        [now, userId]
+      );
+
+      await client.query(
+        `INSERT INTO watch_sessions (
+          id, user_id, video_id, creator_id, category, video_duration_seconds,
+          status, device_id, ip_address, last_sequence, seconds_watched, points_earned, started_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, 'ACTIVE', $7, $8, 0, 0, 0, $9)`,
+        [
+          sessionId,
+          userId,
+          video.id,
+          video.creator_id,
+          video.category,
+          video.duration_seconds,
+          origin.deviceId || null,
+          origin.ipAddress || null,
+          now,
+        ]
+      );
+    });
+
+    logger.info('Watch session started', { sessionId, userId, videoId });
+
+    return {
+      sessionId,
+      sessionToken: this.signSessionToken(sessionId, userId),
+      videoDurationSeconds: video.duration_seconds,
+      expiresAt: new Date(now.getTime() + WATCH_SESSION_TTL_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Accept a sequenced heartbeat for a session and credit the watch time.
+   * `watchDurationSeconds` is the time watched since the previous heartbeat.
+   */
+  async recordHeartbeat(
+    userId: string,
+    sessionToken: string,
+    sequence: number,
+    watchDurationSeconds: number
+  ): Promise<HeartbeatResult> {
+    const sessionId = this.verifySessionToken(sessionToken, userId);
+
+    const result = await db.transaction(async (client) => {
+      const sessionResult = await client.query<WatchSession>(
+        `SELECT * FROM watch_sessions WHERE id = $1 FOR UPDATE`,
+        [sessionId]
+      );
+      const session = sessionResult.rows[0];
+
+      if (!session || session.user_id !== userId) {
+        throw new AppError(404, 'Watch session not found');
+      }
+
+      const now = new Date();
+      this.assertSessionOpen(session, now);
+
+      if (sequence <= session.last_sequence) {
+        throw new AppError(409, 'Duplicate or out-of-order heartbeat sequence');
+      }
+
+      const since = new Date(session.last_heartbeat_at || session.started_at).getTime();
+      const elapsedSeconds = (now.getTime() - since) / 1000;
+      if (watchDurationSeconds > elapsedSeconds + HEARTBEAT_CLOCK_TOLERANCE_SECONDS) {
+        throw new AppError(422, 'Heartbeat claims more watch time than has elapsed');
+      }
+
+      const secondsWatched = session.seconds_watched + watchDurationSeconds;
+      if (secondsWatched > session.video_duration_seconds) {
+        throw new AppError(422, 'Heartbeat claims more watch time than the video length');
+      }
+
+      await client.query(
+        `INSERT INTO video_heartbeats (id, user_id, video_id, session_id, sequence, seconds_watched, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [uuidv4(), userId, session.video_id, session.id, sequence, watchDurationSeconds, now]
+      );
+
+      // A session counts as one view for the creator once it has accepted a heartbeat
+      if (session.last_sequence === 0) {
+        await creatorRevenueService.recordView(client, session.creator_id, userId);
+      }
+
+      const earning = await walletService.recordWatchHeartbeat(
+        client,
+        userId,
+        session.video_id,
+        session.creator_id,
+        watchDurationSeconds,
+        session.category
+      );
+
+      await client.query(
+        `UPDATE watch_sessions
+         SET last_sequence = $1, seconds_watched = $2, points_earned = points_earned + $3, last_heartbeat_at = $4
+         WHERE id = $5`,
+        [sequence, secondsWatched, earning.pointsEarned, now, session.id]
+      );
+
+      return { session, secondsWatched, ...earning };
+    });
+
+    // Streak and milestone bonuses are evaluated off the request path
+    if (!result.earningBanned) {
+      bonusRulesService.evaluateAfterHeartbeat(userId).catch((error) => {
+        logger.error('Bonus rule evaluation failed', { error, userId });
+      });
+    }
+
+    const wallet = await walletService.getWallet(userId);
+    if (!wallet) {
+      throw new Error('Failed to fetch updated wallet');
+    }
+
+    return {
+      sessionId: result.session.id,
+      sequence,
+      secondsWatched: result.secondsWatched,
+      pointsEarned: result.pointsEarned,
+      multiplier: result.multiplier,
+      policyVersion: result.policyVersion,
+      capReached: result.capReached,
+      budgetState: result.budgetState,
+      earningBanned: result.earningBanned,
+      pendingPoints: wallet.pending_points,
+      availablePoints: wallet.available_points,
+    };
+  }
+
+  /**
+   * Close a watch session; further heartbeats are rejected
+   */
+  async closeSession(userId: string, sessionToken: string): Promise<WatchSession> {
+    const sessionId = this.verifySessionToken(sessionToken, userId);
+
+    const session = await db.queryOne<WatchSession>(
+      `UPDATE watch_sessions SET status = 'CLOSED', closed_at = $1
+       WHERE id = $2 AND user_id = $3 AND status = 'ACTIVE'
+       RETURNING *`,
+      [new Date(), sessionId, userId]
+    );
+
+    if (!session) {
+      throw new AppError(404, 'Active watch session not found');
+    }
+
+    logger.info('Watch session closed', {
+      sessionId,
+      userId,
+      secondsWatched: session.seconds_watched,
+      pointsEarned: session.points_earned,
+    });
+
+    return session;
+  }
+
+  private assertSessionOpen(session: WatchSession, now: Date): void {
+    if (session.status !== 'ACTIVE') {
+      throw new AppError(410, 'Watch session is closed');
+    }
+
+    if (now.getTime() - new Date(session.started_at).getTime() > WATCH_SESSION_TTL_SECONDS * 1000) {
+      throw new AppError(410, 'Watch session has expired');
+    }
+  }
+
+  private signSessionToken(sessionId: string, userId: string): string {
+    return `${sessionId}.${this.sign(sessionId, userId)}`;
+  }
+
+  private verifySessionToken(sessionToken: string, userId: string): string {
+    const [sessionId, signature] = (sessionToken || '').split('.');
+    if (!sessionId || !signature) {
+      throw new AppError(401, 'Invalid session token');
+    }
+
+    const expected = Buffer.from(this.sign(sessionId, userId));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new AppError(401, 'Invalid session token');
+    }
+
+    return sessionId;
+  }
+
+  private sign(sessionId: string, userId: string): string {
+    return crypto.createHmac('sha256', getSecret('WATCH_SESSION_SECRET')).update(`${sessionId}:${userId}`).digest('hex');
+  }
+}
+
+export const watchSessionService = new WatchSessionService();
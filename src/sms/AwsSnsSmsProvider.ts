@@ -0,0 +1,98 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { SmsMessage, SmsProvider, SmsSendResult } from './SmsProvider';
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * AWS SNS direct-to-phone publish, signed with Signature Version 4.
+ * SNS reports delivery through CloudWatch Logs rather than a callback, so messages stay SENT.
+ */
+export class AwsSnsSmsProvider implements SmsProvider {
+  readonly name = 'aws-sns';
+  readonly requiredEnv = ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY'];
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const region = process.env.AWS_REGION || 'ap-south-1';
+    const host = `sns.${region}.amazonaws.com`;
+
+    const params = new URLSearchParams({
+      Action: 'Publish',
+      Version: '2010-03-31',
+      PhoneNumber: message.to,
+      Message: message.body,
+      'MessageAttributes.entry.1.Name': 'AWS.SNS.SMS.SMSType',
+      'MessageAttributes.entry.1.Value.DataType': 'String',
+      'MessageAttributes.entry.1.Value.StringValue': 'Transactional',
+    });
+    if (process.env.AWS_SNS_SENDER_ID) {
+      params.set('MessageAttributes.entry.2.Name', 'AWS.SNS.SMS.SenderID');
+      params.set('MessageAttributes.entry.2.Value.DataType', 'String');
+      params.set('MessageAttributes.entry.2.Value.StringValue', process.env.AWS_SNS_SENDER_ID);
+    }
+    const body = params.toString();
+
+    try {
+      const response = await axios.post(`https://${host}/`, body, {
+        headers: this.signedHeaders(host, region, body),
+        timeout: 10000,
+        responseType: 'text',
+      });
+
+      const messageId = /<MessageId>([^<]+)<\/MessageId>/.exec(String(response.data))?.[1];
+      return {
+        success: true,
+        providerMessageId: messageId,
+        status: 'SENT',
+        response: { messageId },
+      };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        const data = String(axios.isAxiosError(err) ? err.response?.data || '' : '');
+        return {
+          success: false,
+          error: /<Message>([^<]+)<\/Message>/.exec(data)?.[1] || `AWS SNS rejected the message (${status})`,
+          response: { status, code: /<Code>([^<]+)<\/Code>/.exec(data)?.[1] },
+        };
+      }
+      throw new Error(`${this.name} SMS request failed${status ? ` (${status})` : ''}`);
+    }
+  }
+
+  private signedHeaders(host: string, region: string, body: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-www-form-urlencoded; charset=utf-8',
+      host,
+      'x-amz-date': amzDate,
+    };
+    if (process.env.AWS_SESSION_TOKEN) {
+      headers['x-amz-security-token'] = process.env.AWS_SESSION_TOKEN;
+    }
+
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      'POST',
+      '/',
+      '',
+      names.map((name) => `${name}:${headers[name]}\n`).join(''),
+      names.join(';'),
+      sha256(body),
+    ].join('\n');
+    const scope = `${dateStamp}/${region}/sns/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${process.env.AWS_SECRET_ACCESS_KEY || ''}`, dateStamp), region), 'sns'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // axios sets Host itself
+    const { host: _host, ...rest } = headers;
+    return {
+      ...rest,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${process.env.AWS_ACCESS_KEY_ID}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { SmsMessage, SmsProvider, SmsSendResult } from './SmsProvider';
+
+/**
+ * Development sink: nothing leaves the machine. Each message is appended as a JSON line
+ * to SMS_DEV_FILE when set, otherwise written to the application log.
+ */
+export class DevSmsProvider implements SmsProvider {
+  readonly name = 'dev';
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const providerMessageId = `dev-${uuidv4()}`;
+    const entry = { id: providerMessageId, to: message.to, locale: message.locale, body: message.body, at: new Date().toISOString() };
+
+    if (process.env.SMS_DEV_FILE) {
+      await fs.promises.mkdir(path.dirname(process.env.SMS_DEV_FILE), { recursive: true });
+      await fs.promises.appendFile(process.env.SMS_DEV_FILE, `${JSON.stringify(entry)}\n`);
+    } else {
+      logger.info(`[dev sms] to ${message.to}: ${message.body}`);
+    }
+
+    return { success: true, providerMessageId, status: 'DELIVERED', response: { sink: process.env.SMS_DEV_FILE || 'log' } };
+  }
+}
@@ -1,24 +1,42 @@
 import axios from 'axios';
-import { SmsProvider } from './SmsProvider';
+import { SmsMessage, SmsProvider, SmsSendResult } from './SmsProvider';
 
+/**
+ * Generic JSON SMS gateway (Fast2SMS/2Factor style); configure with LOCAL_SMS_API_URL
+ */
 export class LocalSmsProvider implements SmsProvider {
-  async sendOtp(phoneNumber: string, otp: string, message?: string): Promise<void> {
-    // Example: Fast2SMS/2Factor/MSG91 style API (replace with real API details)
-    const apiKey = process.env.LOCAL_SMS_API_KEY;
-    const senderId = process.env.LOCAL_SMS_SENDER_ID || 'WISERL';
-    const text = message || `Your WiseReels OTP is ${otp}`;
+  readonly name = 'local';
+  readonly requiredEnv = ['LOCAL_SMS_API_URL', 'LOCAL_SMS_API_KEY'];
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
     // Example endpoint (replace with actual):
     const url = process.env.LOCAL_SMS_API_URL || 'https://api.example.com/send';
     try {
-      await axios.post(url, {
-        api_key: apiKey,
-        sender_id: senderId,
-        to: phoneNumber,
-        message: text,
-        template_id: process.env.LOCAL_SMS_TEMPLATE_ID,
-      });
+      const response = await axios.post(
+        url,
+        {
+          api_key: process.env.LOCAL_SMS_API_KEY,
+          sender_id: process.env.LOCAL_SMS_SENDER_ID || 'WISERL',
+          to: message.to,
+          message: message.body,
+          template_id: process.env.LOCAL_SMS_TEMPLATE_ID,
+          reference_id: message.messageId,
+        },
+        { timeout: 10000 }
+      );
+
+      return {
+        success: true,
+        providerMessageId: response.data?.id || response.data?.request_id,
+        status: 'SENT',
+        response: response.data,
+      };
     } catch (err) {
-      throw new Error('Failed to send OTP via Local SMS provider');
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        return { success: false, error: `Local SMS gateway rejected the message (${status})`, response: { status } };
+      }
+      throw new Error(`${this.name} SMS request failed${status ? ` (${status})` : ''}`);
     }
   }
 }
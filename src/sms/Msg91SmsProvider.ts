@@ -0,0 +1,95 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { SmsCallbackRequest, SmsDeliveryStatus, SmsMessage, SmsProvider, SmsSendResult, SmsStatusUpdate } from './SmsProvider';
+
+/**
+ * MSG91 Flow API. Indian DLT rules require a registered template per message, so the
+ * rendered body is not sent; MSG91_TEMPLATE_IDS maps "<TEMPLATE>.<locale>" to a flow id.
+ * Delivery reports are posted to SMS_CALLBACK_BASE_URL/api/sms/callbacks/msg91?token=SMS_CALLBACK_TOKEN.
+ */
+export class Msg91SmsProvider implements SmsProvider {
+  readonly name = 'msg91';
+  readonly requiredEnv = ['MSG91_AUTH_KEY', 'MSG91_TEMPLATE_IDS'];
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const templateIds: Record<string, string> = JSON.parse(process.env.MSG91_TEMPLATE_IDS || '{}');
+    const templateId = templateIds[`${message.template}.${message.locale}`] || templateIds[`${message.template}.en`];
+    if (!templateId) {
+      return { success: false, error: `No MSG91 template for ${message.template}`, response: {} };
+    }
+
+    try {
+      const response = await axios.post(
+        'https://control.msg91.com/api/v5/flow/',
+        {
+          template_id: templateId,
+          short_url: '0',
+          recipients: [{ mobiles: message.to.replace(/^\+/, ''), ...message.variables }],
+        },
+        {
+          headers: { authkey: process.env.MSG91_AUTH_KEY || '' },
+          timeout: 10000,
+        }
+      );
+
+      if (response.data?.type !== 'success') {
+        return { success: false, error: response.data?.message || 'MSG91 rejected the message', response: response.data };
+      }
+      return {
+        success: true,
+        providerMessageId: response.data.message,
+        status: 'QUEUED',
+        response: response.data,
+      };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+        return {
+          success: false,
+          error: data?.message || `MSG91 rejected the message (${status})`,
+          response: { status, data },
+        };
+      }
+      throw new Error(`${this.name} SMS request failed${status ? ` (${status})` : ''}`);
+    }
+  }
+
+  parseStatusCallback(request: SmsCallbackRequest): SmsStatusUpdate[] | null {
+    const expected = process.env.SMS_CALLBACK_TOKEN || '';
+    const token = String(request.query.token || '');
+    if (!expected || token.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected))) {
+      return null;
+    }
+
+    // MSG91 posts either a single report or { data: [...] }, each with a request id and per-number reports
+    const reports: any[] = Array.isArray(request.body?.data) ? request.body.data : [request.body];
+    return reports
+      .filter((report) => report?.requestId)
+      .map((report) => {
+        const status = String(report.report?.[0]?.status ?? report.status ?? '');
+        return {
+          providerMessageId: report.requestId,
+          status: this.mapStatus(status),
+          errorCode: this.mapStatus(status) === 'DELIVERED' ? undefined : status,
+          payload: report,
+        };
+      });
+  }
+
+  private mapStatus(status: string): SmsDeliveryStatus {
+    switch (status.toLowerCase()) {
+      case '1':
+      case 'delivered':
+        return 'DELIVERED';
+      case '8':
+      case 'sent':
+        return 'SENT';
+      case '2':
+      case 'failed':
+        return 'FAILED';
+      default:
+        return 'UNDELIVERED';
+    }
+  }
+}
@@ -1,3 +1,53 @@
+import { SmsTemplateKey } from './templates';
+
+export type SmsDeliveryStatus = 'QUEUED' | 'SENT' | 'DELIVERED' | 'UNDELIVERED' | 'FAILED';
+
+export interface SmsMessage {
+  // sms_messages id; providers that accept a client reference receive it
+  messageId: string;
+  to: string;
+  body: string;
+  template: SmsTemplateKey;
+  locale: string;
+  variables: Record<string, string>;
+}
+
+export interface SmsSendResult {
+  success: boolean;
+  providerMessageId?: string;
+  // QUEUED until the provider reports delivery; providers without callbacks report SENT
+  status?: SmsDeliveryStatus;
+  error?: string;
+  response: Record<string, any>;
+}
+
+export interface SmsCallbackRequest {
+  // Public URL the provider called, needed to check signed callbacks
+  url: string;
+  headers: Record<string, any>;
+  query: Record<string, any>;
+  body: any;
+}
+
+export interface SmsStatusUpdate {
+  providerMessageId: string;
+  status: SmsDeliveryStatus;
+  errorCode?: string;
+  payload: Record<string, any>;
+}
+
 export interface SmsProvider {
-  sendOtp(phoneNumber: string, otp: string, message?: string): Promise<void>;
+  readonly name: string;
+  // Environment variables the provider cannot send without; checked at boot in production
+  readonly requiredEnv?: string[];
+  /**
+   * Send a message. Network and 5xx errors are thrown; definitive rejections are returned.
+   * Either way the caller fails over to the next provider.
+   */
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  /**
+   * Parse a delivery-status callback. Returns null when the request is not authentic.
+   * Providers that report delivery some other way leave this out.
+   */
+  parseStatusCallback?(request: SmsCallbackRequest): SmsStatusUpdate[] | null;
 }
@@ -0,0 +1,77 @@
+import { SmsProvider } from './SmsProvider';
+import { TwilioSmsProvider } from './TwilioSmsProvider';
+import { AwsSnsSmsProvider } from './AwsSnsSmsProvider';
+import { Msg91SmsProvider } from './Msg91SmsProvider';
+import { LocalSmsProvider } from './LocalSmsProvider';
+import { DevSmsProvider } from './DevSmsProvider';
+
+export class SmsProviderRegistry {
+  private static factories = new Map<string, () => SmsProvider>([
+    ['twilio', () => new TwilioSmsProvider()],
+    ['aws-sns', () => new AwsSnsSmsProvider()],
+    ['msg91', () => new Msg91SmsProvider()],
+    ['local', () => new LocalSmsProvider()],
+    ['dev', () => new DevSmsProvider()],
+  ]);
+  private static instances = new Map<string, SmsProvider>();
+
+  static register(name: string, factory: () => SmsProvider): void {
+    SmsProviderRegistry.factories.set(name, factory);
+    SmsProviderRegistry.instances.delete(name);
+  }
+
+  static get(name: string): SmsProvider | undefined {
+    const key = name.toLowerCase();
+    if (!SmsProviderRegistry.instances.has(key)) {
+      const factory = SmsProviderRegistry.factories.get(key);
+      if (!factory) {
+        return undefined;
+      }
+      SmsProviderRegistry.instances.set(key, factory());
+    }
+    return SmsProviderRegistry.instances.get(key);
+  }
+
+  /**
+   * Providers to try in order, from SMS_PROVIDERS (e.g. "msg91,twilio,aws-sns").
+   * Defaults to the dev sink outside production; production refuses the dev sink.
+   */
+  static getChain(): SmsProvider[] {
+    const configured = process.env.SMS_PROVIDERS || process.env.SMS_PROVIDER;
+    const isProduction = process.env.NODE_ENV === 'production';
+    if (!configured && isProduction) {
+      throw new Error('SMS_PROVIDERS must be set in production');
+    }
+
+    return (configured || 'dev')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => {
+        const provider = SmsProviderRegistry.get(name);
+        if (!provider) {
+          throw new Error(`Unknown SMS provider: ${name}`);
+        }
+        if (provider.name === 'dev' && isProduction) {
+          throw new Error('The dev SMS provider cannot be used in production');
+        }
+        return provider;
+      });
+  }
+
+  /**
+   * Resolve the chain at boot so a misconfigured deploy fails fast instead of on the first OTP.
+   * In production every provider in the chain must also have its credentials.
+   */
+  static validateChain(): void {
+    const chain = SmsProviderRegistry.getChain();
+    if (process.env.NODE_ENV !== 'production') {
+      return;
+    }
+
+    const missing = chain.flatMap((provider) => (provider.requiredEnv || []).filter((name) => !process.env[name]));
+    if (missing.length > 0) {
+      throw new Error(`SMS provider configuration missing: ${missing.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { SmsCallbackRequest, SmsDeliveryStatus, SmsMessage, SmsProvider, SmsSendResult, SmsStatusUpdate } from './SmsProvider';
+
+const STATUS_MAP: Record<string, SmsDeliveryStatus> = {
+  accepted: 'QUEUED',
+  queued: 'QUEUED',
+  sending: 'QUEUED',
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  undelivered: 'UNDELIVERED',
+  failed: 'FAILED',
+};
+
+/**
+ * Twilio Programmable Messaging. Delivery reports arrive at
+ * SMS_CALLBACK_BASE_URL/api/sms/callbacks/twilio, signed with the auth token.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  readonly requiredEnv = ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN'];
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const params = new URLSearchParams({ To: message.to, Body: message.body });
+    if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
+      params.set('MessagingServiceSid', process.env.TWILIO_MESSAGING_SERVICE_SID);
+    } else {
+      params.set('From', process.env.TWILIO_PHONE_NUMBER || '');
+    }
+    if (process.env.SMS_CALLBACK_BASE_URL) {
+      params.set('StatusCallback', `${process.env.SMS_CALLBACK_BASE_URL}/api/sms/callbacks/${this.name}`);
+    }
+
+    try {
+      const response = await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        params.toString(),
+        {
+          auth: { username: accountSid || '', password: process.env.TWILIO_AUTH_TOKEN || '' },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: 10000,
+        }
+      );
+
+      return {
+        success: true,
+        providerMessageId: response.data?.sid,
+        status: STATUS_MAP[response.data?.status] || 'QUEUED',
+        response: { sid: response.data?.sid, status: response.data?.status },
+      };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+        return {
+          success: false,
+          error: data?.message || `Twilio rejected the message (${status})`,
+          response: { status, code: data?.code },
+        };
+      }
+      throw new Error(`${this.name} SMS request failed${status ? ` (${status})` : ''}`);
+    }
+  }
+
+  parseStatusCallback(request: SmsCallbackRequest): SmsStatusUpdate[] | null {
+    const signature = request.headers['x-twilio-signature'];
+    if (!signature || !this.isValidSignature(request.url, request.body || {}, signature)) {
+      return null;
+    }
+
+    const { MessageSid, MessageStatus, ErrorCode } = request.body;
+    if (!MessageSid || !STATUS_MAP[MessageStatus]) {
+      return [];
+    }
+
+    return [
+      {
+        providerMessageId: MessageSid,
+        status: STATUS_MAP[MessageStatus],
+        errorCode: ErrorCode || undefined,
+        payload: request.body,
+      },
+    ];
+  }
+
+  /**
+   * X-Twilio-Signature: base64 HMAC-SHA1 of the URL followed by the sorted POST params
+   */
+  private isValidSignature(url: string, params: Record<string, string>, signature: string): boolean {
+    const data = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], url);
+    const expected = crypto
+      .createHmac('sha1', process.env.TWILIO_AUTH_TOKEN || '')
+      .update(data)
+      .digest('base64');
+
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+}
@@ -0,0 +1,48 @@
+export type SmsTemplateKey = 'OTP' | 'PHONE_CHANGED' | 'ACCOUNT_RECOVERY';
+
+export const DEFAULT_SMS_LOCALE = 'en';
+
+// Placeholders are {{name}}; every locale must define every template
+const SMS_TEMPLATES: Record<string, Record<SmsTemplateKey, string>> = {
+  en: {
+    OTP: 'Your WiseReels OTP is {{otp}}. It expires in {{minutes}} minutes. Do not share it with anyone.',
+    PHONE_CHANGED: 'The phone number on your WiseReels account was changed to {{phone}}. If this was not you, contact support immediately.',
+    ACCOUNT_RECOVERY: 'A recovery request will move your WiseReels account to {{phone}} on {{date}}. If this was not you, open the app and cancel it.',
+  },
+  hi: {
+    OTP: 'आपका WiseReels OTP {{otp}} है। यह {{minutes}} मिनट में समाप्त हो जाएगा। इसे किसी के साथ साझा न करें।',
+    PHONE_CHANGED: 'आपके WiseReels खाते का फ़ोन नंबर बदलकर {{phone}} कर दिया गया है। अगर यह आपने नहीं किया, तो तुरंत सहायता से संपर्क करें।',
+    ACCOUNT_RECOVERY: 'एक रिकवरी अनुरोध {{date}} को आपके WiseReels खाते को {{phone}} पर ले जाएगा। अगर यह आपने नहीं किया, तो ऐप खोलकर इसे रद्द करें।',
+  },
+  ta: {
+    OTP: 'உங்கள் WiseReels OTP {{otp}}. இது {{minutes}} நிமிடங்களில் காலாவதியாகும். யாருடனும் பகிர வேண்டாம்.',
+    PHONE_CHANGED: 'உங்கள் WiseReels கணக்கின் தொலைபேசி எண் {{phone}} ஆக மாற்றப்பட்டது. இது நீங்கள் செய்யவில்லை என்றால், உடனே ஆதரவைத் தொடர்பு கொள்ளுங்கள்.',
+    ACCOUNT_RECOVERY: 'மீட்பு கோரிக்கை ஒன்று {{date}} அன்று உங்கள் WiseReels கணக்கை {{phone}} எண்ணுக்கு மாற்றும். இது நீங்கள் செய்யவில்லை என்றால், செயலியைத் திறந்து அதை ரத்து செய்யுங்கள்.',
+  },
+  te: {
+    OTP: 'మీ WiseReels OTP {{otp}}. ఇది {{minutes}} నిమిషాల్లో ముగుస్తుంది. దీన్ని ఎవరితోనూ పంచుకోవద్దు.',
+    PHONE_CHANGED: 'మీ WiseReels ఖాతా ఫోన్ నంబర్ {{phone}}కి మార్చబడింది. ఇది మీరు చేయకపోతే, వెంటనే సపోర్ట్‌ను సంప్రదించండి.',
+    ACCOUNT_RECOVERY: 'ఒక రికవరీ అభ్యర్థన {{date}}న మీ WiseReels ఖాతాను {{phone}}కి మారుస్తుంది. ఇది మీరు చేయకపోతే, యాప్ తెరిచి దాన్ని రద్దు చేయండి.',
+  },
+};
+
+/**
+ * Pick a supported locale from a locale code or an Accept-Language header, e.g. 'hi-IN,hi;q=0.9,en'
+ */
+export const resolveSmsLocale = (requested?: string): string => {
+  const candidates = (requested || '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().toLowerCase().split('-')[0])
+    .filter(Boolean);
+
+  return candidates.find((locale) => SMS_TEMPLATES[locale]) || DEFAULT_SMS_LOCALE;
+};
+
+export const renderSmsTemplate = (
+  template: SmsTemplateKey,
+  locale: string,
+  variables: Record<string, string>
+): string => {
+  const text = (SMS_TEMPLATES[locale] || SMS_TEMPLATES[DEFAULT_SMS_LOCALE])[template];
+  return text.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => variables[name] ?? '');
+};
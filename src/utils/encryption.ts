@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { getSecret } from '../config/secrets';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Any string works as the secret; it is stretched to a 256-bit key
+const encryptionKey = (): Buffer => crypto.createHash('sha256').update(getSecret('DATA_ENCRYPTION_KEY')).digest();
+
+/**
+ * Encrypt a secret for storage at rest (AES-256-GCM). Output: iv.tag.ciphertext, base64 encoded.
+ */
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [iv, tag, ciphertext].map((part) => part.toString('base64')).join('.');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, tag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted payload');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Show only the last few characters of a secret, e.g. ••••••••1234
+ */
+export const maskSecret = (value: string, visible: number = 4): string => {
+  return `${'•'.repeat(Math.max(value.length - visible, 4))}${value.slice(-visible)}`;
+};
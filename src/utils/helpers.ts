@@ -34,3 +34,57 @@ export const getDateAfterDays = (days: number): Date => {
 export const isPointsExpired = (expiresAt: Date): boolean => {
   return new Date() > expiresAt;
 };
+
+/**
+ * UTC bounds of a YYYY-MM month, or null if the string is not a valid month
+ */
+export const parseMonth = (month: string): { from: Date; to: Date } | null => {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    return null;
+  }
+  const from = new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, 1));
+  const to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1));
+  return { from, to };
+};
+
+// Indian financial years run 1 April - 31 March, bounded at midnight IST
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Financial year (e.g. 2026-27) that a moment falls in
+ */
+export const financialYearOf = (date: Date): string => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Bounds of a YYYY-YY financial year, or null if the string is not a valid financial year
+ */
+export const parseFinancialYear = (financialYear: string): { from: Date; to: Date } | null => {
+  const match = /^(\d{4})-(\d{2})$/.exec(financialYear);
+  if (!match) {
+    return null;
+  }
+  const startYear = parseInt(match[1], 10);
+  if ((startYear + 1) % 100 !== parseInt(match[2], 10)) {
+    return null;
+  }
+  const from = new Date(Date.UTC(startYear, 3, 1) - IST_OFFSET_MS);
+  const to = new Date(Date.UTC(startYear + 1, 3, 1) - IST_OFFSET_MS);
+  return { from, to };
+};
+
+export const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  // Neutralise spreadsheet formula injection
+  if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
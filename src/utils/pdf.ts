@@ -0,0 +1,89 @@
+/**
+ * Minimal PDF writer for plain-text reports (statements, exports).
+ * Supports Helvetica / Helvetica-Bold text lines and simple table rows on A4
+ * pages with automatic page breaks.
+ */
+export interface PdfLine {
+  text: string;
+  // Table rows: extra cells drawn at x offsets (points from the left margin) after `text`
+  cells?: Array<{ text: string; x: number }>;
+  size?: number;
+  bold?: boolean;
+  // Extra space before the line, in points
+  gap?: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+
+// Standard PDF fonts only cover Latin-1; replace anything else
+const toPdfText = (text: string): string =>
+  text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const layoutPages = (lines: PdfLine[]): string[] => {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size || DEFAULT_FONT_SIZE;
+    const advance = (line.gap || 0) + size * 1.4;
+
+    if (y - advance < MARGIN) {
+      pages.push(content.join('\n'));
+      content = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    y -= advance;
+    const font = line.bold ? 'F2' : 'F1';
+    for (const cell of [{ text: line.text, x: 0 }, ...(line.cells || [])]) {
+      content.push(`BT /${font} ${size} Tf ${MARGIN + cell.x} ${y.toFixed(2)} Td (${toPdfText(cell.text)}) Tj ET`);
+    }
+  }
+
+  pages.push(content.join('\n'));
+  return pages;
+};
+
+export const renderPdf = (lines: PdfLine[]): Buffer => {
+  const pages = layoutPages(lines);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a (page, content) pair per page
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((content, index) => {
+    const pageId = pageObjectIds[index];
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -4,10 +4,19 @@ export const registerSchema = Joi.object({
   phoneNumber: Joi.string().pattern(/^[+]?[0-9]{10,15}$/).required(),
   username: Joi.string().alphanum().min(3).max(32).required(),
   displayName: Joi.string().alphanum().min(3).max(50).required(),
+  referralCode: Joi.string().alphanum().length(8).optional(),
+  locale: Joi.string().max(35).optional(),
 });
 
 export const loginSchema = Joi.object({
   phoneNumber: Joi.string().pattern(/^[+]?[0-9]{10,15}$/).required(),
+  locale: Joi.string().max(35),
+});
+
+export const loginVerifySchema = Joi.object({
+  phoneNumber: Joi.string().pattern(/^[+]?[0-9]{10,15}$/).required(),
+  otp: Joi.string().pattern(/^\d{6}$/).required(),
+  deviceName: Joi.string().max(100),
 });
 
 export const videoUploadSchema = Joi.object({
@@ -26,24 +35,42 @@ export const credentialSubmissionSchema = Joi.object({
   expiryDate: Joi.date().iso().required(),
 });
 
-export const watchEventSchema = Joi.object({
-  videoId: Joi.string().uuid().required(),
-  creatorId: Joi.string().uuid().required(),
-  watchDurationSeconds: Joi.number().integer().min(5).required(),
-  category: Joi.string()
-    .valid('FINANCE', 'HEALTH', 'FITNESS', 'EDUCATION', 'ENTERTAINMENT', 'OTHER')
-    .required(),
-});
+/**
+ * Redemption schema built from the live payout catalog: the item must be active,
+ * the amount must be one of its denominations (or within its range) and the
+ * payout details its method needs must be present.
+ */
+export const buildRedemptionSchema = (
+  catalog: Array<{ id: string; method: string; denominations: number[]; min_amount: number; max_amount?: number }>
+) => {
+  const idsFor = (method: string) => catalog.filter((item) => item.method === method).map((item) => item.id);
+  const requiredFor = (ids: string[], rule: Joi.Schema) =>
+    ids.length > 0 ? rule.when('catalogItemId', { is: Joi.valid(...ids), then: Joi.required() }) : rule;
 
-export const redemptionSchema = Joi.object({
-  pointsToRedeem: Joi.number().integer().min(100).required(),
-  redemptionType: Joi.string().valid('UPI', 'GIFT_CARD', 'RECHARGE').required(),
-  upiId: Joi.string().when('redemptionType', {
-    is: 'UPI',
-    then: Joi.required(),
-    otherwise: Joi.optional(),
-  }),
-});
+  const amountRules = catalog.map((item) => ({
+    is: item.id,
+    then:
+      item.denominations.length > 0
+        ? Joi.number().valid(...item.denominations)
+        : Joi.number().min(item.min_amount).max(item.max_amount ?? Number.MAX_SAFE_INTEGER),
+  }));
+
+  return Joi.object({
+    catalogItemId: Joi.string()
+      .valid(...catalog.map((item) => item.id))
+      .required()
+      .messages({ 'any.only': 'Redemption option is not available' }),
+    amountRupees:
+      amountRules.length > 0
+        ? Joi.number().integer().positive().required().when('catalogItemId', { switch: amountRules })
+        : Joi.number().integer().positive().required(),
+    // UPI payouts go to the KYC-verified UPI ID; if sent, it must match
+    upiId: Joi.string().pattern(/^[\w.-]{2,256}@[a-zA-Z]{2,64}$/),
+    phoneNumber: requiredFor(idsFor('RECHARGE'), Joi.string().pattern(/^\+?[0-9]{10,15}$/)),
+    operator: requiredFor(idsFor('RECHARGE'), Joi.string().max(30)),
+    circle: Joi.string().max(30),
+  });
+};
 
 export const validate = (data: any, schema: Joi.Schema) => {
   const { error, value } = schema.validate(data, {
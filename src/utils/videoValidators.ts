@@ -11,3 +11,8 @@ export const videoLikeSchema = Joi.object({
 export const videoCommentSchema = Joi.object({
   comment: Joi.string().min(1).max(500).required(),
 });
+
+export const tipSchema = Joi.object({
+  points: Joi.number().integer().min(1).required(),
+  message: Joi.string().trim().max(200),
+});
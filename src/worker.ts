@@ -0,0 +1,53 @@
+import http from 'http';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { logger } from './utils/logger';
+import { loadSecrets } from './config/secrets';
+import { SmsProviderRegistry } from './sms/SmsProviderRegistry';
+import { jobScheduler } from './jobs/scheduler';
+import { closeQueues } from './jobs/queues';
+
+let healthServer: http.Server | null = null;
+
+/**
+ * Background worker entry point: registers the cron schedule and processes
+ * jobs. Run alongside the API (`npm run worker`); any number of workers can
+ * share the same Redis.
+ */
+const start = async () => {
+  loadSecrets();
+  SmsProviderRegistry.validateChain();
+  await jobScheduler.registerRepeatableJobs();
+  jobScheduler.startWorkers();
+
+  // On Cloud Run (K_SERVICE is set) the worker is a service, which must answer on $PORT
+  if (process.env.K_SERVICE && process.env.PORT) {
+    healthServer = http
+      .createServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('ok');
+      })
+      .listen(parseInt(process.env.PORT, 10));
+  }
+  logger.info('WiseReels worker running');
+};
+
+const shutdown = async (signal: string) => {
+  logger.info(`Worker received ${signal}, shutting down`);
+  try {
+    healthServer?.close();
+    await closeQueues();
+  } finally {
+    process.exit(0);
+  }
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+start().catch((error) => {
+  logger.error('Worker failed to start', error);
+  process.exit(1);
+});